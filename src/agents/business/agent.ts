@@ -1,4 +1,5 @@
 import { BusinessService } from './service';
+import { batchIdFor, runJobQueue, withProvider } from '@/lib/job-queue';
 import { Business, BusinessSearchParams, BusinessSearchResult, BusinessEnhanceResult, BusinessBatch } from './model';
 
 /**
@@ -65,12 +66,17 @@ export class BusinessAgent {
       });
     }
     
-    // Process each batch
-    const batchPromises = batches.map(batch => this.service.processBatch(batch));
-    const results = await Promise.all(batchPromises);
+    // Process each batch through the job queue; batches that keep failing keep their original details
+    const queueResult = await runJobQueue(
+      batches.map(batch => ({ key: `batch-${batch.batchIndex}`, payload: batch })),
+      batch => withProvider('openai', () => this.service.processBatch(batch)),
+      { queue: 'business-enhancement', batchId: batchIdFor('business-batches', JSON.stringify(businesses)) }
+    );
     
     // Combine all enhanced businesses
-    return results.flatMap(result => result.enhancedBusinesses);
+    return batches.flatMap(batch =>
+      queueResult.results.get(`batch-${batch.batchIndex}`)?.enhancedBusinesses || batch.businesses
+    );
   }
 
   /**
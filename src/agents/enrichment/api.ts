@@ -6,6 +6,8 @@ import { createPrompt } from './prompts';
 import { parseResponse } from './parser';
 import { extractAdditionalData } from './scoring';
 import { createFallbackData } from './utils';
+import { fieldsFromLead, recordProvenance } from './provenance';
+import { isRateLimitError } from '@/lib/job-queue/providers';
 
 /**
  * Call OpenAI API for enrichment
@@ -69,6 +71,10 @@ export async function processLeadWithAI(lead: any, websiteContent: string = ''):
     // Parse the response
     const enrichmentData = parseResponse(response, lead);
     
+    // Values the parser copied from the lead keep the lead as their source
+    recordProvenance(enrichmentData, 'lead', {}, fieldsFromLead(enrichmentData, lead));
+    recordProvenance(enrichmentData, 'llm', { sourceUrl: lead.website || undefined, content: websiteContent });
+    
     // Extract additional data from content if needed
     if (websiteContent && websiteContent.length > 200) {
       return extractAdditionalData(enrichmentData, websiteContent, lead);
@@ -76,8 +82,15 @@ export async function processLeadWithAI(lead: any, websiteContent: string = ''):
     
     return enrichmentData;
   } catch (aiError) {
+    // Rate limits are retried by the job queue rather than papered over with fallback data
+    if (isRateLimitError(aiError)) {
+      throw aiError;
+    }
+    
     console.warn(`[ENRICHMENT-AGENT] AI enrichment failed, using fallback: ${aiError}`);
     // Create fallback data if AI fails
-    return createFallbackData(lead);
+    const fallbackData = createFallbackData(lead);
+    recordProvenance(fallbackData, 'lead', {}, fieldsFromLead(fallbackData, lead));
+    return recordProvenance(fallbackData, 'fallback');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,179 @@
+/**
+ * Venue event calendars
+ *
+ * Venues publish upcoming events, busy seasons and how far ahead they are booked. The
+ * model reads dated events from the site; busy seasons and booking lead times are also
+ * picked out of the page text, as sites state them in a handful of set phrases.
+ */
+
+import { EnrichmentData, EventCalendar, PeakSeason, VenueEvent } from './types';
+
+// Events kept per venue, soonest first
+const MAX_UPCOMING_EVENTS = 10;
+
+// Lead times beyond this are taken to be a misread
+const MAX_LEAD_TIME_DAYS = 3 * 365;
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+// e.g. "Wedding season runs May through October" or "our busiest months are November-December"
+const SEASON_PATTERN = new RegExp(
+  `\\b(?:season|peak|busiest)\\b[^.!?\\n]{0,40}?\\b${MONTH}\\b\\s*(?:-|–|—|to|through|thru|until|and)\\s*${MONTH}\\b`,
+  'i'
+);
+
+// Words that say what a season is for, e.g. "wedding season"
+const SEASON_KIND = /\b(wedding|holiday|corporate|graduation|prom|festival|summer|winter|fall|autumn|spring)\b/i;
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, eighteen: 18,
+};
+
+const AMOUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})(?:\\s*(?:-|–|to)\\s*\\d+)?\\s*(day|week|month|year)s?`;
+
+// An amount of time, e.g. "6 months" or "12-18 months"; the lower bound is used
+const LEAD_TIME_PATTERN = new RegExp(`\\b${AMOUNT}\\b`, 'i');
+
+// A lead time stated on a page, e.g. "book at least 9 months in advance"
+const PAGE_LEAD_TIME_PATTERN = new RegExp(`\\b${AMOUNT}\\s+(?:in advance|ahead|prior|before|notice|out)\\b`, 'i');
+const BOOKING_CONTEXT = /\b(book|booking|bookings|booked|reserve|reservations?|plan|planning|secure|inquire|enquire)\b/i;
+
+const cleanText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ') : undefined;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// A YYYY-MM-DD date that exists, or undefined
+function cleanDate(value: unknown): string | undefined {
+  const text = cleanText(value);
+  if (!text || !/^\d{4}-\d{2}-\d{2}$/.test(text)) return undefined;
+  const date = new Date(`${text}T00:00:00Z`);
+  return !isNaN(date.getTime()) && isoDay(date) === text ? text : undefined;
+}
+
+// Month number (1-12) from a number or a month name
+function parseMonth(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isInteger(value) && value >= 1 && value <= 12 ? value : undefined;
+  const text = cleanText(value)?.toLowerCase();
+  if (!text) return undefined;
+  if (/^\d{1,2}$/.test(text)) return parseMonth(Number(text));
+  if (text.length < 3) return undefined;
+  const index = MONTH_NAMES.findIndex(name => name.startsWith(text.slice(0, 3)));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+/**
+ * Days from a lead time such as "6 months", "12-18 months" or "a year", or from a number of days
+ */
+export function parseLeadTime(value: unknown): number | undefined {
+  if (typeof value === 'number') return value > 0 && value <= MAX_LEAD_TIME_DAYS ? Math.round(value) : undefined;
+  const match = cleanText(value)?.match(LEAD_TIME_PATTERN);
+  if (!match) return undefined;
+
+  const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+  return parseLeadTime(amount * UNIT_DAYS[match[2].toLowerCase()]);
+}
+
+/**
+ * How far ahead a venue is booked, from phrases like "book 9 months in advance"
+ */
+export function extractBookingLeadTime(content: string): number | undefined {
+  const sentences = (content || '').split(/(?<=[.!?])\s+|\n/);
+  for (const sentence of sentences) {
+    const match = sentence.match(PAGE_LEAD_TIME_PATTERN);
+    if (match && BOOKING_CONTEXT.test(sentence)) {
+      const days = parseLeadTime(match[0]);
+      if (days) return days;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Busy seasons named in page text, e.g. "wedding season runs May through October"
+ */
+export function extractPeakSeasons(content: string): PeakSeason[] {
+  const seasons: PeakSeason[] = [];
+  for (const sentence of (content || '').split(/(?<=[.!?])\s+|\n/)) {
+    const match = sentence.match(SEASON_PATTERN);
+    if (!match) continue;
+
+    const kind = sentence.match(SEASON_KIND)?.[1].toLowerCase();
+    const season = {
+      name: kind ? `${kind} season` : 'peak season',
+      startMonth: parseMonth(match[1])!,
+      endMonth: parseMonth(match[2])!,
+    };
+    if (!seasons.some(other => other.startMonth === season.startMonth && other.endMonth === season.endMonth)) {
+      seasons.push(season);
+    }
+  }
+  return seasons;
+}
+
+/**
+ * Validate a calendar from another source, such as the model's answer
+ * Events need a name and a real date and are dropped once over; seasons need both months.
+ * @param now Events that ended before this day are dropped
+ * @param sourceUrl Page to record for events that do not name one
+ */
+export function normalizeEventCalendar(raw: unknown, now: Date = new Date(), sourceUrl?: string): EventCalendar {
+  const calendar = raw && typeof raw === 'object' ? raw as Record<string, any> : {};
+  const today = isoDay(now);
+
+  const events: VenueEvent[] = (Array.isArray(calendar.upcomingEvents) ? calendar.upcomingEvents : []).flatMap((item: any): VenueEvent[] => {
+    const name = cleanText(item?.name);
+    const date = cleanDate(item?.date);
+    if (!name || !date) return [];
+
+    const endDate = cleanDate(item.endDate);
+    if ((endDate && endDate > date ? endDate : date) < today) return [];
+
+    const eventType = cleanText(item.eventType ?? item.type);
+    const url = cleanText(item.sourceUrl) || sourceUrl;
+    return [{
+      name,
+      date,
+      ...(endDate && endDate > date ? { endDate } : {}),
+      ...(eventType ? { eventType } : {}),
+      ...(url ? { sourceUrl: url } : {}),
+    }];
+  });
+
+  // The same event listed on two pages is kept once
+  const sameEvent = (a: VenueEvent, b: VenueEvent) => a.date === b.date && a.name.toLowerCase() === b.name.toLowerCase();
+  const upcomingEvents = events
+    .filter((event, index) => events.findIndex(other => sameEvent(event, other)) === index)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(0, MAX_UPCOMING_EVENTS);
+
+  const peakSeasons = (Array.isArray(calendar.peakSeasons) ? calendar.peakSeasons : []).flatMap((item: any): PeakSeason[] => {
+    const startMonth = parseMonth(item?.startMonth);
+    const endMonth = parseMonth(item?.endMonth);
+    if (!startMonth || !endMonth) return [];
+    return [{ name: cleanText(item.name)?.toLowerCase() || 'peak season', startMonth, endMonth }];
+  });
+
+  const bookingLeadTimeDays = parseLeadTime(calendar.bookingLeadTimeDays ?? calendar.bookingLeadTime);
+  return { upcomingEvents, peakSeasons, ...(bookingLeadTimeDays ? { bookingLeadTimeDays } : {}) };
+}
+
+/**
+ * The venue's calendar from the model's answer, with busy seasons and the booking lead time
+ * filled in from the page text where the model gave none
+ * @returns Undefined when nothing dated or seasonal was found
+ */
+export function collectEventCalendar(data: EnrichmentData, content: string, sourceUrl?: string, now: Date = new Date()): EventCalendar | undefined {
+  const calendar = normalizeEventCalendar(data.eventCalendar, now, sourceUrl);
+  if (calendar.peakSeasons.length === 0) calendar.peakSeasons = extractPeakSeasons(content);
+  calendar.bookingLeadTimeDays ??= extractBookingLeadTime(content);
+  if (!calendar.bookingLeadTimeDays) delete calendar.bookingLeadTimeDays;
+
+  const empty = calendar.upcomingEvents.length === 0 && calendar.peakSeasons.length === 0 && !calendar.bookingLeadTimeDays;
+  return empty ? undefined : calendar;
+}
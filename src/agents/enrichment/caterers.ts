@@ -0,0 +1,95 @@
+/**
+ * Caterers a venue works with
+ *
+ * Venues spell the same caterer many ways: "Fork & Feast", "Fork and Feast Catering Co."
+ * or "The Fork & Feast, LLC". Names are reduced to a key of the words that identify the
+ * business, so lists from different venues and the user's own business name can be
+ * compared. Some venues allow a single caterer; the model names it, or the page says so.
+ */
+
+import { EnrichmentData } from './types';
+
+// Words that describe the business rather than name it
+const GENERIC_WORDS = new Set([
+  'the', 'catering', 'caterer', 'caterers', 'co', 'company', 'inc', 'incorporated', 'llc', 'ltd', 'corp',
+]);
+
+// Entries that are not a caterer, such as the prompt's example list echoed back
+const PLACEHOLDERS = new Set(['', 'none', 'n a', 'na', 'null', 'unknown', 'not listed', 'list', 'of', 'preferred', 'caterers']);
+
+// e.g. "Catering is provided exclusively by Fork & Feast" or "our sole caterer"
+const EXCLUSIVE_PATTERN = /\b(?:exclusive|sole|only approved)\s+(?:caterer|catering)\b|\bcatering\b[^.!?\n]{0,40}\bexclusively\b/i;
+
+const cleanText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ') : undefined;
+
+/**
+ * The words that identify a caterer, lowercased and without punctuation or business suffixes
+ * e.g. "The Fork & Feast Catering Co." gives "fork and feast"
+ */
+export function catererKey(name: string): string {
+  const words = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const kept = words.filter(word => !GENERIC_WORDS.has(word));
+  // A name made only of generic words, e.g. "Catering Co", is kept whole
+  return (kept.length ? kept : words).join(' ');
+}
+
+/**
+ * Whether two names are the same caterer
+ * A name also matches a longer one that contains all of its words in order, e.g. "Fork & Feast"
+ * and "Fork & Feast Events", unless the shorter key is too short to tell businesses apart.
+ */
+export function sameCaterer(a: string, b: string): boolean {
+  const [shorter, longer] = [catererKey(a), catererKey(b)].sort((x, y) => x.length - y.length);
+  if (!shorter) return false;
+  if (shorter === longer) return true;
+  return shorter.length >= 5 && ` ${longer} `.includes(` ${shorter} `);
+}
+
+/**
+ * A venue's preferred caterers with blanks, placeholders and repeats removed
+ * The first spelling of each caterer is kept.
+ */
+export function cleanCatererList(raw: unknown): string[] {
+  const names = (Array.isArray(raw) ? raw : []).map(cleanText).filter((name): name is string => !!name);
+  const kept: string[] = [];
+  for (const name of names) {
+    const key = catererKey(name);
+    if (PLACEHOLDERS.has(key) || kept.some(other => catererKey(other) === key)) continue;
+    kept.push(name);
+  }
+  return kept;
+}
+
+/**
+ * The only caterer a venue allows, if it allows just one
+ * The model's answer is used first; otherwise a page that says catering is exclusive and
+ * lists a single preferred caterer names it.
+ */
+export function findExclusiveCaterer(data: EnrichmentData, content: string): string | undefined {
+  const preferred = cleanCatererList(data.preferredCaterers);
+  const named = cleanCatererList([data.exclusiveCaterer])[0];
+  if (named) return preferred.find(caterer => sameCaterer(caterer, named)) || named;
+
+  return preferred.length === 1 && EXCLUSIVE_PATTERN.test(content || '') ? preferred[0] : undefined;
+}
+
+/**
+ * The venue's preferred caterers, and the exclusive one if it has one
+ * An exclusive caterer is always on the preferred list, with the same spelling.
+ */
+export function collectCaterers(data: EnrichmentData, content: string): { preferredCaterers: string[]; exclusiveCaterer?: string } {
+  const preferredCaterers = cleanCatererList(data.preferredCaterers);
+  const exclusiveCaterer = findExclusiveCaterer(data, content);
+  if (exclusiveCaterer && !preferredCaterers.includes(exclusiveCaterer)) preferredCaterers.unshift(exclusiveCaterer);
+  return { preferredCaterers, ...(exclusiveCaterer ? { exclusiveCaterer } : {}) };
+}
@@ -0,0 +1,244 @@
+/**
+ * Venue contacts
+ *
+ * Venues often list several people and inboxes: a wedding coordinator, a corporate sales
+ * manager, a catering office and a general info@ address. Enrichment keeps each of them
+ * with the kind of enquiry they handle, so outreach can write to the one that fits.
+ */
+
+import { ContactRole, EnrichmentData, EnrichmentSource, VenueContact } from './types';
+import { extractPhones, isPlaceholderEmail } from './utils';
+
+export const CONTACT_ROLES: ContactRole[] = ['events', 'sales', 'catering', 'general'];
+
+const SOURCES: EnrichmentSource[] = ['firecrawl', 'regex', 'llm', 'lead', 'fallback', 'manual'];
+
+type SpecificRole = Exclude<ContactRole, 'general'>;
+
+// Words in a job title or the text around an address that mark its role
+const ROLE_KEYWORDS: Record<SpecificRole, RegExp> = {
+  events: /\b(events?|weddings?|bridal|banquets?|private dining|functions?|celebrations?|parties|venue)\b/i,
+  sales: /\b(sales|corporate|groups?|meetings?|conferences?|business development|accounts?)\b/i,
+  catering: /\b(catering|caterers?|chef|culinary|kitchen|food (?:and|&) beverage)\b/i,
+};
+
+// Mailbox names that mark a role, e.g. weddings@ or groupsales@
+const ROLE_MAILBOXES: Record<SpecificRole, RegExp> = {
+  events: /event|wedding|bride|banquet|privatedining|private-dining|function|part(?:y|ies)/,
+  sales: /sales|corporate|group|meeting/,
+  catering: /cater|chef|culinary|kitchen/,
+};
+
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g;
+
+// Job titles such as "Wedding Coordinator", "Director of Sales" or "Catering Sales Manager"
+const TITLE_PATTERN = /\b(?:(?:Senior|Assistant|Private|Corporate|Group|Wedding|Weddings|Event|Events|Catering|Banquet|Banquets|Sales|General|Executive|Special|Social)\s+)*(?:Manager|Coordinator|Director|Planner|Chef|Specialist|Concierge)(?:\s+of\s+(?:Sales|Catering|Events|Weddings|Operations))?\b/;
+
+const NAME = "[A-Z][a-z'’-]+(?:\\s[A-Z][a-z'’-]+){1,2}";
+// A name just before a title, e.g. "Jordan Park, Wedding Coordinator"
+const NAME_BEFORE_TITLE = new RegExp(`(${NAME})\\s*(?:,|-|–|—|\\||\\()\\s*$`);
+// A name just after a title, e.g. "Events Manager: Jordan Park"
+const NAME_AFTER_TITLE = new RegExp(`^\\s*\\)?\\s*(?::|-|–|—|,)?\\s*(${NAME})`);
+// A line that is only a name, as on a staff card
+const NAME_LINE = new RegExp(`^(${NAME})$`);
+// Capitalized words that start a sentence or label rather than a name
+const NOT_NAME_WORD = /^(email|e-mail|phone|tel|call|contact|us|our|the|team|for|and|at|to|sales|events?|catering|weddings?|office|private|dining|meet|about)$/i;
+
+// Bundle section headers written by the crawler, e.g. "### Contact page: https://venue.com/contact (Contact)"
+const SECTION_HEADER = /^###\s.*?:\s(https?:\/\/\S+)/;
+
+// Lines above an address searched for the title of the person it belongs to
+const TITLE_LOOKBACK_LINES = 2;
+
+function earliestRole(text: string, patterns: Record<SpecificRole, RegExp>): SpecificRole | null {
+  let best: { role: SpecificRole; index: number } | null = null;
+  for (const [role, pattern] of Object.entries(patterns) as Array<[SpecificRole, RegExp]>) {
+    const index = text.search(pattern);
+    if (index >= 0 && (!best || index < best.index)) best = { role, index };
+  }
+  return best?.role ?? null;
+}
+
+/**
+ * Role of a contact from its job title, then its mailbox name, then the text around it
+ * Contacts with nothing to go on, such as info@ or hello@, are general.
+ */
+export function classifyContactRole(contact: { title?: string; email?: string; context?: string }): ContactRole {
+  const mailbox = contact.email?.split('@')[0].toLowerCase();
+  return (contact.title && earliestRole(contact.title, ROLE_KEYWORDS))
+    || (mailbox && earliestRole(mailbox, ROLE_MAILBOXES))
+    || (contact.context && earliestRole(contact.context, ROLE_KEYWORDS))
+    || 'general';
+}
+
+const cleanText = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().replace(/\s+/g, ' ') : undefined;
+
+const isName = (value: string) => value.split(/\s+/).every(word => !NOT_NAME_WORD.test(word));
+
+// Title, and the name next to it, on one line or a staff card ending at that line
+function findPerson(lines: string[], index: number): { name?: string; title?: string } {
+  for (let offset = 0; offset <= TITLE_LOOKBACK_LINES && index - offset >= 0; offset++) {
+    const line = lines[index - offset];
+    if (SECTION_HEADER.test(line) || (offset > 0 && line.search(EMAIL_PATTERN) >= 0)) break;
+
+    const title = line.match(TITLE_PATTERN);
+    if (!title) continue;
+
+    const before = line.slice(0, title.index).match(NAME_BEFORE_TITLE)?.[1];
+    const after = line.slice(title.index! + title[0].length).match(NAME_AFTER_TITLE)?.[1];
+    const above = index - offset > 0 ? lines[index - offset - 1].trim().match(NAME_LINE)?.[1] : undefined;
+    const name = [before, after, above].find(candidate => candidate && isName(candidate));
+    return { name, title: title[0] };
+  }
+  return {};
+}
+
+/**
+ * Contacts listed in page text: every address, and people named next to a job title
+ * Text from the crawler's content bundle is split by page, so each contact records the
+ * page it was on.
+ * @param sourceUrl Page the text came from, when it is not a bundle
+ */
+export function extractContacts(content: string, sourceUrl?: string): VenueContact[] {
+  if (!content) return [];
+
+  const lines = content.split('\n');
+  const contacts: VenueContact[] = [];
+  let pageUrl = sourceUrl;
+
+  lines.forEach((line, index) => {
+    const section = line.match(SECTION_HEADER);
+    if (section) {
+      pageUrl = section[1];
+      return;
+    }
+
+    const emails = [...new Set((line.match(EMAIL_PATTERN) || []).map(email => email.toLowerCase()))]
+      .filter(email => !isPlaceholderEmail(email));
+    const phone = extractPhones(line)[0]?.trim();
+    const person = findPerson(lines, index);
+
+    // A lone phone number is the venue's switchboard, already kept as eventManagerPhone
+    if (emails.length === 0 && !(phone && person.title && person.name)) return;
+
+    const context = line.replace(EMAIL_PATTERN, ' ');
+    for (const email of emails.length ? emails : [undefined]) {
+      // With several addresses on one line it is unclear whose name and title it is
+      const { name, title } = emails.length > 1 ? {} as typeof person : person;
+      contacts.push({
+        ...(name ? { name } : {}),
+        ...(title ? { title } : {}),
+        role: classifyContactRole({ title, email, context }),
+        ...(email ? { email } : {}),
+        ...(phone && emails.length <= 1 ? { phone } : {}),
+        source: 'regex',
+        ...(pageUrl ? { sourceUrl: pageUrl } : {}),
+      });
+    }
+  });
+
+  return mergeContacts(contacts);
+}
+
+/**
+ * Validate contacts from another source, such as the model's answer
+ * Entries without an email or phone are dropped. A role from the job title or mailbox name
+ * wins over the role given; a missing or unknown role is classified.
+ */
+export function normalizeContacts(raw: unknown, source: EnrichmentSource, sourceUrl?: string): VenueContact[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): VenueContact[] => {
+    if (!item || typeof item !== 'object') return [];
+
+    const email = cleanText(item.email)?.toLowerCase();
+    const validEmail = email && /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/.test(email) && !isPlaceholderEmail(email) ? email : undefined;
+    const phone = cleanText(item.phone);
+    if (!validEmail && !phone) return [];
+
+    const name = cleanText(item.name);
+    const title = cleanText(item.title);
+    const classified = classifyContactRole({ title, email: validEmail });
+    const role = classified !== 'general' || !CONTACT_ROLES.includes(item.role) ? classified : item.role;
+
+    return [{
+      ...(name ? { name } : {}),
+      ...(title ? { title } : {}),
+      role,
+      ...(validEmail ? { email: validEmail } : {}),
+      ...(phone ? { phone } : {}),
+      source: SOURCES.includes(item.source) ? item.source : source,
+      ...(cleanText(item.sourceUrl) || sourceUrl ? { sourceUrl: cleanText(item.sourceUrl) || sourceUrl } : {}),
+      ...(validEmail && item.verification?.status ? { verification: item.verification } : {}),
+    }];
+  });
+}
+
+const phoneDigits = (phone?: string) => phone?.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+
+// Same address, or with no addresses to compare, the same person or phone number
+function sameContact(a: VenueContact, b: VenueContact): boolean {
+  if (a.email && b.email) return a.email.toLowerCase() === b.email.toLowerCase();
+  if (a.name && b.name) return a.name.toLowerCase() === b.name.toLowerCase();
+  return !!a.phone && phoneDigits(a.phone) === phoneDigits(b.phone);
+}
+
+/**
+ * Combine contact lists, earlier lists first
+ * Entries for the same address or person become one; the earlier entry keeps its values
+ * and source, and gains the details it was missing.
+ */
+export function mergeContacts(...lists: Array<VenueContact[] | undefined>): VenueContact[] {
+  const merged: VenueContact[] = [];
+
+  for (const contact of lists.flatMap(list => list || [])) {
+    const existing = merged.find(other => sameContact(other, contact));
+    if (!existing) {
+      merged.push({ ...contact });
+      continue;
+    }
+
+    existing.name ||= contact.name;
+    existing.title ||= contact.title;
+    existing.email ||= contact.email;
+    existing.phone ||= contact.phone;
+    existing.sourceUrl ||= contact.sourceUrl;
+    if (existing.email && contact.email === existing.email) existing.verification ||= contact.verification;
+    if (existing.role === 'general') existing.role = contact.role;
+  }
+
+  return merged;
+}
+
+/**
+ * The event manager fields as a contact
+ * A named event manager without a telling title or mailbox handles events.
+ */
+export function eventManagerContact(data: EnrichmentData, sourceUrl?: string): VenueContact | null {
+  const [contact] = normalizeContacts([{
+    name: data.eventManagerName,
+    email: data.eventManagerEmail,
+    phone: data.eventManagerPhone,
+    source: data.provenance?.eventManagerEmail?.source || data.provenance?.eventManagerName?.source,
+    sourceUrl: data.provenance?.eventManagerEmail?.sourceUrl,
+  }], 'llm', sourceUrl);
+  if (!contact) return null;
+
+  if (contact.role === 'general' && contact.name) contact.role = 'events';
+  return contact;
+}
+
+/**
+ * Every contact found for a venue
+ * Combines the event manager fields, the contacts the model listed and the addresses and
+ * staff in the page text, merging entries for the same address or person.
+ */
+export function collectContacts(data: EnrichmentData, content: string = '', sourceUrl?: string): VenueContact[] {
+  const eventManager = eventManagerContact(data, sourceUrl);
+  return mergeContacts(
+    eventManager ? [eventManager] : [],
+    normalizeContacts(data.contacts, 'llm', sourceUrl),
+    extractContacts(content, sourceUrl)
+  );
+}
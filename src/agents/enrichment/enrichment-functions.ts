@@ -2,15 +2,31 @@
  * Core enrichment functionality
  */
 
-import { EnrichmentData, EnrichmentResult, EnrichmentResponse } from './types';
+import { EnrichmentData, EnrichmentResult, EnrichmentResponse, ScoringProfile } from './types';
 import { calculateLeadScore } from './scoring';
+import { collectContacts } from './contacts';
+import { collectEventCalendar } from './calendar';
+import { collectCaterers } from './caterers';
 import { normalizeUrl } from './utils';
 import { processLeadWithAI } from './api';
+import { MAX_WEBSITE_CONTENT_CHARS } from './prompts';
+import { fromFirecrawlExtract, mergeEnrichmentData } from './provenance';
+import { batchIdFor, isRateLimitError, runJobQueue, withProvider } from '@/lib/job-queue';
+import { getLeadsByIds, saveLeadEnrichment } from '@/lib/leads/repository';
+import { getScoringProfile } from '@/lib/leads/scoring-profiles';
+import { SavedLead } from '@/lib/db';
+import { buildContentBundle, crawlSite } from '@/lib/crawler';
+import { verifyContacts } from '@/lib/email-verification';
 
 /**
  * Main function - enrich lead data
+ * @param scoringProfile The lead owner's scoring model; the default model when omitted
  */
-export async function enrichLeadData(lead: any, extractedData: any = {}): Promise<EnrichmentResponse> {
+export async function enrichLeadData(
+  lead: any,
+  extractedData: any = {},
+  scoringProfile?: ScoringProfile
+): Promise<EnrichmentResponse> {
   console.log(`[ENRICHMENT-AGENT] Starting AI enrichment for lead: ${lead.name}`);
   
   try {
@@ -36,8 +52,30 @@ export async function enrichLeadData(lead: any, extractedData: any = {}): Promis
     // Generate enrichment data
     let enrichmentData: EnrichmentData = await processLeadWithAI(leadInfo, websiteContent);
     
+    // Combine with Firecrawl's structured extract, keeping the more trustworthy value per field
+    if (extractedData?.structuredData) {
+      enrichmentData = mergeEnrichmentData(
+        enrichmentData,
+        fromFirecrawlExtract(extractedData.structuredData, normalizeUrl(extractedData.website || leadInfo.website))
+      );
+    }
+    
+    // Keep every contact the venue lists, with the kind of enquiry each one handles
+    enrichmentData.contacts = collectContacts(enrichmentData, websiteContent, leadInfo.website || undefined);
+    
+    // Check each address can receive mail before campaigns use it
+    enrichmentData.contacts = await verifyContacts(enrichmentData.contacts);
+    
+    // Dated events, busy seasons and booking lead time, so outreach can reach venues while they plan
+    enrichmentData.eventCalendar = collectEventCalendar(enrichmentData, websiteContent, leadInfo.website || undefined);
+    
+    // Caterers the venue works with, spelled once each, and the one it requires if any
+    const { preferredCaterers, exclusiveCaterer } = collectCaterers(enrichmentData, websiteContent);
+    enrichmentData.preferredCaterers = preferredCaterers;
+    enrichmentData.exclusiveCaterer = exclusiveCaterer;
+    
     // Calculate lead score
-    enrichmentData.leadScore = calculateLeadScore(enrichmentData);
+    enrichmentData.leadScore = calculateLeadScore(enrichmentData, scoringProfile, lead);
     enrichmentData.lastUpdated = new Date().toISOString();
     
     console.log(`[ENRICHMENT-AGENT] Generated lead score: ${enrichmentData.leadScore?.score} (${enrichmentData.leadScore?.potential})`);
@@ -59,10 +97,60 @@ export async function enrichLeadData(lead: any, extractedData: any = {}): Promis
   }
 }
 
+/**
+ * Crawl a lead's website and enrich the lead from it
+ * Calls go through the Firecrawl and OpenAI limits; throws when the lead should be retried.
+ * A site crawled recently is read from the API cache unless forceRefresh is set.
+ */
+export async function enrichLeadFromWebsite(
+  lead: any,
+  websiteUrl: string,
+  scoringProfile?: ScoringProfile,
+  options: { forceRefresh?: boolean } = {}
+): Promise<EnrichmentData> {
+  // Crawl the venue's site: Firecrawl when it is available, otherwise the built-in crawler
+  let websiteContent = '';
+  let structuredData: any = null;
+  const crawl = await crawlSite(normalizeUrl(websiteUrl), { forceRefresh: options.forceRefresh });
+  
+  if (crawl.success) {
+    websiteContent = buildContentBundle(crawl.pages, MAX_WEBSITE_CONTENT_CHARS).text;
+    structuredData = crawl.structuredData || null;
+    console.log(`[EnrichmentAgent] Crawled ${crawl.pages.length} pages of ${websiteUrl} with ${crawl.crawler}`);
+  } else {
+    // Retry later when the crawlers were rate limited; other failures enrich without the content
+    if (isRateLimitError(crawl.error)) throw new Error(crawl.error);
+    console.error(`[EnrichmentAgent] Extraction failed:`, crawl.error);
+  }
+  
+  // Enrich the lead
+  const enrichmentResult = await withProvider('openai', async () => {
+    const response = await enrichLeadData(lead, { 
+      content: websiteContent,
+      website: websiteUrl,
+      structuredData
+    }, scoringProfile);
+    
+    if (!response.success || !response.enrichmentData) {
+      throw new Error(response.error || `Enrichment failed for lead ${lead.id}`);
+    }
+    return response.enrichmentData;
+  });
+  
+  return enrichmentResult;
+}
+
 /**
  * Batch enrichment function that works with the workflow manager
+ * @param leadIds Saved leads to enrich
+ * @param userId Owner of the leads; other users' leads are not loaded
+ * @param options forceRefresh crawls every website again instead of using cached extracts
  */
-export async function enrichLeads(leadIds: string[]): Promise<EnrichmentResult> {
+export async function enrichLeads(
+  leadIds: string[],
+  userId: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<EnrichmentResult> {
   try {
     // Validate input
     if (!leadIds || !Array.isArray(leadIds) || leadIds.length === 0) {
@@ -71,152 +159,74 @@ export async function enrichLeads(leadIds: string[]): Promise<EnrichmentResult>
         message: 'No valid leadIds provided.'
       };
     }
-
+    
     console.log(`[EnrichmentAgent] Processing ${leadIds.length} leads for enrichment`);
-
-    // Fetch the leads from the API instead of direct Supabase access
-    let leads;
+    
+    // Load the leads from the leads repository
+    let leads: SavedLead[];
     try {
       console.log(`[EnrichmentAgent] Fetching leads with IDs: ${leadIds.join(', ')}`);
-      const response = await fetch('/api/leads/batch', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ leadIds }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to fetch leads: ${response.status} - ${errorText}`);
-      }
-
-      const data = await response.json();
-      leads = data.leads;
-      console.log(`[EnrichmentAgent] Successfully fetched ${leads?.length || 0} leads`);
+      leads = await getLeadsByIds(userId, leadIds);
+      console.log(`[EnrichmentAgent] Successfully fetched ${leads.length} leads`);
     } catch (fetchError) {
       console.error('[EnrichmentAgent] Exception fetching leads:', fetchError);
       return { 
         success: false, 
-        message: 'Failed to fetch leads from API',
+        message: 'Failed to fetch leads',
         error: fetchError instanceof Error ? fetchError.message : String(fetchError)
       };
     }
-
-    if (!leads || leads.length === 0) {
+    
+    if (leads.length === 0) {
       return {
         success: false,
         message: 'No leads found with the provided IDs'
       };
     }
-
-    // Track results for response
-    const results = {
-      processed: 0,
-      successful: 0,
-      failed: 0,
-      skipped: 0,
-      errors: [] as string[]
-    };
-
-    // Process each lead
-    const enrichedBusinesses = await Promise.all(
-      leads.map(async (lead: any) => {
-        try {
-          results.processed++;
-          
-          // Get the website URL
-          const websiteUrl = lead.company_website || lead.website_url;
-          
-          if (!websiteUrl) {
-            results.skipped++;
-            return { id: lead.id, status: 'skipped', reason: 'No website URL' };
-          }
-          
-          // Extract website content
-          let websiteContent = '';
-          try {
-            const { firecrawlTool } = await import('@/tools/firecrawl');
-            
-            const result = await firecrawlTool.extract({
-              urls: [normalizeUrl(websiteUrl)],
-              formats: ["markdown", "text"],
-              timeout: 120000, // 2 minutes
-              waitTime: 5000
-            });
-            
-            if (result.success && result.data) {
-              websiteContent = firecrawlTool.extractContent(result.data);
-            }
-          } catch (extractError) {
-            console.error(`[EnrichmentAgent] Extraction failed:`, extractError);
-          }
-          
-          // Enrich the lead
-          const enrichmentResult = await enrichLeadData(lead, { 
-            content: websiteContent,
-            website: websiteUrl
-          });
-          
-          if (!enrichmentResult.success || !enrichmentResult.enrichmentData) {
-            results.failed++;
-            results.errors.push(`Lead ${lead.id}: ${enrichmentResult.error}`);
-            return { id: lead.id, status: 'failed', error: enrichmentResult.error };
-          }
-          
-          // Update the lead via API
-          const updateResponse = await fetch('/api/leads/update', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              leadId: lead.id,
-              enrichment_data: enrichmentResult.enrichmentData,
-              status: 'enriched',
-              lead_score: enrichmentResult.enrichmentData.leadScore?.score,
-              lead_score_label: enrichmentResult.enrichmentData.leadScore?.potential
-            }),
-          });
-          
-          if (!updateResponse.ok) {
-            results.failed++;
-            const errorText = await updateResponse.text();
-            results.errors.push(`Lead ${lead.id}: Failed to update`);
-            return { id: lead.id, status: 'failed', error: `Update failed: ${errorText}` };
-          }
-          
-          const updatedLead = await updateResponse.json();
-          results.successful++;
-          
-          return updatedLead.lead || {
-            ...lead,
-            enrichment_data: enrichmentResult.enrichmentData,
-            status: 'enriched',
-            lead_score: enrichmentResult.enrichmentData?.leadScore?.score,
-            lead_score_label: enrichmentResult.enrichmentData?.leadScore?.potential
-          };
-        } catch (error) {
-          results.failed++;
-          results.errors.push(`Lead ${lead.id}: ${error instanceof Error ? error.message : String(error)}`);
-          return { id: lead.id, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    
+    // Score with the user's own scoring profile
+    const scoringProfile = await getScoringProfile(userId);
+    
+    // Enrich through the job queue: limited per provider, retried with backoff, resumable by lead set
+    const queueResult = await runJobQueue(
+      leads.map(lead => ({ key: lead.id, payload: lead })),
+      async (lead): Promise<any> => {
+        // Get the website URL
+        const websiteUrl = lead.company_website || lead.website_url;
+        
+        if (!websiteUrl) {
+          return { id: lead.id, status: 'skipped', reason: 'No website URL' };
         }
-      })
+        
+        const enrichmentData = await enrichLeadFromWebsite(lead, websiteUrl, scoringProfile, options);
+        
+        // Save the results on the lead
+        return saveLeadEnrichment(userId, lead.id, enrichmentData, scoringProfile);
+      },
+      {
+        queue: 'lead-enrichment',
+        // A forced refresh is new work, not a rerun to resume
+        batchId: batchIdFor('lead-enrichment', userId, ...leads.map(lead => lead.id).sort(), ...(options.forceRefresh ? [`refresh-${Date.now()}`] : [])),
+      }
     );
     
+    const enrichedBusinesses = Array.from(queueResult.results.values());
+    const skipped = enrichedBusinesses.filter(business => business.status === 'skipped').length;
+    const errors = queueResult.deadLettered.map(letter => `Lead ${letter.key}: ${letter.error}`);
+    
     return {
       success: true,
       message: 'Enrichment process completed.',
       results: {
-        processed: results.processed,
-        succeeded: results.successful,
-        total: results.processed,
-        successful: results.successful,
-        failed: results.failed,
-        skipped: results.skipped,
-        errors: results.errors.length > 0 ? results.errors : undefined
+        processed: leads.length,
+        succeeded: enrichedBusinesses.length - skipped,
+        total: leads.length,
+        successful: enrichedBusinesses.length - skipped,
+        failed: queueResult.deadLettered.length,
+        skipped,
+        errors: errors.length > 0 ? errors : undefined
       },
-      enrichedBusinesses: enrichedBusinesses.filter(business => business.status !== 'failed')
+      enrichedBusinesses
     };
   } catch (err) {
     console.error('[EnrichmentAgent] Unexpected error:', err);
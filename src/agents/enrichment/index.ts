@@ -3,6 +3,10 @@
  */
 
 export { enrichmentAgent } from './agent';
-export { enrichLeadData, enrichLeads } from './enrichment-functions';
+export { enrichLeadData, enrichLeadFromWebsite, enrichLeads } from './enrichment-functions';
 export { normalizeUrl, extractEmails, extractPhones } from './utils';
-export type { EnrichmentData, EnrichmentResult, EnrichmentResponse } from './types'; 
\ No newline at end of file
+export { calculateLeadScore, DEFAULT_SCORING_PROFILE, normalizeScoringProfile } from './scoring';
+export { classifyContactRole, collectContacts, extractContacts, mergeContacts } from './contacts';
+export { catererKey, cleanCatererList, collectCaterers, findExclusiveCaterer, sameCaterer } from './caterers';
+export { collectEventCalendar, extractBookingLeadTime, extractPeakSeasons, normalizeEventCalendar, parseLeadTime } from './calendar';
+export type { ContactRole, EnrichmentData, EnrichmentResult, EnrichmentResponse, EnrichmentSource, EventCalendar, FieldProvenance, PeakSeason, ScoringProfile, ScoringWeights, VenueContact, VenueEvent } from './types'; 
\ No newline at end of file
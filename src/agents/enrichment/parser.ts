@@ -28,13 +28,16 @@ export function parseResponse(response: string, leadInfo: any): any {
       eventManagerName: parsedData.eventManagerName || parsedData.contact_name,
       eventManagerEmail: parsedData.eventManagerEmail || parsedData.contact_email || leadInfo.email,
       eventManagerPhone: parsedData.eventManagerPhone || parsedData.contact_phone || leadInfo.phone,
+      contacts: Array.isArray(parsedData.contacts) ? parsedData.contacts : [],
       website: parsedData.website || leadInfo.website,
       commonEventTypes: parsedData.commonEventTypes || parsedData.event_types || [],
+      eventCalendar: parsedData.eventCalendar && typeof parsedData.eventCalendar === 'object' ? parsedData.eventCalendar : undefined,
       venueCapacity: typeof parsedData.venueCapacity === 'number' ? parsedData.venueCapacity : null,
       inHouseCatering: typeof parsedData.inHouseCatering === 'boolean' ? parsedData.inHouseCatering : null,
       amenities: parsedData.amenities || [],
       pricingInformation: parsedData.pricingInformation || parsedData.pricing_info || '',
-      preferredCaterers: parsedData.preferredCaterers || []
+      preferredCaterers: parsedData.preferredCaterers || [],
+      exclusiveCaterer: typeof parsedData.exclusiveCaterer === 'string' ? parsedData.exclusiveCaterer : undefined
     };
     
     return result;
@@ -2,8 +2,12 @@
  * Prompt templates for enrichment agent
  */
 
+// Website content beyond this is cut; the crawler's content bundle is built to fit it
+export const MAX_WEBSITE_CONTENT_CHARS = 12000;
+
 /**
  * Create a prompt for the AI model to analyze a business
+ * Website content is normally the crawler's bundle: one section per page, contact pages first.
  */
 export function createPrompt(leadInfo: any, websiteContent: string = ''): string {
   return `You are analyzing a venue business for a catering company.
@@ -17,7 +21,7 @@ ${leadInfo.website ? `Website: ${leadInfo.website}` : ''}
 ${leadInfo.phone ? `Phone: ${leadInfo.phone}` : ''}
 ${leadInfo.email ? `Email: ${leadInfo.email}` : ''}
 
-${websiteContent ? 'WEBSITE CONTENT (extract):\n' + websiteContent.substring(0, 3000) + (websiteContent.length > 3000 ? '...(content truncated)' : '') : 'No website content available.'}
+${websiteContent ? 'WEBSITE CONTENT (extract):\n' + websiteContent.substring(0, MAX_WEBSITE_CONTENT_CHARS) + (websiteContent.length > MAX_WEBSITE_CONTENT_CHARS ? '...(content truncated)' : '') : 'No website content available.'}
 
 YOUR MOST IMPORTANT TASK is to find contact emails! Look very carefully for email addresses in the website content.
 Specifically search for patterns like name@domain.com throughout the text.
@@ -29,6 +33,16 @@ Common titles to look for: "Event Manager", "Event Coordinator", "Event Director
 
 Search for phrases like "For event inquiries, contact..." or "To schedule an event, email..."
 
+Venues often list several contacts, such as a wedding coordinator, a corporate sales manager, a catering office
+and a general info@ inbox. List every person or inbox you find under "contacts", with their job title and the kind
+of enquiry they handle: "events" (weddings, private events), "sales" (corporate and group bookings),
+"catering" or "general".
+
+Venues often publish upcoming events (open houses, tastings, holiday markets), the seasons they are busiest and how
+far ahead events should be booked. Today is ${new Date().toISOString().slice(0, 10)}. List dated upcoming events under
+"eventCalendar" with full dates, the busy seasons with their first and last month, and the booking lead time as
+written, e.g. "9-12 months". Leave out events without a date and do not guess.
+
 Provide a response in valid JSON format:
 {
   "venueName": "name of the venue",
@@ -37,11 +51,14 @@ Provide a response in valid JSON format:
   "eventManagerName": "contact person name if found (especially event coordinator/manager)",
   "eventManagerEmail": "contact email (VERY IMPORTANT, search thoroughly for email addresses)",
   "eventManagerPhone": "contact phone number with area code",
+  "contacts": [{"name": "person's name or null", "title": "job title or null", "role": "events, sales, catering or general", "email": "email or null", "phone": "phone or null"}],
   "commonEventTypes": ["types", "of", "events", "they", "host"],
+  "eventCalendar": {"upcomingEvents": [{"name": "event name", "date": "YYYY-MM-DD", "endDate": "YYYY-MM-DD or null", "eventType": "kind of event or null"}], "peakSeasons": [{"name": "e.g. wedding season", "startMonth": 1-12, "endMonth": 1-12}], "bookingLeadTime": "how far ahead events are booked, or null"},
   "venueCapacity": number of people they can accommodate or null,
   "inHouseCatering": boolean or null (whether they provide their own catering),
   "amenities": ["list", "of", "amenities"],
   "pricingInformation": "pricing details if available",
-  "preferredCaterers": ["list", "of", "preferred", "caterers"] 
+  "preferredCaterers": ["list", "of", "preferred", "caterers"],
+  "exclusiveCaterer": "name of the only caterer the venue allows, or null"
 }`;
 } 
\ No newline at end of file
@@ -0,0 +1,184 @@
+/**
+ * Provenance tracking for enriched fields
+ *
+ * Every enriched value records where it came from, the page and text it was found in,
+ * how confident we are in it and when it was extracted, so reps can tell a contact
+ * email copied from the venue's site from one the model guessed.
+ */
+
+import { EnrichmentData, EnrichmentSource } from './types';
+
+// Fields whose origin is tracked
+export const PROVENANCE_FIELDS = [
+  'venueName',
+  'aiOverview',
+  'eventManagerName',
+  'eventManagerEmail',
+  'eventManagerPhone',
+  'commonEventTypes',
+  'inHouseCatering',
+  'venueCapacity',
+  'amenities',
+  'pricingInformation',
+  'preferredCaterers',
+  'website',
+] as const;
+
+export type ProvenanceField = typeof PROVENANCE_FIELDS[number];
+
+// Starting confidence for a value from each source
+export const SOURCE_CONFIDENCE: Record<EnrichmentSource, number> = {
+  lead: 0.8, // Saved with the lead, e.g. from Google Places
+  firecrawl: 0.75, // Firecrawl's schema extract of the venue's site
+  regex: 0.5, // Pattern match in the page text, with no context
+  llm: 0.5, // Model reading the page text
+  fallback: 0.2, // Placeholder written when enrichment failed
+  manual: 1, // Corrected by the user; see lib/leads/overrides
+};
+
+// Adjustment when a value is, or is not, found in the page text it was taken from
+const VERBATIM_ADJUSTMENT = 0.2;
+// Bonus when two sources agree on a value
+const AGREEMENT_BONUS = 0.1;
+const MAX_CONFIDENCE = 0.95;
+const SNIPPET_RADIUS = 60;
+
+export interface ProvenanceContext {
+  sourceUrl?: string;
+  content?: string; // Page text the values were taken from
+  extractedAt?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function hasValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+// Text to look for in the page; booleans and long prose cannot be matched verbatim
+function searchableText(value: unknown): string | null {
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string' && value.length <= 120) return value.trim();
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0].trim();
+  return null;
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  String(JSON.stringify(a)).toLowerCase() === String(JSON.stringify(b)).toLowerCase();
+
+/**
+ * Text surrounding a value in page content, or undefined if the value does not appear
+ */
+export function findSnippet(content: string | undefined, value: unknown): string | undefined {
+  const text = searchableText(value);
+  if (!content || !text) return undefined;
+
+  const index = content.toLowerCase().indexOf(text.toLowerCase());
+  if (index === -1) return undefined;
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + text.length + SNIPPET_RADIUS);
+  const snippet = content.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < content.length ? '…' : ''}`;
+}
+
+/**
+ * Record the source of fields that have a value but no provenance yet
+ * @param data Enrichment data from a single source; updated in place
+ * @param fields Fields to attribute; defaults to every tracked field
+ */
+export function recordProvenance(
+  data: EnrichmentData,
+  source: EnrichmentSource,
+  context: ProvenanceContext = {},
+  fields: readonly string[] = PROVENANCE_FIELDS
+): EnrichmentData {
+  const provenance = data.provenance || {};
+  const extractedAt = context.extractedAt || new Date().toISOString();
+
+  for (const field of fields) {
+    if (!hasValue(data[field]) || provenance[field]) continue;
+
+    let confidence = SOURCE_CONFIDENCE[source];
+    const snippet = findSnippet(context.content, data[field]);
+    if (snippet) {
+      confidence += VERBATIM_ADJUSTMENT;
+    } else if (context.content && searchableText(data[field]) && source === 'llm') {
+      // The model returned something that is not on the page it read
+      confidence -= VERBATIM_ADJUSTMENT;
+    }
+
+    provenance[field] = {
+      source,
+      ...(context.sourceUrl ? { sourceUrl: context.sourceUrl } : {}),
+      ...(snippet ? { snippet } : {}),
+      confidence: round(Math.min(MAX_CONFIDENCE, Math.max(0, confidence))),
+      extractedAt,
+    };
+  }
+
+  data.provenance = provenance;
+  return data;
+}
+
+/**
+ * Fields whose value was copied from the saved lead rather than found during enrichment
+ */
+export function fieldsFromLead(data: EnrichmentData, leadInfo: any): string[] {
+  const leadValues: Partial<Record<ProvenanceField, unknown>> = {
+    venueName: leadInfo.name,
+    eventManagerEmail: leadInfo.email,
+    eventManagerPhone: leadInfo.phone,
+    website: leadInfo.website,
+  };
+
+  return Object.entries(leadValues)
+    .filter(([field, value]) => hasValue(value) && sameValue(data[field], value))
+    .map(([field]) => field);
+}
+
+/**
+ * Merge enrichment data from another source
+ * Each field keeps the more confident value; when both sources agree, confidence goes up
+ */
+export function mergeEnrichmentData(base: EnrichmentData, incoming: EnrichmentData): EnrichmentData {
+  const merged: EnrichmentData = { ...base, provenance: { ...base.provenance } };
+
+  for (const field of PROVENANCE_FIELDS) {
+    const value: any = incoming[field];
+    const incomingProvenance = incoming.provenance?.[field];
+    if (!hasValue(value) || !incomingProvenance) continue;
+
+    const current = merged.provenance![field];
+    if (!hasValue(merged[field]) || !current) {
+      merged[field] = value;
+      merged.provenance![field] = incomingProvenance;
+    } else if (sameValue(merged[field], value)) {
+      const stronger = incomingProvenance.confidence > current.confidence ? incomingProvenance : current;
+      merged.provenance![field] = {
+        ...stronger,
+        snippet: stronger.snippet || current.snippet || incomingProvenance.snippet,
+        confidence: round(Math.min(MAX_CONFIDENCE, Math.max(current.confidence, incomingProvenance.confidence) + AGREEMENT_BONUS)),
+      };
+    } else if (incomingProvenance.confidence > current.confidence) {
+      merged[field] = value;
+      merged.provenance![field] = incomingProvenance;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Tracked fields of a Firecrawl schema extract, attributed to Firecrawl
+ */
+export function fromFirecrawlExtract(extracted: any, sourceUrl: string): EnrichmentData {
+  const data: EnrichmentData = {};
+  if (!extracted || typeof extracted !== 'object') return data;
+
+  for (const field of PROVENANCE_FIELDS) {
+    if (hasValue(extracted[field])) data[field] = extracted[field];
+  }
+  return recordProvenance(data, 'firecrawl', { sourceUrl });
+}
@@ -2,77 +2,218 @@
  * Lead scoring functionality
  */
 
-import { EnrichmentData } from './types';
+import { EnrichmentData, ScoringProfile, ScoringWeights } from './types';
+import { extractEmails, extractPhones, extractVenueCapacity } from './utils';
+import { mergeEnrichmentData, recordProvenance } from './provenance';
+import { sameCaterer } from './caterers';
+
+// Scoring model used when a user has not set up their own. Matches the original fixed weights,
+// except that venues with an exclusive caterer other than the user's lose exclusiveCaterer points
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  weights: {
+    email: 25,
+    phone: 10,
+    contactName: 5,
+    capacity: 15,
+    eventTypes: 10,
+    pricing: 5,
+    noInHouseCatering: 25,
+    inHouseCatering: 5,
+    website: 5,
+    detailedDescription: 5,
+    targetEventType: 10,
+    outsideMaxDistance: 20,
+    preferredCaterers: 0,
+    exclusiveCaterer: 30,
+  },
+  minCapacity: 50,
+  thresholds: { high: 70, medium: 40 },
+  targetEventTypes: [],
+  maxDistanceMiles: null,
+  origin: null,
+  businessName: null,
+};
+
+const MAX_WEIGHT = 100;
 
 /**
- * Calculate lead score based on enrichment data
+ * Fill in a partial scoring profile from the defaults
+ * Throws with a message fit for the user when a value is out of range
  */
-export function calculateLeadScore(enrichmentData: any) {
-  let score = 0;
-  const reasons: string[] = [];
-  
-  // Contact information (up to 35 points) - crucial for lead scoring
-  if (enrichmentData.eventManagerEmail) {
-    score += 25; // Higher weight for email
-    reasons.push('Has contact email');
+export function normalizeScoringProfile(input: any = {}): ScoringProfile {
+  const defaults = DEFAULT_SCORING_PROFILE;
+  const weights = { ...defaults.weights };
+
+  for (const key of Object.keys(weights) as Array<keyof ScoringWeights>) {
+    const value = input.weights?.[key];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_WEIGHT) {
+      throw new Error(`Weight ${key} must be a number from 0 to ${MAX_WEIGHT}`);
+    }
+    weights[key] = value;
   }
-  
-  if (enrichmentData.eventManagerPhone) {
-    score += 10;
-    reasons.push('Has contact phone');
+
+  const thresholds = { ...defaults.thresholds, ...input.thresholds };
+  if (!(thresholds.medium > 0 && thresholds.medium < thresholds.high && thresholds.high <= 100)) {
+    throw new Error('Thresholds must satisfy 0 < medium < high <= 100');
   }
-  
-  if (enrichmentData.eventManagerName) {
-    score += 5;
-    reasons.push('Has contact name');
+
+  const minCapacity = input.minCapacity ?? defaults.minCapacity;
+  if (typeof minCapacity !== 'number' || minCapacity < 0) {
+    throw new Error('Minimum capacity must be a positive number');
   }
-  
-  // Event hosting capabilities (up to 30 points)
-  if (enrichmentData.venueCapacity && enrichmentData.venueCapacity > 50) {
-    score += 15;
-    reasons.push(`Venue capacity: ${enrichmentData.venueCapacity}`);
+
+  const maxDistanceMiles = input.maxDistanceMiles ?? null;
+  if (maxDistanceMiles !== null && (typeof maxDistanceMiles !== 'number' || maxDistanceMiles <= 0)) {
+    throw new Error('Maximum distance must be a positive number of miles');
   }
+
+  const origin = input.origin && Number.isFinite(input.origin.lat) && Number.isFinite(input.origin.lng)
+    ? { lat: input.origin.lat, lng: input.origin.lng }
+    : null;
+
+  return {
+    weights,
+    minCapacity,
+    thresholds,
+    targetEventTypes: Array.isArray(input.targetEventTypes)
+      ? input.targetEventTypes.map((type: unknown) => String(type).trim().toLowerCase()).filter(Boolean)
+      : [],
+    maxDistanceMiles,
+    origin,
+    businessName: typeof input.businessName === 'string' && input.businessName.trim() ? input.businessName.trim() : null,
+  };
+}
+
+/**
+ * Great-circle distance between two points, in miles
+ */
+export function distanceInMiles(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Coordinates saved with a lead, if any
+function leadCoordinates(lead: any, enrichmentData: any): { lat: number; lng: number } | null {
+  const lat = lead?.latitude ?? lead?.location?.lat ?? enrichmentData?.coordinates?.lat;
+  const lng = lead?.longitude ?? lead?.location?.lng ?? enrichmentData?.coordinates?.lng;
+  if (lat === undefined || lat === null || lng === undefined || lng === null) return null;
+
+  const point = { lat: Number(lat), lng: Number(lng) };
+  return Number.isFinite(point.lat) && Number.isFinite(point.lng) ? point : null;
+}
+
+// Criteria that take points away when met
+export const PENALTY_WEIGHTS: ReadonlyArray<keyof ScoringWeights> = ['preferredCaterers', 'exclusiveCaterer', 'outsideMaxDistance'];
+
+export interface ScoringCriterion {
+  weight: keyof ScoringWeights;
+  reason: string;
+}
+
+/**
+ * Scoring criteria a lead meets, whatever their weight in the profile
+ * @param lead The saved lead, used for its location when the profile limits distance
+ */
+export function matchScoringCriteria(
+  enrichmentData: any,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  lead?: any
+): ScoringCriterion[] {
+  const criteria: ScoringCriterion[] = [];
+  const met = (weight: keyof ScoringWeights, reason: string) => criteria.push({ weight, reason });
   
-  if (enrichmentData.commonEventTypes && enrichmentData.commonEventTypes.length > 0) {
-    score += 10;
-    reasons.push(`Hosts events: ${enrichmentData.commonEventTypes.join(', ')}`);
-  }
+  // Contact information - crucial for lead scoring
+  if (enrichmentData.eventManagerEmail) met('email', 'Has contact email');
+  if (enrichmentData.eventManagerPhone) met('phone', 'Has contact phone');
+  if (enrichmentData.eventManagerName) met('contactName', 'Has contact name');
   
-  if (enrichmentData.pricingInformation) {
-    score += 5;
-    reasons.push('Pricing information available');
+  // Event hosting capabilities
+  if (enrichmentData.venueCapacity && enrichmentData.venueCapacity > profile.minCapacity) {
+    met('capacity', `Venue capacity: ${enrichmentData.venueCapacity}`);
   }
   
-  // Catering relationship (up to 25 points)
+  const eventTypes: string[] = Array.isArray(enrichmentData.commonEventTypes) ? enrichmentData.commonEventTypes : [];
+  if (eventTypes.length > 0) met('eventTypes', `Hosts events: ${eventTypes.join(', ')}`);
+  
+  // Event types the user sells to
+  const targets = eventTypes.filter(type =>
+    profile.targetEventTypes.some(target => type.toLowerCase().includes(target))
+  );
+  if (targets.length > 0) met('targetEventType', `Hosts target events: ${targets.join(', ')}`);
+  
+  if (enrichmentData.pricingInformation) met('pricing', 'Pricing information available');
+  
+  // Catering relationship: venues without in-house catering are better leads,
+  // venues with it may still need backup
   if (enrichmentData.inHouseCatering === false) {
-    // Venues without in-house catering are better leads
-    score += 25;
-    reasons.push('No in-house catering (potential for partnership)');
+    met('noInHouseCatering', 'No in-house catering (potential for partnership)');
   } else if (enrichmentData.inHouseCatering === true) {
-    // Venues with in-house catering may still need backup
-    score += 5;
-    reasons.push('Has in-house catering');
+    met('inHouseCatering', 'Has in-house catering');
   }
   
-  // Website/data quality (up to 10 points)
-  if (enrichmentData.website) {
-    score += 5;
-    reasons.push('Has functional website');
+  // Venues that only work with a list of caterers are harder to win, unless the user is on it;
+  // a venue that allows a single caterer other than the user is harder still
+  const preferredCaterers: string[] = Array.isArray(enrichmentData.preferredCaterers) ? enrichmentData.preferredCaterers : [];
+  const exclusiveCaterer: string | undefined = enrichmentData.exclusiveCaterer || undefined;
+  const isUs = (caterer: string) => !!profile.businessName && sameCaterer(caterer, profile.businessName);
+  if (exclusiveCaterer && !isUs(exclusiveCaterer)) {
+    met('exclusiveCaterer', `Exclusive caterer: ${exclusiveCaterer}`);
+  } else if (!exclusiveCaterer && preferredCaterers.length > 0 && !preferredCaterers.some(isUs)) {
+    met('preferredCaterers', 'Has a preferred caterer list');
   }
   
+  // Website/data quality
+  if (enrichmentData.website) met('website', 'Has functional website');
   if (enrichmentData.aiOverview && enrichmentData.aiOverview.length > 100) {
-    score += 5;
-    reasons.push('Has detailed venue description');
+    met('detailedDescription', 'Has detailed venue description');
+  }
+  
+  // Service area; leads without a known location are not penalized
+  const coordinates = leadCoordinates(lead, enrichmentData);
+  if (profile.maxDistanceMiles && profile.origin && coordinates) {
+    const distance = distanceInMiles(profile.origin, coordinates);
+    if (distance > profile.maxDistanceMiles) {
+      met('outsideMaxDistance', `Outside service area (${Math.round(distance)} miles away)`);
+    }
   }
   
-  // Cap score at 100
-  score = Math.min(score, 100);
+  return criteria;
+}
+
+/**
+ * Calculate lead score based on enrichment data
+ * @param profile The user's scoring model; defaults to DEFAULT_SCORING_PROFILE
+ * @param lead The saved lead, used for its location when the profile limits distance
+ */
+export function calculateLeadScore(
+  enrichmentData: any,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  lead?: any
+) {
+  let score = 0;
+  const reasons: string[] = [];
+  
+  for (const criterion of matchScoringCriteria(enrichmentData, profile, lead)) {
+    const points = profile.weights[criterion.weight];
+    if (!points) continue;
+    
+    score += PENALTY_WEIGHTS.includes(criterion.weight) ? -points : points;
+    reasons.push(criterion.reason);
+  }
+  
+  // Keep score between 0 and 100
+  score = Math.max(0, Math.min(score, 100));
   
   // Determine potential level
   let potential: 'high' | 'medium' | 'low' = 'low';
-  if (score >= 70) {
+  if (score >= profile.thresholds.high) {
     potential = 'high';
-  } else if (score >= 40) {
+  } else if (score >= profile.thresholds.medium) {
     potential = 'medium';
   }
   
@@ -86,14 +227,21 @@ export function calculateLeadScore(enrichmentData: any) {
 
 /**
  * Extract additional data from website content
+ * Emails, phone numbers and capacity found by pattern matching fill gaps in the AI's answer,
+ * or replace values the AI returned that do not appear on the page
  */
 export function extractAdditionalData(data: EnrichmentData, content: string, leadInfo: any): EnrichmentData {
   try {
-    // We'll pull extraction functions from utils.ts
-    // This is a placeholder to avoid circular dependencies
-    return data;
+    const found: EnrichmentData = {
+      eventManagerEmail: extractEmails(content)[0],
+      eventManagerPhone: extractPhones(content)[0]?.trim(),
+      venueCapacity: extractVenueCapacity(content) ?? undefined
+    };
+    
+    recordProvenance(found, 'regex', { sourceUrl: leadInfo.website || undefined, content });
+    return mergeEnrichmentData(data, found);
   } catch (error) {
     console.error('[ENRICHMENT-AGENT] Error in extractAdditionalData:', error);
     return data;
   }
-} 
\ No newline at end of file
+}
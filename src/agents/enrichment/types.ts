@@ -2,6 +2,72 @@
  * Types for enrichment functionality
  */
 
+import type { EmailVerification } from '@/lib/email-verification/status';
+
+/**
+ * Where an enriched value came from
+ */
+export type EnrichmentSource = 'firecrawl' | 'regex' | 'llm' | 'lead' | 'fallback' | 'manual';
+
+/**
+ * Record of how one enriched field was obtained
+ */
+export interface FieldProvenance {
+  source: EnrichmentSource;
+  sourceUrl?: string; // Page or site the value was extracted from
+  snippet?: string; // Text around the value on that page
+  confidence: number; // 0-1
+  extractedAt: string;
+}
+
+/**
+ * Kind of enquiry a venue contact handles
+ */
+export type ContactRole = 'events' | 'sales' | 'catering' | 'general';
+
+/**
+ * A person or inbox listed by a venue, e.g. a wedding coordinator or info@
+ */
+export interface VenueContact {
+  name?: string;
+  title?: string; // Job title as written on the site
+  role: ContactRole;
+  email?: string;
+  phone?: string;
+  source: EnrichmentSource;
+  sourceUrl?: string; // Page the contact was found on
+  verification?: EmailVerification; // Deliverability of the email, checked during enrichment
+}
+
+/**
+ * A dated event a venue advertises, e.g. an open house or a holiday market
+ */
+export interface VenueEvent {
+  name: string;
+  date: string; // YYYY-MM-DD
+  endDate?: string; // Last day of a multi-day event
+  eventType?: string;
+  sourceUrl?: string; // Page the event was listed on
+}
+
+/**
+ * A stretch of the year when a venue is busiest, e.g. wedding season
+ */
+export interface PeakSeason {
+  name: string;
+  startMonth: number; // 1-12
+  endMonth: number; // 1-12; before startMonth when the season runs over the new year
+}
+
+/**
+ * When a venue hosts events and how far ahead they are booked
+ */
+export interface EventCalendar {
+  upcomingEvents: VenueEvent[]; // Soonest first
+  peakSeasons: PeakSeason[];
+  bookingLeadTimeDays?: number; // How far ahead events are typically booked
+}
+
 /**
  * Enrichment data structure for venues
  */
@@ -11,12 +77,15 @@ export interface EnrichmentData {
   eventManagerName?: string;
   eventManagerEmail?: string;
   eventManagerPhone?: string;
+  contacts?: VenueContact[]; // Everyone the venue lists, including the event manager
   commonEventTypes?: string[];
+  eventCalendar?: EventCalendar; // Dated events, busy seasons and booking lead time
   inHouseCatering?: boolean;
   venueCapacity?: number;
   amenities?: string[] | string;
   pricingInformation?: string;
   preferredCaterers?: string[];
+  exclusiveCaterer?: string; // The only caterer the venue allows; also on preferredCaterers
   website?: string;
   leadScore?: {
     score: number;
@@ -25,9 +94,43 @@ export interface EnrichmentData {
     lastCalculated: string;
   };
   lastUpdated?: string;
+  provenance?: Record<string, FieldProvenance>; // By field name, e.g. eventManagerEmail
   [key: string]: any;
 }
 
+/**
+ * Points awarded (or, for penalties, taken away) for each scoring criterion
+ */
+export interface ScoringWeights {
+  email: number;
+  phone: number;
+  contactName: number;
+  capacity: number; // Capacity above minCapacity
+  eventTypes: number; // Hosts any events
+  pricing: number;
+  noInHouseCatering: number;
+  inHouseCatering: number;
+  website: number;
+  detailedDescription: number;
+  targetEventType: number; // Hosts one of targetEventTypes
+  outsideMaxDistance: number; // Penalty when the venue is beyond maxDistanceMiles
+  preferredCaterers: number; // Penalty when the venue has a preferred caterer list the user is not on
+  exclusiveCaterer: number; // Penalty when the venue allows only one caterer and it is not the user
+}
+
+/**
+ * A user's scoring model; weights and cutoffs default to DEFAULT_SCORING_PROFILE
+ */
+export interface ScoringProfile {
+  weights: ScoringWeights;
+  minCapacity: number;
+  thresholds: { high: number; medium: number }; // Lowest score for each potential
+  targetEventTypes: string[]; // Event types the user sells to, e.g. weddings
+  maxDistanceMiles: number | null;
+  origin: { lat: number; lng: number } | null; // Where distance is measured from
+  businessName: string | null; // Matched against venues' preferred caterer lists
+}
+
 /**
  * Result interface for batch operations
  */
@@ -21,6 +21,24 @@ export function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Whether an address is a template placeholder or no-reply address rather than a real contact
+ */
+export function isPlaceholderEmail(email: string): boolean {
+  return email.includes('example.com') || 
+      email.includes('yourdomain.com') || 
+      email.includes('domain.com') || 
+      email.includes('@email') ||
+      email.includes('your@') ||
+      email.includes('user@') ||
+      email.includes('name@') ||
+      email.includes('email@') ||
+      email.includes('info@example') ||
+      email.includes('test@') ||
+      email.includes('username@') ||
+      email.includes('no-reply@');
+}
+
 /**
  * Extract emails from content
  */
@@ -31,21 +49,7 @@ export function extractEmails(content: string): string[] {
   const matches = content.match(emailPattern) || [];
   
   // Filter out common false positives
-  const filteredEmails = [...new Set(matches)].filter(email => {
-    // Skip common false positives
-    return !(email.includes('example.com') || 
-        email.includes('yourdomain.com') || 
-        email.includes('domain.com') || 
-        email.includes('@email') ||
-        email.includes('your@') ||
-        email.includes('user@') ||
-        email.includes('name@') ||
-        email.includes('email@') ||
-        email.includes('info@example') ||
-        email.includes('test@') ||
-        email.includes('username@') ||
-        email.includes('no-reply@'));
-  });
+  const filteredEmails = [...new Set(matches)].filter(email => !isPlaceholderEmail(email));
   
   // Try to find event-related emails first
   const eventEmails = filteredEmails.filter(email => 
@@ -1,5 +1,21 @@
+import { createHash } from 'crypto';
 import { OutreachService } from './service';
-import { CateringProfile, OutreachOptions, EmailCampaignResult } from './model';
+import { CateringProfile, OutreachOptions, EmailTemplate, VenueInsights } from './model';
+import { mapWithConcurrency } from '@/lib/utils';
+
+// Personalized openers are reused while the template and venue research are unchanged
+const PERSONALIZATION_CACHE_TTL = 24 * 60 * 60 * 1000;
+const PERSONALIZATION_CACHE_MAX_ENTRIES = 500;
+const DEFAULT_PERSONALIZATION_CONCURRENCY = 3;
+
+const personalizationCache = new Map<string, { template: EmailTemplate; timestamp: number }>();
+
+function personalizationCacheKey(leadId: string, template: EmailTemplate, venue: VenueInsights): string {
+  const { subject, preheader, textBody } = template;
+  return createHash('sha256')
+    .update(JSON.stringify({ leadId, subject, preheader, textBody, venue }))
+    .digest('hex');
+}
 
 /**
  * OutreachAgent handles email campaign generation for catering businesses
@@ -23,7 +39,7 @@ export class OutreachAgent {
     category: string,
     profile?: CateringProfile,
     options?: OutreachOptions
-  ): Promise<string[]> {
+  ): Promise<EmailTemplate[]> {
     try {
       const result = await this.service.generateCampaign(category, profile, options);
       
@@ -38,4 +54,50 @@ export class OutreachAgent {
       throw error;
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Personalize a category's opening email for each venue, a few at a time
+   * 
+   * @param template The category's opening email
+   * @param venues Lead ids with the venue research to personalize from
+   * @param concurrency Maximum number of model calls in flight
+   * @returns Personalized templates by lead id; leads that failed are left out so the caller can fall back
+   */
+  async personalizeOpeningEmails(
+    template: EmailTemplate,
+    venues: Array<{ leadId: string; venue: VenueInsights }>,
+    concurrency: number = DEFAULT_PERSONALIZATION_CONCURRENCY
+  ): Promise<Map<string, EmailTemplate>> {
+    const personalized = new Map<string, EmailTemplate>();
+    
+    const results = await mapWithConcurrency(venues, concurrency, async ({ leadId, venue }) => {
+      const cacheKey = personalizationCacheKey(leadId, template, venue);
+      const cached = personalizationCache.get(cacheKey);
+      if (cached) {
+        // Expired entries are dropped; fresh ones are re-inserted so the least recently used go first
+        personalizationCache.delete(cacheKey);
+        if (Date.now() - cached.timestamp < PERSONALIZATION_CACHE_TTL) {
+          personalizationCache.set(cacheKey, cached);
+          return cached.template;
+        }
+      }
+      
+      const result = await this.service.personalizeOpeningEmail(template, venue);
+      personalizationCache.set(cacheKey, { template: result, timestamp: Date.now() });
+      if (personalizationCache.size > PERSONALIZATION_CACHE_MAX_ENTRIES) {
+        personalizationCache.delete(personalizationCache.keys().next().value!);
+      }
+      return result;
+    });
+    
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        personalized.set(venues[index].leadId, result.value);
+      } else {
+        console.error(`Error personalizing opening email for ${venues[index].venue.name}:`, result.reason);
+      }
+    });
+    
+    return personalized;
+  }
+}
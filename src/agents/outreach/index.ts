@@ -14,7 +14,9 @@ export type {
   OutreachOptions,
   EmailCampaign,
   EmailCampaignResult,
-  SeasonalContext
+  EmailTemplate,
+  SeasonalContext,
+  VenueInsights
 } from './model';
 
 // Create and export a singleton instance for convenient access
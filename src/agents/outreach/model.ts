@@ -2,6 +2,11 @@
  * Outreach model definitions for the outreach agent
  */
 
+import type { EmailTemplate } from "@/types/email";
+import type { EventCalendar } from "@/agents/enrichment/types";
+
+export type { EmailTemplate };
+
 export interface CateringProfile {
   companyName?: string;
   description?: string;
@@ -28,19 +33,35 @@ export interface OutreachOptions {
   leads?: any[];
 }
 
+// What enrichment learned about a venue, used to personalize its opening email
+export interface VenueInsights {
+  name: string;
+  category: string;
+  aiOverview?: string;
+  commonEventTypes?: string[];
+  preferredCaterers?: string[];
+  exclusiveCaterer?: string; // The only caterer the venue allows
+  inHouseCatering?: boolean;
+  eventManagerName?: string;
+  eventCalendar?: EventCalendar;
+  sendDate?: string; // Day the opening email goes out (YYYY-MM-DD), if not today
+}
+
 export interface SeasonalContext {
   season: string;
   upcomingHolidays: string[];
+  venuePlanningFor?: string; // Busy season or event the venue is booking now, from its event calendar
+  venueEvents?: string[]; // The venue's own events in the coming months
 }
 
 export interface EmailCampaign {
   category: string;
-  emailTemplates: string[];
+  emailTemplates: EmailTemplate[];
   generatedAt: Date;
 }
 
 export interface EmailCampaignResult {
   success: boolean;
-  emails: string[];
+  emails: EmailTemplate[];
   error?: string;
 } 
\ No newline at end of file
@@ -1,5 +1,9 @@
 import OpenAI from "openai";
-import { CateringProfile, OutreachOptions, SeasonalContext, EmailCampaignResult } from "./model";
+import { CateringProfile, OutreachOptions, SeasonalContext, EmailCampaignResult, EmailTemplate, VenueInsights } from "./model";
+import { generatedEmailSchema, parseGeneratedTemplates, updateEmailTemplate } from "@/lib/email-templates";
+import { MERGE_FIELDS } from "@/lib/merge-fields";
+import { describeLeadTime, planningFor, upcomingVenueEvents } from "@/lib/leads/seasonality";
+import type { EventCalendar } from "@/agents/enrichment/types";
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -11,8 +15,9 @@ const openai = new OpenAI({
 export class OutreachService {
   /**
    * Helper function to get current season and upcoming holidays
+   * With a venue's event calendar, also what the venue is planning for on that date
    */
-  getSeasonalContext(date: Date = new Date()): SeasonalContext {
+  getSeasonalContext(date: Date = new Date(), calendar?: EventCalendar): SeasonalContext {
     const month = date.getMonth();
     
     // Determine season
@@ -58,7 +63,17 @@ export class OutreachService {
       upcomingHolidays.push(...holidayMap[monthAfterNext]);
     }
     
-    return { season, upcomingHolidays };
+    if (!calendar) {
+      return { season, upcomingHolidays };
+    }
+    
+    const venueEvents = upcomingVenueEvents(calendar, date);
+    return {
+      season,
+      upcomingHolidays,
+      venuePlanningFor: planningFor(calendar, date)?.name,
+      ...(venueEvents.length ? { venueEvents } : {})
+    };
   }
 
   /**
@@ -127,7 +142,7 @@ export class OutreachService {
     weekSpan: number = 12,
     useStreaming: boolean = false,
     leads: any[] = []
-  ): Promise<string[]> {
+  ): Promise<EmailTemplate[]> {
     // Format profile information for the prompt
     const companyName = profile?.companyName || "Your Catering Company";
     const description = profile?.description || "We specialize in creating memorable dining experiences with fresh, locally-sourced ingredients and exceptional service.";
@@ -186,16 +201,23 @@ export class OutreachService {
       • The FIRST EMAIL must follow this exact format:
         "Hi!
 
-        I hope you're doing well. I'm [Contact Person Name], [Contact Person Title] of [Business Name], located at [Location]. We've spent [Years Experience] perfecting our craft, and we'd love to bring our passion for delicious food and catering to your next event.
+        I hope you're doing well. I'm {{sender.contact_name | "the team"}}, ${contactPersonTitle} of {{sender.business_name}}, located at {{sender.address}}. {{#if sender.years_experience}}We've spent {{sender.years_experience}} years perfecting our craft, and we'd{{else}}We'd{{/if}} love to bring our passion for delicious food and catering to your next event.
 
-        If you have something on the calendar soon, I'd be delighted to chat about how we can help. Just reply to this email or book a 15-minute call at this link [Calendar Link] to learn more.
+        If you have something on the calendar soon, I'd be delighted to chat about how we can help. Just reply to this email{{#if sender.calendar_link}} or book a 15-minute call at {{sender.calendar_link}}{{/if}} to learn more.
 
         Best,
-        [Contact Person Name]
-        [Contact Person Title]
-        [Business Name]
-        [Phone Number]
-        [Email]"
+        {{sender.contact_name | sender.business_name}}
+        ${contactPersonTitle}
+        {{sender.business_name}}
+        {{sender.phone | sender.email | sender.website}}"
+
+      MERGE FIELDS:
+      Use these merge fields for links, contact details and venue details instead of [bracket] placeholders.
+      They are filled in for each venue when the email is sent:
+      ${MERGE_FIELDS.map(field => `{{${field.key}}} - ${field.label}`).join('\n      ')}
+      • Give optional fields a fallback: {{sender.calendar_link | "just reply to this email"}}
+      • Or include text only when a field has a value: {{#if enrichment.venue_capacity}}...{{/if}}
+      • Never invent merge fields that are not in this list
 
       EACH EMAIL MUST:
       • Stay around 150 words or fewer (concise and focused)
@@ -233,18 +255,25 @@ export class OutreachService {
          - Do NOT use the word "elevate" in any subject line
          - EXACTLY 2 emails must reference a holiday/seasonal event in both the subject line and email content
       2. Length: Must stay around 150 words or fewer
-      3. DO NOT use [Lead Name] placeholders - these emails will be sent to general info@ addresses
-
-      FORMAT YOUR RESPONSE WITH:
-      Subject Line 1: [SUBJECT LINE]
-
-      [FULL EMAIL 1 CONTENT]
-
-      Subject Line 2: [SUBJECT LINE]
+      3. DO NOT address the recipient by name - these emails will be sent to general info@ addresses
 
-      [FULL EMAIL 2 CONTENT]
+      FORMAT YOUR RESPONSE AS A JSON OBJECT:
+      {
+        "emails": [
+          {
+            "subject": "Subject line, under 60 characters",
+            "preheader": "Inbox preview text that complements the subject, under 100 characters",
+            "body": "Full plain-text email, starting with Hi! and ending with the signature",
+            "theme": "introduction",
+            "ctaType": "call"
+          }
+        ]
+      }
 
-      And so on for all ${templateCount} emails...
+      • Return exactly ${templateCount} emails, in sequence order
+      • "theme" must be one of: introduction, services, testimonials, promotion, seasonal, concerns, last_call, follow_up (matching themes 1-8 above)
+      • "ctaType" must be one of: call (15-minute phone call), reply (question to reply to), tasting (book a tasting)
+      • Separate paragraphs in "body" with a blank line
     `;
     
     // Make API call to generate the emails
@@ -257,6 +286,7 @@ export class OutreachService {
         ],
         temperature: 0.7,
         max_tokens: 4000,
+        response_format: { type: "json_object" },
       });
       
       const gptOutput = completion.choices[0]?.message?.content || "";
@@ -265,31 +295,106 @@ export class OutreachService {
         throw new Error("No output generated from OpenAI");
       }
       
-      return this.splitIntoEmails(gptOutput);
+      const templates = parseGeneratedTemplates(gptOutput);
+      
+      if (templates.length !== templateCount) {
+        console.warn(`Expected ${templateCount} emails for ${category}, model returned ${templates.length}`);
+      }
+      
+      return templates;
     } catch (error) {
       console.error("Error in OpenAI call:", error);
       throw error;
     }
   }
-
   /**
-   * Split the OpenAI response into individual emails
+   * Rewrite a category's opening email for one venue using what enrichment found out about it
+   * The model keeps the template's merge fields and signature; only the subject, preheader and body change
    */
-  private splitIntoEmails(gptOutput: string): string[] {
-    // Regex to match email sections
-    const emailPattern = /Subject Line \d+: (.*?)(?:\n\n)([\s\S]*?)(?=\n\nSubject Line \d+:|$)/g;
-    const emails: string[] = [];
+  async personalizeOpeningEmail(
+    template: EmailTemplate,
+    venue: VenueInsights
+  ): Promise<EmailTemplate> {
+    const sendDate = venue.sendDate ? new Date(venue.sendDate) : new Date();
+    const seasonal = this.getSeasonalContext(sendDate, venue.eventCalendar);
+    const leadTimeDays = venue.eventCalendar?.bookingLeadTimeDays;
+    
+    const venueFacts = [
+      `Venue: ${venue.name}`,
+      `Venue type: ${venue.category}`,
+      venue.aiOverview ? `Overview: ${venue.aiOverview}` : "",
+      venue.commonEventTypes?.length ? `Events they host: ${venue.commonEventTypes.join(", ")}` : "",
+      venue.preferredCaterers?.length ? `Caterers they already work with: ${venue.preferredCaterers.join(", ")}` : "",
+      venue.exclusiveCaterer ? `Only caterer the venue allows: ${venue.exclusiveCaterer}` : "",
+      venue.inHouseCatering !== undefined ? `In-house catering: ${venue.inHouseCatering ? "yes" : "no"}` : "",
+      venue.eventManagerName ? `Event manager: ${venue.eventManagerName}` : "",
+      seasonal.venuePlanningFor ? `Currently booking: ${seasonal.venuePlanningFor}` : "",
+      seasonal.venueEvents?.length ? `Upcoming events at the venue: ${seasonal.venueEvents.join(", ")}` : "",
+      leadTimeDays ? `Events are booked about ${describeLeadTime(leadTimeDays)} ahead` : "",
+    ].filter(Boolean).join("\n      ");
     
-    let match;
-    while ((match = emailPattern.exec(gptOutput)) !== null) {
-      const subjectLine = match[1].trim();
-      const emailBody = match[2].trim();
+    const systemPrompt = `
+      You are a professional copywriter personalizing the first email of a catering outreach sequence for one venue.
       
-      // Format email with subject line and body
-      const formattedEmail = `Subject: ${subjectLine}\n\n${emailBody}`;
-      emails.push(formattedEmail);
+      SEND DATE: ${sendDate.toISOString().slice(0, 10)}
+      SEASON: ${seasonal.season}
+      
+      VENUE RESEARCH:
+      ${venueFacts}
+      
+      ORIGINAL EMAIL:
+      Subject: ${template.subject}
+      Preheader: ${template.preheader}
+      Body:
+      ${template.textBody}
+      
+      YOUR TASK:
+      • Rewrite the subject line (under 60 characters) so it speaks to this venue
+      • Rewrite the opening paragraph to reference one or two specific facts from the venue research
+      • If the venue is booking a busy season or has an event coming up, tie the email to it rather than to generic holidays
+      • If the venue works with other caterers or has in-house catering, position us as a complement, never criticize them
+      • Greet the event manager by first name if one is listed, otherwise start with "Hi!"
+      • Keep the rest of the email, the call to action and the signature as they are
+      • Keep every {{...}} merge field exactly as written and do not add new ones or [bracket] placeholders
+      • Stay around 150 words or fewer
+      
+      FORMAT YOUR RESPONSE AS A JSON OBJECT:
+      {
+        "subject": "Personalized subject line",
+        "preheader": "Inbox preview text, under 100 characters",
+        "body": "Full plain-text email, paragraphs separated by a blank line"
+      }
+    `;
+    
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4-turbo",
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: `Personalize the opening email for ${venue.name}.` }
+      ],
+      temperature: 0.7,
+      max_tokens: 1000,
+      response_format: { type: "json_object" },
+    });
+    
+    const gptOutput = completion.choices[0]?.message?.content || "";
+    
+    let json: unknown;
+    try {
+      json = JSON.parse(gptOutput);
+    } catch {
+      throw new Error(`Personalization for ${venue.name} returned invalid JSON`);
+    }
+    
+    const result = generatedEmailSchema.pick({ subject: true, preheader: true, body: true }).safeParse(json);
+    if (!result.success) {
+      throw new Error(`Personalization for ${venue.name} returned an unexpected format: ${result.error.issues[0]?.message}`);
     }
     
-    return emails;
+    return updateEmailTemplate(template, {
+      subject: result.data.subject,
+      preheader: result.data.preheader,
+      textBody: result.data.body,
+    });
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -3,10 +3,10 @@
  * Please import from '@/agents/outreach' instead.
  */
 
-import outreachAgent, { type CateringProfile, type OutreachOptions } from './outreach';
+import outreachAgent, { type CateringProfile, type EmailTemplate, type OutreachOptions } from './outreach';
 
 // Template cache for storing generated emails
-export const templateCache: Record<string, { templates: string[]; timestamp: number }> = {};
+export const templateCache: Record<string, { templates: EmailTemplate[]; timestamp: number }> = {};
 
 /**
  * Generate a drip campaign for a specific business category
@@ -21,7 +21,7 @@ export async function generateDripCampaign(
   category: string,
   profile?: CateringProfile,
   options?: OutreachOptions
-): Promise<string[]> {
+): Promise<EmailTemplate[]> {
   // Add results to cache
   const normalizedCategory = category.toLowerCase().trim();
   const cacheKey = `category:${normalizedCategory}`;
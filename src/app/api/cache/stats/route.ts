@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { auth } from '@/auth';
+import { getCacheStats } from '@/lib/api-cache';
+
+/**
+ * GET /api/cache/stats - Hits and misses of the Places details and Firecrawl cache
+ * Counts are stored with the cache, so they cover every server instance.
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, data: await getCacheStats() });
+  } catch (error: any) {
+    console.error('Error fetching cache stats:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch cache stats: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
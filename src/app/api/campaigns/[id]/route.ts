@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@/auth';
+import { validate as isUuid } from 'uuid';
+import { db } from '@/lib/db';
+
+/**
+ * GET /api/campaigns/[id] - Inspect one of the authenticated user's campaigns
+ * 
+ * Returns the campaign with its template and lead snapshots, the queued
+ * emails and a count of queued emails by status. Ids that are not UUIDs
+ * cannot match a campaign and get a 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await params;
+    const campaign = isUuid(id) ? await db.campaigns.get(id, user.id) : null;
+    
+    if (!campaign) {
+      return NextResponse.json(
+        { success: false, error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+    
+    const emails = await db.scheduledEmails.getByCampaignId(campaign.id);
+    
+    const statusCounts: Record<string, number> = {};
+    for (const email of emails) {
+      statusCounts[email.status] = (statusCounts[email.status] || 0) + 1;
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        campaign,
+        emails,
+        statusCounts
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching campaign:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch campaign: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
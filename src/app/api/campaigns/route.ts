@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { auth } from '@/auth';
+import { db } from '@/lib/db';
+
+/**
+ * GET /api/campaigns - List the authenticated user's campaigns, newest first
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const campaigns = await db.campaigns.getByUserId(user.id);
+    
+    // Keep the list light: counts instead of the full template and lead snapshots
+    const summaries = campaigns.map(({ approved_templates, lead_roster, ...campaign }) => ({
+      ...campaign,
+      leadCount: lead_roster?.length || 0,
+      templateCount: Object.values(approved_templates || {})
+        .reduce((sum, templates) => sum + (templates?.length || 0), 0)
+    }));
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        campaigns: summaries,
+        count: summaries.length
+      }
+    });
+  } catch (error: any) {
+    console.error('Error fetching campaigns:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch campaigns: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,102 +1,38 @@
 import { NextResponse } from 'next/server';
-import { jobStorage } from '../../url/route';
+import { auth } from '@/auth';
+import { describeJob, getJob } from '@/lib/enrichment/job-store';
 
 export async function GET(
   request: Request,
-  { params }: { params: { jobId: string } }
+  { params }: { params: Promise<{ jobId: string }> }
 ) {
   try {
-    console.log(`[ENRICHMENT] Received status request for job: ${params.jobId}`);
-    
     // Get job ID from params
-    const { jobId } = params;
+    const { jobId } = await params;
+    console.log(`[ENRICHMENT] Received status request for job: ${jobId}`);
     
-    // Check if global job storage exists
-    if (!global.jobStorage) {
-      console.log(`[ENRICHMENT] No job storage found, job ${jobId} not found`);
-      return NextResponse.json(
-        { error: 'Job not found' },
-        { status: 404 }
-      );
-    }
-    
-    // Get job data
-    const jobData = global.jobStorage.get(jobId);
-    console.log(`[ENRICHMENT] Retrieved job data for ${jobId}: ${jobData ? 'found' : 'not found'}`);
+    // Jobs started by a signed-in user are only visible to that user
+    const { user } = await auth();
+    const job = await getJob(jobId, user?.id || null);
+    console.log(`[ENRICHMENT] Retrieved job data for ${jobId}: ${job ? 'found' : 'not found'}`);
     
-    if (!jobData) {
+    if (!job) {
       return NextResponse.json(
         { error: 'Job not found' },
         { status: 404 }
       );
     }
     
-    // Calculate progress percentage based on status
-    let progress = 0;
-    switch (jobData.status) {
-      case 'validating':
-        progress = 5;
-        break;
-      case 'extracting':
-        progress = 20;
-        break;
-      case 'processing':
-        progress = 50;
-        break;
-      case 'generating':
-        progress = 80;
-        break;
-      case 'complete':
-        progress = 100;
-        break;
-      case 'error':
-        progress = 0;
-        break;
-      default:
-        progress = 0;
-    }
-    
-    // Calculate elapsed time
-    const elapsedMs = Date.now() - jobData.startedAt.getTime();
-    const elapsedSeconds = Math.floor(elapsedMs / 1000);
-    
-    // Calculate estimated time remaining (rough estimate)
-    // Only relevant if not complete or error
-    let estimatedRemainingSeconds = null;
-    if (jobData.status !== 'complete' && jobData.status !== 'error' && progress > 0) {
-      // Assuming linear progress, estimate remaining time
-      const totalEstimatedSeconds = (elapsedSeconds / progress) * 100;
-      estimatedRemainingSeconds = Math.max(1, Math.floor(totalEstimatedSeconds - elapsedSeconds));
-    }
-    
-    // Return appropriate response based on job status
-    if (jobData.status === 'error') {
-      return NextResponse.json({
-        status: 'error',
-        jobId,
-        message: jobData.message || 'An error occurred during processing',
-        progress,
-        elapsed: elapsedSeconds,
-        error: jobData.error
-      });
-    } else if (jobData.status === 'complete') {
-      console.log(`[ENRICHMENT] Returning complete status for job ${jobId}`);
-      return NextResponse.json({
-        status: 'complete',
-        jobId,
-        progress,
-        elapsed: elapsedSeconds,
-        result: jobData.result
-      });
-    } else {
+    // Error responses always carry a message for the client to show
+    const status = describeJob(job);
+    if (job.status === 'error') {
       return NextResponse.json({
-        status: jobData.status,
-        jobId,
-        progress,
-        elapsed: elapsedSeconds,
-        estimated_remaining: estimatedRemainingSeconds
+        ...status,
+        message: status.message || 'An error occurred during processing'
       });
     }
+    
+    return NextResponse.json(status);
   } catch (error) {
     console.error('[ENRICHMENT] Error retrieving job status:', error);
     return NextResponse.json(
@@ -104,4 +40,4 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
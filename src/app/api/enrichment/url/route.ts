@@ -1,26 +1,7 @@
 import { NextResponse } from 'next/server';
-import { v4 as uuidv4 } from 'uuid';
 import axios from 'axios';
-
-// Simple in-memory storage for jobs
-declare global {
-  var jobStorage: Map<string, {
-    url: string;
-    status: string;
-    result?: any;
-    message?: string;
-    startedAt: Date;
-    error?: any;
-  }>;
-}
-
-// Initialize job storage
-if (!global.jobStorage) {
-  global.jobStorage = new Map();
-}
-
-// Use the global storage
-const jobStorage = global.jobStorage;
+import { auth } from '@/auth';
+import { beginJob, completeJob, createJob, describeJob, failJob, getJob, setJobStep } from '@/lib/enrichment/job-store';
 
 export async function POST(request: Request) {
   try {
@@ -44,16 +25,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'URL is required' }, { status: 400 });
     }
     
-    // Create a unique job ID
-    const jobId = uuidv4();
-    console.log(`[ENRICHMENT] Creating new job ${jobId} for URL: ${url}`);
+    // Jobs belong to the signed-in user, if there is one
+    const { user } = await auth();
     
-    // Store the job in memory
-    jobStorage.set(jobId, {
-      url,
-      status: 'processing',
-      startedAt: new Date()
-    });
+    // Store the job so any instance can report its progress
+    const job = await createJob(url, user?.id || null);
+    const jobId = job.id;
+    console.log(`[ENRICHMENT] Created job ${jobId} for URL: ${url}`);
     
     // Start the enrichment process in the background
     startEnrichmentProcess(jobId, url);
@@ -74,11 +52,10 @@ async function startEnrichmentProcess(jobId: string, url: string) {
   try {
     console.log(`[ENRICHMENT] Starting enrichment process for job ${jobId}`);
     
+    await beginJob(jobId);
+    
     // Update status to extracting
-    jobStorage.set(jobId, {
-      ...jobStorage.get(jobId)!,
-      status: 'extracting'
-    });
+    await setJobStep(jobId, 'extracting');
     
     // Step 1: Use Firecrawl to extract data from the URL
     let extractedData = null;
@@ -155,6 +132,7 @@ async function startEnrichmentProcess(jobId: string, url: string) {
     }
     
     // Step 2: Process with OpenAI for overview and scoring if needed
+    await setJobStep(jobId, 'generating');
     let enhancedData = extractedData || {};
     
     if (extractedData) {
@@ -179,23 +157,18 @@ async function startEnrichmentProcess(jobId: string, url: string) {
     const finalResult = formatResult(url, enhancedData);
     
     // Update job with the result
-    jobStorage.set(jobId, {
-      ...jobStorage.get(jobId)!,
-      status: 'complete',
-      result: finalResult
-    });
+    await completeJob(jobId, finalResult);
     
     console.log(`[ENRICHMENT] Job ${jobId} completed successfully`);
     
   } catch (error) {
     console.error(`[ENRICHMENT] Error in enrichment process for job ${jobId}:`, error);
     
-    jobStorage.set(jobId, {
-      ...jobStorage.get(jobId)!,
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
-      message: 'An error occurred during the enrichment process'
-    });
+    try {
+      await failJob(jobId, error instanceof Error ? error.message : 'Unknown error');
+    } catch (storeError) {
+      console.error(`[ENRICHMENT] Failed to record error for job ${jobId}:`, storeError);
+    }
   }
 }
 
@@ -396,21 +369,15 @@ export async function GET(request: Request) {
     }
     
     // Get job from storage
-    const job = jobStorage.get(jobId);
+    const { user } = await auth();
+    const job = await getJob(jobId, user?.id || null);
     
     if (!job) {
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
     
     // Return job details
-    return NextResponse.json({
-      jobId,
-      status: job.status,
-      result: job.result,
-      message: job.message,
-      error: job.error,
-      startedAt: job.startedAt
-    });
+    return NextResponse.json(describeJob(job));
   } catch (error) {
     console.error('[ENRICHMENT] Error getting job status:', error);
     return NextResponse.json(
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { db } from '@/lib/db';
+import { LEAD_OUTCOMES, recordLeadOutcome } from '@/lib/leads/calibration';
+
+/**
+ * PUT /api/leads/[id]/outcome - Record how outreach to a lead turned out
+ * Expected request body:
+ * {
+ *   outcome: 'booked' | 'replied' | 'no_response' | 'rejected',
+ *   campaignId?: string
+ * }
+ * Replaces any outcome recorded before; replies are recorded automatically.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await params;
+    const { outcome, campaignId } = await request.json();
+    
+    if (!LEAD_OUTCOMES.includes(outcome)) {
+      return NextResponse.json(
+        { success: false, error: `outcome must be one of: ${LEAD_OUTCOMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const recorded = await recordLeadOutcome(user.id, id, outcome, campaignId);
+    
+    if (!recorded) {
+      return NextResponse.json(
+        { success: false, error: 'Lead not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, outcome: recorded });
+  } catch (error: any) {
+    console.error('Error recording lead outcome:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to record outcome: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/leads/[id]/outcome - Clear a lead's outcome
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await params;
+    await db.leadOutcomes.remove(user.id, id);
+    
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error clearing lead outcome:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to clear outcome: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
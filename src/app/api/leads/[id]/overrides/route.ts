@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { parseOverrideValue } from '@/lib/leads/overrides';
+import { clearLeadOverride, setLeadOverride } from '@/lib/leads/repository';
+
+/**
+ * PUT /api/leads/[id]/overrides - Lock a field of a lead to a value the user entered
+ * Expected request body:
+ * {
+ *   field: string, // e.g. contact_email or enrichment.venueCapacity
+ *   value: any
+ * }
+ * Returns the lead with its overrides applied. Enrichment never changes a locked field.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await params;
+    const { field, value } = await request.json();
+    
+    let parsed;
+    try {
+      parsed = parseOverrideValue(field, value);
+    } catch (error: any) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    const lead = await setLeadOverride(user.id, id, field, parsed);
+    
+    if (!lead) {
+      return NextResponse.json(
+        { success: false, error: 'Lead not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, lead });
+  } catch (error: any) {
+    console.error('Error saving lead override:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to save override: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/leads/[id]/overrides?field=<field> - Unlock a field
+ * The value from the latest enrichment is shown again and later enrichment can update it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { id } = await params;
+    const field = request.nextUrl.searchParams.get('field');
+    
+    if (!field) {
+      return NextResponse.json(
+        { success: false, error: 'field is required' },
+        { status: 400 }
+      );
+    }
+    
+    const lead = await clearLeadOverride(user.id, id, field);
+    
+    if (!lead) {
+      return NextResponse.json(
+        { success: false, error: 'Lead not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, lead });
+  } catch (error: any) {
+    console.error('Error removing lead override:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to remove override: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getLeadsByIds } from '@/lib/leads/repository';
+
+// Most leads a client can fetch in one request
+const MAX_BATCH_SIZE = 200;
+
+/**
+ * API route to fetch several of the user's saved leads at once
+ * Expected request body:
+ * {
+ *   leadIds: string[]
+ * }
+ * Leads are returned in the order requested; ids that are not found are listed in `missing`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await auth();
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { leadIds } = body;
+
+    if (!Array.isArray(leadIds) || leadIds.length === 0 || !leadIds.every(id => typeof id === 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'leadIds must be a non-empty array of lead IDs' },
+        { status: 400 }
+      );
+    }
+
+    if (leadIds.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_BATCH_SIZE} leads can be fetched at once` },
+        { status: 400 }
+      );
+    }
+
+    const leads = await getLeadsByIds(user.id, leadIds);
+    const found = new Set(leads.map(lead => lead.id));
+
+    return NextResponse.json({
+      success: true,
+      leads,
+      count: leads.length,
+      missing: leadIds.filter((id: string) => !found.has(id))
+    });
+  } catch (error: any) {
+    console.error('Unhandled error in leads/batch API:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `An unexpected error occurred: ${error.message || 'Unknown error'}`
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getCalibrationReport } from '@/lib/leads/calibration';
+
+/**
+ * GET /api/leads/calibration - Compare lead scores with recorded outcomes
+ * Returns conversion and engagement rates by score bucket and potential, and suggested
+ * weights for the user's scoring profile.
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const report = await getCalibrationReport(user.id);
+    
+    return NextResponse.json({ success: true, report });
+  } catch (error: any) {
+    console.error('Error building calibration report:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to build calibration report: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getCompetitorReport } from '@/lib/leads/competitors';
+
+/**
+ * GET /api/leads/competitors - Report on the caterers venues prefer across the user's saved leads
+ * Includes which venues and categories each competitor holds, venues that allow only one
+ * caterer, and venues whose preferred list already includes the user.
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const report = await getCompetitorReport(user.id);
+    
+    return NextResponse.json({ success: true, report });
+  } catch (error: any) {
+    console.error('Error building competitor report:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to build competitor report: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
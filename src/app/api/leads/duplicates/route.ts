@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { getDuplicateGroups, mergeLeads } from '@/lib/leads/merge';
+
+/**
+ * GET /api/leads/duplicates - List groups of the user's leads that look like the same venue
+ * Leads match on Google place id, website domain, phone number, or similar name and address.
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const groups = await getDuplicateGroups(user.id);
+    
+    return NextResponse.json({ success: true, groups });
+  } catch (error: any) {
+    console.error('Error finding duplicate leads:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to find duplicates: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/leads/duplicates - Merge duplicate leads into the one the user keeps
+ * Expected request body:
+ * {
+ *   primaryId: string, // Lead to keep
+ *   duplicateIds: string[] // Leads folded into it, then deleted
+ * }
+ * Enrichment data, notes, overrides, outcomes and campaign history move to the kept lead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { primaryId, duplicateIds } = await request.json();
+    
+    if (typeof primaryId !== 'string' || !Array.isArray(duplicateIds)) {
+      return NextResponse.json(
+        { success: false, error: 'primaryId and duplicateIds are required' },
+        { status: 400 }
+      );
+    }
+    
+    if (!duplicateIds.some(id => id && id !== primaryId)) {
+      return NextResponse.json(
+        { success: false, error: 'Choose at least one other lead to merge' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await mergeLeads(user.id, primaryId, duplicateIds);
+    
+    if (!result) {
+      return NextResponse.json(
+        { success: false, error: 'Lead not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Error merging leads:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to merge leads: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
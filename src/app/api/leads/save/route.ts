@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { auth } from '@/auth';
 import { createClient } from '@/lib/supabase/server';
 import { Business } from '@/types/business';
+import { DuplicateReason, findDuplicate, mergeLeadRecords, placeIdOf } from '@/lib/leads/duplicates';
 
 export async function POST(req: NextRequest) {
   try {
@@ -271,40 +272,49 @@ export async function POST(req: NextRequest) {
       return leadData;
     });
     
-    // Check if each business already exists in the database to avoid duplicates
+    // Load the user's leads once, so each lead is checked against them and against
+    // the leads saved earlier in this request
+    const { data: existingLeads, error: existingError } = await supabase
+      .from('saved_leads')
+      .select('*')
+      .eq('user_id', userId);
+    
+    if (existingError) {
+      console.error('Error loading existing leads:', existingError);
+      return Response.json(
+        { error: `Failed to check for duplicate leads: ${existingError.message}` },
+        { status: 500 }
+      );
+    }
+    
+    const knownLeads: any[] = existingLeads || [];
     let savedLeads = [];
+    let duplicates: Array<{ name: string; existingId: string; reason: DuplicateReason }> = [];
     let errors = [];
     
-    for (const lead of formattedLeads) {
+    for (const [index, lead] of formattedLeads.entries()) {
       try {
         console.log(`Processing lead: ${lead.name}`);
         
-        // Check if a lead with this name and user already exists
-        const { data: existingLeads, error: findError } = await supabase
-          .from('saved_leads')
-          .select('id, status, enrichment_data')
-          .eq('user_id', userId)
-          .eq('name', lead.name);
-          
-        if (findError) {
-          console.error(`Error checking for existing lead ${lead.name}:`, findError);
-          errors.push(`Error checking lead ${lead.name}: ${findError.message}`);
-          continue;
-        }
+        const business = leadsToProcess[index];
+        const placeId = placeIdOf(business);
+        if (placeId) lead.original_id = placeId;
+        
+        // A lead being saved again is updated in place; another copy of a saved venue
+        // only fills in what the saved lead is missing
+        const sameLead = business.id ? knownLeads.find(known => known.id === business.id) : null;
+        const duplicate = sameLead ? null : findDuplicate({ ...business, ...lead }, knownLeads);
         
         let result;
         
-        if (existingLeads && existingLeads.length > 0) {
-          // If there are multiple leads with the same name, use the first one
-          console.log(`Found ${existingLeads.length} existing leads with name ${lead.name}`);
-          const existingLeadId = existingLeads[0].id;
-          console.log(`Updating existing lead ${lead.name} with ID ${existingLeadId}`);
+        if (sameLead) {
+          console.log(`Updating existing lead ${lead.name} with ID ${sameLead.id}`);
           
           // Preserve enrichment data and status if already enriched
-          if (existingLeads[0].status === 'enriched' && existingLeads[0].enrichment_data) {
+          if (sameLead.status === 'enriched' && sameLead.enrichment_data) {
             console.log(`Lead ${lead.name} is already enriched, preserving enrichment_data and status`);
             if (!lead.enrichment_data) {
-              lead.enrichment_data = existingLeads[0].enrichment_data;
+              lead.enrichment_data = sameLead.enrichment_data;
             }
             lead.status = 'enriched';
           }
@@ -312,8 +322,22 @@ export async function POST(req: NextRequest) {
           result = await supabase
             .from('saved_leads')
             .update(lead)
-            .eq('id', existingLeadId)
+            .eq('id', sameLead.id)
+            .eq('user_id', userId)
             .select();
+        } else if (duplicate) {
+          console.log(`Lead ${lead.name} duplicates saved lead ${duplicate.lead.id} (${duplicate.reason}), merging`);
+          duplicates.push({ name: lead.name, existingId: duplicate.lead.id, reason: duplicate.reason });
+          
+          const updates = mergeLeadRecords(duplicate.lead, [lead]);
+          result = Object.keys(updates).length > 0
+            ? await supabase
+                .from('saved_leads')
+                .update(updates)
+                .eq('id', duplicate.lead.id)
+                .eq('user_id', userId)
+                .select()
+            : { data: [duplicate.lead], error: null };
         } else {
           // Insert new lead
           console.log(`Inserting new lead ${lead.name}`);
@@ -327,7 +351,10 @@ export async function POST(req: NextRequest) {
           console.error(`Error saving lead ${lead.name}:`, result.error);
           errors.push(`Error saving lead ${lead.name}: ${result.error.message}`);
         } else if (result.data && result.data.length > 0) {
-          savedLeads.push(result.data[0]);
+          const saved = result.data[0];
+          savedLeads.push(saved);
+          const known = knownLeads.findIndex(existing => existing.id === saved.id);
+          if (known >= 0) knownLeads[known] = saved; else knownLeads.push(saved);
         }
       } catch (leadError) {
         console.error(`Exception processing lead ${lead.name}:`, leadError);
@@ -351,6 +378,7 @@ export async function POST(req: NextRequest) {
       success: true,
       message: `Saved ${savedLeads.length} leads successfully${errors.length > 0 ? ` with ${errors.length} errors` : ''}`,
       leads: savedLeads,
+      duplicates: duplicates.length > 0 ? duplicates : undefined,
       errors: errors.length > 0 ? errors : undefined,
       count: savedLeads.length
     });
@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { auth } from '@/auth';
 import { createClient } from '@/lib/supabase/server';
+import { withOverrides } from '@/lib/leads/repository';
 
 export async function GET(req: NextRequest) {
   try {
@@ -36,8 +37,11 @@ export async function GET(req: NextRequest) {
     
     console.log(`Found ${data?.length || 0} leads for user ${userId}`);
     
+    // Show the values the user corrected by hand
+    const leads = await withOverrides(userId, data);
+    
     // Process leads to include lead score from enrichment_data if available
-    const processedLeads = data.map(lead => {
+    const processedLeads = leads.map(lead => {
       // Get lead score from enrichment_data if available
       let leadScore = null;
       let leadScoreLabel = null;
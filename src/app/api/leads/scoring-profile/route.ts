@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { DEFAULT_SCORING_PROFILE, normalizeScoringProfile } from '@/agents/enrichment/scoring';
+import { getScoringProfile, rescoreLeads, saveScoringProfile } from '@/lib/leads/scoring-profiles';
+
+/**
+ * GET /api/leads/scoring-profile - The authenticated user's lead scoring profile
+ * Returns the profile with defaults filled in, and the defaults themselves.
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const profile = await getScoringProfile(user.id);
+    
+    return NextResponse.json({ success: true, profile, defaults: DEFAULT_SCORING_PROFILE });
+  } catch (error: any) {
+    console.error('Error fetching scoring profile:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch scoring profile: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/leads/scoring-profile - Save the user's scoring profile and rescore their leads
+ * Expected request body:
+ * {
+ *   profile: Partial<ScoringProfile> // Missing values use the defaults
+ * }
+ * Every enriched lead the user saved is scored again with the new profile.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { profile: input } = await request.json();
+    
+    try {
+      normalizeScoringProfile(input);
+    } catch (error: any) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    
+    const profile = await saveScoringProfile(user.id, input);
+    const rescore = await rescoreLeads(user.id, profile);
+    
+    return NextResponse.json({ success: true, profile, ...rescore });
+  } catch (error: any) {
+    console.error('Error saving scoring profile:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to save scoring profile: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GooglePlacesService } from '@/tools/googlePlaces';
 import { auth } from '@/auth';
+import { LocationNotFoundError, resolveSearchLocation } from '@/lib/geocoding';
 
 /**
  * Fast business search API endpoint
@@ -9,8 +10,15 @@ import { auth } from '@/auth';
  * 1. Business name
  * 2. Address
  * 3. Phone number
- * 4. Website URL (required)
+ * 4. Website URL (required unless includeWithoutWebsite=true)
  * 5. Category/Type
+ * 
+ * The location may be "lat,lng", an address, a city or a ZIP code; without one, the
+ * search is centered on the user's business location.
+ * 
+ * With coverage=true the search follows result pages and tiles large radii, so it can
+ * return more than 20 places. The response reports how many places were skipped and why.
+ * Place details are cached; refresh=true loads them from Google again.
  */
 export async function GET(req: NextRequest) {
   try {
@@ -31,27 +39,37 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Query parameter is required' }, { status: 400 });
     }
     
-    if (!location) {
-      return NextResponse.json({ error: 'Location parameter is required' }, { status: 400 });
-    }
-    
-    // Validate location format (lat,lng)
-    if (!/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/.test(location)) {
+    // Text locations are geocoded; with no location the user's business location is used
+    let center;
+    try {
+      center = await resolveSearchLocation(location, session.user.id);
+    } catch (error) {
+      if (error instanceof LocationNotFoundError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      console.error('Error geocoding search location:', error);
       return NextResponse.json({ 
-        error: 'Location must be in format "latitude,longitude"' 
-      }, { status: 400 });
+        error: 'Could not look up that location right now. Please try again later.' 
+      }, { status: 502 });
     }
     
     // Parse radius into number (default to 10 miles if not provided)
     const radius = radiusParam ? parseInt(radiusParam, 10) : 10;
+    const coverage = url.searchParams.get('coverage') === 'true';
+    const includeWithoutWebsite = url.searchParams.get('includeWithoutWebsite') === 'true';
+    const forceRefresh = url.searchParams.get('refresh') === 'true';
     
-    console.log(`Fast search API call with query: ${query}, location: ${location}, radius: ${radius}`);
+    console.log(`Fast search API call with query: ${query}, location: ${location}, radius: ${radius}, coverage: ${coverage}`);
     
     // Call Google Places API to search for businesses
     const googlePlaces = new GooglePlacesService();
     
     // Get places from Google API
-    const businesses = await googlePlaces.searchPlaces(query, location, radius);
+    const { businesses, skipped, tiles, pages, saturatedTiles } = await googlePlaces.search(query, `${center.lat},${center.lng}`, radius, {
+      coverage,
+      includeWithoutWebsite,
+      forceRefresh,
+    });
     
     console.log(`Found ${businesses.length} businesses from Google Places API`);
     
@@ -59,12 +77,16 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({
       success: true,
       count: businesses.length,
+      location: center,
+      skipped,
+      coverage: { tiles, pages, saturatedTiles },
       results: businesses.map((business: any) => ({
         id: business.id || business.place_id,
         name: business.name,
         address: business.address || business.formatted_address,
         phone: business.phone || business.formatted_phone_number,
         website: business.website,
+        phoneOnly: business.phoneOnly,
         category: business.type || (business.types && business.types.length > 0 ? business.types[0] : 'Business'),
         // Keep hasEventSpace for compatibility
         hasEventSpace: business.types ? business.types.some((t: string) => 
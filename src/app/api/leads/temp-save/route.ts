@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { createClient } from '@/utils/supabase/server';
+import { findDuplicate } from '@/lib/leads/duplicates';
 
 /**
  * POST handler for temporarily saving leads before enrichment
  * 
  * This endpoint saves leads to a temporary collection in the database
- * so they can be processed by the enrichment workflow
+ * so they can be processed by the enrichment workflow. Venues already saved are
+ * not inserted again: they are returned in duplicateIds, and only those not yet
+ * enriched are included in leadIds.
  */
 export async function POST(req: NextRequest) {
   // Authenticate the user session
@@ -54,10 +57,48 @@ export async function POST(req: NextRequest) {
       temp_record: true
     }));
     
+    // Venues the user already saved are not inserted again
+    const { data: existingLeads, error: existingError } = await supabase
+      .from('saved_leads')
+      .select('*')
+      .eq('user_id', userId);
+    
+    if (existingError) {
+      console.error("Error loading existing leads:", existingError);
+      return NextResponse.json(
+        { error: `Failed to check for duplicate leads: ${existingError.message}` },
+        { status: 500 }
+      );
+    }
+    
+    const knownLeads: any[] = existingLeads || [];
+    const newLeads: typeof leadsToSave = [];
+    const duplicateIds: string[] = [];
+    const unenrichedIds: string[] = [];
+    for (const lead of leadsToSave) {
+      const duplicate = findDuplicate(lead, [...knownLeads, ...newLeads]);
+      if (!duplicate) {
+        newLeads.push(lead);
+      } else if (duplicate.lead.id && !duplicateIds.includes(duplicate.lead.id)) {
+        console.log(`Skipping ${lead.name}: duplicates saved lead ${duplicate.lead.id} (${duplicate.reason})`);
+        duplicateIds.push(duplicate.lead.id);
+        if (!duplicate.lead.enrichment_data) unenrichedIds.push(duplicate.lead.id);
+      }
+    }
+    
+    if (newLeads.length === 0) {
+      return NextResponse.json({
+        message: `All ${leadsToSave.length} leads were already saved`,
+        count: 0,
+        leadIds: unenrichedIds,
+        duplicateIds
+      });
+    }
+    
     // Insert the leads into the saved_leads table
     const { data, error } = await supabase
       .from('saved_leads')
-      .insert(leadsToSave)
+      .insert(newLeads)
       .select('id');
     
     if (error) {
@@ -68,11 +109,12 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Return the IDs of the saved leads
+    // Return the IDs of the leads to enrich, and of the saved leads that duplicates matched
     return NextResponse.json({
       message: `Successfully saved ${data.length} leads for enrichment`,
       count: data.length,
-      leadIds: data.map(lead => lead.id)
+      leadIds: [...data.map(lead => lead.id), ...unenrichedIds],
+      duplicateIds
     });
   } catch (error) {
     console.error("Error in temp-save API:", error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { safeEnrichmentData, updateLeadWithEnrichment } from '../api-utils';
+import { withOverrides } from '@/lib/leads/repository';
 
 /**
  * POST handler for lead updates
@@ -58,10 +59,11 @@ export async function POST(req: NextRequest) {
     
     console.log(`[API:UPDATE] Successfully updated lead ${leadId}`);
     
-    // Return the updated lead
+    // Return the updated lead; fields the user locked keep their manual values
+    const [lead] = await withOverrides(session.user.id, updateResult.data || []);
     return NextResponse.json({
       message: 'Lead updated successfully',
-      lead: updateResult.data?.[0] || null,
+      lead: lead || null,
       success: true
     });
     
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { dispatchDueEmails } from "@/tools/resend";
+import { pollLocalMailbox } from "@/tools/mailbox-poller";
+
+/**
+ * Cron worker that sends every scheduled drip email whose send date has arrived
+ * Protected by CRON_SECRET, sent as "Authorization: Bearer <secret>"
+ * In development, replies in LOCAL_MAILBOX_DIR are ingested first so they stop pending sends
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  
+  if (!cronSecret) {
+    console.error('API: CRON_SECRET is not configured for outreach/dispatch');
+    return NextResponse.json(
+      { success: false, error: 'Dispatch worker is not configured' },
+      { status: 500 }
+    );
+  }
+  
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    if (process.env.LOCAL_MAILBOX_DIR) {
+      await pollLocalMailbox();
+    }
+    
+    const stats = await dispatchDueEmails();
+    
+    return NextResponse.json({ success: true, data: stats });
+  } catch (error: any) {
+    console.error('Error dispatching scheduled emails:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: `Error dispatching scheduled emails: ${error.message || 'Unknown error'}` 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = GET;
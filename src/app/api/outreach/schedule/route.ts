@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@/auth';
+import {
+  pauseScheduledEmails,
+  resumeScheduledEmails,
+  cancelScheduledEmails
+} from "@/tools/resend";
+
+const ACTIONS = {
+  pause: pauseScheduledEmails,
+  resume: resumeScheduledEmails,
+  cancel: cancelScheduledEmails
+};
+
+/**
+ * API route to pause, resume or cancel pending drip campaign sends
+ * Expected request body:
+ * {
+ *   action: 'pause' | 'resume' | 'cancel',
+ *   leadId?: string,
+ *   campaignId?: string
+ * }
+ * At least one of leadId or campaignId is required.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const body = await request.json();
+    const { action, leadId, campaignId } = body;
+    
+    const handler = ACTIONS[action as keyof typeof ACTIONS];
+    if (!handler) {
+      return NextResponse.json(
+        { success: false, error: "Action must be one of: pause, resume, cancel" },
+        { status: 400 }
+      );
+    }
+    
+    if (!leadId && !campaignId) {
+      return NextResponse.json(
+        { success: false, error: "A leadId or campaignId is required" },
+        { status: 400 }
+      );
+    }
+    
+    const updated = await handler({ userId: user.id, leadId, campaignId });
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        action,
+        updatedCount: updated.length
+      }
+    });
+  } catch (error: any) {
+    console.error('Unhandled error in outreach/schedule API:', error);
+    
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: `An unexpected error occurred: ${error.message || 'Unknown error'}` 
+      },
+      { status: 500 }
+    );
+  }
+}
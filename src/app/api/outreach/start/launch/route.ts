@@ -1,52 +1,58 @@
 // /pages/api/outreach/launch.ts
 import { NextResponse } from "next/server";
 import { launchApprovedCampaigns } from "@/workflows/outreach-campaign/steps";
+import { validateDripCampaign } from "@/tools/resend";
+import { describeMergeIssue } from "@/lib/merge-fields";
 import { auth } from '@/auth';
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { emailTemplateSchema } from '@/lib/email-templates';
 
 /**
  * API route to launch approved email campaigns
  * Expected request body:
  * {
  *   approvedEmails: {
- *     [category1]: string[],
- *     [category2]: string[],
+ *     [category1]: EmailTemplate[],
+ *     [category2]: EmailTemplate[],
  *     ...
  *   },
  *   leads: {
  *     [category1]: Lead[],
  *     [category2]: Lead[],
  *     ...
- *   }
+ *   },
+ *   campaignName?: string,
+ *   personalizeOpeners?: boolean,
+ *   requireVerifiedEmails?: boolean,
+ *   alignToVenueCalendar?: boolean
  * }
+ * Creates a campaign record and queues its emails; the response includes the campaign id.
+ * With personalizeOpeners, high-potential leads get an opening email rewritten from their enrichment data.
+ * With requireVerifiedEmails, only addresses verified as valid are emailed; invalid ones never are.
+ * With alignToVenueCalendar, each venue's emails wait until it starts booking its next busy season or event.
+ * Responds 422 with the offending placeholders if any merge field would be sent unfilled.
  */
 export async function POST(request: NextRequest) {
   try {
     // Use the auth helper that works in other endpoints
     const { user, session } = await auth();
     
-    // Check for authentication
+    // Campaigns are always scoped to the authenticated user's leads
     if (!user) {
       console.log('API: No session found in outreach/start/launch - Authentication required');
-      
-      // DEBUG: For debugging only in production
-      const bypassForNow = true;
-      if (bypassForNow) {
-        console.log('WARNING: Temporarily bypassing auth for debugging');
-      } else {
-        return NextResponse.json(
-          { success: false, error: 'Unauthorized - not authenticated' },
-          { status: 401 }
-        );
-      }
-    } else {
-      console.log(`API: Session found in outreach/start/launch for user: ${user.id}`);
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
     }
     
+    console.log(`API: Session found in outreach/start/launch for user: ${user.id}`);
+    
     // Parse the request body
     const body = await request.json();
-    const { approvedEmails, leads } = body;
+    const { approvedEmails, leads, campaignName, personalizeOpeners, requireVerifiedEmails, alignToVenueCalendar } = body;
 
     // Validate approvedEmails exist
     if (!approvedEmails || Object.keys(approvedEmails).length === 0) {
@@ -77,6 +83,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Every approved email must be a complete, structured template
+    const parsedEmails = z.record(z.string(), z.array(emailTemplateSchema)).safeParse(approvedEmails);
+    if (!parsedEmails.success) {
+      const issue = parsedEmails.error.issues[0];
+      return NextResponse.json(
+        { success: false, error: `Invalid email template at ${issue.path.join('.')}: ${issue.message}` },
+        { status: 400 }
+      );
+    }
+
     // Ensure all leads include a valid email
     if (!leads || leads.length === 0) {
       return NextResponse.json(
@@ -91,11 +107,30 @@ export async function POST(request: NextRequest) {
       : { all: leads }; // Use a generic 'all' category for flat lead arrays
 
     try {
+      // Block the launch while any email would go out with an unfilled placeholder
+      const mergeIssues = await validateDripCampaign(parsedEmails.data, user.id, { requireVerifiedEmails: requireVerifiedEmails === true });
+      if (mergeIssues.length > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Fix ${mergeIssues.length} unresolved merge field${mergeIssues.length === 1 ? '' : 's'} before launching`,
+            data: { issues: mergeIssues.map(issue => ({ ...issue, message: describeMergeIssue(issue) })) }
+          },
+          { status: 422 }
+        );
+      }
+      
       // Launch the campaign using the workflow runner
       const result = await launchApprovedCampaigns(
-        // Convert approvedEmails to match expected format
-        approvedEmails,
-        user?.email || 'test@example.com'
+        parsedEmails.data,
+        user.id,
+        session?.user?.email || '',
+        {
+          campaignName,
+          personalizeOpeners: personalizeOpeners === true,
+          requireVerifiedEmails: requireVerifiedEmails === true,
+          alignToVenueCalendar: alignToVenueCalendar === true
+        }
       );
       
       return NextResponse.json(result);
@@ -4,6 +4,7 @@ import { generateDripCampaign } from "@/agents/outreachAgent";
 import { auth } from '@/auth';
 import { createClient } from '@/lib/supabase/server';
 import { NextRequest } from 'next/server';
+import type { EmailTemplate } from '@/types/email';
 
 // Helper function to validate if a string is a valid UUID
 function isValidUUID(str: string) {
@@ -196,7 +197,7 @@ export async function POST(request: NextRequest) {
     // We'll generate campaign emails regardless of whether leads are provided
     console.log(`Generating campaign emails for category: ${category}`);
     
-    let emails = [];
+    let emails: EmailTemplate[] = [];
     
     try {
       // Generate the campaign emails
@@ -210,7 +211,7 @@ export async function POST(request: NextRequest) {
       
       console.log(`Successfully generated ${emails.length} campaign emails for ${category}`);
 
-      // Return the generated emails
+      // Return the generated templates (subject, preheader, text/HTML bodies and send offset)
       return NextResponse.json({
         success: true,
         data: {
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { auth } from '@/auth';
+import { getOutreachStats } from '@/lib/outreach-stats';
+
+/**
+ * GET /api/outreach/stats - Email engagement numbers for the dashboard
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const stats = await getOutreachStats(user.id);
+    
+    return NextResponse.json({ success: true, data: stats });
+  } catch (error: any) {
+    console.error('Error fetching outreach stats:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch outreach stats: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
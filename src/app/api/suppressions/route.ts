@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from '@/auth';
+import { db } from '@/lib/db';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * GET /api/suppressions - List the authenticated user's suppressed addresses
+ */
+export async function GET() {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const suppressions = await db.suppressions.getByUserId(user.id);
+    
+    return NextResponse.json({
+      success: true,
+      data: { suppressions, count: suppressions.length }
+    });
+  } catch (error: any) {
+    console.error('Error fetching suppressions:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to fetch suppressions: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/suppressions - Manually block an address
+ * Expected request body: { email: string, leadId?: string, notes?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const { email, leadId, notes } = await request.json();
+    
+    if (!email || !EMAIL_REGEX.test(email)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid email is required' },
+        { status: 400 }
+      );
+    }
+    
+    await db.suppressions.add({
+      user_id: user.id,
+      email,
+      reason: 'manual',
+      lead_id: leadId || null,
+      notes: notes || null
+    });
+    
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error adding suppression:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to add suppression: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/suppressions?email=... - Remove a manual block
+ * Unsubscribes, hard bounces and complaints cannot be removed.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user } = await auth();
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized - not authenticated' },
+        { status: 401 }
+      );
+    }
+    
+    const email = request.nextUrl.searchParams.get('email');
+    if (!email) {
+      return NextResponse.json(
+        { success: false, error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+    
+    const removed = await db.suppressions.removeManual(user.id, email);
+    
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, error: 'No manual block found for this email' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing suppression:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Failed to remove suppression: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
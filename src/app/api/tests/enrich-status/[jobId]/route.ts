@@ -1,15 +1,9 @@
 import { NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { describeJob, getJob } from '@/lib/enrichment/job-store';
 
 // Define updated global object types
 declare global {
-  var jobStorage: Map<string, {
-    url: string;
-    status: string;
-    result?: any;
-    message?: string;
-    startedAt: Date;
-    error?: any;
-  }>;
   var firecrawlCalls: {
     url: string;
     timestamp: Date;
@@ -20,24 +14,16 @@ declare global {
 
 export async function GET(
   request: Request,
-  { params }: { params: { jobId: string } }
+  { params }: { params: Promise<{ jobId: string }> }
 ) {
   try {
     // Ensure we properly destructure the params
-    const { jobId } = params;
+    const { jobId } = await params;
     console.log(`Received status request for job: ${jobId}`);
     
-    // Check if global job storage exists
-    if (!global.jobStorage) {
-      console.log(`No job storage found, job ${jobId} not found`);
-      return NextResponse.json(
-        { error: 'Job not found' },
-        { status: 404 }
-      );
-    }
-    
     // Get job data
-    const jobData = global.jobStorage.get(jobId);
+    const { user } = await auth();
+    const jobData = await getJob(jobId, user?.id || null);
     console.log(`Retrieved job data for ${jobId}: ${jobData ? 'found' : 'not found'}`);
     
     if (!jobData) {
@@ -47,43 +33,8 @@ export async function GET(
       );
     }
     
-    // Calculate progress percentage based on status
-    let progress = 0;
-    switch (jobData.status) {
-      case 'validating':
-        progress = 5;
-        break;
-      case 'extracting':
-        progress = 20;
-        break;
-      case 'processing':
-        progress = 50;
-        break;
-      case 'generating':
-        progress = 80;
-        break;
-      case 'complete':
-        progress = 100;
-        break;
-      case 'error':
-        progress = 0;
-        break;
-      default:
-        progress = 0;
-    }
-    
     // Calculate elapsed time
-    const elapsedMs = Date.now() - jobData.startedAt.getTime();
-    const elapsedSeconds = Math.floor(elapsedMs / 1000);
-    
-    // Calculate estimated time remaining (rough estimate)
-    // Only relevant if not complete or error
-    let estimatedRemainingSeconds = null;
-    if (jobData.status !== 'complete' && jobData.status !== 'error' && progress > 0) {
-      // Assuming linear progress, estimate remaining time
-      const totalEstimatedSeconds = (elapsedSeconds / progress) * 100;
-      estimatedRemainingSeconds = Math.max(1, Math.floor(totalEstimatedSeconds - elapsedSeconds));
-    }
+    const elapsedMs = Date.now() - new Date(jobData.started_at).getTime();
     
     // Get Firecrawl call info for this job
     let firecrawlInfo = null;
@@ -94,15 +45,9 @@ export async function GET(
     // Return complete status information
     console.log(`Returning complete status for job ${jobId}`);
     return NextResponse.json({
-      jobId,
-      status: jobData.status,
-      progress,
+      ...describeJob(jobData),
       elapsedMs,
-      elapsedSeconds,
-      startedAt: jobData.startedAt,
-      message: jobData.message,
-      result: jobData.status === 'complete' ? jobData.result : undefined,
-      error: jobData.status === 'error' ? jobData.error : undefined,
+      elapsedSeconds: Math.floor(elapsedMs / 1000),
       firecrawlInfo
     });
   } catch (error) {
@@ -112,4 +57,4 @@ export async function GET(
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
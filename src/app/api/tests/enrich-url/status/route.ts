@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { jobStorage } from '../route';
+import { auth } from '@/auth';
+import { describeJob, getJob } from '@/lib/enrichment/job-store';
 
 export async function GET(request: Request) {
   try {
@@ -14,7 +15,8 @@ export async function GET(request: Request) {
     }
     
     // Get job from storage
-    const job = jobStorage.get(jobId);
+    const { user } = await auth();
+    const job = await getJob(jobId, user?.id || null);
     
     if (!job) {
       return NextResponse.json(
@@ -24,14 +26,7 @@ export async function GET(request: Request) {
     }
     
     // Return job status and data if available
-    return NextResponse.json({
-      jobId,
-      status: job.status,
-      startedAt: job.startedAt,
-      message: job.message,
-      result: job.status === 'complete' ? job.result : undefined,
-      error: job.status === 'error' ? job.error : undefined
-    });
+    return NextResponse.json(describeJob(job));
   } catch (error) {
     console.error('Error checking job status:', error);
     return NextResponse.json(
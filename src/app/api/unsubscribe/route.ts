@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { db } from '@/lib/db';
+import { escapeHtml } from '@/lib/email-templates';
+import { verifyUnsubscribeToken } from '@/lib/unsubscribe';
+
+/**
+ * Render a minimal standalone page; recipients are not logged in
+ */
+function htmlPage(title: string, body: string, status = 200) {
+  return new Response(
+    `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title>`
+      + `<meta name="viewport" content="width=device-width, initial-scale=1"></head>`
+      + `<body style="font-family:sans-serif;max-width:480px;margin:64px auto;padding:0 16px;text-align:center">`
+      + `<h1 style="font-size:22px">${title}</h1>${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+/**
+ * GET /api/unsubscribe?token=... - Confirmation page linked from the email footer
+ * 
+ * The unsubscribe itself happens on POST so that link scanners that
+ * prefetch URLs cannot unsubscribe recipients by accident.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || '';
+    const target = verifyUnsubscribeToken(token);
+    
+    if (!target) {
+      return htmlPage('Invalid unsubscribe link', '<p>This link is invalid or has been altered.</p>', 400);
+    }
+    
+    return htmlPage(
+      'Unsubscribe',
+      `<p>Stop receiving outreach emails at <strong>${escapeHtml(target.email)}</strong>?</p>`
+        + `<form method="POST" action="/api/unsubscribe?token=${encodeURIComponent(token)}">`
+        + `<button type="submit" style="padding:10px 20px;font-size:16px;cursor:pointer">Unsubscribe</button>`
+        + `</form>`
+    );
+  } catch (error) {
+    console.error('Error loading unsubscribe page:', error);
+    return htmlPage('Something went wrong', '<p>We could not load this page. Please try again later.</p>', 500);
+  }
+}
+
+/**
+ * POST /api/unsubscribe?token=... - Unsubscribe a recipient
+ * 
+ * Handles both the confirmation form and RFC 8058 one-click requests sent by
+ * mail clients through the List-Unsubscribe-Post header.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const target = verifyUnsubscribeToken(request.nextUrl.searchParams.get('token') || '');
+    
+    if (!target) {
+      return htmlPage('Invalid unsubscribe link', '<p>This link is invalid or has been altered.</p>', 400);
+    }
+    
+    await db.suppressions.add({
+      user_id: target.userId,
+      email: target.email,
+      reason: 'unsubscribed'
+    });
+    
+    return htmlPage('You have been unsubscribed', '<p>You will not receive any more outreach emails from this sender.</p>');
+  } catch (error) {
+    console.error('Error processing unsubscribe:', error);
+    return htmlPage('Something went wrong', '<p>We could not process your request. Please try again later.</p>', 500);
+  }
+}
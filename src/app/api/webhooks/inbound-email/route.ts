@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ingestInboundReply } from "@/tools/inbound-email";
+
+/**
+ * Inbound email webhook for replies to outreach emails
+ * 
+ * Point the inbound mail provider (or a forwarding function) at this route with
+ * "Authorization: Bearer <INBOUND_EMAIL_SECRET>" and a JSON body:
+ * {
+ *   messageId: string,
+ *   from: string,
+ *   fromName?: string,
+ *   to: string[],
+ *   subject?: string,
+ *   text?: string,
+ *   html?: string,
+ *   inReplyTo?: string,
+ *   receivedAt?: string,
+ *   userId?: string // Owner of the receiving mailbox; needed to match replies without a reply+<id> address
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  
+  if (!secret) {
+    console.error('API: INBOUND_EMAIL_SECRET is not configured for webhooks/inbound-email');
+    return NextResponse.json(
+      { success: false, error: 'Inbound email endpoint is not configured' },
+      { status: 500 }
+    );
+  }
+  
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+  
+  try {
+    const message = await request.json();
+    
+    if (!message?.messageId || !message?.from || !Array.isArray(message?.to)) {
+      return NextResponse.json(
+        { success: false, error: 'messageId, from and to are required' },
+        { status: 400 }
+      );
+    }
+    
+    const result = await ingestInboundReply(message, typeof message.userId === 'string' ? message.userId : undefined);
+    
+    return NextResponse.json({
+      success: true,
+      data: {
+        matched: result.matched,
+        leadId: result.leadId,
+        campaignId: result.campaignId,
+        cancelledEmails: result.cancelledEmails
+      }
+    });
+  } catch (error: any) {
+    console.error('Error ingesting inbound email:', error);
+    
+    return NextResponse.json(
+      { success: false, error: `Error ingesting inbound email: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ingestWebhookEvent, verifyWebhookSignature } from "@/tools/resend-webhooks";
+
+/**
+ * Resend webhook endpoint for delivery, open, click, bounce and complaint events
+ * Requests are verified against RESEND_WEBHOOK_SECRET before anything is stored
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  
+  if (!secret) {
+    console.error('API: RESEND_WEBHOOK_SECRET is not configured for webhooks/resend');
+    return NextResponse.json(
+      { success: false, error: 'Webhook endpoint is not configured' },
+      { status: 500 }
+    );
+  }
+  
+  // The signature covers the raw body, so read it before parsing
+  const rawBody = await request.text();
+  const headers = {
+    id: request.headers.get('svix-id'),
+    timestamp: request.headers.get('svix-timestamp'),
+    signature: request.headers.get('svix-signature')
+  };
+  
+  if (!verifyWebhookSignature(rawBody, headers, secret)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid webhook signature' },
+      { status: 401 }
+    );
+  }
+  
+  let payload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Invalid JSON payload' },
+      { status: 400 }
+    );
+  }
+  
+  try {
+    const event = await ingestWebhookEvent(headers.id!, payload);
+    
+    return NextResponse.json({
+      success: true,
+      data: { recorded: !!event }
+    });
+  } catch (error: any) {
+    console.error('Error ingesting Resend webhook:', error);
+    
+    // A non-2xx response makes Resend retry the delivery later
+    return NextResponse.json(
+      { success: false, error: `Error ingesting webhook: ${error.message || 'Unknown error'}` },
+      { status: 500 }
+    );
+  }
+}
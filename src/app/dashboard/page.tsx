@@ -15,64 +15,66 @@ export default function DashboardPage() {
     retention: 378,
   })
 
-  // Drip campaign stats
+  // Drip campaign stats, filled from /api/outreach/stats
   const [dripStats, setDripStats] = useState({
-    pending: 5,
-    sent: 3243,
-    opened: 1876,
-    clicked: 632,
-    replied: 198,
-    meetings: 45,
-    textsSent: 127, // Added text messages sent metric
+    pending: 0,
+    sent: 0,
+    opened: 0,
+    clicked: 0,
+    replied: 0,
   })
 
-  // Sample drip campaign emails
-  const [drips, setDrips] = useState([
-    {
-      id: 1,
-      name: "Initial Outreach",
-      subject: "Let's connect about your catering needs",
-      status: "Active",
-      sentCount: 1250,
-      openRate: 58,
-      clickRate: 32,
-    },
-    {
-      id: 2,
-      name: "Follow-up",
-      subject: "Following up on catering options",
-      status: "Active",
-      sentCount: 982,
-      openRate: 52,
-      clickRate: 27,
-    },
-    {
-      id: 3,
-      name: "Case Study Share",
-      subject: "How we helped [similar company] with their event",
-      status: "Active",
-      sentCount: 764,
-      openRate: 61,
-      clickRate: 38,
-    },
-    {
-      id: 4,
-      name: "Final Chance",
-      subject: "Last opportunity to discuss your upcoming event",
-      status: "Scheduled",
-      sentCount: 247,
-      openRate: 46,
-      clickRate: 18,
-    },
-  ])
+  // Launched campaigns with their engagement rates
+  interface Drip {
+    id: string;
+    name: string;
+    subject: string;
+    status: string;
+    sentCount: number;
+    openRate: number;
+    clickRate: number;
+  }
+
+  const [drips, setDrips] = useState<Drip[]>([])
 
-  // Text automation triggers
+  // Load real email engagement numbers
+  useEffect(() => {
+    const loadOutreachStats = async () => {
+      try {
+        const response = await fetch('/api/outreach/stats', { credentials: 'include' })
+        if (!response.ok) {
+          console.error('Error fetching outreach stats:', response.status)
+          return
+        }
+
+        const { data } = await response.json()
+        setDripStats(prev => ({
+          ...prev,
+          pending: data.totals.pending,
+          sent: data.totals.sent,
+          opened: data.totals.opened,
+          clicked: data.totals.clicked,
+          replied: data.totals.replied,
+        }))
+        setDrips(data.campaigns)
+      } catch (error) {
+        console.error('Error fetching outreach stats:', error)
+      }
+    }
+
+    loadOutreachStats()
+  }, [])
+
+  // Percentage helper that stays at 0 until there is data
+  const percent = (count: number, total: number) =>
+    total > 0 ? Math.round((count / total) * 100) : 0
+
+  // Text automation triggers; texting is not connected yet, so nothing is counted
   interface TextTrigger {
     id: number;
     name: string;
     condition: string;
     status: string;
-    textsSent: number;
     options: string[];
     selectedOption: string;
   }
@@ -83,7 +85,6 @@ export default function DashboardPage() {
       name: "Multiple Email Opens",
       condition: "Lead opens email 3 times",
       status: "Active",
-      textsSent: 87,
       options: ["1 time", "2 times", "3 times", "5 times", "10 times"],
       selectedOption: "3 times"
     },
@@ -92,7 +93,6 @@ export default function DashboardPage() {
       name: "Email Response",
       condition: "Lead responds to email",
       status: "Active",
-      textsSent: 40,
       options: ["Any response", "Positive response", "Question in response"],
       selectedOption: "Any response"
     }
@@ -145,19 +145,7 @@ export default function DashboardPage() {
         conversion: stats.conversion + Math.floor(Math.random() * 2),
         retention: stats.retention + Math.floor(Math.random() * 1),
       })
-      
-      // Update text metrics occasionally
-      if (Math.random() > 0.7) {
-        setDripStats(prev => ({
-          ...prev,
-          textsSent: prev.textsSent + Math.floor(Math.random() * 3)
-        }));
-        
-        setTextTriggers(prev => prev.map(trigger => ({
-          ...trigger,
-          textsSent: trigger.textsSent + (Math.random() > 0.5 ? 1 : 0)
-        })));
-      }
+
     }, 5000)
 
     return () => clearTimeout(timer)
@@ -223,8 +211,8 @@ export default function DashboardPage() {
                     <Card className="border border-teal-500/10 bg-card/50">
                       <CardContent className="pt-6 p-4">
                         <div className="text-center">
-                          <div className="text-3xl font-bold text-teal-600">{dripStats.textsSent}</div>
-                          <div className="text-sm text-muted-foreground">Texts Sent</div>
+                          <div className="text-3xl font-bold text-teal-600">{dripStats.pending}</div>
+                          <div className="text-sm text-muted-foreground">Emails Queued</div>
                         </div>
                       </CardContent>
                     </Card>
@@ -237,12 +225,12 @@ export default function DashboardPage() {
                       <div
                         className="h-full bg-gradient-to-r from-blue-500 to-purple-500 rounded-full"
                         style={{
-                          width: `${Math.round((dripStats.opened / dripStats.sent) * 100)}%`,
+                          width: `${percent(dripStats.opened, dripStats.sent)}%`,
                         }}
                       ></div>
                     </div>
                     <div className="mt-1 text-xs text-right text-muted-foreground">
-                      {Math.round((dripStats.opened / dripStats.sent) * 100)}% opened
+                      {percent(dripStats.opened, dripStats.sent)}% opened
                     </div>
                   </div>
 
@@ -252,12 +240,12 @@ export default function DashboardPage() {
                       <div
                         className="h-full bg-gradient-to-r from-purple-500 to-pink-500 rounded-full"
                         style={{
-                          width: `${Math.round((dripStats.clicked / dripStats.opened) * 100)}%`,
+                          width: `${percent(dripStats.clicked, dripStats.opened)}%`,
                         }}
                       ></div>
                     </div>
                     <div className="mt-1 text-xs text-right text-muted-foreground">
-                      {Math.round((dripStats.clicked / dripStats.opened) * 100)}% clicked
+                      {percent(dripStats.clicked, dripStats.opened)}% clicked
                     </div>
                   </div>
 
@@ -267,12 +255,12 @@ export default function DashboardPage() {
                       <div
                         className="h-full bg-gradient-to-r from-pink-500 to-orange-500 rounded-full"
                         style={{
-                          width: `${Math.round((dripStats.replied / dripStats.clicked) * 100)}%`,
+                          width: `${percent(dripStats.replied, dripStats.sent)}%`,
                         }}
                       ></div>
                     </div>
                     <div className="mt-1 text-xs text-right text-muted-foreground">
-                      {Math.round((dripStats.replied / dripStats.clicked) * 100)}% replied
+                      {percent(dripStats.replied, dripStats.sent)}% replied
                     </div>
                   </div>
                 </div>
@@ -304,8 +292,8 @@ export default function DashboardPage() {
                     <Card className="border border-emerald-500/10 bg-card/50">
                       <CardContent className="pt-6 p-4">
                         <div className="text-center">
-                          <div className="text-3xl font-bold text-emerald-600">{dripStats.meetings}</div>
-                          <div className="text-sm text-muted-foreground">Meetings</div>
+                          <div className="text-3xl font-bold text-emerald-600">{drips.length}</div>
+                          <div className="text-sm text-muted-foreground">Campaigns</div>
                         </div>
                       </CardContent>
                     </Card>
@@ -314,6 +302,9 @@ export default function DashboardPage() {
                   <div className="mt-6">
                     <div className="text-sm font-medium mb-3">Active Drips</div>
                     <div className="space-y-3">
+                      {drips.length === 0 && (
+                        <div className="text-xs text-muted-foreground">No campaigns launched yet</div>
+                      )}
                       {drips.map((drip) => (
                         <div key={drip.id} className="p-3 bg-card/60 border border-primary/10 rounded-lg">
                           <div className="flex justify-between items-start">
@@ -324,10 +315,10 @@ export default function DashboardPage() {
                               </div>
                             </div>
                             <Badge 
-                              variant={drip.status === "Active" ? "default" : "secondary"} 
-                              className={drip.status === "Active" ? "bg-green-500/20 text-green-700" : "bg-gray-500/20 text-gray-700"}
+                              variant={drip.status === "running" ? "default" : "secondary"} 
+                              className={drip.status === "running" ? "bg-green-500/20 text-green-700" : "bg-gray-500/20 text-gray-700"}
                             >
-                              {drip.status}
+                              {drip.status.charAt(0).toUpperCase() + drip.status.slice(1)}
                             </Badge>
                           </div>
                           <div className="mt-2 grid grid-cols-2 gap-1 text-xs text-muted-foreground">
@@ -382,7 +373,7 @@ export default function DashboardPage() {
 
                 <div className="flex items-center justify-between">
                   <div className="text-sm font-medium">Text catering manager when:</div>
-                  <div className="text-sm text-teal-600 font-medium">{dripStats.textsSent} texts sent</div>
+                  <div className="text-sm text-muted-foreground">Preview: texts are not sent yet</div>
                 </div>
                 
                 <div className="space-y-4">
@@ -405,9 +396,6 @@ export default function DashboardPage() {
                               <option key={option} value={option}>{option}</option>
                             ))}
                           </select>
-                          <div className="text-sm font-medium text-teal-600">
-                            {trigger.textsSent} sent
-                          </div>
                           <Badge 
                             variant={trigger.status === "Active" ? "default" : "secondary"} 
                             className={trigger.status === "Active" ? "bg-green-500/20 text-green-700" : "bg-gray-500/20 text-gray-700"}
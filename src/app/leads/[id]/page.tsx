@@ -1,6 +1,7 @@
 import LeadProfilePage from "@/components/lead-profile-page"
 import { notFound } from "next/navigation"
 import { createClient } from "@/lib/supabase/server"
+import { applyOverrides } from "@/lib/leads/overrides"
 
 // Get lead data from Supabase
 async function getLead(id: string) {
@@ -23,7 +24,57 @@ async function getLead(id: string) {
   }
   
   console.log(`Successfully fetched lead: ${data.name}`)
-  return data
+  return applyOverrides(data, await getOverrides(id))
+}
+
+// Get the fields the user corrected by hand
+async function getOverrides(leadId: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from("lead_field_overrides")
+    .select("*")
+    .eq("lead_id", leadId)
+
+  if (error) {
+    console.error(`Error fetching overrides for lead ${leadId}:`, error)
+    return []
+  }
+
+  return data || []
+}
+
+// Get replies the lead sent to outreach emails, oldest first
+async function getReplies(leadId: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from("email_replies")
+    .select("id, from_email, from_name, subject, text_body, received_at")
+    .eq("lead_id", leadId)
+    .order("received_at", { ascending: true })
+
+  if (error) {
+    console.error(`Error fetching replies for lead ${leadId}:`, error)
+    return []
+  }
+
+  return data || []
+}
+
+// Get the outcome recorded for the lead, if any
+async function getOutcome(leadId: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from("lead_outcomes")
+    .select("outcome")
+    .eq("lead_id", leadId)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Error fetching outcome for lead ${leadId}:`, error)
+    return null
+  }
+
+  return data?.outcome || null
 }
 
 export default async function LeadPage({ params }: { params: { id: string } }) {
@@ -34,5 +85,7 @@ export default async function LeadPage({ params }: { params: { id: string } }) {
     notFound()
   }
 
-  return <LeadProfilePage lead={lead} />
+  const [replies, outcome] = await Promise.all([getReplies(lead.id), getOutcome(lead.id)])
+
+  return <LeadProfilePage lead={lead} replies={replies} outcome={outcome} />
 } 
\ No newline at end of file
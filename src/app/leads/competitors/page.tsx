@@ -0,0 +1,5 @@
+import CompetitorReportPage from "@/components/competitor-report-page"
+
+export default function CompetitorReport() {
+  return <CompetitorReportPage />
+}
@@ -0,0 +1,5 @@
+import DuplicateLeadsPage from "@/components/duplicate-leads-page"
+
+export default function DuplicateLeads() {
+  return <DuplicateLeadsPage />
+}
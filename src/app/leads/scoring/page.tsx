@@ -0,0 +1,5 @@
+import ScoringProfilePage from "@/components/scoring-profile-page"
+
+export default function LeadScoring() {
+  return <ScoringProfilePage />
+}
@@ -4,6 +4,8 @@ import { useState, useEffect } from "react"
 import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useCaterly } from "../app/context/caterly-context"
@@ -13,18 +15,22 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle } from "lucide-react"
 import { Mail } from "lucide-react"
+import type { EmailTemplate } from "@/types/email"
+import { DRIP_SEQUENCE, describeSendOffset, getSendOffsetDays, updateEmailTemplate } from "@/lib/email-templates"
+import { MERGE_FIELDS } from "@/lib/merge-fields"
+
+// Body text shown until a category's emails have been generated
+const PLACEHOLDER_TEXT = "Campaign emails will appear here. If they don't load automatically, you can create them using the controls below."
 
 // Define type for drip emails
 interface DripEmail {
   id?: string;
-  subject: string;
-  content: string;
+  template: EmailTemplate;
   approved: boolean;
   category: string;
   week?: number;
   delay: string | number; // Allow both string and number delays
   campaign_id?: string;
-  edited_content?: string;
   sent?: boolean;
   scheduled_date?: string;
 }
@@ -55,6 +61,10 @@ export default function CampaignLaunchPage() {
   const [isLoadingEmails, setIsLoadingEmails] = useState<boolean>(true)
   const [statusMessage, setStatusMessage] = useState<string | null>(null)
   const [generationError, setGenerationError] = useState<string>("")
+  const [mergeIssues, setMergeIssues] = useState<string[]>([])
+  const [personalizeOpeners, setPersonalizeOpeners] = useState<boolean>(false)
+  const [requireVerifiedEmails, setRequireVerifiedEmails] = useState<boolean>(false)
+  const [alignToVenueCalendar, setAlignToVenueCalendar] = useState<boolean>(false)
 
   // Show status message function (replaces toast)
   const showStatus = (message: string, isError = false) => {
@@ -141,9 +151,8 @@ export default function CampaignLaunchPage() {
       uniqueCategories.forEach(category => {
         initialEmailsByCategory[category] = Array(8).fill(null).map((_, i) => ({
           id: `${category}-${i + 1}`,
-          subject: `Email #${i + 1} for ${category}`,
-          content: "Campaign emails will appear here. If they don't load automatically, you can create them using the controls below.",
-          delay: getDelayForEmail(i),
+          template: createPlaceholderTemplate(category, i),
+          delay: describeSendOffset(getSendOffsetDays(i)),
           approved: false,
           category: category,
           week: i + 1
@@ -178,20 +187,17 @@ export default function CampaignLaunchPage() {
     }
   }, [activeCategory, profile, dripEmailsByCategory, isGeneratingEmails]);
 
-  // Helper function to get the delay string for each email
-  const getDelayForEmail = (index: number): string => {
-    const delays = [
-      "Day 1 (Initial Contact)",
-      "Day 5",
-      "Week 2",
-      "Week 3",
-      "Week 5",
-      "Week 7", 
-      "Week 9",
-      "Week 12"
-    ];
-    return delays[index] || `Week ${index + 1}`;
-  };
+  // Placeholder template for a step that hasn't been generated yet
+  const createPlaceholderTemplate = (category: string, index: number): EmailTemplate => ({
+    stepIndex: index,
+    sendOffsetDays: getSendOffsetDays(index),
+    subject: `Email #${index + 1} for ${category}`,
+    preheader: "",
+    textBody: PLACEHOLDER_TEXT,
+    htmlBody: "",
+    theme: DRIP_SEQUENCE[index]?.theme || "follow_up",
+    ctaType: "reply"
+  });
 
   // Generate emails for a specific category
   const generateCampaignEmails = async (category: string) => {
@@ -235,7 +241,7 @@ export default function CampaignLaunchPage() {
             if (updated[category]) {
               updated[category] = updated[category].map(email => ({
                 ...email,
-                content: "Generating new campaign email...",
+                template: { ...email.template, textBody: "Generating new campaign email..." },
               }));
             }
             return updated;
@@ -281,7 +287,7 @@ export default function CampaignLaunchPage() {
           console.log("API response structure:", JSON.stringify(Object.keys(data)));
           
           // Extract emails from response data (handle different response formats)
-          let emailArray: string[] = [];
+          let emailArray: EmailTemplate[] = [];
           
           if (data.data?.emailTemplates?.[category]) {
             // Format from /api/outreach/start
@@ -305,22 +311,21 @@ export default function CampaignLaunchPage() {
             throw new Error('No emails returned from API');
           }
           
-          console.log(`Email array sample: "${emailArray[0].substring(0, 100)}..."`);
+          console.log(`First email subject: "${emailArray[0].subject}"`);
           
-          const formattedEmails = emailArray.map((email: any, index: number) => {
+          const formattedEmails = emailArray.map((template: EmailTemplate, index: number) => {
             const campaignEmail: DripEmail = {
               id: `${category}-${index + 1}`,
-              subject: extractSubjectLine(email) || `Email #${index + 1} for ${category}`,
-              content: email,
-              delay: getDelayForEmail(index),
+              template,
+              delay: describeSendOffset(template.sendOffsetDays),
               approved: false,
               category: category,
               week: index + 1
             };
             console.log(`Processed email ${index + 1}:`, {
               id: campaignEmail.id,
-              subject: campaignEmail.subject,
-              contentLength: campaignEmail.content?.length || 0
+              subject: campaignEmail.template.subject,
+              contentLength: campaignEmail.template.textBody.length
             });
             return campaignEmail;
           });
@@ -358,50 +363,6 @@ export default function CampaignLaunchPage() {
     }
   };
 
-  // Extract subject line from email content with improved regex
-  const extractSubjectLine = (content: string): string | null => {
-    if (!content) return null;
-    
-    // Look for Subject: at the beginning of a line with case-insensitivity
-    const match = content.match(/^[^\S\n]*Subject:\s*(.*)$/mi);
-    
-    if (match && match[1]) {
-      // Clean up the subject line
-      return match[1].trim();
-    }
-    
-    // Alternative: look for **Subject: pattern (sometimes used in markdown)
-    const altMatch = content.match(/\*\*Subject:\s*([^*\n]+)/i);
-    if (altMatch && altMatch[1]) {
-      return altMatch[1].trim();
-    }
-    
-    // Try to find a line that starts with "Subject:" - common in our format
-    const subjectLineMatch = content.split('\n').find(line => 
-      line.trim().toLowerCase().startsWith('subject:')
-    );
-    
-    if (subjectLineMatch) {
-      return subjectLineMatch.replace(/^subject:\s*/i, '').trim();
-    }
-    
-    // Last resort: try to find anything that looks like a subject line
-    // but avoid capturing "Hi!" which starts every email
-    const lines = content.split('\n');
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (trimmedLine && 
-          trimmedLine.length > 5 && 
-          !trimmedLine.toLowerCase().includes('email #') &&
-          !trimmedLine.toLowerCase().startsWith('hi!') &&
-          !trimmedLine.toLowerCase().startsWith('hi,')) {
-        return trimmedLine;
-      }
-    }
-    
-    return null;
-  };
-
   // Get active category's emails with better error handling
   const getActiveCategoryEmails = (): DripEmail[] => {
     if (!activeCategory) return [];
@@ -429,9 +390,9 @@ export default function CampaignLaunchPage() {
     setAllEmailsApproved(allCatsApproved);
   }, [dripEmailsByCategory, activeCategory]);
 
-  // Handle changing the active email
-  const handleDripEmailContentChange = (content: string) => {
-    // Update the active drip email content for the current category
+  // Handle edits to the active email's subject, preheader or body
+  const handleDripEmailChange = (changes: Partial<Pick<EmailTemplate, "subject" | "preheader" | "textBody">>) => {
+    // Update the active drip email template for the current category
     setDripEmailsByCategory(prev => {
       const updatedEmails = [...prev[activeCategory]];
       const emailIndex = updatedEmails.findIndex(email => String(email.id) === String(activeDripEmail));
@@ -439,7 +400,7 @@ export default function CampaignLaunchPage() {
       if (emailIndex !== -1) {
         updatedEmails[emailIndex] = {
           ...updatedEmails[emailIndex],
-          content
+          template: updateEmailTemplate(updatedEmails[emailIndex].template, changes)
         };
       }
       
@@ -519,12 +480,12 @@ export default function CampaignLaunchPage() {
         showStatus("Launching approved campaign emails...");
         
         // Collect all approved emails for each category
-        const approvedEmailsByCategory: Record<string, string[]> = {};
+        const approvedEmailsByCategory: Record<string, EmailTemplate[]> = {};
         
         Object.keys(dripEmailsByCategory).forEach(category => {
           const approvedEmails = dripEmailsByCategory[category]
             .filter(email => email.approved)
-            .map(email => email.content);
+            .map(email => email.template);
             
           if (approvedEmails.length > 0) {
             approvedEmailsByCategory[category] = approvedEmails;
@@ -548,7 +509,10 @@ export default function CampaignLaunchPage() {
           credentials: 'include', // Include cookies for authentication
           body: JSON.stringify({
             approvedEmails: approvedEmailsByCategory,
-            leads: enrichedLeads
+            leads: enrichedLeads,
+            personalizeOpeners,
+            requireVerifiedEmails,
+            alignToVenueCalendar
           })
         });
         
@@ -556,10 +520,14 @@ export default function CampaignLaunchPage() {
         
         if (!result.success) {
           console.error("Failed to launch campaign:", result.error);
-          showStatus("Failed to launch campaign", true);
+          showStatus(result.error || "Failed to launch campaign", true);
+          // Unresolved merge fields stay listed until the next launch attempt
+          setMergeIssues((result.data?.issues || []).map((issue: { message: string }) => issue.message));
           return;
         }
         
+        setMergeIssues([]);
+        
         console.log("Campaign launched successfully:", result.data);
         showStatus("Campaign launched successfully!");
         
@@ -669,11 +637,10 @@ export default function CampaignLaunchPage() {
           }
           
           // Update the emails in state WITHOUT auto-approval
-          const formattedEmails = emailArray.map((email: string, index: number) => ({
+          const formattedEmails = emailArray.map((template: EmailTemplate, index: number) => ({
             id: `${category}-${index + 1}`,
-            subject: extractSubjectLine(email) || `Email #${index + 1} for ${category}`,
-            content: email,
-            delay: getDelayForEmail(index),
+            template,
+            delay: describeSendOffset(template.sendOffsetDays),
             approved: false, // Keep this as false so human needs to approve
             category: category,
             week: index + 1
@@ -700,17 +667,17 @@ export default function CampaignLaunchPage() {
     }
   };
 
-  // Improved function to get active email content with better error handling and debugging
-  const getActiveEmailContent = (): string => {
+  // Get the email being edited, falling back to the category's first email
+  const getActiveEmail = (): DripEmail | null => {
     if (!activeCategory) {
       console.log('No active category selected');
-      return "No category selected. Please select a category.";
+      return null;
     }
     
     const activeEmails = dripEmailsByCategory[activeCategory];
     if (!activeEmails || activeEmails.length === 0) {
       console.log(`No emails found for category: ${activeCategory} when fetching content`);
-      return "No email content available for this category.";
+      return null;
     }
     
     console.log(`Finding email with id ${activeDripEmail} among ${activeEmails.length} emails`);
@@ -727,15 +694,17 @@ export default function CampaignLaunchPage() {
         const firstEmail = activeEmails[0];
         console.log(`Falling back to first email: ${firstEmail.id}`);
         setTimeout(() => setActiveDripEmail(firstEmail.id as string | number), 0);
-        return firstEmail.content || "No content available for this email.";
+        return firstEmail;
       }
-      return "Email content not found. Please select another email.";
+      return null;
     }
     
-    console.log(`Found active email with id ${activeEmail.id}, content length: ${activeEmail.content?.length || 0}`);
-    return activeEmail.content || "No content available for this email.";
+    console.log(`Found active email with id ${activeEmail.id}, content length: ${activeEmail.template.textBody.length}`);
+    return activeEmail;
   };
 
+  const activeTemplate = getActiveEmail()?.template;
+
   return (
     <div className="container mx-auto py-8 max-w-screen-xl">
       {/* Loading Overlay for Template Generation */}
@@ -748,7 +717,7 @@ export default function CampaignLaunchPage() {
                 <div 
                   className="bg-purple-600 h-2 rounded-full transition-all duration-300" 
                   style={{ width: `${Math.min(100, activeCategory ? 
-                    ((dripEmailsByCategory[activeCategory]?.filter(e => e && e.content && !e.content.includes('Campaign emails will appear here')).length || 0) / 8) * 100
+                    ((dripEmailsByCategory[activeCategory]?.filter(e => e && e.template.textBody && !e.template.textBody.includes('Campaign emails will appear here')).length || 0) / 8) * 100
                     : 0)}%` }}
                 ></div>
               </div>
@@ -777,6 +746,20 @@ export default function CampaignLaunchPage() {
         </div>
       )}
 
+      {/* Merge fields that blocked the last launch */}
+      {mergeIssues.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Some emails still have unfilled placeholders</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {mergeIssues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+            <p className="mt-2">Add a fallback like {'{{sender.calendar_link | "just reply to this email"}}'}, wrap the text in {'{{#if ...}}'}, or fill in your profile.</p>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Page Header */}
       <div className="text-center mb-8">
         <h1 className="text-4xl font-bold mb-2 text-center gradient-text">
@@ -865,18 +848,35 @@ export default function CampaignLaunchPage() {
                 {/* No Templates Message */}
                 {(!dripEmailsByCategory[activeCategory] || 
                   dripEmailsByCategory[activeCategory].length === 0 || 
-                  dripEmailsByCategory[activeCategory][0]?.content?.includes("Campaign emails will appear here")) ? (
+                  dripEmailsByCategory[activeCategory][0]?.template.textBody.includes("Campaign emails will appear here")) ? (
                   <div className="flex flex-col items-center justify-center py-12 space-y-4">
                     <p className="text-muted-foreground">
                       Generating campaign emails... Please wait.
                     </p>
                   </div>
                 ) : (
-                  <Textarea
-                    value={getActiveEmailContent()}
-                    onChange={(e) => handleDripEmailContentChange(e.target.value)}
-                    className="min-h-[400px] font-mono text-sm bg-white text-gray-800 border-gray-200 focus:border-purple-500/50"
-                  />
+                  <div className="space-y-3">
+                    <Input
+                      value={activeTemplate?.subject || ""}
+                      onChange={(e) => handleDripEmailChange({ subject: e.target.value })}
+                      placeholder="Subject line"
+                      className="bg-white text-gray-800 border-gray-200 focus:border-purple-500/50"
+                    />
+                    <Input
+                      value={activeTemplate?.preheader || ""}
+                      onChange={(e) => handleDripEmailChange({ preheader: e.target.value })}
+                      placeholder="Preview text shown after the subject in the inbox"
+                      className="text-sm bg-white text-gray-800 border-gray-200 focus:border-purple-500/50"
+                    />
+                    <Textarea
+                      value={activeTemplate?.textBody || ""}
+                      onChange={(e) => handleDripEmailChange({ textBody: e.target.value })}
+                      className="min-h-[400px] font-mono text-sm bg-white text-gray-800 border-gray-200 focus:border-purple-500/50"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Merge fields: {MERGE_FIELDS.map(field => `{{${field.key}}}`).join(", ")}
+                    </p>
+                  </div>
                 )}
               </>
             ) : (
@@ -985,7 +985,7 @@ export default function CampaignLaunchPage() {
                   ) : (
                   <div className="space-y-2">
                     <Accordion type="single" collapsible className="w-full">
-                        {getActiveCategoryEmails().filter(email => email && !email.content?.includes("Campaign emails will appear here")).map((email, index) => (
+                        {getActiveCategoryEmails().filter(email => email && !email.template.textBody.includes("Campaign emails will appear here")).map((email, index) => (
                         <AccordionItem key={index} value={`email-${email.id || index}`} className="border border-blue-200/10 rounded-lg mb-3 overflow-hidden">
                           <AccordionTrigger className="px-4 py-3 hover:bg-blue-50/5 text-left">
                             <div className="flex items-center justify-between w-full">
@@ -994,7 +994,7 @@ export default function CampaignLaunchPage() {
                                   {email.approved ? '✓' : (index + 1)}
                                 </div>
                                 <div className="text-sm font-medium flex flex-col">
-                                  <span className="truncate max-w-[180px]">{email.subject || `Email #${index + 1} for ${activeCategory}`}</span>
+                                  <span className="truncate max-w-[180px]">{email.template.subject || `Email #${index + 1} for ${activeCategory}`}</span>
                                   <span className="text-xs text-muted-foreground">{email.delay || `Week ${index + 1}`}</span>
                                 </div>
                               </div>
@@ -1006,12 +1006,12 @@ export default function CampaignLaunchPage() {
                           <AccordionContent className="px-4 py-3 bg-blue-50/5 border-t border-blue-200/10">
                             <div className="flex flex-col space-y-3">
                               <div className="font-medium text-sm mb-1">
-                                Subject: {email.subject || `Email #${index + 1} for ${activeCategory}`}
+                                Subject: {email.template.subject || `Email #${index + 1} for ${activeCategory}`}
                               </div>
                               <div className="text-sm whitespace-pre-line text-muted-foreground">
-                                {!email.content ? 
+                                {!email.template.textBody ? 
                                   "No template content available." : 
-                                  email.content.substring(0, 150) + "..."}
+                                  email.template.textBody.substring(0, 150) + "..."}
                               </div>
                               <div className="flex items-center space-x-2 pt-2">
                                 <Button 
@@ -1129,22 +1129,63 @@ export default function CampaignLaunchPage() {
           {!isLaunched && (
             <CardFooter className="border-t border-blue-200/20 bg-blue-50/5 p-6">
               {allEmailsApproved ? (
-                <Button 
-                  onClick={handleLaunchCampaign} 
-                  className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white shadow-ai-glow transition-all duration-300"
-                  size="lg"
-                >
-                  <svg 
-                    xmlns="http://www.w3.org/2000/svg" 
-                    className="w-5 h-5 mr-2 text-white" 
-                    fill="none" 
-                    viewBox="0 0 24 24" 
-                    stroke="currentColor"
+                <div className="w-full space-y-4">
+                  <label className="flex items-start gap-3 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={personalizeOpeners}
+                      onCheckedChange={(checked) => setPersonalizeOpeners(checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium">Personalize opening emails for high-potential leads</span>
+                      <span className="block text-muted-foreground">
+                        Rewrites the first email and subject for each high-potential venue using its enrichment data. Other leads get the approved template.
+                      </span>
+                    </span>
+                  </label>
+                  <label className="flex items-start gap-3 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={requireVerifiedEmails}
+                      onCheckedChange={(checked) => setRequireVerifiedEmails(checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium">Only email verified addresses</span>
+                      <span className="block text-muted-foreground">
+                        Skips venues whose email could not be confirmed, such as a possible typo or a failed mail server check. Addresses that failed verification are never emailed.
+                      </span>
+                    </span>
+                  </label>
+                  <label className="flex items-start gap-3 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={alignToVenueCalendar}
+                      onCheckedChange={(checked) => setAlignToVenueCalendar(checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium">Time emails to each venue&apos;s booking calendar</span>
+                      <span className="block text-muted-foreground">
+                        Holds a venue&apos;s emails, for up to 8 weeks, until it starts booking its next busy season or event. Venues with no known calendar start right away.
+                      </span>
+                    </span>
+                  </label>
+                  <Button 
+                    onClick={handleLaunchCampaign} 
+                    className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white shadow-ai-glow transition-all duration-300"
+                    size="lg"
                   >
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                  </svg>
-                  Launch Approved Campaign
-                </Button>
+                    <svg 
+                      xmlns="http://www.w3.org/2000/svg" 
+                      className="w-5 h-5 mr-2 text-white" 
+                      fill="none" 
+                      viewBox="0 0 24 24" 
+                      stroke="currentColor"
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                    Launch Approved Campaign
+                  </Button>
+                </div>
               ) : (
                 <div className="w-full text-center text-muted-foreground">
                   <p>Please approve all emails to launch the campaign</p>
@@ -1157,7 +1198,7 @@ export default function CampaignLaunchPage() {
 
       {/* Remove generation controls */}
       {dripEmailsByCategory[activeCategory]?.every(email => 
-        email.content?.includes("Campaign emails will appear here")) && (
+        email.template.textBody.includes("Campaign emails will appear here")) && (
         <div className="flex flex-col space-y-4 pt-4">
           {/* Leave error alert but remove generation button */}
           {generationError && (
@@ -0,0 +1,211 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ArrowLeftIcon, Loader2, LockIcon, StarIcon, TagIcon, UsersIcon } from "lucide-react"
+import type { CompetitorReport, CompetitorVenue } from "@/lib/leads/competitors"
+
+// Venues listed per competitor before the rest are counted
+const VENUES_SHOWN = 5
+
+export default function CompetitorReportPage() {
+  const router = useRouter()
+  const [report, setReport] = useState<CompetitorReport | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/leads/competitors')
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          setError(result.error || 'Failed to load the competitor report')
+          return
+        }
+        setReport(result.report)
+      } catch (error) {
+        setError('Failed to load the competitor report')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  const venueLink = (venue: CompetitorVenue) => (
+    <button key={venue.id} className="text-primary hover:underline text-left" onClick={() => router.push(`/leads/${venue.id}`)}>
+      {venue.name}
+    </button>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-12 flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-4 pb-24 max-w-6xl">
+      <Button variant="ghost" size="sm" onClick={() => router.back()} className="mb-4">
+        <ArrowLeftIcon className="w-4 h-4 mr-2" />
+        Back to Leads
+      </Button>
+      <h1 className="text-3xl font-bold gradient-text-blue mb-2">Competitors</h1>
+      <p className="text-muted-foreground mb-6">
+        The caterers venues prefer, from the preferred caterer lists found when your leads were enriched. Different spellings of a caterer are counted together.
+      </p>
+
+      {error && (
+        <Alert className="mb-6 bg-red-50/80 border-red-200 text-red-800">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Saved venues', value: report.totalVenues },
+              { label: 'With a preferred caterer list', value: report.venuesWithCaterers },
+              { label: 'Exclusive to a competitor', value: report.exclusiveVenues },
+              { label: 'List you', value: report.venuesListingUs.length },
+            ].map(stat => (
+              <Card key={stat.label} className="border border-purple-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium">
+                <CardContent className="p-4">
+                  <p className="text-2xl font-bold">{stat.value}</p>
+                  <p className="text-xs text-muted-foreground">{stat.label}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="border border-purple-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+            <CardHeader className="border-b border-border/50 bg-secondary/30">
+              <CardTitle className="flex items-center gap-2">
+                <StarIcon className="w-5 h-5 text-purple-500" />
+                Venues That List You
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              {!report.businessName ? (
+                <p className="text-sm text-muted-foreground italic">Add your business name to your profile to find venues that already list you.</p>
+              ) : report.venuesListingUs.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">No venue lists {report.businessName} as a preferred caterer yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm">
+                  {report.venuesListingUs.map(venue => (
+                    <span key={venue.id} className="flex items-center gap-2">
+                      {venueLink(venue)}
+                      {venue.exclusive && <Badge variant="outline" className="font-normal">Exclusive</Badge>}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border border-purple-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+            <CardHeader className="border-b border-border/50 bg-secondary/30">
+              <CardTitle className="flex items-center gap-2">
+                <TagIcon className="w-5 h-5 text-purple-500" />
+                By Category
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="pb-2">Category</th>
+                    <th className="pb-2">Venues</th>
+                    <th className="pb-2">With a caterer list</th>
+                    <th className="pb-2">Leading competitors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.categories.map(category => (
+                    <tr key={category.category} className="border-t border-border/30">
+                      <td className="py-2 capitalize">{category.category}</td>
+                      <td className="py-2">{category.venues}</td>
+                      <td className="py-2">{category.venuesWithCaterers}</td>
+                      <td className="py-2">
+                        {category.topCompetitors.length === 0
+                          ? '–'
+                          : category.topCompetitors.map(competitor => `${competitor.name} (${competitor.venues})`).join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card className="border border-purple-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+            <CardHeader className="border-b border-border/50 bg-secondary/30">
+              <CardTitle className="flex items-center gap-2">
+                <UsersIcon className="w-5 h-5 text-purple-500" />
+                Competing Caterers
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-6">
+              {report.competitors.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">None of your venues list other caterers.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="pb-2">Caterer</th>
+                      <th className="pb-2">Venues</th>
+                      <th className="pb-2">Share</th>
+                      <th className="pb-2">Categories</th>
+                      <th className="pb-2">Where</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.competitors.map(competitor => (
+                      <tr key={competitor.key} className="border-t border-border/30 align-top">
+                        <td className="py-2">
+                          <p className="font-medium">{competitor.name}</p>
+                          {competitor.aliases.length > 0 && (
+                            <p className="text-xs text-muted-foreground">Also listed as {competitor.aliases.join(', ')}</p>
+                          )}
+                        </td>
+                        <td className="py-2">
+                          {competitor.venues.length}
+                          {competitor.exclusiveVenues > 0 && (
+                            <span className="flex items-center gap-1 text-xs text-amber-600">
+                              <LockIcon className="w-3 h-3" />
+                              {competitor.exclusiveVenues} exclusive
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2">{Math.round(competitor.share * 100)}%</td>
+                        <td className="py-2 capitalize">
+                          {competitor.categories.map(entry => `${entry.category} (${entry.venues})`).join(', ')}
+                        </td>
+                        <td className="py-2">
+                          <div className="flex flex-wrap gap-x-3 gap-y-1">
+                            {competitor.venues.slice(0, VENUES_SHOWN).map(venueLink)}
+                            {competitor.venues.length > VENUES_SHOWN && (
+                              <span className="text-muted-foreground">and {competitor.venues.length - VENUES_SHOWN} more</span>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
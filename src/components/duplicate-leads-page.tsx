@@ -0,0 +1,229 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ArrowLeftIcon, CopyIcon, Loader2 } from "lucide-react"
+import { DUPLICATE_REASON_LABELS, DuplicateReason } from "@/lib/leads/duplicates"
+
+interface Lead {
+  id: string;
+  name: string;
+  address?: string | null;
+  website_url?: string | null;
+  contact_phone?: string | null;
+  status?: string | null;
+  enrichment_data?: Record<string, any> | null;
+  lead_score?: number | null;
+  created_at?: string;
+  [key: string]: any;
+}
+
+interface DuplicateGroup {
+  leads: Lead[];
+  reasons: DuplicateReason[];
+}
+
+// Choices for one group: the lead to keep and the leads to fold into it
+interface GroupSelection {
+  keep: string;
+  merge: string[];
+}
+
+// Suggest keeping the enriched lead with the most data, then the oldest
+function defaultSelection(group: DuplicateGroup): GroupSelection {
+  const ranked = [...group.leads].sort((a, b) =>
+    Number(!!b.enrichment_data) - Number(!!a.enrichment_data) ||
+    Object.keys(b.enrichment_data || {}).length - Object.keys(a.enrichment_data || {}).length ||
+    (a.created_at || '').localeCompare(b.created_at || '')
+  )
+  return { keep: ranked[0].id, merge: ranked.slice(1).map(lead => lead.id) }
+}
+
+export default function DuplicateLeadsPage() {
+  const router = useRouter()
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [selections, setSelections] = useState<GroupSelection[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [mergingGroup, setMergingGroup] = useState<number | null>(null)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/leads/duplicates')
+        const result = await response.json()
+        if (!response.ok || !result.success) {
+          setMessage({ text: result.error || 'Failed to find duplicate leads', isError: true })
+          return
+        }
+        setGroups(result.groups)
+        setSelections(result.groups.map(defaultSelection))
+      } catch (error) {
+        setMessage({ text: 'Failed to find duplicate leads', isError: true })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  const setKeep = (index: number, leadId: string) =>
+    setSelections(current => current.map((selection, i) => i !== index ? selection : {
+      keep: leadId,
+      merge: groups[index].leads.map(lead => lead.id).filter(id => id !== leadId),
+    }))
+
+  const toggleMerge = (index: number, leadId: string) =>
+    setSelections(current => current.map((selection, i) => i !== index ? selection : {
+      ...selection,
+      merge: selection.merge.includes(leadId)
+        ? selection.merge.filter(id => id !== leadId)
+        : [...selection.merge, leadId],
+    }))
+
+  const merge = async (index: number) => {
+    const selection = selections[index]
+    setMergingGroup(index)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/leads/duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ primaryId: selection.keep, duplicateIds: selection.merge }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setMessage({ text: result.error || 'Failed to merge leads', isError: true })
+        return
+      }
+
+      // Leads left out of the merge stay listed with the kept lead while two or more remain
+      const remaining = groups[index].leads
+        .filter(lead => !result.merged.includes(lead.id))
+        .map(lead => lead.id === result.lead.id ? result.lead : lead)
+      const nextGroups = groups.map((group, i) => i === index ? { ...group, leads: remaining } : group)
+      const nextSelections = selections.map((current, i) => i === index ? defaultSelection(nextGroups[i]) : current)
+      const keepIndexes = nextGroups.map((group, i) => i).filter(i => nextGroups[i].leads.length > 1)
+      setGroups(keepIndexes.map(i => nextGroups[i]))
+      setSelections(keepIndexes.map(i => nextSelections[i]))
+      setMessage({ text: `Merged ${result.merged.length} ${result.merged.length === 1 ? 'lead' : 'leads'} into ${result.lead.name}`, isError: false })
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to merge leads', isError: true })
+    } finally {
+      setMergingGroup(null)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-12 flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-4 pb-24 max-w-6xl">
+      <Button variant="ghost" size="sm" onClick={() => router.back()} className="mb-4">
+        <ArrowLeftIcon className="w-4 h-4 mr-2" />
+        Back to Leads
+      </Button>
+      <h1 className="text-3xl font-bold gradient-text-blue mb-2">Duplicate Leads</h1>
+      <p className="text-muted-foreground mb-6">
+        Leads that look like the same venue. Merging keeps one lead and moves enrichment data, notes, outcomes and campaign history to it.
+      </p>
+
+      {message && (
+        <Alert className={`mb-6 ${message.isError ? 'bg-red-50/80 border-red-200 text-red-800' : 'bg-green-50/80 border-green-200 text-green-800'}`}>
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No duplicate leads found.</p>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((group, index) => (
+            <Card key={group.leads.map(lead => lead.id).join(':')} className="border border-purple-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+              <CardHeader className="border-b border-border/50 bg-secondary/30">
+                <CardTitle className="flex flex-wrap items-center gap-2">
+                  <CopyIcon className="w-5 h-5 text-purple-500" />
+                  {group.leads[0].name}
+                  {group.reasons.map(reason => (
+                    <Badge key={reason} variant="outline" className="font-normal">{DUPLICATE_REASON_LABELS[reason]}</Badge>
+                  ))}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-6">
+                <table className="w-full text-sm mb-4">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="pb-2">Keep</th>
+                      <th className="pb-2">Merge</th>
+                      <th className="pb-2">Name</th>
+                      <th className="pb-2">Address</th>
+                      <th className="pb-2">Website</th>
+                      <th className="pb-2">Phone</th>
+                      <th className="pb-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {group.leads.map(lead => {
+                      const isKept = selections[index]?.keep === lead.id
+                      return (
+                        <tr key={lead.id} className="border-t border-border/30">
+                          <td className="py-2">
+                            <input
+                              type="radio"
+                              name={`keep-${index}`}
+                              checked={isKept}
+                              onChange={() => setKeep(index, lead.id)}
+                            />
+                          </td>
+                          <td className="py-2">
+                            <input
+                              type="checkbox"
+                              disabled={isKept}
+                              checked={!isKept && !!selections[index]?.merge.includes(lead.id)}
+                              onChange={() => toggleMerge(index, lead.id)}
+                            />
+                          </td>
+                          <td className="py-2">
+                            <button className="text-primary hover:underline text-left" onClick={() => router.push(`/leads/${lead.id}`)}>
+                              {lead.name}
+                            </button>
+                          </td>
+                          <td className="py-2">{lead.address || '–'}</td>
+                          <td className="py-2 break-all">{lead.website_url || '–'}</td>
+                          <td className="py-2">{lead.contact_phone || '–'}</td>
+                          <td className="py-2 capitalize">{lead.status || '–'}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+                <Button
+                  onClick={() => merge(index)}
+                  disabled={mergingGroup !== null || !selections[index]?.merge.length}
+                >
+                  {mergingGroup === index ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Merging...
+                    </>
+                  ) : (
+                    `Merge ${selections[index]?.merge.length || 0} into the kept lead`
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
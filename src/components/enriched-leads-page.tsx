@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { AlertCircleIcon, InfoIcon, ExternalLinkIcon, SendIcon, Loader2, RefreshCw } from "lucide-react"
+import { AlertCircleIcon, InfoIcon, ExternalLinkIcon, SendIcon, Loader2, RefreshCw, SlidersHorizontalIcon, CopyIcon, UsersIcon } from "lucide-react"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useCaterly } from "@/app/context/caterly-context"
 import { mapToOutreachCategory } from "@/config/categoryMapping"
@@ -772,6 +772,30 @@ export default function EnrichedLeadsPage() {
         <h1 className="text-2xl font-bold mb-4 md:mb-0">Enriched Leads</h1>
         
         <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            variant="outline"
+            onClick={() => router.push('/leads/scoring')}
+            className="w-full sm:w-auto"
+          >
+            <SlidersHorizontalIcon className="mr-2 h-4 w-4" />
+            Scoring
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => router.push('/leads/duplicates')}
+            className="w-full sm:w-auto"
+          >
+            <CopyIcon className="mr-2 h-4 w-4" />
+            Duplicates
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => router.push('/leads/competitors')}
+            className="w-full sm:w-auto"
+          >
+            <UsersIcon className="mr-2 h-4 w-4" />
+            Competitors
+          </Button>
           {!isLoading && (
             <Button 
               onClick={launchAICampaign} 
@@ -0,0 +1,132 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { LockIcon, PencilIcon, UnlockIcon } from "lucide-react"
+import { OVERRIDE_FIELDS, OverrideField } from "@/lib/leads/overrides"
+
+interface LeadFieldEditorProps {
+  lead: {
+    id: string;
+    enrichment_data?: Record<string, any> | null;
+    locked_fields?: string[];
+    [key: string]: any;
+  };
+}
+
+// Current value of a field, as text for display and editing
+function fieldText(lead: LeadFieldEditorProps['lead'], field: OverrideField): string {
+  const value = field.target === 'lead' ? lead[field.name] : lead.enrichment_data?.[field.name]
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+// Lets the user correct lead details; corrected fields are locked against re-enrichment
+export default function LeadFieldEditor({ lead }: LeadFieldEditorProps) {
+  const router = useRouter()
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const locked = new Set(lead.locked_fields || [])
+
+  const startEditing = (field: OverrideField) => {
+    setEditing(field.key)
+    setDraft(fieldText(lead, field))
+    setError(null)
+  }
+
+  const send = async (method: 'PUT' | 'DELETE', field: string) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const url = method === 'PUT'
+        ? `/api/leads/${lead.id}/overrides`
+        : `/api/leads/${lead.id}/overrides?field=${encodeURIComponent(field)}`
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === 'PUT' ? JSON.stringify({ field, value: draft }) : undefined,
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Failed to save')
+        return
+      }
+      setEditing(null)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Corrected fields are locked and keep your value when the lead is enriched again.
+      </p>
+      {error && !editing && <p className="text-xs text-red-500">{error}</p>}
+      {OVERRIDE_FIELDS.map((field) => (
+        <div key={field.key} className="border-b border-border/30 pb-2 last:border-0">
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-xs font-medium text-foreground/70 flex items-center">
+              {field.label}
+              {locked.has(field.key) && (
+                <LockIcon className="w-3 h-3 ml-1 text-emerald-500" aria-label="Locked" />
+              )}
+            </label>
+            {editing !== field.key && (
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => startEditing(field)} disabled={saving}>
+                  <PencilIcon className="w-3 h-3" />
+                </Button>
+                {locked.has(field.key) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2"
+                    title="Unlock so enrichment can update this field"
+                    onClick={() => send('DELETE', field.key)}
+                    disabled={saving}
+                  >
+                    <UnlockIcon className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+
+          {editing === field.key ? (
+            <div className="mt-1 space-y-2">
+              <Input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={field.type === 'boolean' ? 'Yes or No' : field.type === 'list' ? 'Comma-separated' : ''}
+                autoFocus
+              />
+              {error && <p className="text-xs text-red-500">{error}</p>}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => send('PUT', field.key)} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save & lock'}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditing(null)} disabled={saving}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-foreground/90 break-words line-clamp-2">
+              {fieldText(lead, field) || <span className="italic text-foreground/60">Not set</span>}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
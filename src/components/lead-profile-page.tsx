@@ -5,7 +5,19 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { ExternalLinkIcon, MapPinIcon, PhoneIcon, MailIcon, CalendarIcon, BuildingIcon, InfoIcon, ArrowLeftIcon } from "lucide-react"
+import LeadFieldEditor from "@/components/lead-field-editor"
+import { leadContacts } from "@/lib/leads/contacts"
+import { describeLeadTime, planningFor } from "@/lib/leads/seasonality"
+import type { EventCalendar } from "@/agents/enrichment/types"
+import { ExternalLinkIcon, MapPinIcon, PhoneIcon, MailIcon, CalendarIcon, BuildingIcon, InfoIcon, ArrowLeftIcon, MessageSquareIcon, PencilIcon, UsersIcon } from "lucide-react"
+
+interface FieldProvenance {
+  source: 'firecrawl' | 'regex' | 'llm' | 'lead' | 'fallback' | 'manual';
+  sourceUrl?: string;
+  snippet?: string;
+  confidence: number;
+  extractedAt: string;
+}
 
 interface EnrichmentData {
   venueCapacity?: number;
@@ -16,12 +28,14 @@ interface EnrichmentData {
   lastPublishedEvent?: string;
   eventFrequency?: string;
   commonEventTypes?: string[];
+  eventCalendar?: EventCalendar;
   aiOverview?: string;
   website?: string;
   eventTypes?: string[];
   amenities?: string[] | string;
   pricingInformation?: string;
   preferredCaterers?: string[];
+  exclusiveCaterer?: string;
   leadScore?: {
     score: number;
     reasons: string[];
@@ -30,6 +44,7 @@ interface EnrichmentData {
   };
   eventsInformation?: string;
   lastUpdated?: string;
+  provenance?: Record<string, FieldProvenance>;
   [key: string]: any;
 }
 
@@ -47,14 +62,137 @@ interface Lead {
   lead_score?: number | null;
   lead_score_label?: string | null;
   created_at?: string | null;
+  locked_fields?: string[];
   [key: string]: any;
 }
 
+interface LeadReply {
+  id: string;
+  from_email: string;
+  from_name?: string | null;
+  subject?: string | null;
+  text_body?: string | null;
+  received_at: string;
+}
+
+type LeadOutcome = 'booked' | 'replied' | 'no_response' | 'rejected';
+
 interface LeadProfilePageProps {
   lead: Lead;
+  replies?: LeadReply[];
+  outcome?: LeadOutcome | null;
+}
+
+const OUTCOME_LABELS: Record<LeadOutcome, string> = {
+  booked: 'Booked',
+  replied: 'Replied',
+  no_response: 'No response',
+  rejected: 'Rejected',
+};
+
+const SOURCE_LABELS: Record<FieldProvenance['source'], string> = {
+  firecrawl: 'Website extract',
+  regex: 'Found on website',
+  llm: 'AI analysis',
+  lead: 'Lead record',
+  fallback: 'Placeholder',
+  manual: 'Edited by you',
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const CONTACT_ROLE_LABELS: Record<string, string> = {
+  events: 'Events',
+  sales: 'Sales',
+  catering: 'Catering',
+  general: 'General',
+};
+
+const EMAIL_STATUS_LABELS: Record<string, string> = {
+  valid: 'Email verified',
+  risky: 'Email may be a typo',
+  invalid: 'Email undeliverable',
+  unknown: 'Email not checked',
+};
+
+// Where an enriched value came from and how far to trust it
+function ProvenanceNote({ provenance }: { provenance?: FieldProvenance }) {
+  if (!provenance) return null
+  
+  const percent = Math.round(provenance.confidence * 100)
+  const dotClass = provenance.confidence >= 0.7
+    ? 'bg-green-500'
+    : provenance.confidence >= 0.4
+      ? 'bg-amber-500'
+      : 'bg-red-500'
+  const details = [
+    provenance.sourceUrl && `Source: ${provenance.sourceUrl}`,
+    `Extracted: ${new Date(provenance.extractedAt).toLocaleString()}`,
+  ].filter(Boolean).join('\n')
+  
+  return (
+    <div className="mt-1 text-xs text-muted-foreground" title={details}>
+      <span className="flex items-center">
+        <span className={`inline-block w-2 h-2 rounded-full mr-1.5 ${dotClass}`}></span>
+        {SOURCE_LABELS[provenance.source] || provenance.source} · {percent}% confidence
+      </span>
+      {provenance.snippet && (
+        <p className="italic mt-0.5 line-clamp-2 break-all">&ldquo;{provenance.snippet}&rdquo;</p>
+      )}
+    </div>
+  )
+}
+
+// How outreach to the lead turned out; outcomes feed score calibration
+function OutcomePicker({ leadId, outcome }: { leadId: string; outcome?: LeadOutcome | null }) {
+  const router = useRouter()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  
+  const choose = async (next: LeadOutcome) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/leads/${leadId}/outcome`, {
+        method: next === outcome ? 'DELETE' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: next === outcome ? undefined : JSON.stringify({ outcome: next }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Failed to save outcome')
+        return
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save outcome')
+    } finally {
+      setSaving(false)
+    }
+  }
+  
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-foreground/80 mb-2">Outcome</h3>
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(OUTCOME_LABELS) as LeadOutcome[]).map(option => (
+          <Button
+            key={option}
+            size="sm"
+            variant={option === outcome ? "default" : "outline"}
+            onClick={() => choose(option)}
+            disabled={saving}
+          >
+            {OUTCOME_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+      {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+    </div>
+  )
 }
 
-export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
+export default function LeadProfilePage({ lead, replies = [], outcome = null }: LeadProfilePageProps) {
   const router = useRouter()
   const enrichmentData = lead.enrichment_data || {}
   
@@ -77,16 +215,31 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
         ? enrichmentData.eventTypes
         : [];
   
+  // Everyone the venue lists; campaigns write to the one whose role fits their category
+  const contacts = leadContacts(lead)
+  
+  // Dated events and busy seasons, and what the venue is booking now
+  const eventCalendar = enrichmentData.eventCalendar
+  const bookingNow = planningFor(eventCalendar)
+  
   // Format preferred caterers as list
   const preferredCaterers = 
     Array.isArray(enrichmentData.preferredCaterers) 
       ? enrichmentData.preferredCaterers 
       : [];
 
-  // Determine contact info
-  const contactName = enrichmentData.eventManagerName || enrichmentData.managementContactName || lead.contact_name || "No contact name available";
-  const contactEmail = enrichmentData.eventManagerEmail || enrichmentData.managementContactEmail || lead.contact_email || null;
-  const contactPhone = enrichmentData.eventManagerPhone || enrichmentData.managementContactPhone || lead.contact_phone || null;
+  // Provenance of a field, when the value shown came from enrichment
+  const provenanceOf = (field: string) =>
+    enrichmentData[field] !== undefined && enrichmentData[field] !== null && enrichmentData[field] !== ''
+      ? enrichmentData.provenance?.[field]
+      : undefined;
+
+  // Determine contact info; contact details the user corrected take precedence
+  const locked = new Set(lead.locked_fields || [])
+  const lockedValue = (field: string) => locked.has(field) ? lead[field] : null
+  const contactName = lockedValue('contact_name') || enrichmentData.eventManagerName || enrichmentData.managementContactName || lead.contact_name || "No contact name available";
+  const contactEmail = lockedValue('contact_email') || enrichmentData.eventManagerEmail || enrichmentData.managementContactEmail || lead.contact_email || null;
+  const contactPhone = lockedValue('contact_phone') || enrichmentData.eventManagerPhone || enrichmentData.managementContactPhone || lead.contact_phone || null;
   
   // Format venue capacity
   const venueCapacity = enrichmentData.venueCapacity 
@@ -144,6 +297,12 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
               </Badge>
             )}
             
+            {lead.status === 'replied' && (
+              <Badge className="bg-green-500/20 text-green-700 self-start" variant="secondary">
+                Replied
+              </Badge>
+            )}
+            
             {score > 0 && (
               <div className="flex items-center gap-2 ml-auto">
                 <span className="text-sm text-muted-foreground">Lead Score:</span>
@@ -205,6 +364,7 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
                         <div>
                           <p className="text-foreground/90 font-medium">Capacity</p>
                           <p className="text-foreground/80">{venueCapacity}</p>
+                          <ProvenanceNote provenance={provenanceOf('venueCapacity')} />
                         </div>
                       </div>
                       
@@ -216,6 +376,7 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
                             <p className="text-foreground/80">
                               {enrichmentData.inHouseCatering ? "Yes" : "No"}
                             </p>
+                            <ProvenanceNote provenance={provenanceOf('inHouseCatering')} />
                           </div>
                         </div>
                       )}
@@ -230,9 +391,12 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
                         <div>
                           <p className="text-foreground/90 font-medium">Email</p>
                           {contactEmail ? (
-                            <a href={`mailto:${contactEmail}`} className="text-blue-500 break-all">
-                              {contactEmail}
-                            </a>
+                            <>
+                              <a href={`mailto:${contactEmail}`} className="text-blue-500 break-all">
+                                {contactEmail}
+                              </a>
+                              <ProvenanceNote provenance={provenanceOf('eventManagerEmail')} />
+                            </>
                           ) : (
                             <p className="text-foreground/70 italic">Not available</p>
                           )}
@@ -244,9 +408,12 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
                         <div>
                           <p className="text-foreground/90 font-medium">Phone</p>
                           {contactPhone ? (
-                            <a href={`tel:${contactPhone}`} className="text-blue-500">
-                              {contactPhone}
-                            </a>
+                            <>
+                              <a href={`tel:${contactPhone}`} className="text-blue-500">
+                                {contactPhone}
+                              </a>
+                              <ProvenanceNote provenance={provenanceOf('eventManagerPhone')} />
+                            </>
                           ) : (
                             <p className="text-foreground/70 italic">Not available</p>
                           )}
@@ -272,6 +439,48 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
               </CardContent>
             </Card>
             
+            {contacts.length > 1 && (
+              <Card className="border border-blue-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+                <CardHeader className="border-b border-border/50 bg-secondary/30">
+                  <CardTitle className="flex items-center">
+                    <UsersIcon className="w-5 h-5 mr-2 text-blue-500" />
+                    Venue Contacts
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <div className="divide-y divide-border/30">
+                    {contacts.map((contact, index) => (
+                      <div key={contact.email || contact.phone || index} className="py-3 first:pt-0 last:pb-0 flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <p className="text-foreground/90 font-medium">
+                            {contact.name || contact.email || contact.phone}
+                            {contact.title && <span className="text-foreground/70 font-normal"> · {contact.title}</span>}
+                          </p>
+                          <div className="flex flex-wrap gap-x-4 text-sm">
+                            {contact.email && (
+                              <a href={`mailto:${contact.email}`} className="text-blue-500 break-all">{contact.email}</a>
+                            )}
+                            {contact.phone && (
+                              <a href={`tel:${contact.phone}`} className="text-blue-500">{contact.phone}</a>
+                            )}
+                          </div>
+                          <p className="mt-1 text-xs text-muted-foreground" title={contact.sourceUrl}>
+                            {SOURCE_LABELS[contact.source] || contact.source}
+                            {contact.verification && (
+                              <span title={contact.verification.reason}> · {EMAIL_STATUS_LABELS[contact.verification.status] || contact.verification.status}</span>
+                            )}
+                          </p>
+                        </div>
+                        <Badge className="bg-blue-500/20 text-blue-300 shrink-0" variant="secondary">
+                          {CONTACT_ROLE_LABELS[contact.role] || contact.role}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {eventTypes.length > 0 && (
                 <Card className="border border-blue-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
@@ -312,6 +521,86 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
               )}
             </div>
             
+            {eventCalendar && (
+              <Card className="border border-amber-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+                <CardHeader className="border-b border-border/50 bg-secondary/30">
+                  <CardTitle className="flex items-center">
+                    <CalendarIcon className="w-5 h-5 mr-2 text-amber-500" />
+                    Event Calendar
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-6 space-y-4">
+                  {(bookingNow || eventCalendar.bookingLeadTimeDays) && (
+                    <p className="text-foreground/90">
+                      {bookingNow && <span className="font-medium">Booking now for {bookingNow.name}. </span>}
+                      {eventCalendar.bookingLeadTimeDays && `Events are booked about ${describeLeadTime(eventCalendar.bookingLeadTimeDays)} ahead.`}
+                    </p>
+                  )}
+                  {eventCalendar.peakSeasons.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {eventCalendar.peakSeasons.map((season, index) => (
+                        <Badge key={index} className="bg-amber-500/20 text-amber-300" variant="secondary">
+                          {season.name} · {MONTH_LABELS[season.startMonth - 1]}–{MONTH_LABELS[season.endMonth - 1]}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {eventCalendar.upcomingEvents.length > 0 && (
+                    <div className="divide-y divide-border/30">
+                      {eventCalendar.upcomingEvents.map((event, index) => (
+                        <div key={index} className="py-2 first:pt-0 last:pb-0 flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="text-foreground/90 font-medium">{event.name}</p>
+                            {event.eventType && <p className="text-xs text-muted-foreground">{event.eventType}</p>}
+                          </div>
+                          <span className="text-sm text-foreground/70 shrink-0">
+                            {new Date(`${event.date}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+                            {event.endDate && ` – ${new Date(`${event.endDate}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+            
+            {replies.length > 0 && (
+              <Card className="border border-emerald-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+                <CardHeader className="border-b border-border/50 bg-secondary/30">
+                  <CardTitle className="flex items-center">
+                    <MessageSquareIcon className="w-5 h-5 mr-2 text-emerald-500" />
+                    Replies
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <p className="text-xs text-muted-foreground mb-4">
+                    Remaining campaign emails to this lead were cancelled when they replied.
+                  </p>
+                  <div className="space-y-4">
+                    {replies.map((reply) => (
+                      <div key={reply.id} className="p-4 bg-card/60 border border-emerald-500/10 rounded-lg">
+                        <div className="flex justify-between items-start gap-3 mb-2">
+                          <div>
+                            <p className="font-medium text-sm">{reply.from_name || reply.from_email}</p>
+                            {reply.subject && (
+                              <p className="text-xs text-muted-foreground">{reply.subject}</p>
+                            )}
+                          </div>
+                          <span className="text-xs text-muted-foreground whitespace-nowrap">
+                            {new Date(reply.received_at).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-sm text-foreground/90 whitespace-pre-line">
+                          {reply.text_body || "(No text content)"}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            
             {preferredCaterers.length > 0 && (
               <Card className="border border-green-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
                 <CardHeader className="border-b border-border/50 bg-secondary/30">
@@ -321,9 +610,19 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="p-6">
+                  {enrichmentData.exclusiveCaterer && (
+                    <p className="text-sm text-muted-foreground mb-3">
+                      This venue only allows {enrichmentData.exclusiveCaterer} to cater its events.
+                    </p>
+                  )}
                   <ul className="list-disc list-inside space-y-1 text-foreground/90">
                     {preferredCaterers.map((caterer, index) => (
-                      <li key={index}>{caterer}</li>
+                      <li key={index}>
+                        {caterer}
+                        {caterer === enrichmentData.exclusiveCaterer && (
+                          <Badge variant="outline" className="ml-2 font-normal">Exclusive</Badge>
+                        )}
+                      </li>
                     ))}
                   </ul>
                 </CardContent>
@@ -345,6 +644,7 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
                   <div>
                     <label className="text-xs font-medium text-foreground/70 block mb-1">Contact Name</label>
                     <p className="text-foreground font-medium">{contactName}</p>
+                    <ProvenanceNote provenance={provenanceOf('eventManagerName')} />
                   </div>
                   
                   {contactEmail && (
@@ -376,6 +676,18 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
               </CardContent>
             </Card>
             
+            <Card className="border border-amber-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+              <CardHeader className="border-b border-border/50 bg-secondary/30">
+                <CardTitle className="flex items-center">
+                  <PencilIcon className="w-4 h-4 mr-2 text-amber-500" />
+                  Edit Details
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-6">
+                <LeadFieldEditor lead={lead} />
+              </CardContent>
+            </Card>
+            
             <Card className="border border-blue-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
               <CardHeader className="border-b border-border/50 bg-secondary/30">
                 <CardTitle className="flex items-center">
@@ -404,6 +716,10 @@ export default function LeadProfilePage({ lead }: LeadProfilePageProps) {
                   </div>
                 )}
                 
+                <div className="mt-6">
+                  <OutcomePicker leadId={lead.id} outcome={outcome} />
+                </div>
+                
                 <div className="mt-4 text-xs text-muted-foreground">
                   <p>Last updated: {enrichmentData.lastUpdated ? new Date(enrichmentData.lastUpdated).toLocaleString() : 'Unknown'}</p>
                 </div>
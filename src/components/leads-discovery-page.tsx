@@ -23,7 +23,7 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { useCaterly } from "../app/context/caterly-context"
 import { Badge } from "@/components/ui/badge"
-import { Business } from "@/types/business"
+import { Business, BusinessSearchResponse } from "@/types/business"
 // Lazily load businessService to avoid node:async_hooks issues during component rendering
 // Import directly from services/businessService
 import { useToast } from "@/hooks/use-toast"
@@ -105,6 +105,24 @@ function truncateUrl(url: string, maxLength: number = 30): string {
   return domain;
 }
 
+// Summarize the places a search left out, e.g. "Skipped 5: 3 without a website, 2 outside the radius"
+const SKIP_LABELS: Record<string, string> = {
+  noWebsite: 'without a website',
+  noContact: 'without a website or phone',
+  outsideRadius: 'outside the radius',
+  duplicate: 'merged as duplicates',
+  detailsFailed: 'could not be loaded',
+};
+
+function formatSkipped(skipped: NonNullable<BusinessSearchResponse['skipped']>): string {
+  const parts = Object.entries(skipped)
+    .filter(([, count]) => count > 0)
+    .map(([reason, count]) => `${count} ${SKIP_LABELS[reason] || reason}`);
+  if (parts.length === 0) return 'Nothing skipped';
+  const total = Object.values(skipped).reduce((sum, count) => sum + count, 0);
+  return `Skipped ${total}: ${parts.join(', ')}`;
+}
+
 // Map Business type to Lead type for context compatibility
 const businessToLead = (business: Business) => {
   // Ensure id is a number
@@ -143,6 +161,10 @@ export default function LeadsDiscoveryPage() {
   const [progress, setProgress] = useState<{step: string; status: string; count?: number; total?: number; message?: string} | null>(null)
   const [receivedFirstBusiness, setReceivedFirstBusiness] = useState(false)
   const [isEnrichingLeads, setIsEnrichingLeads] = useState(false)
+  // Coverage mode pages through results and tiles the radius; it takes longer and uses more API calls.
+  // forceRefresh skips cached place details and website extracts for this search and its enrichment
+  const [searchOptions, setSearchOptions] = useState({ coverage: false, includeWithoutWebsite: false, forceRefresh: false })
+  const [skipped, setSkipped] = useState<BusinessSearchResponse['skipped'] | null>(null)
 
   // Load businesses on component mount
   useEffect(() => {
@@ -183,7 +205,8 @@ export default function LeadsDiscoveryPage() {
             ? `${campaign.coordinates.lat},${campaign.coordinates.lng}` 
             : '',
           radius: campaign.radius,
-          coordinates: campaign.coordinates as any
+          coordinates: campaign.coordinates as any,
+          ...searchOptions
         });
         
         console.log("Fast search complete:", results);
@@ -195,6 +218,7 @@ export default function LeadsDiscoveryPage() {
         // Update state with results
         if (mounted) {
           setBusinesses(results.businesses || []);
+          setSkipped(results.skipped || null);
           setLoading(false);
           
           // Update progress to show completion
@@ -221,7 +245,7 @@ export default function LeadsDiscoveryPage() {
     return () => {
       mounted = false;
     };
-  }, [campaign]);
+  }, [campaign, searchOptions]);
 
   // Add a useEffect to track changes to the businesses state
   useEffect(() => {
@@ -335,7 +359,9 @@ export default function LeadsDiscoveryPage() {
       
       // STEP 5: Call the business enrichment service to process leads with AI
       console.log(`[DISCOVERY] Calling businessService.enrichBusinesses with ${businessesToEnrich.length} leads`);
-      const enrichmentResult = await businessServiceInstance.enrichBusinesses(businessesToEnrich);
+      const enrichmentResult = await businessServiceInstance.enrichBusinesses(businessesToEnrich, {
+        forceRefresh: searchOptions.forceRefresh
+      });
       
       // STEP 6: Handle any errors from the enrichment process
       if (enrichmentResult.error) {
@@ -401,6 +427,40 @@ export default function LeadsDiscoveryPage() {
               )}
             </CardHeader>
             <CardContent className="p-0">
+              <div className="flex flex-wrap items-center gap-4 px-3 py-2 border-b border-border/30 text-sm">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="coverage"
+                    checked={searchOptions.coverage}
+                    disabled={loading}
+                    onCheckedChange={(checked) => setSearchOptions({ ...searchOptions, coverage: checked === true })}
+                  />
+                  <label htmlFor="coverage" className="text-foreground/80">Full coverage (slower, finds more than 20)</label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="includeWithoutWebsite"
+                    checked={searchOptions.includeWithoutWebsite}
+                    disabled={loading}
+                    onCheckedChange={(checked) => setSearchOptions({ ...searchOptions, includeWithoutWebsite: checked === true })}
+                  />
+                  <label htmlFor="includeWithoutWebsite" className="text-foreground/80">Include venues without a website</label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="forceRefresh"
+                    checked={searchOptions.forceRefresh}
+                    disabled={loading}
+                    onCheckedChange={(checked) => setSearchOptions({ ...searchOptions, forceRefresh: checked === true })}
+                  />
+                  <label htmlFor="forceRefresh" className="text-foreground/80">Refresh cached venue data</label>
+                </div>
+                {!loading && skipped && (
+                  <span className="text-muted-foreground ml-auto">
+                    {formatSkipped(skipped)}
+                  </span>
+                )}
+              </div>
               {loading ? (
                 <div className="flex justify-center items-center p-8">
                   <Spinner size="lg" className="text-purple-500" />
@@ -498,7 +558,9 @@ export default function LeadsDiscoveryPage() {
                                   {truncatedWebsite}
                                 </a>
                               ) : (
-                                <span className="text-gray-400">Not available</span>
+                                <span className="text-gray-400">
+                                  {business.phoneOnly ? 'None (phone-only lead)' : 'Not available'}
+                                </span>
                               )}
                             </td>
                             <td className="py-2 px-3 text-foreground/90">
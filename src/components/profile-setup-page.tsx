@@ -57,6 +57,7 @@ export default function ProfileSetupPage() {
   const [menuLink, setMenuLink] = useState("")
   const [managerContact, setManagerContact] = useState("")
   const [orderingLink, setOrderingLink] = useState("")
+  const [calendarLink, setCalendarLink] = useState("")
   const [focus, setFocus] = useState("")
   const [generatedProfile, setGeneratedProfile] = useState("")
   const [showPreview, setShowPreview] = useState(false)
@@ -156,6 +157,10 @@ export default function ProfileSetupPage() {
             if (userData.serviceTypes) setServiceTypes(userData.serviceTypes);
             if (userData.customizationOptions) setCustomizationOptions(userData.customizationOptions);
             if (userData.managerContact) setManagerContact(userData.managerContact);
+            if (userData.ownerContact) setOwnerContact(userData.ownerContact);
+            if (userData.menuLink) setMenuLink(userData.menuLink);
+            if (userData.orderingLink) setOrderingLink(userData.orderingLink);
+            if (userData.calendarLink) setCalendarLink(userData.calendarLink);
           }
           
           console.log('Loaded existing profile data');
@@ -521,6 +526,11 @@ To discuss your next event, contact ${ownerContact || "us"} ${managerContact ? `
           serviceTypes,
           customizationOptions,
           managerContact,
+          ownerContact,
+          // Links used as email merge fields
+          menuLink,
+          orderingLink,
+          calendarLink,
           photo_urls: photoUrlsToSave,
           coordinates: location.coordinates
         }
@@ -920,6 +930,22 @@ To discuss your next event, contact ${ownerContact || "us"} ${managerContact ? `
                         />
                       </div>
 
+                      <div>
+                        <Label htmlFor="calendarLink" className="text-card-foreground flex items-center">
+                          <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4 mr-2 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                          </svg>
+                          Booking Calendar Link
+                        </Label>
+                        <Input
+                          id="calendarLink"
+                          placeholder="https://calendly.com/your-business/15min"
+                          value={calendarLink}
+                          onChange={(e) => setCalendarLink(e.target.value)}
+                          className="bg-white text-gray-800 border-gray-200 focus:border-purple-500/50 placeholder:text-gray-600"
+                        />
+                      </div>
+
                       <div>
                         <Label htmlFor="focus" className="text-card-foreground flex items-center">
                           <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4 mr-2 text-pink-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -971,6 +997,9 @@ To discuss your next event, contact ${ownerContact || "us"} ${managerContact ? `
                               serviceTypes,
                               customizationOptions,
                               managerContact,
+                              menuLink,
+                              orderingLink,
+                              calendarLink,
                               
                               // If on basics tab, save those fields
                               ...(activeTab === "basics" ? {
@@ -0,0 +1,428 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ArrowLeftIcon, Loader2, SlidersHorizontalIcon } from "lucide-react"
+import { calculateLeadScore, DEFAULT_SCORING_PROFILE, normalizeScoringProfile } from "@/agents/enrichment/scoring"
+import type { ScoringProfile, ScoringWeights } from "@/agents/enrichment/types"
+import type { CalibrationReport } from "@/lib/leads/calibration"
+
+interface Lead {
+  id: string;
+  name: string;
+  enrichment_data?: Record<string, any> | null;
+  lead_score?: number | null;
+  lead_score_label?: string | null;
+  [key: string]: any;
+}
+
+// Form labels for each weight; penalties are subtracted from the score
+const WEIGHT_LABELS: Array<{ key: keyof ScoringWeights; label: string; penalty?: boolean }> = [
+  { key: 'email', label: 'Has contact email' },
+  { key: 'phone', label: 'Has contact phone' },
+  { key: 'contactName', label: 'Has contact name' },
+  { key: 'capacity', label: 'Capacity above minimum' },
+  { key: 'eventTypes', label: 'Hosts events' },
+  { key: 'targetEventType', label: 'Hosts your target event types' },
+  { key: 'pricing', label: 'Pricing information available' },
+  { key: 'noInHouseCatering', label: 'No in-house catering' },
+  { key: 'inHouseCatering', label: 'Has in-house catering' },
+  { key: 'website', label: 'Has website' },
+  { key: 'detailedDescription', label: 'Detailed description' },
+  { key: 'preferredCaterers', label: 'Has a preferred caterer list you are not on', penalty: true },
+  { key: 'exclusiveCaterer', label: 'Has an exclusive caterer other than you', penalty: true },
+  { key: 'outsideMaxDistance', label: 'Outside your maximum distance', penalty: true },
+]
+
+const POTENTIALS = ['high', 'medium', 'low'] as const
+
+// Form state: numbers are kept as typed so partially entered values do not jump
+interface ProfileForm {
+  weights: Record<keyof ScoringWeights, string>;
+  minCapacity: string;
+  high: string;
+  medium: string;
+  targetEventTypes: string;
+  maxDistanceMiles: string;
+  businessName: string;
+  origin: ScoringProfile['origin'];
+}
+
+function toForm(profile: ScoringProfile): ProfileForm {
+  return {
+    weights: Object.fromEntries(
+      Object.entries(profile.weights).map(([key, value]) => [key, String(value)])
+    ) as ProfileForm['weights'],
+    minCapacity: String(profile.minCapacity),
+    high: String(profile.thresholds.high),
+    medium: String(profile.thresholds.medium),
+    targetEventTypes: profile.targetEventTypes.join(', '),
+    maxDistanceMiles: profile.maxDistanceMiles ? String(profile.maxDistanceMiles) : '',
+    businessName: profile.businessName || '',
+    origin: profile.origin,
+  }
+}
+
+function fromForm(form: ProfileForm) {
+  return {
+    weights: Object.fromEntries(
+      Object.entries(form.weights).map(([key, value]) => [key, Number(value)])
+    ),
+    minCapacity: Number(form.minCapacity),
+    thresholds: { high: Number(form.high), medium: Number(form.medium) },
+    targetEventTypes: form.targetEventTypes.split(','),
+    maxDistanceMiles: form.maxDistanceMiles ? Number(form.maxDistanceMiles) : null,
+    businessName: form.businessName,
+    origin: form.origin,
+  }
+}
+
+export default function ScoringProfilePage() {
+  const router = useRouter()
+  const [form, setForm] = useState<ProfileForm>(toForm(DEFAULT_SCORING_PROFILE))
+  const [leads, setLeads] = useState<Lead[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const [report, setReport] = useState<CalibrationReport | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [profileResponse, leadsResponse, calibrationResponse] = await Promise.all([
+          fetch('/api/leads/scoring-profile'),
+          fetch('/api/leads/enriched'),
+          fetch('/api/leads/calibration'),
+        ])
+        const profileResult = await profileResponse.json()
+        const leadsResult = await leadsResponse.json()
+        const calibrationResult = await calibrationResponse.json()
+        if (profileResult.success) setForm(toForm(profileResult.profile))
+        setLeads((leadsResult.leads || []).filter((lead: Lead) => lead.enrichment_data))
+        if (calibrationResult.success) setReport(calibrationResult.report)
+      } catch (error) {
+        setMessage({ text: 'Failed to load your scoring profile', isError: true })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+    load()
+  }, [])
+
+  // Score every lead with the profile being edited
+  const preview = useMemo(() => {
+    let profile: ScoringProfile
+    try {
+      profile = normalizeScoringProfile(fromForm(form))
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid profile', rows: [], counts: null }
+    }
+
+    const rows = leads.map(lead => {
+      const next = calculateLeadScore(lead.enrichment_data, profile, lead)
+      const current = lead.enrichment_data?.leadScore?.score ?? lead.lead_score ?? 0
+      return { lead, current, next: next.score, potential: next.potential, change: next.score - current }
+    })
+    const counts = Object.fromEntries(POTENTIALS.map(potential => [potential, {
+      before: leads.filter(lead => (lead.lead_score_label || lead.enrichment_data?.leadScore?.potential || 'low') === potential).length,
+      after: rows.filter(row => row.potential === potential).length,
+    }]))
+    rows.sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    return { error: null, rows, counts }
+  }, [form, leads])
+
+  const setWeight = (key: keyof ScoringWeights, value: string) =>
+    setForm(current => ({ ...current, weights: { ...current.weights, [key]: value } }))
+
+  // Copy the calibration report's suggested weights into the form, to preview before saving
+  const applySuggestions = () => {
+    if (!report) return
+    setForm(current => ({
+      ...current,
+      weights: {
+        ...current.weights,
+        ...Object.fromEntries(report.suggestions.map(suggestion => [suggestion.weight, String(suggestion.suggested)])),
+      },
+    }))
+  }
+
+  const percent = (rate: number | null) => rate === null ? '–' : `${Math.round(rate * 100)}%`
+
+  const save = async () => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch('/api/leads/scoring-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile: fromForm(form) }),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setMessage({ text: result.error || 'Failed to save', isError: true })
+        return
+      }
+      setForm(toForm(result.profile))
+      setMessage({ text: `Saved. Rescored ${result.rescored} leads; ${result.changed} changed potential.`, isError: false })
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to save', isError: true })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-12 flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto p-4 pb-24 max-w-6xl">
+      <Button variant="ghost" size="sm" onClick={() => router.back()} className="mb-4">
+        <ArrowLeftIcon className="w-4 h-4 mr-2" />
+        Back to Leads
+      </Button>
+      <h1 className="text-3xl font-bold gradient-text-blue mb-2">Lead Scoring</h1>
+      <p className="text-muted-foreground mb-6">
+        Adjust how leads are scored. The preview updates as you type; saving rescores all of your enriched leads.
+      </p>
+
+      {message && (
+        <Alert className={`mb-6 ${message.isError ? 'bg-red-50/80 border-red-200 text-red-800' : 'bg-green-50/80 border-green-200 text-green-800'}`}>
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card className="border border-purple-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-secondary/30">
+            <CardTitle className="flex items-center">
+              <SlidersHorizontalIcon className="w-5 h-5 mr-2 text-purple-500" />
+              Scoring Profile
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-6 space-y-6">
+            <div className="space-y-2">
+              <h3 className="font-medium text-foreground/80 border-b border-border/30 pb-1">Points</h3>
+              {WEIGHT_LABELS.map(({ key, label, penalty }) => (
+                <div key={key} className="flex items-center justify-between gap-4">
+                  <Label htmlFor={`weight-${key}`} className="text-sm">
+                    {label}
+                    {penalty && <span className="text-xs text-red-500 ml-1">(subtracted)</span>}
+                  </Label>
+                  <Input
+                    id={`weight-${key}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-24"
+                    value={form.weights[key]}
+                    onChange={(e) => setWeight(key, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-foreground/80 border-b border-border/30 pb-1">Cutoffs</h3>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label htmlFor="high" className="text-xs">High potential from</Label>
+                  <Input id="high" type="number" value={form.high} onChange={(e) => setForm({ ...form, high: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="medium" className="text-xs">Medium potential from</Label>
+                  <Input id="medium" type="number" value={form.medium} onChange={(e) => setForm({ ...form, medium: e.target.value })} />
+                </div>
+                <div>
+                  <Label htmlFor="min-capacity" className="text-xs">Minimum capacity</Label>
+                  <Input id="min-capacity" type="number" value={form.minCapacity} onChange={(e) => setForm({ ...form, minCapacity: e.target.value })} />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium text-foreground/80 border-b border-border/30 pb-1">Rules</h3>
+              <div>
+                <Label htmlFor="target-event-types" className="text-xs">Target event types (comma-separated)</Label>
+                <Input
+                  id="target-event-types"
+                  placeholder="weddings, corporate"
+                  value={form.targetEventTypes}
+                  onChange={(e) => setForm({ ...form, targetEventTypes: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="max-distance" className="text-xs">Maximum distance (miles)</Label>
+                <Input
+                  id="max-distance"
+                  type="number"
+                  placeholder="No limit"
+                  value={form.maxDistanceMiles}
+                  onChange={(e) => setForm({ ...form, maxDistanceMiles: e.target.value })}
+                />
+                {form.maxDistanceMiles && !form.origin && (
+                  <p className="text-xs text-amber-600 mt-1">
+                    Add your business location to your profile for distance to be scored.
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="business-name" className="text-xs">Your business name, as venues list it</Label>
+                <Input
+                  id="business-name"
+                  value={form.businessName}
+                  onChange={(e) => setForm({ ...form, businessName: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={save} disabled={isSaving || !!preview.error}>
+                {isSaving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : 'Save and rescore'}
+              </Button>
+              <Button variant="ghost" onClick={() => setForm({ ...toForm(DEFAULT_SCORING_PROFILE), origin: form.origin })} disabled={isSaving}>
+                Reset to defaults
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border border-blue-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-secondary/30">
+            <CardTitle className="flex items-center">
+              <span className="w-3 h-3 rounded-full bg-blue-500 animate-pulse mr-2"></span>
+              Preview
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            {preview.error ? (
+              <p className="text-sm text-red-500">{preview.error}</p>
+            ) : leads.length === 0 ? (
+              <p className="text-sm text-muted-foreground italic">Enrich some leads to preview their scores.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-3 mb-6">
+                  {POTENTIALS.map(potential => (
+                    <div key={potential} className="p-3 rounded-lg bg-card/60 border border-border/30 text-center">
+                      <p className="text-xs capitalize text-muted-foreground">{potential}</p>
+                      <p className="text-xl font-semibold">{preview.counts?.[potential].after}</p>
+                      <p className="text-xs text-muted-foreground">was {preview.counts?.[potential].before}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  {preview.rows.slice(0, 25).map(row => (
+                    <div key={row.lead.id} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="truncate">{row.lead.name}</span>
+                      <span className="flex items-center gap-2 whitespace-nowrap">
+                        <span className="text-muted-foreground">{row.current}</span>
+                        <span>→</span>
+                        <span className="font-semibold">{row.next}</span>
+                        <Badge variant="secondary" className="capitalize">{row.potential}</Badge>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mt-6 border border-emerald-500/20 bg-secondary/10 backdrop-blur-sm shadow-medium overflow-hidden">
+        <CardHeader className="border-b border-border/50 bg-secondary/30">
+          <CardTitle className="flex items-center">
+            <span className="w-3 h-3 rounded-full bg-emerald-500 animate-pulse mr-2"></span>
+            Calibration
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-6">
+          {!report || report.totalOutcomes === 0 ? (
+            <p className="text-sm text-muted-foreground italic">
+              Record outcomes on your leads&apos; pages (booked, replied, no response, rejected) to see how well scores predict results.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm text-muted-foreground mb-3">
+                  {report.totalOutcomes} leads with outcomes, scored with your current profile.
+                  {!report.monotonic && (
+                    <span className="text-amber-600"> Higher scores do not always engage more often.</span>
+                  )}
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground">
+                      <th className="pb-2">Score</th>
+                      <th className="pb-2">Leads</th>
+                      <th className="pb-2">Booked</th>
+                      <th className="pb-2">Booked or replied</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.buckets.map(bucket => (
+                      <tr key={bucket.label} className="border-t border-border/30">
+                        <td className="py-1">{bucket.label}</td>
+                        <td className="py-1">{bucket.leads}</td>
+                        <td className="py-1">{percent(bucket.bookedRate)}</td>
+                        <td className="py-1">{percent(bucket.engagedRate)}</td>
+                      </tr>
+                    ))}
+                    {POTENTIALS.map(potential => (
+                      <tr key={potential} className="border-t border-border/30 capitalize">
+                        <td className="py-1">{potential} potential</td>
+                        <td className="py-1">{report.potentials[potential].leads}</td>
+                        <td className="py-1">{percent(report.potentials[potential].bookedRate)}</td>
+                        <td className="py-1">{percent(report.potentials[potential].engagedRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div>
+                <h3 className="font-medium text-foreground/80 mb-2 border-b border-border/30 pb-1">Suggested weights</h3>
+                {report.suggestions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground italic">
+                    No changes suggested yet. Suggestions need at least 5 leads with and without a criterion.
+                  </p>
+                ) : (
+                  <>
+                    <ul className="space-y-2 text-sm mb-4">
+                      {report.suggestions.map(suggestion => (
+                        <li key={suggestion.weight}>
+                          <span className="font-medium">
+                            {WEIGHT_LABELS.find(weight => weight.key === suggestion.weight)?.label || suggestion.weight}
+                          </span>
+                          : {suggestion.current} → {suggestion.suggested}
+                          <p className="text-xs text-muted-foreground">{suggestion.reason}</p>
+                        </li>
+                      ))}
+                    </ul>
+                    <Button variant="outline" size="sm" onClick={applySuggestions}>
+                      Apply suggestions to the form
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
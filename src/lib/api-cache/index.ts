@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import type { ApiCacheStatCounts } from '@/lib/db';
+import { ApiCacheStore, getCacheStore } from './store';
+
+/**
+ * Cache for paid API responses
+ *
+ * Google Place Details, Firecrawl extracts and crawled venue sites are stored with a time
+ * to live, so a venue found or enriched again reuses the earlier response instead of
+ * paying for a new call.
+ * Pass forceRefresh to skip the cached copy and store a fresh one. Hit and miss counts
+ * are stored per namespace with the cache, so they cover every instance; see getCacheStats.
+ */
+
+export { createInMemoryCacheStore, getCacheStore, setCacheStore } from './store';
+export type { ApiCacheStore } from './store';
+
+export type CacheNamespace = 'places_details' | 'firecrawl' | 'site_crawl';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Venue contact details change slowly; Google's terms allow caching Places content for up to 30 days
+export const CACHE_TTL_MS: Record<CacheNamespace, number> = {
+  places_details: 7 * DAY_MS,
+  firecrawl: 14 * DAY_MS,
+  site_crawl: 14 * DAY_MS,
+};
+
+// Expired rows are deleted at most this often, on a cache write
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface CacheOptions {
+  forceRefresh?: boolean; // Skip the cached copy and store the fresh response
+  ttlMs?: number; // Defaults to the namespace's CACHE_TTL_MS
+}
+
+export interface CacheStats extends ApiCacheStatCounts {
+  hitRate: number; // hits / (hits + misses + refreshes), 0 before any lookup
+}
+
+const emptyCounts = (): ApiCacheStatCounts => ({ hits: 0, misses: 0, refreshes: 0, writes: 0, errors: 0 });
+
+let lastCleanup = 0;
+
+/**
+ * Stored hit and miss counts per namespace, across every instance
+ */
+export async function getCacheStats(): Promise<Record<CacheNamespace, CacheStats>> {
+  const rows = await getCacheStore().getStats();
+  const stats = {} as Record<CacheNamespace, CacheStats>;
+  for (const namespace of Object.keys(CACHE_TTL_MS) as CacheNamespace[]) {
+    const { hits = 0, misses = 0, refreshes = 0, writes = 0, errors = 0 } = rows.find(row => row.namespace === namespace) || {};
+    const lookups = hits + misses + refreshes;
+    stats[namespace] = { hits, misses, refreshes, writes, errors, hitRate: lookups ? hits / lookups : 0 };
+  }
+  return stats;
+}
+
+/**
+ * Cache key for a website: lowercase host without www, no fragment, tracking parameters
+ * or trailing slash, so the same page written differently shares one entry
+ */
+export function cacheKeyForUrl(url: string): string {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([name]) => !/^(utm_|fbclid$|gclid$)/i.test(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length ? `?${new URLSearchParams(params).toString()}` : '';
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${parsed.port ? `:${parsed.port}` : ''}${path}${query}`;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+}
+
+/**
+ * Short stable hash of request settings that change the response, for use in a cache key
+ */
+export function hashCacheKey(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Return the cached response for a key, or call fetcher and cache what it returns
+ * A failing cache never fails the call: the API is used and the error counted. The
+ * call's counts are stored once it finishes, whether or not the fetcher succeeded.
+ * @param shouldCache Responses it rejects (e.g. failed extracts) are returned but not stored
+ */
+export async function cached<T>(
+  namespace: CacheNamespace,
+  cacheKey: string,
+  fetcher: () => Promise<T>,
+  options: CacheOptions & { shouldCache?: (value: T) => boolean } = {}
+): Promise<T> {
+  const store = getCacheStore();
+  const stats = emptyCounts();
+  try {
+    return await lookupOrFetch(store, stats, namespace, cacheKey, fetcher, options);
+  } finally {
+    try {
+      await store.incrementStats(namespace, stats);
+    } catch (error) {
+      console.error(`[CACHE] Failed to record ${namespace} stats:`, error);
+    }
+  }
+}
+
+async function lookupOrFetch<T>(
+  store: ApiCacheStore,
+  stats: ApiCacheStatCounts,
+  namespace: CacheNamespace,
+  cacheKey: string,
+  fetcher: () => Promise<T>,
+  options: CacheOptions & { shouldCache?: (value: T) => boolean }
+): Promise<T> {
+  if (options.forceRefresh) {
+    stats.refreshes++;
+  } else {
+    try {
+      const entry = await store.get(namespace, cacheKey);
+      if (entry && new Date(entry.expires_at).getTime() > Date.now()) {
+        stats.hits++;
+        return entry.value as T;
+      }
+      stats.misses++;
+    } catch (error) {
+      console.error(`[CACHE] Failed to read ${namespace} ${cacheKey}:`, error);
+      stats.errors++;
+    }
+  }
+
+  const value = await fetcher();
+  if (options.shouldCache && !options.shouldCache(value)) return value;
+
+  try {
+    const ttlMs = options.ttlMs ?? CACHE_TTL_MS[namespace];
+    await store.set({ namespace, cache_key: cacheKey, value, expires_at: new Date(Date.now() + ttlMs).toISOString() });
+    stats.writes++;
+  } catch (error) {
+    console.error(`[CACHE] Failed to store ${namespace} ${cacheKey}:`, error);
+    stats.errors++;
+  }
+
+  if (Date.now() - lastCleanup > CLEANUP_INTERVAL_MS) {
+    lastCleanup = Date.now();
+    try {
+      await store.deleteExpiredBefore(new Date());
+    } catch (error) {
+      console.error('[CACHE] Failed to clean up expired entries:', error);
+    }
+  }
+  return value;
+}
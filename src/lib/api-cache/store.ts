@@ -0,0 +1,89 @@
+import { ApiCacheEntry, ApiCacheStatCounts, db } from '@/lib/db';
+
+/**
+ * Storage for cached API responses
+ *
+ * Responses live in the api_cache table and hit and miss counts in api_cache_stats, so
+ * every instance shares them and they survive restarts. Tests swap in the in-memory
+ * store with setCacheStore.
+ */
+
+export interface ApiCacheStore {
+  get(namespace: string, cacheKey: string): Promise<ApiCacheEntry | null>;
+  set(entry: ApiCacheEntry): Promise<unknown>;
+  deleteExpiredBefore(cutoff: Date): Promise<number>;
+  incrementStats(namespace: string, counts: ApiCacheStatCounts): Promise<unknown>;
+  getStats(): Promise<Array<ApiCacheStatCounts & { namespace: string }>>;
+}
+
+export const supabaseCacheStore: ApiCacheStore = {
+  get: (namespace, cacheKey) => db.apiCache.get(namespace, cacheKey),
+  set: entry => db.apiCache.set(entry),
+  deleteExpiredBefore: cutoff => db.apiCache.deleteExpiredBefore(cutoff),
+  incrementStats: (namespace, counts) => db.apiCache.incrementStats(namespace, counts),
+  getStats: () => db.apiCache.getStats(),
+};
+
+/**
+ * Store that keeps cached responses in process memory, for tests and local scripts
+ */
+export function createInMemoryCacheStore(): ApiCacheStore {
+  const entries = new Map<string, ApiCacheEntry>();
+  const stats = new Map<string, ApiCacheStatCounts>();
+  const keyOf = (namespace: string, cacheKey: string) => `${namespace}\n${cacheKey}`;
+
+  return {
+    async get(namespace, cacheKey) {
+      const entry = entries.get(keyOf(namespace, cacheKey));
+      return entry ? structuredClone(entry) : null;
+    },
+
+    async set(entry) {
+      const now = new Date().toISOString();
+      const existing = entries.get(keyOf(entry.namespace, entry.cache_key));
+      entries.set(keyOf(entry.namespace, entry.cache_key), {
+        created_at: existing?.created_at || now,
+        ...structuredClone(entry),
+        updated_at: now,
+      });
+      return true;
+    },
+
+    async deleteExpiredBefore(cutoff) {
+      let deleted = 0;
+      for (const [key, entry] of entries) {
+        if (new Date(entry.expires_at) < cutoff) {
+          entries.delete(key);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+
+    async incrementStats(namespace, counts) {
+      const current = stats.get(namespace) || { hits: 0, misses: 0, refreshes: 0, writes: 0, errors: 0 };
+      stats.set(namespace, {
+        hits: current.hits + counts.hits,
+        misses: current.misses + counts.misses,
+        refreshes: current.refreshes + counts.refreshes,
+        writes: current.writes + counts.writes,
+        errors: current.errors + counts.errors,
+      });
+      return true;
+    },
+
+    async getStats() {
+      return Array.from(stats, ([namespace, counts]) => ({ namespace, ...counts }));
+    },
+  };
+}
+
+let cacheStore: ApiCacheStore = supabaseCacheStore;
+
+export function getCacheStore(): ApiCacheStore {
+  return cacheStore;
+}
+
+export function setCacheStore(store: ApiCacheStore) {
+  cacheStore = store;
+}
@@ -0,0 +1,217 @@
+import { cached, cacheKeyForUrl } from '@/lib/api-cache';
+import { isRateLimitError, withProvider } from '@/lib/job-queue';
+import { firecrawlTool } from '@/tools/firecrawl';
+import { CrawledPage, extractLinks, htmlToText, pageTitle, rankLinks, stripRepeatedLines } from './content';
+import { ALLOW_ALL, isAllowed, parseRobots, RobotsRules } from './robots';
+
+export interface CrawlOptions {
+  maxPages?: number; // Pages to fetch including the home page
+  forceRefresh?: boolean; // Crawl again even when the site was crawled recently
+}
+
+export interface CrawlResult {
+  success: boolean;
+  url: string;
+  crawler: string; // Adapter that produced the pages
+  pages: CrawledPage[];
+  structuredData?: any; // Fields the adapter extracted itself, e.g. Firecrawl's schema extract
+  error?: string;
+}
+
+export interface Crawler {
+  name: string;
+  crawl(url: string, options?: CrawlOptions): Promise<CrawlResult>;
+}
+
+export const CRAWLER_USER_AGENT = 'Mozilla/5.0 (compatible; CaterlyAIBot/1.0; venue research for catering outreach)';
+const ROBOTS_TOKEN = 'CaterlyAIBot';
+
+const DEFAULT_MAX_PAGES = 6;
+const PAGE_TIMEOUT_MS = 15000;
+const MAX_HTML_CHARS = 1_500_000;
+const MAX_CRAWL_DELAY_MS = 5000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Labels for the fields of Firecrawl's venue schema, so an extract without page text still reads as content
+const EXTRACT_FIELD_LABELS: Record<string, string> = {
+  venueName: 'Venue name',
+  address: 'Address',
+  description: 'Description',
+  commonEventTypes: 'Event types',
+  amenities: 'Amenities',
+  inHouseCatering: 'In-house catering',
+  preferredCaterers: 'Preferred caterers',
+  eventManagerPhone: 'Phone',
+  eventManagerEmail: 'Email',
+};
+
+function describeExtract(data: any): string {
+  if (!data || typeof data !== 'object') return '';
+  return Object.entries(EXTRACT_FIELD_LABELS)
+    .filter(([field]) => data[field] !== undefined && data[field] !== null && data[field] !== '')
+    .map(([field, label]) => `${label}: ${Array.isArray(data[field]) ? data[field].join(', ') : String(data[field])}`)
+    .join('\n');
+}
+
+/**
+ * Firecrawl's /v1/extract as a crawler
+ * The extract is one page of content plus the structured fields Firecrawl found.
+ */
+export function createFirecrawlCrawler(): Crawler {
+  return {
+    name: 'firecrawl',
+    async crawl(url, options = {}) {
+      try {
+        const extraction = await withProvider('firecrawl', async () => {
+          const result = await firecrawlTool.extract({
+            urls: [url],
+            formats: ['markdown', 'text'],
+            timeout: 120000, // 2 minutes
+            waitTime: 5000,
+            forceRefresh: options.forceRefresh,
+          });
+
+          // Surface rate limits so the provider backs off
+          if (!result.success && isRateLimitError(result.error)) {
+            throw new Error(result.error);
+          }
+          return result;
+        });
+
+        if (!extraction.success || !extraction.data) {
+          return { success: false, url, crawler: 'firecrawl', pages: [], error: extraction.error || 'No data returned' };
+        }
+
+        const text = firecrawlTool.extractContent(extraction.data) || describeExtract(extraction.data);
+        return {
+          success: true,
+          url,
+          crawler: 'firecrawl',
+          pages: text ? [{ url, kind: 'home', title: extraction.data.venueName || '', text }] : [],
+          structuredData: extraction.data,
+        };
+      } catch (error) {
+        return { success: false, url, crawler: 'firecrawl', pages: [], error: error instanceof Error ? error.message : String(error) };
+      }
+    },
+  };
+}
+
+/**
+ * Built-in crawler that fetches a venue's site directly
+ * Reads robots.txt, fetches the home page, then follows the links most likely to hold
+ * contact and event details (contact, private dining, weddings, events, catering, about).
+ * Lines repeated on every page, such as menus and footers, are kept only once.
+ * Crawls are cached by site unless forceRefresh is set.
+ */
+export function createHttpCrawler(settings: { maxPages?: number; userAgent?: string; cache?: boolean } = {}): Crawler {
+  const userAgent = settings.userAgent || CRAWLER_USER_AGENT;
+
+  // HTML of a page and the URL it ended up at, or null for errors and non-HTML responses
+  const fetchPage = async (url: string): Promise<{ html: string; url: string } | null> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PAGE_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': userAgent, 'Accept': 'text/html,application/xhtml+xml' },
+        redirect: 'follow',
+        signal: controller.signal,
+      });
+      const contentType = response.headers.get('content-type') || '';
+      if (!response.ok || (contentType && !contentType.includes('html'))) {
+        console.warn(`[CRAWLER] Skipping ${url}: ${response.status} ${contentType}`);
+        return null;
+      }
+      const html = (await response.text()).slice(0, MAX_HTML_CHARS);
+      return { html, url: response.url || url };
+    } catch (error) {
+      console.warn(`[CRAWLER] Failed to fetch ${url}:`, error instanceof Error ? error.message : error);
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  // A missing robots.txt allows everything; a server error means the site cannot be crawled now
+  const loadRobots = async (origin: string): Promise<RobotsRules | null> => {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, { headers: { 'User-Agent': userAgent } });
+      if (response.status >= 500) return null;
+      if (!response.ok) return ALLOW_ALL;
+      return parseRobots(await response.text(), ROBOTS_TOKEN);
+    } catch {
+      return ALLOW_ALL;
+    }
+  };
+
+  const crawlSite = async (url: string, maxPages: number): Promise<CrawlResult> => {
+    const failure = (error: string): CrawlResult => ({ success: false, url, crawler: 'http', pages: [], error });
+
+    let origin: string;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      return failure(`Invalid URL: ${url}`);
+    }
+
+    const robots = await loadRobots(origin);
+    if (!robots) return failure('robots.txt could not be read');
+    if (!isAllowed(robots, url)) return failure('Blocked by robots.txt');
+    const delayMs = Math.min((robots.crawlDelaySeconds || 0) * 1000, MAX_CRAWL_DELAY_MS);
+
+    const home = await fetchPage(url);
+    if (!home) return failure(`Could not load ${url}`);
+
+    const pages: CrawledPage[] = [{ url: home.url, kind: 'home', title: pageTitle(home.html), text: htmlToText(home.html) }];
+    const links = extractLinks(home.html, home.url).filter(link => isAllowed(robots, link.url));
+
+    for (const link of rankLinks(links, maxPages - 1)) {
+      if (delayMs) await sleep(delayMs);
+      const page = await fetchPage(link.url);
+      if (page) {
+        pages.push({ url: link.url, kind: link.kind, title: pageTitle(page.html), text: htmlToText(page.html) });
+      }
+    }
+
+    const stripped = stripRepeatedLines(pages).filter(page => page.text);
+    console.log(`[CRAWLER] Crawled ${stripped.length} pages from ${origin}: ${stripped.map(page => page.kind).join(', ')}`);
+    return stripped.length
+      ? { success: true, url, crawler: 'http', pages: stripped }
+      : failure(`No readable content at ${url}`);
+  };
+
+  return {
+    name: 'http',
+    async crawl(url, options = {}) {
+      const maxPages = Math.max(1, options.maxPages ?? settings.maxPages ?? DEFAULT_MAX_PAGES);
+      if (settings.cache === false) return crawlSite(url, maxPages);
+
+      return cached('site_crawl', `${cacheKeyForUrl(url)}#${maxPages}`, () => crawlSite(url, maxPages), {
+        forceRefresh: options.forceRefresh,
+        shouldCache: result => result.success,
+      });
+    },
+  };
+}
+
+/**
+ * Crawler that tries each crawler in turn until one returns content
+ * Errors from every crawler are reported together when all of them fail.
+ */
+export function createFallbackCrawler(crawlers: Crawler[]): Crawler {
+  const name = crawlers.map(crawler => crawler.name).join('+');
+  return {
+    name,
+    async crawl(url, options = {}) {
+      const errors: string[] = [];
+      for (const crawler of crawlers) {
+        const result = await crawler.crawl(url, options);
+        if (result.success && (result.pages.length > 0 || result.structuredData)) return result;
+        console.warn(`[CRAWLER] ${crawler.name} failed for ${url}: ${result.error || 'no content'}`);
+        errors.push(`${crawler.name}: ${result.error || 'no content'}`);
+      }
+      return { success: false, url, crawler: name, pages: [], error: errors.join('; ') };
+    },
+  };
+}
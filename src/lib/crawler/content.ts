@@ -0,0 +1,246 @@
+/**
+ * Page parsing for the venue crawler
+ *
+ * Turns HTML into readable text, finds the links worth following, and ranks crawled pages
+ * into the content bundle the enrichment prompt reads.
+ */
+
+export type PageKind = 'home' | 'contact' | 'private_dining' | 'weddings' | 'events' | 'catering' | 'about' | 'other';
+
+export interface CrawledPage {
+  url: string;
+  kind: PageKind;
+  title: string;
+  text: string;
+}
+
+export interface ContentBundle {
+  text: string; // Sections for the prompt, best pages first
+  pages: Array<{ url: string; kind: PageKind; chars: number }>; // What made it into the text
+  truncated: boolean;
+}
+
+// Checked in order, so "private-events" is private dining and "wedding-events" is weddings
+const PAGE_KIND_PATTERNS: Array<{ kind: PageKind; pattern: RegExp }> = [
+  { kind: 'contact', pattern: /contact|inquir|enquir|get[-_ ]in[-_ ]touch|request[-_ ]?(a[-_ ])?(quote|proposal|info)|rfp/ },
+  { kind: 'private_dining', pattern: /private[-_ ]?(dining|events?|part(y|ies)|rooms?)|group[-_ ]?dining|buy[-_ ]?outs?/ },
+  { kind: 'weddings', pattern: /wedding|bridal|ceremon|receptions?/ },
+  { kind: 'catering', pattern: /cater|menus?\b|banquet[-_ ]?menu|food[-_ ]?(and|&)?[-_ ]?beverage/ },
+  { kind: 'events', pattern: /events?\b|venues?\b|meetings?|corporate|banquet|celebrat|part(y|ies)|spaces?\b|rentals?/ },
+  { kind: 'about', pattern: /about|our[-_ ]?(team|story)|staff|people/ },
+];
+
+// How much a page of each kind is worth to enrichment: contact details first, then event business
+export const PAGE_KIND_PRIORITY: Record<PageKind, number> = {
+  contact: 100,
+  private_dining: 90,
+  weddings: 85,
+  events: 80,
+  catering: 75,
+  home: 60,
+  about: 40,
+  other: 10,
+};
+
+export const PAGE_KIND_LABELS: Record<PageKind, string> = {
+  home: 'Home page',
+  contact: 'Contact page',
+  private_dining: 'Private dining page',
+  weddings: 'Weddings page',
+  events: 'Events page',
+  catering: 'Catering page',
+  about: 'About page',
+  other: 'Page',
+};
+
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|zip|mp4|mov|mp3|docx?|xlsx?|pptx?|css|js|xml|json)$/i;
+
+const ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", '#39': "'", ndash: '-', mdash: '-', rsquo: "'", lsquo: "'", rdquo: '"', ldquo: '"', hellip: '...', middot: '·', bull: '•', copy: '©', reg: '®', trade: '™' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+[0-9]*);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (ENTITIES[lower] !== undefined) return ENTITIES[lower];
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16) || 32);
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10) || 32);
+    return match;
+  });
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Classify a page from its URL path and the text of the link pointing at it
+ */
+export function classifyPage(url: string, linkText: string = ''): PageKind {
+  let path = '';
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch {
+    path = url.toLowerCase();
+  }
+  if (path === '' || path === '/' || /^\/(index|home)(\.\w+)?$/.test(path)) return 'home';
+
+  const haystack = `${path.replace(/%20|\+/g, ' ')} ${linkText.toLowerCase()}`;
+  return PAGE_KIND_PATTERNS.find(({ pattern }) => pattern.test(haystack))?.kind || 'other';
+}
+
+/**
+ * Page title from the <title> tag, or the first heading
+ */
+export function pageTitle(html: string): string {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i) || html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  return match ? decodeEntities(match[1].replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim() : '';
+}
+
+/**
+ * Readable text of a page, one block per line
+ * Scripts, styles, navigation menus and cookie banners are dropped; mailto: and tel: links
+ * keep their address, since venues often show "Email us" in place of the address itself.
+ */
+export function htmlToText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg|template|iframe|canvas|select)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<nav\b[\s\S]*?<\/nav>/gi, ' ')
+    .replace(/<(div|section|aside)\b[^>]*(cookie|consent|gdpr)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<a\b[^>]*href\s*=\s*["']mailto:([^"'?]+)[^"']*["'][^>]*>([\s\S]*?)<\/a>/gi,
+      (_, address: string, label: string) => ` ${label.replace(/<[^>]*>/g, ' ')} (${safeDecode(address)}) `)
+    .replace(/<a\b[^>]*href\s*=\s*["']tel:([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi,
+      (_, number: string, label: string) => ` ${label.replace(/<[^>]*>/g, ' ')} (${safeDecode(number)}) `)
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|h[1-6]|li|ul|ol|tr|table|dd|dt|blockquote|address|form)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ');
+
+  text = decodeEntities(text);
+  return text
+    .split('\n')
+    .map(line => line.replace(/[^\S\n]+/g, ' ').trim())
+    // Repeated labels like "(events@venue.com) (events@venue.com)" collapse to one
+    .map(line => line.replace(/\b([^\s()]+) \(\1\)/g, '$1'))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Links on a page to other pages on the same site, with their link text
+ */
+export function extractLinks(html: string, pageUrl: string): Array<{ url: string; text: string }> {
+  const base = new URL(pageUrl);
+  const host = base.hostname.replace(/^www\./, '');
+  const links = new Map<string, string>();
+
+  for (const match of html.matchAll(/<a\b[^>]*href\s*=\s*["']([^"'#][^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    let url: URL;
+    try {
+      url = new URL(decodeEntities(match[1].trim()), base);
+    } catch {
+      continue;
+    }
+    if (!/^https?:$/.test(url.protocol) || url.hostname.replace(/^www\./, '') !== host) continue;
+    if (SKIPPED_EXTENSIONS.test(url.pathname)) continue;
+
+    url.hash = '';
+    const key = url.toString().replace(/\/$/, '');
+    const text = decodeEntities(match[2].replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+    if (!links.has(key) || (!links.get(key) && text)) links.set(key, text);
+  }
+
+  return Array.from(links.entries()).map(([url, text]) => ({ url, text }));
+}
+
+/**
+ * The pages to crawl after the home page, best first
+ * Higher priority kinds come first, shallower paths break ties, and each kind gets at most
+ * two pages so one long events archive cannot crowd out the contact page.
+ */
+export function rankLinks(links: Array<{ url: string; text: string }>, limit: number): Array<{ url: string; kind: PageKind }> {
+  const ranked = links
+    .map(link => {
+      const kind = classifyPage(link.url, link.text);
+      const depth = new URL(link.url).pathname.split('/').filter(Boolean).length;
+      return { url: link.url, kind, score: PAGE_KIND_PRIORITY[kind] - depth * 3 };
+    })
+    .filter(link => link.kind !== 'home' && link.kind !== 'other')
+    .sort((a, b) => b.score - a.score);
+
+  const perKind = new Map<PageKind, number>();
+  const chosen: Array<{ url: string; kind: PageKind }> = [];
+  for (const link of ranked) {
+    if (chosen.length >= limit) break;
+    const count = perKind.get(link.kind) || 0;
+    if (count >= 2) continue;
+    perKind.set(link.kind, count + 1);
+    chosen.push({ url: link.url, kind: link.kind });
+  }
+  return chosen;
+}
+
+/**
+ * Remove lines repeated across pages, such as header and footer text
+ * A repeated line is kept where it first appears in crawl order (normally the home page),
+ * so the address and phone number in a site-wide footer still reach the prompt once.
+ */
+export function stripRepeatedLines(pages: CrawledPage[]): CrawledPage[] {
+  const counts = new Map<string, number>();
+  for (const page of pages) {
+    for (const line of new Set(page.text.split('\n'))) {
+      counts.set(line, (counts.get(line) || 0) + 1);
+    }
+  }
+
+  const seen = new Set<string>();
+  return pages.map(page => ({
+    ...page,
+    text: page.text
+      .split('\n')
+      .filter(line => {
+        if ((counts.get(line) || 0) < 2) return true;
+        if (seen.has(line)) return false;
+        seen.add(line);
+        return true;
+      })
+      .join('\n'),
+  }));
+}
+
+/**
+ * Ranked content for the enrichment prompt
+ * Pages are ordered by kind priority and each gets a share of the character budget, so a
+ * long home page cannot push the contact page out of the prompt.
+ */
+export function buildContentBundle(pages: CrawledPage[], maxChars: number = 12000): ContentBundle {
+  const ordered = pages
+    .map((page, index) => ({ page, index }))
+    .filter(({ page }) => page.text.trim())
+    .sort((a, b) => PAGE_KIND_PRIORITY[b.page.kind] - PAGE_KIND_PRIORITY[a.page.kind] || a.index - b.index)
+    .map(({ page }) => page);
+
+  const sections: string[] = [];
+  const included: ContentBundle['pages'] = [];
+  let remaining = maxChars;
+  let truncated = false;
+
+  ordered.forEach((page, index) => {
+    const header = `### ${PAGE_KIND_LABELS[page.kind]}: ${page.url}${page.title ? ` (${page.title})` : ''}\n`;
+    // An even share of what is left, but unused budget passes down to later pages
+    const share = Math.floor(remaining / (ordered.length - index)) - header.length;
+    if (share < 200) {
+      truncated = true;
+      return;
+    }
+    const text = page.text.length > share ? `${page.text.slice(0, share - 3).trimEnd()}...` : page.text;
+    truncated ||= text.length < page.text.length;
+    sections.push(header + text);
+    included.push({ url: page.url, kind: page.kind, chars: text.length });
+    remaining -= header.length + text.length + 2;
+  });
+
+  return { text: sections.join('\n\n'), pages: included, truncated };
+}
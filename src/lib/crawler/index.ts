@@ -0,0 +1,33 @@
+import { createFallbackCrawler, createFirecrawlCrawler, createHttpCrawler, Crawler, CrawlOptions, CrawlResult } from './adapters';
+
+/**
+ * Venue website crawling for enrichment
+ *
+ * Enrichment reads a venue's site through the configured crawler: Firecrawl's extract
+ * first, then the built-in HTTP crawler when Firecrawl is down, out of quota or not
+ * configured. buildContentBundle turns the crawled pages into ranked prompt content.
+ * Tests swap in their own crawler with setCrawler.
+ */
+
+export { createFallbackCrawler, createFirecrawlCrawler, createHttpCrawler, CRAWLER_USER_AGENT } from './adapters';
+export type { Crawler, CrawlOptions, CrawlResult } from './adapters';
+export { buildContentBundle, classifyPage, extractLinks, htmlToText, rankLinks, stripRepeatedLines } from './content';
+export type { ContentBundle, CrawledPage, PageKind } from './content';
+export { isAllowed, parseRobots } from './robots';
+
+let crawler: Crawler = createFallbackCrawler([createFirecrawlCrawler(), createHttpCrawler()]);
+
+export function getCrawler(): Crawler {
+  return crawler;
+}
+
+export function setCrawler(next: Crawler) {
+  crawler = next;
+}
+
+/**
+ * Crawl a venue's website with the configured crawler
+ */
+export async function crawlSite(url: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  return crawler.crawl(url, options);
+}
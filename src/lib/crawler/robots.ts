@@ -0,0 +1,83 @@
+/**
+ * robots.txt rules for the venue crawler
+ *
+ * Only the group for our user agent (or "*" when there is none) applies. The longest
+ * matching Allow or Disallow path wins, with Allow winning ties, as Google reads the file.
+ */
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelaySeconds?: number;
+}
+
+// Everything is allowed when a site has no robots.txt
+export const ALLOW_ALL: RobotsRules = { allow: [], disallow: [] };
+
+/**
+ * Rules in a robots.txt file that apply to a user agent
+ * @param userAgentToken Product token such as "CaterlyAIBot", matched case-insensitively
+ */
+export function parseRobots(content: string, userAgentToken: string): RobotsRules {
+  const token = userAgentToken.toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let readingAgents = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !readingAgents) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+
+    readingAgents = false;
+    if (!current) continue;
+    if (field === 'allow' && value) current.rules.allow.push(value);
+    if (field === 'disallow' && value) current.rules.disallow.push(value);
+    if (field === 'crawl-delay' && Number.isFinite(Number(value))) current.rules.crawlDelaySeconds = Number(value);
+  }
+
+  const ours = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const matching = ours.length ? ours : groups.filter(group => group.agents.includes('*'));
+  return matching.reduce<RobotsRules>((rules, group) => ({
+    allow: [...rules.allow, ...group.rules.allow],
+    disallow: [...rules.disallow, ...group.rules.disallow],
+    crawlDelaySeconds: group.rules.crawlDelaySeconds ?? rules.crawlDelaySeconds,
+  }), { allow: [], disallow: [] });
+}
+
+// Length of the longest rule matching a path, or -1; rules may use * and a closing $
+function longestMatch(rules: string[], path: string): number {
+  let longest = -1;
+  for (const rule of rules) {
+    const anchored = rule.endsWith('$');
+    const body = (anchored ? rule.slice(0, -1) : rule)
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*');
+    const pattern = new RegExp(`^${body}${anchored ? '$' : ''}`);
+    if (pattern.test(path)) longest = Math.max(longest, rule.length);
+  }
+  return longest;
+}
+
+/**
+ * Whether the rules let the crawler fetch a URL
+ */
+export function isAllowed(rules: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  const disallowed = longestMatch(rules.disallow, path);
+  return disallowed < 0 || longestMatch(rules.allow, path) >= disallowed;
+}
@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import type { CallToActionType, EmailTemplate, EmailTheme } from '@/types/email';
+import { applyOverrides, LeadFieldOverride } from '@/lib/leads/overrides';
+import { selectOutreachContact } from '@/lib/leads/contacts';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -6,6 +9,226 @@ const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 
 const supabase = createClient(supabaseUrl, supabaseKey);
 
+export type CampaignStatus = 'draft' | 'scheduled' | 'running' | 'paused' | 'completed';
+
+// Lead targeted by a campaign, captured at launch
+export interface CampaignLead {
+  id: string;
+  name: string;
+  email: string;
+  category: string;
+}
+
+// Row shape of the campaigns table
+export interface Campaign {
+  id: string;
+  user_id: string;
+  name: string;
+  categories: string[];
+  approved_templates: Record<string, EmailTemplate[]>;
+  lead_roster: CampaignLead[];
+  status: CampaignStatus;
+  scheduled_by: string | null;
+  launched_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScheduledEmailStatus = 'pending' | 'sending' | 'paused' | 'sent' | 'failed' | 'cancelled';
+
+// Row shape of the scheduled_emails send queue
+export interface ScheduledEmail {
+  id: string;
+  user_id: string | null;
+  campaign_id: string;
+  lead_id: string;
+  recipient_email: string;
+  subject: string;
+  preheader: string | null;
+  html_body: string;
+  text_body: string | null;
+  theme: EmailTheme | null;
+  cta_type: CallToActionType | null;
+  step_index: number;
+  send_at: string;
+  status: ScheduledEmailStatus;
+  attempts: number;
+  last_error: string | null;
+  provider_message_id: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EmailEventType =
+  | 'sent'
+  | 'delivered'
+  | 'delivery_delayed'
+  | 'opened'
+  | 'clicked'
+  | 'bounced'
+  | 'complained';
+
+// Row shape of the email_events table
+export interface EmailEvent {
+  id: string;
+  webhook_id: string;
+  user_id: string | null;
+  campaign_id: string | null;
+  scheduled_email_id: string | null;
+  lead_id: string | null;
+  provider_message_id: string;
+  event_type: EmailEventType;
+  recipient_email: string | null;
+  link: string | null;
+  payload: Record<string, any>;
+  occurred_at: string;
+  created_at: string;
+}
+
+export type SuppressionReason = 'unsubscribed' | 'hard_bounce' | 'complaint' | 'manual';
+
+// Row shape of the email_suppressions table
+export interface EmailSuppression {
+  id: string;
+  user_id: string;
+  email: string;
+  reason: SuppressionReason;
+  lead_id: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+// Row shape of the email_replies table
+export interface EmailReply {
+  id: string;
+  user_id: string;
+  campaign_id: string | null;
+  scheduled_email_id: string | null;
+  lead_id: string;
+  message_id: string;
+  in_reply_to: string | null;
+  from_email: string;
+  from_name: string | null;
+  subject: string | null;
+  text_body: string | null;
+  html_body: string | null;
+  match_method: 'reply_address' | 'sender';
+  received_at: string;
+  created_at: string;
+}
+
+// Row shape of the saved_leads table; only the columns the app relies on are listed
+export interface SavedLead {
+  id: string;
+  user_id: string;
+  name: string;
+  category?: string | null;
+  email?: string | null;
+  website_url?: string | null;
+  status?: string | null;
+  enrichment_data?: any | null;
+  lead_score?: number | null;
+  lead_score_label?: string | null;
+  contact_name?: string | null;
+  contact_email?: string | null;
+  contact_phone?: string | null;
+  last_enriched_at?: string | null;
+  updated_at?: string;
+  locked_fields?: string[]; // Set on read: fields with a manual override
+  [key: string]: any;
+}
+
+// How outreach to a lead turned out; booked counts as a conversion
+export type LeadOutcome = 'booked' | 'replied' | 'no_response' | 'rejected';
+
+// Row shape of the lead_outcomes table: the latest outcome of each lead
+export interface LeadOutcomeRecord {
+  id: string;
+  user_id: string;
+  lead_id: string;
+  campaign_id: string | null;
+  outcome: LeadOutcome;
+  recorded_at: string;
+}
+
+export type EnrichmentJobStatus = 'pending' | 'running' | 'complete' | 'error';
+
+// Row shape of the enrichment_jobs table
+export interface EnrichmentJob {
+  id: string;
+  user_id: string | null; // Owner; null for jobs started without a session
+  url: string;
+  status: EnrichmentJobStatus;
+  step: string | null; // Stage a running job is in, e.g. extracting
+  progress: number; // 0-100
+  result: any | null;
+  error: string | null;
+  message: string | null;
+  attempts: number;
+  started_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export type QueueItemStatus = 'pending' | 'running' | 'done' | 'dead';
+
+// Row shape of the job_queue_items table: one unit of work in a batch
+export interface QueueItem {
+  id: string;
+  queue: string; // e.g. lead-enrichment
+  batch_id: string;
+  item_key: string; // Lead id, batch index, etc.; unique within a batch
+  status: QueueItemStatus;
+  attempts: number;
+  last_error: string | null;
+  result: any | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Row shape of the api_cache table: one cached API response
+export interface ApiCacheEntry {
+  namespace: string; // e.g. places_details
+  cache_key: string; // Place id, normalized URL, etc.
+  value: any;
+  expires_at: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface ApiCacheStatCounts {
+  hits: number;
+  misses: number; // Not cached, or expired
+  refreshes: number; // Cached copy skipped by forceRefresh
+  writes: number;
+  errors: number; // Cache reads or writes that failed
+}
+
+// Selects the queued emails a pause/resume/cancel request applies to
+export interface ScheduledEmailFilter {
+  userId?: string;
+  leadId?: string;
+  campaignId?: string;
+}
+
+// Overrides on a user's leads; shared by savedLeads and leadOverrides
+async function getLeadOverrides(userId: string, leadIds: string[]) {
+  if (!userId) throw new Error('userId is required to fetch lead overrides');
+  if (leadIds.length === 0) return [];
+  
+  const { error, data } = await supabase
+    .from('lead_field_overrides')
+    .select('*')
+    .eq('user_id', userId)
+    .in('lead_id', leadIds);
+  
+  if (error) throw error;
+  return (data || []) as LeadFieldOverride[];
+}
+
 // Database client with typed collections
 export const db = {
   /**
@@ -143,11 +366,11 @@ export const db = {
   /**
    * Campaigns collection
    * 
-   * Stores marketing campaigns
+   * Stores launched outreach campaigns and their approved templates
    */
   campaigns: {
     // Create a new campaign
-    async create(campaign: any) {
+    async create(campaign: Partial<Campaign>) {
       const { error, data } = await supabase
         .from('campaigns')
         .insert(campaign)
@@ -155,43 +378,45 @@ export const db = {
         .single();
       
       if (error) throw error;
-      return data;
+      return data as Campaign;
     },
     
-    // Get a campaign by ID
-    async get(id: string) {
+    // Get a campaign by ID, scoped to its owner
+    async get(id: string, userId: string) {
       const { error, data } = await supabase
         .from('campaigns')
         .select('*')
         .eq('id', id)
-        .single();
+        .eq('user_id', userId)
+        .maybeSingle();
       
       if (error) throw error;
-      return data;
+      return data as Campaign | null;
     },
     
-    // Get all campaigns for a user
+    // Get all campaigns for a user, newest first
     async getByUserId(userId: string) {
       const { error, data } = await supabase
         .from('campaigns')
         .select('*')
-        .eq('userId', userId);
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
       
       if (error) throw error;
-      return data;
+      return (data || []) as Campaign[];
     },
     
     // Update a campaign
-    async update(id: string, updates: any) {
+    async update(id: string, updates: Partial<Campaign>) {
       const { error, data } = await supabase
         .from('campaigns')
-        .update({ ...updates, updatedAt: new Date() })
+        .update(updates)
         .eq('id', id)
         .select()
         .single();
       
       if (error) throw error;
-      return data;
+      return data as Campaign;
     },
     
     // Delete a campaign
@@ -204,5 +429,791 @@ export const db = {
       if (error) throw error;
       return true;
     }
+  },
+  
+  /**
+   * Saved leads collection
+   * 
+   * Leads a user saved from discovery; every query is scoped to the owner
+   */
+  savedLeads: {
+    // Get a user's leads that can be targeted by outreach (have a category and an email or a contact with one)
+    // Manual overrides are applied first, so a corrected email is the one used
+    async getOutreachLeads(userId: string): Promise<SavedLead[]> {
+      if (!userId) throw new Error('userId is required to fetch saved leads');
+      
+      const { error, data } = await supabase
+        .from('saved_leads')
+        .select('*')
+        .eq('user_id', userId)
+        .not('category', 'is', null);
+      
+      if (error) throw error;
+      const leads = (data || []) as SavedLead[];
+      const overrides = await getLeadOverrides(userId, leads.map(lead => lead.id));
+      return leads
+        .map(lead => applyOverrides(lead, overrides))
+        .filter(lead => !!selectOutreachContact(lead));
+    },
+    
+    // Get all of a user's leads
+    async getByUser(userId: string) {
+      if (!userId) throw new Error('userId is required to fetch saved leads');
+      
+      const { error, data } = await supabase
+        .from('saved_leads')
+        .select('*')
+        .eq('user_id', userId);
+      
+      if (error) throw error;
+      return (data || []) as SavedLead[];
+    },
+    
+    // Get a user's leads by id; ids owned by other users are left out
+    async getByIds(userId: string, leadIds: string[]) {
+      if (!userId) throw new Error('userId is required to fetch saved leads');
+      if (leadIds.length === 0) return [];
+      
+      const { error, data } = await supabase
+        .from('saved_leads')
+        .select('*')
+        .eq('user_id', userId)
+        .in('id', leadIds);
+      
+      if (error) throw error;
+      return (data || []) as SavedLead[];
+    },
+    
+    // Update one of a user's leads
+    async update(userId: string, leadId: string, updates: Partial<SavedLead>) {
+      if (!userId) throw new Error('userId is required to update a saved lead');
+      
+      const { error, data } = await supabase
+        .from('saved_leads')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', leadId)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as SavedLead | null;
+    },
+    
+    // Update the pipeline status of one of a user's leads
+    async updateStatus(userId: string, leadId: string, status: string) {
+      const { error } = await supabase
+        .from('saved_leads')
+        .update({ status })
+        .eq('id', leadId)
+        .eq('user_id', userId);
+      
+      if (error) throw error;
+      return true;
+    },
+    
+    // Delete some of a user's leads
+    async remove(userId: string, leadIds: string[]) {
+      if (!userId) throw new Error('userId is required to delete saved leads');
+      if (leadIds.length === 0) return true;
+      
+      const { error } = await supabase
+        .from('saved_leads')
+        .delete()
+        .eq('user_id', userId)
+        .in('id', leadIds);
+      
+      if (error) throw error;
+      return true;
+    }
+  },
+  
+  /**
+   * Lead history
+   * 
+   * Outreach records that point at a lead by id: queued emails, delivery events,
+   * replies and suppressions. Used to move a lead's history when it is merged.
+   */
+  leadHistory: {
+    // Point a user's history for some leads at another lead
+    async reassign(userId: string, fromLeadIds: string[], toLeadId: string) {
+      if (!userId) throw new Error('userId is required to reassign lead history');
+      if (fromLeadIds.length === 0) return true;
+      
+      for (const table of ['scheduled_emails', 'email_events', 'email_replies', 'email_suppressions']) {
+        const { error } = await supabase
+          .from(table)
+          .update({ lead_id: toLeadId })
+          .eq('user_id', userId)
+          .in('lead_id', fromLeadIds);
+        
+        if (error) throw error;
+      }
+      return true;
+    }
+  },
+  
+  /**
+   * Lead field overrides collection
+   * 
+   * Values a user corrected by hand on a lead, keyed by field; enrichment never writes here
+   */
+  leadOverrides: {
+    // Get the overrides on a user's leads
+    getByLeadIds: getLeadOverrides,
+    
+    // Set or replace the override of one field
+    async upsert(userId: string, leadId: string, field: string, value: any) {
+      const { error, data } = await supabase
+        .from('lead_field_overrides')
+        .upsert(
+          { user_id: userId, lead_id: leadId, field, value, updated_at: new Date().toISOString() },
+          { onConflict: 'lead_id,field' }
+        )
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return data as LeadFieldOverride;
+    },
+    
+    // Remove the override of one field, handing it back to enrichment
+    async remove(userId: string, leadId: string, field: string) {
+      const { error } = await supabase
+        .from('lead_field_overrides')
+        .delete()
+        .eq('user_id', userId)
+        .eq('lead_id', leadId)
+        .eq('field', field);
+      
+      if (error) throw error;
+      return true;
+    }
+  },
+  
+  /**
+   * Lead outcomes collection
+   * 
+   * The latest outcome of each lead a user reached out to
+   */
+  leadOutcomes: {
+    // Record a lead's outcome, replacing the previous one unless keepExisting is set
+    async record(
+      outcome: Pick<LeadOutcomeRecord, 'user_id' | 'lead_id' | 'outcome'> & { campaign_id?: string | null },
+      { keepExisting = false }: { keepExisting?: boolean } = {}
+    ) {
+      const { error, data } = await supabase
+        .from('lead_outcomes')
+        .upsert(
+          { ...outcome, recorded_at: new Date().toISOString() },
+          { onConflict: 'user_id,lead_id', ignoreDuplicates: keepExisting }
+        )
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as LeadOutcomeRecord | null;
+    },
+    
+    // Get every outcome a user recorded
+    async getByUser(userId: string) {
+      if (!userId) throw new Error('userId is required to fetch lead outcomes');
+      
+      const { error, data } = await supabase
+        .from('lead_outcomes')
+        .select('*')
+        .eq('user_id', userId);
+      
+      if (error) throw error;
+      return (data || []) as LeadOutcomeRecord[];
+    },
+    
+    // Remove a lead's outcome
+    async remove(userId: string, leadId: string) {
+      const { error } = await supabase
+        .from('lead_outcomes')
+        .delete()
+        .eq('user_id', userId)
+        .eq('lead_id', leadId);
+      
+      if (error) throw error;
+      return true;
+    }
+  },
+  
+  /**
+   * Scoring profiles collection
+   * 
+   * Each user's lead scoring settings, stored as a partial ScoringProfile
+   */
+  scoringProfiles: {
+    // Get a user's saved settings, or null if they use the defaults
+    async get(userId: string) {
+      const { error, data } = await supabase
+        .from('scoring_profiles')
+        .select('settings')
+        .eq('user_id', userId)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data?.settings ?? null;
+    },
+    
+    // Save a user's settings
+    async upsert(userId: string, settings: any) {
+      const { error } = await supabase
+        .from('scoring_profiles')
+        .upsert({ user_id: userId, settings, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+      
+      if (error) throw error;
+      return true;
+    }
+  },
+  
+  /**
+   * User profiles collection
+   * 
+   * Caterer business profiles, one per auth user
+   */
+  userProfiles: {
+    // Get the profile owned by a user
+    async getByUserId(userId: string) {
+      if (!userId) throw new Error('userId is required to fetch a user profile');
+      
+      const { error, data } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data;
+    }
+  },
+  
+  /**
+   * Scheduled emails collection
+   * 
+   * Persistent send queue for drip campaigns, drained by the dispatch worker
+   */
+  scheduledEmails: {
+    // Queue a batch of emails
+    async enqueue(emails: Array<Partial<ScheduledEmail>>) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .insert(emails)
+        .select();
+      
+      if (error) throw error;
+      return data as ScheduledEmail[];
+    },
+    
+    // Get pending emails whose send time has passed
+    async getDue(now: Date, limit: number) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .select('*')
+        .eq('status', 'pending')
+        .lte('send_at', now.toISOString())
+        .order('send_at', { ascending: true })
+        .limit(limit);
+      
+      if (error) throw error;
+      return (data || []) as ScheduledEmail[];
+    },
+    
+    // Claim a pending email for sending; returns null if another worker got it first
+    async claim(id: string) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .update({ status: 'sending' })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as ScheduledEmail | null;
+    },
+    
+    // Put emails stuck in sending since before a time back in the queue; claiming sets updated_at
+    async reclaimStale(claimedBefore: Date) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .update({ status: 'pending' })
+        .eq('status', 'sending')
+        .lt('updated_at', claimedBefore.toISOString())
+        .select();
+      
+      if (error) throw error;
+      return (data || []) as ScheduledEmail[];
+    },
+    
+    // Update a single queued email
+    async update(id: string, updates: Partial<ScheduledEmail>) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return data as ScheduledEmail;
+    },
+    
+    // Get every queued email of a campaign in send order
+    async getByCampaignId(campaignId: string) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .order('send_at', { ascending: true });
+      
+      if (error) throw error;
+      return (data || []) as ScheduledEmail[];
+    },
+    
+    // Count a campaign's emails that have not been sent, failed or cancelled yet
+    async countOpen(campaignId: string) {
+      const { error, count } = await supabase
+        .from('scheduled_emails')
+        .select('id', { count: 'exact', head: true })
+        .eq('campaign_id', campaignId)
+        .in('status', ['pending', 'sending', 'paused']);
+      
+      if (error) throw error;
+      return count || 0;
+    },
+    
+    // Get a queued email by ID
+    async get(id: string) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as ScheduledEmail | null;
+    },
+    
+    // Get the most recent email a user sent to an address; addresses are queued lower-cased
+    async getLatestSentTo(userId: string, recipientEmail: string) {
+      if (!userId) throw new Error('userId is required to look up sent emails');
+      
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('recipient_email', recipientEmail.trim().toLowerCase())
+        .eq('status', 'sent')
+        .order('sent_at', { ascending: false })
+        .limit(1);
+      
+      if (error) throw error;
+      return ((data || [])[0] || null) as ScheduledEmail | null;
+    },
+    
+    // Find the queued email Resend reported an event for
+    async getByProviderMessageId(providerMessageId: string) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .select('*')
+        .eq('provider_message_id', providerMessageId)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as ScheduledEmail | null;
+    },
+    
+    // Get every queued email owned by a user
+    async getByUserId(userId: string) {
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .select('*')
+        .eq('user_id', userId);
+      
+      if (error) throw error;
+      return (data || []) as ScheduledEmail[];
+    },
+    
+    // Get a user's emails for some leads that are still waiting to be sent
+    async getOpenByLeadIds(userId: string, leadIds: string[]) {
+      if (!userId) throw new Error('userId is required to fetch scheduled emails');
+      if (leadIds.length === 0) return [];
+      
+      const { error, data } = await supabase
+        .from('scheduled_emails')
+        .select('*')
+        .eq('user_id', userId)
+        .in('lead_id', leadIds)
+        .in('status', ['pending', 'paused']);
+      
+      if (error) throw error;
+      return (data || []) as ScheduledEmail[];
+    },
+    
+    // Move every matching email from one of the given statuses to a new status
+    async transition(
+      filter: ScheduledEmailFilter,
+      fromStatuses: ScheduledEmailStatus[],
+      toStatus: ScheduledEmailStatus
+    ) {
+      let query = supabase
+        .from('scheduled_emails')
+        .update({ status: toStatus })
+        .in('status', fromStatuses);
+      
+      if (filter.userId) query = query.eq('user_id', filter.userId);
+      if (filter.leadId) query = query.eq('lead_id', filter.leadId);
+      if (filter.campaignId) query = query.eq('campaign_id', filter.campaignId);
+      
+      const { error, data } = await query.select();
+      
+      if (error) throw error;
+      return (data || []) as ScheduledEmail[];
+    }
+  },
+  
+  /**
+   * Email suppressions collection
+   * 
+   * Per-user list of addresses that must not receive outreach
+   */
+  suppressions: {
+    // Suppress an address; the first recorded reason is kept
+    async add(suppression: Partial<EmailSuppression> & { user_id: string; email: string }) {
+      const { error } = await supabase
+        .from('email_suppressions')
+        .upsert(
+          { ...suppression, email: suppression.email.trim().toLowerCase() },
+          { onConflict: 'user_id,email', ignoreDuplicates: true }
+        );
+      
+      if (error) throw error;
+      return true;
+    },
+    
+    // Check whether an address is suppressed for a user
+    async isSuppressed(userId: string, email: string) {
+      const { error, count } = await supabase
+        .from('email_suppressions')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('email', email.trim().toLowerCase());
+      
+      if (error) throw error;
+      return (count || 0) > 0;
+    },
+    
+    // Get a user's full suppression list, newest first
+    async getByUserId(userId: string) {
+      const { error, data } = await supabase
+        .from('email_suppressions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      
+      if (error) throw error;
+      return (data || []) as EmailSuppression[];
+    },
+    
+    // Remove a manual block; unsubscribes, bounces and complaints are permanent
+    async removeManual(userId: string, email: string) {
+      const { error, data } = await supabase
+        .from('email_suppressions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('email', email.trim().toLowerCase())
+        .eq('reason', 'manual')
+        .select();
+      
+      if (error) throw error;
+      return (data || []).length > 0;
+    }
+  },
+  
+  /**
+   * Email replies collection
+   * 
+   * Inbound replies matched to the lead and campaign they answer
+   */
+  emailReplies: {
+    // Record a reply; a message already recorded is ignored
+    async record(reply: Partial<EmailReply>) {
+      const { error, data } = await supabase
+        .from('email_replies')
+        .upsert(reply, { onConflict: 'message_id', ignoreDuplicates: true })
+        .select();
+      
+      if (error) throw error;
+      return ((data || [])[0] || null) as EmailReply | null;
+    },
+    
+    // Get the reply thread for one of a user's leads, oldest first
+    async getByLeadId(userId: string, leadId: string) {
+      const { error, data } = await supabase
+        .from('email_replies')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('lead_id', leadId)
+        .order('received_at', { ascending: true });
+      
+      if (error) throw error;
+      return (data || []) as EmailReply[];
+    },
+    
+    // Get every reply a user has received
+    async getByUserId(userId: string) {
+      const { error, data } = await supabase
+        .from('email_replies')
+        .select('*')
+        .eq('user_id', userId);
+      
+      if (error) throw error;
+      return (data || []) as EmailReply[];
+    }
+  },
+  
+  /**
+   * Email events collection
+   * 
+   * Delivery and engagement events reported by Resend webhooks
+   */
+  emailEvents: {
+    // Record an event; redelivered webhooks are ignored
+    async record(event: Partial<EmailEvent>) {
+      const { error, data } = await supabase
+        .from('email_events')
+        .upsert(event, { onConflict: 'webhook_id', ignoreDuplicates: true })
+        .select();
+      
+      if (error) throw error;
+      return ((data || [])[0] || null) as EmailEvent | null;
+    },
+    
+    // Attach events recorded before their queued email was marked sent
+    async linkUnowned(providerMessageId: string, owner: Pick<EmailEvent, 'user_id' | 'campaign_id' | 'scheduled_email_id' | 'lead_id'>) {
+      const { error, data } = await supabase
+        .from('email_events')
+        .update(owner)
+        .eq('provider_message_id', providerMessageId)
+        .is('scheduled_email_id', null)
+        .select();
+      
+      if (error) throw error;
+      return (data || []) as EmailEvent[];
+    },
+    
+    // Get every event for a user's emails
+    async getByUserId(userId: string) {
+      const { error, data } = await supabase
+        .from('email_events')
+        .select('*')
+        .eq('user_id', userId);
+      
+      if (error) throw error;
+      return (data || []) as EmailEvent[];
+    }
+  },
+  
+  /**
+   * Enrichment jobs collection
+   * 
+   * Progress and results of URL enrichment jobs, polled by the status endpoint
+   */
+  enrichmentJobs: {
+    // Create a job
+    async create(job: Partial<EnrichmentJob> & { url: string }) {
+      const { error, data } = await supabase
+        .from('enrichment_jobs')
+        .insert(job)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return data as EnrichmentJob;
+    },
+    
+    // Get a job by id
+    async get(id: string) {
+      const { error, data } = await supabase
+        .from('enrichment_jobs')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as EnrichmentJob | null;
+    },
+    
+    // Update a job's progress, result or error
+    async update(id: string, updates: Partial<EnrichmentJob>) {
+      const { error, data } = await supabase
+        .from('enrichment_jobs')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as EnrichmentJob | null;
+    },
+    
+    // Delete finished jobs last touched before a cutoff
+    async deleteFinishedBefore(cutoff: Date) {
+      const { error, data } = await supabase
+        .from('enrichment_jobs')
+        .delete()
+        .in('status', ['complete', 'error'])
+        .lt('updated_at', cutoff.toISOString())
+        .select('id');
+      
+      if (error) throw error;
+      return (data || []).length;
+    }
+  },
+  
+  /**
+   * Job queue items collection
+   * 
+   * Progress of batch jobs, so a batch interrupted by a crash can resume where it stopped
+   */
+  queueItems: {
+    // Get every item in a batch
+    async getBatch(queue: string, batchId: string) {
+      const { error, data } = await supabase
+        .from('job_queue_items')
+        .select('*')
+        .eq('queue', queue)
+        .eq('batch_id', batchId);
+      
+      if (error) throw error;
+      return (data || []) as QueueItem[];
+    },
+    
+    // Add items to a batch; items already in it are left alone
+    async add(items: Array<Partial<QueueItem> & { queue: string; batch_id: string; item_key: string }>) {
+      const { error, data } = await supabase
+        .from('job_queue_items')
+        .upsert(items, { onConflict: 'queue,batch_id,item_key', ignoreDuplicates: true })
+        .select();
+      
+      if (error) throw error;
+      return (data || []) as QueueItem[];
+    },
+    
+    // Record an attempt, result or failure
+    async update(id: string, updates: Partial<QueueItem>) {
+      const { error } = await supabase
+        .from('job_queue_items')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+      
+      if (error) throw error;
+      return true;
+    },
+    
+    // Remove a batch's finished items once the batch has run; dead-lettered items are kept
+    async deleteFinished(queue: string, batchId: string) {
+      const { error } = await supabase
+        .from('job_queue_items')
+        .delete()
+        .eq('queue', queue)
+        .eq('batch_id', batchId)
+        .eq('status', 'done');
+      
+      if (error) throw error;
+      return true;
+    },
+    
+    // Get items that failed too many times, newest first
+    async getDeadLettered(queue: string, limit = 100) {
+      const { error, data } = await supabase
+        .from('job_queue_items')
+        .select('*')
+        .eq('queue', queue)
+        .eq('status', 'dead')
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+      
+      if (error) throw error;
+      return (data || []) as QueueItem[];
+    }
+  },
+  
+  /**
+   * API cache collection
+   * 
+   * Responses from paid APIs, keyed by namespace and cache key, reused until they expire
+   */
+  apiCache: {
+    // Get a cached response, expired or not
+    async get(namespace: string, cacheKey: string) {
+      const { error, data } = await supabase
+        .from('api_cache')
+        .select('*')
+        .eq('namespace', namespace)
+        .eq('cache_key', cacheKey)
+        .maybeSingle();
+      
+      if (error) throw error;
+      return data as ApiCacheEntry | null;
+    },
+    
+    // Store a response, replacing any earlier one
+    async set(entry: ApiCacheEntry) {
+      const { error } = await supabase
+        .from('api_cache')
+        .upsert({ ...entry, updated_at: new Date().toISOString() }, { onConflict: 'namespace,cache_key' });
+      
+      if (error) throw error;
+      return true;
+    },
+    
+    // Delete responses that expired before a cutoff
+    async deleteExpiredBefore(cutoff: Date) {
+      const { error, data } = await supabase
+        .from('api_cache')
+        .delete()
+        .lt('expires_at', cutoff.toISOString())
+        .select('cache_key');
+      
+      if (error) throw error;
+      return (data || []).length;
+    },
+    
+    // Add to a namespace's hit and miss counts
+    async incrementStats(namespace: string, counts: ApiCacheStatCounts) {
+      const { error } = await supabase.rpc('increment_api_cache_stats', {
+        p_namespace: namespace,
+        p_hits: counts.hits,
+        p_misses: counts.misses,
+        p_refreshes: counts.refreshes,
+        p_writes: counts.writes,
+        p_errors: counts.errors
+      });
+      
+      if (error) throw error;
+      return true;
+    },
+    
+    // Get the hit and miss counts of every namespace
+    async getStats() {
+      const { error, data } = await supabase
+        .from('api_cache_stats')
+        .select('namespace, hits, misses, refreshes, writes, errors');
+      
+      if (error) throw error;
+      return (data || []).map(row => ({
+        namespace: row.namespace as string,
+        hits: Number(row.hits),
+        misses: Number(row.misses),
+        refreshes: Number(row.refreshes),
+        writes: Number(row.writes),
+        errors: Number(row.errors)
+      }));
+    }
   }
-}; 
\ No newline at end of file
+};  
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import type { CallToActionType, EmailTemplate, EmailTheme } from '@/types/email';
+
+const THEMES = [
+  'introduction',
+  'services',
+  'testimonials',
+  'promotion',
+  'seasonal',
+  'concerns',
+  'last_call',
+  'follow_up',
+] as const satisfies readonly EmailTheme[];
+
+const CTA_TYPES = ['call', 'reply', 'tasting'] as const satisfies readonly CallToActionType[];
+
+// Default 8-email sequence: what each step covers and when it goes out
+export const DRIP_SEQUENCE: Array<{ theme: EmailTheme; sendOffsetDays: number }> = [
+  { theme: 'introduction', sendOffsetDays: 0 },
+  { theme: 'services', sendOffsetDays: 4 },
+  { theme: 'testimonials', sendOffsetDays: 7 },
+  { theme: 'promotion', sendOffsetDays: 14 },
+  { theme: 'seasonal', sendOffsetDays: 28 },
+  { theme: 'concerns', sendOffsetDays: 42 },
+  { theme: 'last_call', sendOffsetDays: 56 },
+  { theme: 'follow_up', sendOffsetDays: 77 },
+];
+
+/**
+ * Shape the model is asked to return for each email
+ */
+export const generatedEmailSchema = z.object({
+  subject: z.string().trim().min(1).max(120),
+  preheader: z.string().trim().max(200).default(''),
+  body: z.string().trim().min(1),
+  theme: z.enum(THEMES),
+  ctaType: z.enum(CTA_TYPES),
+});
+
+export const generatedCampaignSchema = z.object({
+  emails: z.array(generatedEmailSchema).min(1),
+});
+
+/**
+ * A complete template, as sent by the client when launching a campaign
+ */
+export const emailTemplateSchema = z.object({
+  stepIndex: z.number().int().min(0),
+  sendOffsetDays: z.number().int().min(0),
+  subject: z.string().min(1),
+  preheader: z.string(),
+  textBody: z.string().min(1),
+  htmlBody: z.string().min(1),
+  theme: z.enum(THEMES),
+  ctaType: z.enum(CTA_TYPES),
+});
+
+/**
+ * Days after launch that a step goes out; steps past the default sequence follow every two weeks
+ */
+export function getSendOffsetDays(stepIndex: number): number {
+  if (stepIndex < DRIP_SEQUENCE.length) {
+    return DRIP_SEQUENCE[stepIndex].sendOffsetDays;
+  }
+  const last = DRIP_SEQUENCE[DRIP_SEQUENCE.length - 1].sendOffsetDays;
+  return last + (stepIndex - DRIP_SEQUENCE.length + 1) * 14;
+}
+
+/**
+ * Human-readable send timing, e.g. "Day 1" or "Week 3"
+ */
+export function describeSendOffset(sendOffsetDays: number): string {
+  return sendOffsetDays < 7
+    ? `Day ${sendOffsetDays + 1}`
+    : `Week ${Math.floor(sendOffsetDays / 7) + 1}`;
+}
+
+/**
+ * Escape text for use in HTML content or a double-quoted attribute
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a plain-text body as email HTML, with the preheader as hidden preview text
+ */
+export function renderEmailHtml(textBody: string, preheader: string = ''): string {
+  const paragraphs = textBody
+    .trim()
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+  const preview = preheader
+    ? `<div style="display:none;max-height:0;overflow:hidden">${escapeHtml(preheader)}</div>`
+    : '';
+
+  return `<html><body>${preview}${paragraphs}</body></html>`;
+}
+
+/**
+ * Apply edits to a template, re-rendering the HTML body when the text changes
+ */
+export function updateEmailTemplate(
+  template: EmailTemplate,
+  changes: Partial<Pick<EmailTemplate, 'subject' | 'preheader' | 'textBody'>>
+): EmailTemplate {
+  const updated = { ...template, ...changes };
+  if (changes.textBody !== undefined || changes.preheader !== undefined) {
+    updated.htmlBody = renderEmailHtml(updated.textBody, updated.preheader);
+  }
+  return updated;
+}
+
+/**
+ * Parse and validate the model's JSON output into templates
+ * Throws with the specific problems when the output does not match the expected format
+ */
+export function parseGeneratedTemplates(output: string): EmailTemplate[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(output);
+  } catch {
+    throw new Error('Email generation returned invalid JSON');
+  }
+
+  const result = generatedCampaignSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Email generation returned an unexpected format: ${issues}`);
+  }
+
+  return result.data.emails.map((email, stepIndex) => ({
+    stepIndex,
+    sendOffsetDays: getSendOffsetDays(stepIndex),
+    subject: email.subject,
+    preheader: email.preheader,
+    textBody: email.body,
+    htmlBody: renderEmailHtml(email.body, email.preheader),
+    theme: email.theme,
+    ctaType: email.ctaType,
+  }));
+}
@@ -0,0 +1,104 @@
+import { createDnsResolver, MxResolver } from './resolvers';
+import { isDisposableDomain, isRoleMailbox, parseAddress, suggestDomain } from './rules';
+import { EmailVerification } from './status';
+
+/**
+ * Email deliverability checks
+ *
+ * Addresses found on venue websites are checked before campaigns use them: syntax,
+ * throwaway and role mailboxes, typos of common mail domains, and whether the domain has
+ * a mail server. Nothing is sent to the address itself. Mail server lookups go through the
+ * configured resolver (DNS by default) and are cached in process; tests swap in the
+ * fixture resolver with setMxResolver.
+ */
+
+export { createDnsResolver, createFixtureResolver } from './resolvers';
+export type { MxResolver } from './resolvers';
+export { isDisposableDomain, isRoleMailbox, parseAddress, suggestDomain } from './rules';
+export { passesVerification } from './status';
+export type { EmailVerification, EmailVerificationStatus } from './status';
+
+// Mail servers rarely change; failed lookups are not cached
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 1000;
+
+let resolver: MxResolver = createDnsResolver();
+const cache = new Map<string, { exchanges: string[]; expiresAt: number }>();
+
+export function getMxResolver(): MxResolver {
+  return resolver;
+}
+
+// Switching resolvers also clears the cache, so answers from different resolvers never mix
+export function setMxResolver(next: MxResolver) {
+  resolver = next;
+  cache.clear();
+}
+
+export function clearMxCache() {
+  cache.clear();
+}
+
+async function lookupMx(domain: string): Promise<string[]> {
+  const hit = cache.get(domain);
+  if (hit && hit.expiresAt > Date.now()) return hit.exchanges;
+
+  const exchanges = await resolver.resolveMx(domain);
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    // Drop the oldest entry; Maps iterate in insertion order
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(domain, { exchanges, expiresAt: Date.now() + CACHE_TTL_MS });
+  return exchanges;
+}
+
+/**
+ * Check whether an address can receive mail
+ * Never throws: a failed lookup gives an unknown status.
+ */
+export async function verifyEmail(email: string): Promise<EmailVerification> {
+  const checkedAt = new Date().toISOString();
+  const parsed = parseAddress(email);
+  if (!parsed) {
+    return { status: 'invalid', reason: 'Not a valid email address', disposable: false, roleBased: false, hasMx: null, checkedAt };
+  }
+
+  const { mailbox, domain } = parsed;
+  const flags = { disposable: isDisposableDomain(domain), roleBased: isRoleMailbox(mailbox) };
+  if (flags.disposable) {
+    return { status: 'invalid', reason: `${domain} is a disposable email provider`, ...flags, hasMx: null, checkedAt };
+  }
+
+  const suggestedDomain = suggestDomain(domain);
+  const suggestion = suggestedDomain ? `${mailbox}@${suggestedDomain}` : undefined;
+
+  let hasMx: boolean;
+  try {
+    hasMx = (await lookupMx(domain)).length > 0;
+  } catch (error) {
+    console.warn(`[EMAIL-VERIFICATION] Mail server lookup failed for ${domain}:`, error instanceof Error ? error.message : error);
+    return { status: 'unknown', reason: `Could not look up the mail server for ${domain}`, ...flags, hasMx: null, ...(suggestion ? { suggestion } : {}), checkedAt };
+  }
+
+  if (!hasMx) {
+    const hint = suggestion ? ` (did you mean ${suggestion}?)` : '';
+    return { status: 'invalid', reason: `${domain} does not accept email${hint}`, ...flags, hasMx, ...(suggestion ? { suggestion } : {}), checkedAt };
+  }
+  if (suggestion) {
+    return { status: 'risky', reason: `${domain} looks like a typo of ${suggestedDomain}`, ...flags, hasMx, suggestion, checkedAt };
+  }
+  return { status: 'valid', ...flags, hasMx, checkedAt };
+}
+
+/**
+ * Verify the email of each contact, checking each distinct address once
+ * Contacts without an email are returned unchanged.
+ */
+export async function verifyContacts<T extends { email?: string }>(contacts: T[] = []): Promise<Array<T & { verification?: EmailVerification }>> {
+  const emails = Array.from(new Set(contacts.map(contact => contact.email?.toLowerCase()).filter((email): email is string => !!email)));
+  const results = new Map(await Promise.all(emails.map(async email => [email, await verifyEmail(email)] as const)));
+
+  return contacts.map(contact => contact.email
+    ? { ...contact, verification: results.get(contact.email.toLowerCase()) }
+    : contact);
+}
@@ -0,0 +1,77 @@
+import { promises as dns } from 'dns';
+
+/**
+ * Mail server lookups
+ *
+ * The DNS resolver reads a domain's MX records; the fixture resolver answers from a fixed
+ * list, for tests and local development without network access.
+ */
+
+export interface MxResolver {
+  name: string;
+  // Mail servers for a domain, most preferred first; empty when the domain takes no mail.
+  // Throws when the lookup itself fails, e.g. a DNS timeout
+  resolveMx(domain: string): Promise<string[]>;
+}
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+// Codes for a domain, or a record type, that does not exist
+const NOT_FOUND_CODES = ['ENOTFOUND', 'ENODATA', 'NXDOMAIN'];
+
+/**
+ * Resolver backed by DNS
+ * A domain without MX records receives mail at its own address, as mail servers do; a
+ * "null MX" record means the domain takes no mail at all.
+ */
+export function createDnsResolver(timeoutMs: number = LOOKUP_TIMEOUT_MS): MxResolver {
+  const resolver = new dns.Resolver({ timeout: timeoutMs, tries: 2 });
+  const notFound = (error: unknown) => NOT_FOUND_CODES.includes((error as NodeJS.ErrnoException)?.code || '');
+
+  return {
+    name: 'dns',
+
+    async resolveMx(domain) {
+      try {
+        const records = await resolver.resolveMx(domain);
+        return records
+          .filter(record => record.exchange && record.exchange !== '.')
+          .sort((a, b) => a.priority - b.priority)
+          .map(record => record.exchange);
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException)?.code;
+        if (code !== 'ENODATA') {
+          if (notFound(error)) return [];
+          throw error;
+        }
+      }
+
+      // No MX records: mail goes to the domain's own address, if it has one
+      try {
+        const addresses = await resolver.resolve4(domain);
+        return addresses.length ? [domain] : [];
+      } catch (error) {
+        if (notFound(error)) return [];
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * Resolver that answers from fixtures keyed by domain
+ * Domains that are not listed have no mail servers; an Error value makes the lookup fail.
+ */
+export function createFixtureResolver(fixtures: Record<string, string[] | Error>): MxResolver {
+  const byDomain = new Map(Object.entries(fixtures).map(([domain, result]) => [domain.toLowerCase(), result]));
+
+  return {
+    name: 'fixture',
+
+    async resolveMx(domain) {
+      const result = byDomain.get(domain.toLowerCase());
+      if (result instanceof Error) throw result;
+      return result ? [...result] : [];
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Address checks that need no network
+ *
+ * Syntax, throwaway and role mailboxes, and likely typos of the mail domains most
+ * personal and small-business addresses use.
+ */
+
+// Providers that hand out throwaway addresses
+export const DISPOSABLE_DOMAINS = new Set([
+  '10minutemail.com',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'mytemp.email',
+  'sharklasers.com',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempail.com',
+  'tempmail.com',
+  'tempmailo.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+]);
+
+// Mailboxes that belong to a function rather than a person
+export const ROLE_MAILBOXES = new Set([
+  'accounts', 'admin', 'banquets', 'billing', 'booking', 'bookings', 'careers', 'catering',
+  'contact', 'enquiries', 'events', 'frontdesk', 'general', 'groups', 'hello', 'help', 'hi',
+  'info', 'inquiries', 'jobs', 'mail', 'marketing', 'media', 'office', 'postmaster', 'press',
+  'privatedining', 'reception', 'reservations', 'sales', 'support', 'team', 'webmaster', 'weddings',
+]);
+
+// Domains checked for near-miss spellings, e.g. gmial.com
+export const COMMON_DOMAINS = [
+  'aol.com', 'att.net', 'bellsouth.net', 'charter.net', 'comcast.net', 'cox.net', 'gmail.com',
+  'hotmail.com', 'icloud.com', 'live.com', 'mac.com', 'me.com', 'msn.com', 'outlook.com',
+  'protonmail.com', 'sbcglobal.net', 'verizon.net', 'yahoo.com', 'ymail.com',
+];
+
+// Misspelled top-level domains and what was meant
+const TLD_TYPOS: Record<string, string> = {
+  con: 'com',
+  cmo: 'com',
+  comm: 'com',
+  coom: 'com',
+  vom: 'com',
+  xom: 'com',
+  ney: 'net',
+  nte: 'net',
+  ogr: 'org',
+  orgg: 'org',
+};
+
+const LOCAL_PART = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const DOMAIN_LABEL = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/**
+ * Mailbox and domain of a well-formed address, or null
+ * Quoted local parts and IP-literal domains are not accepted; venues do not use them.
+ */
+export function parseAddress(email: string): { mailbox: string; domain: string } | null {
+  const address = email.trim();
+  const at = address.lastIndexOf('@');
+  if (address.length > 254 || at < 1) return null;
+
+  const mailbox = address.slice(0, at);
+  const domain = address.slice(at + 1).toLowerCase();
+  const labels = domain.split('.');
+  if (mailbox.length > 64 || !LOCAL_PART.test(mailbox)) return null;
+  if (labels.length < 2 || !labels.every(label => DOMAIN_LABEL.test(label))) return null;
+  if (!/^[a-z]{2,}$/.test(labels[labels.length - 1])) return null;
+
+  return { mailbox, domain };
+}
+
+export function isDisposableDomain(domain: string): boolean {
+  const labels = domain.toLowerCase().split('.');
+  // Subdomains of a throwaway provider are throwaway too
+  return labels.some((_, index) => DISPOSABLE_DOMAINS.has(labels.slice(index).join('.')));
+}
+
+export function isRoleMailbox(mailbox: string): boolean {
+  return ROLE_MAILBOXES.has(mailbox.toLowerCase().replace(/[._-]/g, ''));
+}
+
+// Edits between two strings, counting a swap of neighbouring letters as one
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * The domain probably meant, when a domain looks like a typo; otherwise undefined
+ */
+export function suggestDomain(domain: string): string | undefined {
+  const lower = domain.toLowerCase();
+  if (COMMON_DOMAINS.includes(lower)) return undefined;
+
+  const labels = lower.split('.');
+  const tld = TLD_TYPOS[labels[labels.length - 1]];
+  if (tld) return [...labels.slice(0, -1), tld].join('.');
+
+  return COMMON_DOMAINS.find(common => editDistance(lower, common) === 1);
+}
@@ -0,0 +1,29 @@
+/**
+ * Verification results as stored on contacts
+ *
+ * Kept apart from the checks themselves, which need DNS, so pages in the browser can read
+ * a contact's status.
+ */
+
+// valid: deliverable as far as can be told without sending; risky: the domain looks like a typo;
+// invalid: will not be delivered; unknown: the mail server lookup failed
+export type EmailVerificationStatus = 'valid' | 'risky' | 'invalid' | 'unknown';
+
+export interface EmailVerification {
+  status: EmailVerificationStatus;
+  reason?: string; // Why the address is not valid
+  disposable: boolean;
+  roleBased: boolean; // info@, events@ and the like; fine for venues, so only flagged
+  hasMx: boolean | null; // Null when the domain was not looked up or the lookup failed
+  suggestion?: string; // Address probably meant, for a typo domain
+  checkedAt: string;
+}
+
+/**
+ * Whether outreach may use an address with this verification
+ * Invalid addresses never pass; with requireVerified, only valid ones do.
+ */
+export function passesVerification(verification: EmailVerification | undefined, requireVerified: boolean = false): boolean {
+  if (verification?.status === 'invalid') return false;
+  return !requireVerified || verification?.status === 'valid';
+}
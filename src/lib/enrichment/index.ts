@@ -45,9 +45,10 @@ export async function processUrl(url: string): Promise<{ jobId: string }> {
 
 /**
  * Get the current status of an enrichment job
+ * Jobs are stored server-side, so status can be polled from any instance and survives restarts
  * 
  * @param jobId The ID of the job to check
- * @returns A promise that resolves with the job status
+ * @returns A promise that resolves with the job status, step, progress and attempts
  */
 export async function getJobStatus(jobId: string): Promise<EnrichmentJob> {
   console.log(`Checking status for job: ${jobId}`);
@@ -91,14 +92,14 @@ export async function waitForCompletion(
         
         // Call status update callback if provided
         if (onStatusUpdate) {
-          const progress = getProgressFromStatus(data.status);
+          const progress = data.progress ?? getProgressFromStatus(data.status);
           onStatusUpdate(data.status, progress);
           console.log(`Updated status: ${data.status} (${progress}%)`);
         }
         
         if (data.status === "error") {
-          console.error(`Job ${jobId} failed: ${data.message || 'Unknown error'}`);
-          reject(new Error(data.message || "Processing failed"));
+          console.error(`Job ${jobId} failed: ${data.error || data.message || 'Unknown error'}`);
+          reject(new Error(data.message || data.error || "Processing failed"));
           return;
         }
         
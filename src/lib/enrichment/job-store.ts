@@ -0,0 +1,212 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, EnrichmentJob } from '@/lib/db';
+import { EnrichmentJobStep } from './types';
+
+/**
+ * Durable storage for URL enrichment jobs
+ *
+ * Jobs live in the enrichment_jobs table so any instance can report on a job
+ * another instance started. Tests swap in the in-memory store with setJobStore.
+ */
+
+export interface EnrichmentJobStore {
+  create(job: Partial<EnrichmentJob> & { url: string }): Promise<EnrichmentJob>;
+  get(id: string): Promise<EnrichmentJob | null>;
+  update(id: string, updates: Partial<EnrichmentJob>): Promise<EnrichmentJob | null>;
+  deleteFinishedBefore(cutoff: Date): Promise<number>;
+}
+
+// Progress reported while a job is in each step
+export const STEP_PROGRESS: Record<EnrichmentJobStep, number> = {
+  validating: 5,
+  extracting: 20,
+  processing: 50,
+  generating: 80,
+};
+
+// Finished jobs are kept this long for clients that are still polling
+const JOB_RETENTION_HOURS = 24;
+
+// A running job not updated for this long has lost its worker
+const STALE_JOB_MINUTES = 10;
+
+export const supabaseJobStore: EnrichmentJobStore = {
+  create: job => db.enrichmentJobs.create(job),
+  get: id => db.enrichmentJobs.get(id),
+  update: (id, updates) => db.enrichmentJobs.update(id, updates),
+  deleteFinishedBefore: cutoff => db.enrichmentJobs.deleteFinishedBefore(cutoff),
+};
+
+/**
+ * Store that keeps jobs in process memory, for tests and local scripts
+ */
+export function createInMemoryJobStore(): EnrichmentJobStore {
+  const jobs = new Map<string, EnrichmentJob>();
+
+  return {
+    async create(job) {
+      const now = new Date().toISOString();
+      const created: EnrichmentJob = {
+        id: uuidv4(),
+        user_id: null,
+        status: 'pending',
+        step: null,
+        progress: 0,
+        result: null,
+        error: null,
+        message: null,
+        attempts: 0,
+        started_at: now,
+        updated_at: now,
+        completed_at: null,
+        ...job,
+      };
+      jobs.set(created.id, created);
+      return { ...created };
+    },
+
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+
+    async update(id, updates) {
+      const job = jobs.get(id);
+      if (!job) return null;
+      const updated = { ...job, ...updates, updated_at: new Date().toISOString() };
+      jobs.set(id, updated);
+      return { ...updated };
+    },
+
+    async deleteFinishedBefore(cutoff) {
+      let deleted = 0;
+      for (const [id, job] of Array.from(jobs.entries())) {
+        if ((job.status === 'complete' || job.status === 'error') && new Date(job.updated_at) < cutoff) {
+          jobs.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    },
+  };
+}
+
+let jobStore: EnrichmentJobStore = supabaseJobStore;
+
+export function getJobStore(): EnrichmentJobStore {
+  return jobStore;
+}
+
+export function setJobStore(store: EnrichmentJobStore) {
+  jobStore = store;
+}
+
+/**
+ * Create a pending job for a URL, clearing out old finished jobs first
+ */
+export async function createJob(url: string, userId: string | null): Promise<EnrichmentJob> {
+  const cutoff = new Date(Date.now() - JOB_RETENTION_HOURS * 60 * 60 * 1000);
+  try {
+    await jobStore.deleteFinishedBefore(cutoff);
+  } catch (error) {
+    console.error('[ENRICHMENT] Failed to clean up old jobs:', error);
+  }
+
+  return jobStore.create({ url, user_id: userId, status: 'pending', progress: 0 });
+}
+
+/**
+ * Mark a job as picked up by a worker
+ */
+export async function beginJob(jobId: string): Promise<EnrichmentJob | null> {
+  const job = await jobStore.get(jobId);
+  if (!job) return null;
+
+  return jobStore.update(jobId, {
+    status: 'running',
+    step: 'validating',
+    progress: STEP_PROGRESS.validating,
+    attempts: job.attempts + 1,
+  });
+}
+
+/**
+ * Move a running job to its next step
+ */
+export function setJobStep(jobId: string, step: EnrichmentJobStep) {
+  return jobStore.update(jobId, { status: 'running', step, progress: STEP_PROGRESS[step] });
+}
+
+/**
+ * Store a finished job's result
+ */
+export function completeJob(jobId: string, result: any) {
+  return jobStore.update(jobId, {
+    status: 'complete',
+    step: null,
+    progress: 100,
+    result,
+    completed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Record why a job failed
+ */
+export function failJob(jobId: string, error: string, message = 'An error occurred during the enrichment process') {
+  return jobStore.update(jobId, {
+    status: 'error',
+    step: null,
+    error,
+    message,
+    completed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Load a job for a user
+ * Jobs owned by someone else are reported as not found; running jobs whose worker went away are failed
+ */
+export async function getJob(jobId: string, userId: string | null): Promise<EnrichmentJob | null> {
+  const job = await jobStore.get(jobId);
+  if (!job || (job.user_id && job.user_id !== userId)) {
+    return null;
+  }
+
+  const idleMs = Date.now() - new Date(job.updated_at).getTime();
+  if ((job.status === 'pending' || job.status === 'running') && idleMs > STALE_JOB_MINUTES * 60 * 1000) {
+    return (await failJob(jobId, 'Job stopped responding', 'Enrichment stopped before it finished; please try again')) || job;
+  }
+
+  return job;
+}
+
+/**
+ * Status payload returned to clients polling a job
+ * While a job runs its status is the current step, e.g. "extracting"
+ */
+export function describeJob(job: EnrichmentJob) {
+  const elapsedSeconds = Math.floor((Date.now() - new Date(job.started_at).getTime()) / 1000);
+  const finished = job.status === 'complete' || job.status === 'error';
+
+  // Assume linear progress to estimate the time remaining
+  let estimatedRemainingSeconds = null;
+  if (!finished && job.progress > 0) {
+    const totalEstimatedSeconds = (elapsedSeconds / job.progress) * 100;
+    estimatedRemainingSeconds = Math.max(1, Math.floor(totalEstimatedSeconds - elapsedSeconds));
+  }
+
+  return {
+    jobId: job.id,
+    status: finished ? job.status : job.step || 'processing',
+    step: job.step,
+    progress: job.progress,
+    attempts: job.attempts,
+    startedAt: job.started_at,
+    elapsed: elapsedSeconds,
+    estimated_remaining: estimatedRemainingSeconds,
+    message: job.message || undefined,
+    result: job.status === 'complete' ? job.result : undefined,
+    error: job.status === 'error' ? job.error : undefined,
+  };
+}
@@ -2,14 +2,25 @@
  * Types for the URL enrichment module
  */
 
+/**
+ * Steps a running enrichment job moves through
+ */
+export type EnrichmentJobStep = 'validating' | 'extracting' | 'processing' | 'generating';
+
 /**
  * Represents the status of an enrichment job
  */
 export interface EnrichmentJob {
-  status: 'validating' | 'extracting' | 'processing' | 'generating' | 'complete' | 'error';
+  jobId?: string;
+  status: EnrichmentJobStep | 'complete' | 'error';
+  step?: EnrichmentJobStep | null;
+  progress?: number;
+  attempts?: number;
   startedAt?: string;
-  elapsedMs?: number;
+  elapsed?: number;
+  estimated_remaining?: number | null;
   message?: string;
+  error?: string;
   result?: EnrichmentResult;
 }
 
@@ -0,0 +1,79 @@
+import { withProvider } from '@/lib/job-queue';
+
+/**
+ * Geocoding adapters
+ *
+ * Each adapter turns a free-text address, city or ZIP code into coordinates. The Google
+ * adapter calls the Geocoding API; the fixture adapter answers from a fixed list, for tests
+ * and local development without an API key.
+ */
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  formattedAddress: string;
+}
+
+export interface Geocoder {
+  name: string;
+  // Null when nothing matches; throws when the service fails
+  geocode(query: string): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Geocoder backed by the Google Geocoding API
+ * Calls share the google_places provider limit, as both bill to the same Maps project.
+ */
+export function createGoogleGeocoder(apiKey: string | undefined = process.env.GOOGLE_PLACES_API_KEY): Geocoder {
+  return {
+    name: 'google',
+
+    async geocode(query) {
+      if (!apiKey) throw new Error('GOOGLE_PLACES_API_KEY is not set, so locations cannot be geocoded');
+
+      const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(query)}&key=${apiKey}`;
+      const data = await withProvider('google_places', async () => (await fetch(url)).json());
+
+      if (data.status === 'ZERO_RESULTS') return null;
+      if (data.status !== 'OK' || !data.results?.[0]) {
+        throw new Error(`Geocoding error: ${data.status} - ${data.error_message || 'Unknown error'}`);
+      }
+
+      const [result] = data.results;
+      return {
+        lat: result.geometry.location.lat,
+        lng: result.geometry.location.lng,
+        formattedAddress: result.formatted_address || query,
+      };
+    },
+  };
+}
+
+/**
+ * Geocoder that answers from fixtures keyed by query, matched case-insensitively
+ */
+export function createFixtureGeocoder(fixtures: Record<string, GeocodeResult>): Geocoder {
+  const byQuery = new Map(Object.entries(fixtures).map(([query, result]) => [normalizeQuery(query), result]));
+
+  return {
+    name: 'fixture',
+
+    async geocode(query) {
+      const result = byQuery.get(normalizeQuery(query));
+      return result ? { ...result } : null;
+    },
+  };
+}
+
+/**
+ * Query reduced to what matters for matching and caching: lowercase, single spaces,
+ * no spaces around commas and no trailing punctuation
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*,\s*/g, ',')
+    .replace(/[\s,.]+$/, '')
+    .trim();
+}
@@ -0,0 +1,123 @@
+import { db } from '@/lib/db';
+import { createGoogleGeocoder, GeocodeResult, Geocoder, normalizeQuery } from './adapters';
+
+/**
+ * Geocoding for searches
+ *
+ * Searches take a free-text address, city or ZIP code, or "lat,lng" coordinates. Text is
+ * geocoded through the configured adapter (Google by default) and cached in process, so
+ * repeated searches for the same place cost one API call. Tests swap in the fixture
+ * adapter with setGeocoder.
+ */
+
+export { createFixtureGeocoder, createGoogleGeocoder, normalizeQuery } from './adapters';
+export type { GeocodeResult, Geocoder } from './adapters';
+
+/**
+ * A location that is missing or matches nothing, as opposed to the geocoder failing
+ */
+export class LocationNotFoundError extends Error {
+  name = 'LocationNotFoundError';
+}
+
+export interface SearchLocation {
+  lat: number;
+  lng: number;
+  label: string; // What was searched, e.g. the formatted address
+  source: 'coordinates' | 'geocoded' | 'profile';
+}
+
+// Geocoded places rarely move; entries expire so a corrected result is picked up eventually
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 500;
+
+const COORDINATE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+let geocoder: Geocoder = createGoogleGeocoder();
+const cache = new Map<string, { result: GeocodeResult; expiresAt: number }>();
+
+export function getGeocoder(): Geocoder {
+  return geocoder;
+}
+
+// Switching adapters also clears the cache, so results from different adapters never mix
+export function setGeocoder(next: Geocoder) {
+  geocoder = next;
+  cache.clear();
+}
+
+export function clearGeocodeCache() {
+  cache.clear();
+}
+
+/**
+ * Coordinates written as "lat,lng", or null for anything else
+ */
+export function parseCoordinates(location: string): { lat: number; lng: number } | null {
+  const match = location.match(COORDINATE_PATTERN);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+/**
+ * Geocode a free-text location through the cache
+ * Throws LocationNotFoundError, with a message fit for the user, when nothing matches.
+ */
+export async function geocode(query: string): Promise<GeocodeResult> {
+  const key = normalizeQuery(query);
+  if (!key) throw new LocationNotFoundError('Enter an address, city or ZIP code to search');
+
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    // Re-insert so the most recently used entries are evicted last
+    cache.delete(key);
+    cache.set(key, cached);
+    return { ...cached.result };
+  }
+
+  const result = await geocoder.geocode(query);
+  if (!result) throw new LocationNotFoundError(`Could not find a location for "${query.trim()}"`);
+
+  cache.set(key, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+  if (cache.size > CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return { ...result };
+}
+
+/**
+ * Center of a search
+ * Coordinates are used as given and text is geocoded. With no location, the user's business
+ * location from user_profiles is used: its latitude/longitude, the coordinates saved during
+ * profile setup, or else its address. Throws LocationNotFoundError, with a message fit for
+ * the user, if none work; geocoder failures are thrown as they are.
+ */
+export async function resolveSearchLocation(location?: string | null, userId?: string | null): Promise<SearchLocation> {
+  if (location && location.trim()) {
+    const coordinates = parseCoordinates(location);
+    if (coordinates) return { ...coordinates, label: location.trim(), source: 'coordinates' };
+
+    const result = await geocode(location);
+    return { lat: result.lat, lng: result.lng, label: result.formattedAddress, source: 'geocoded' };
+  }
+
+  const profile = userId ? await db.userProfiles.getByUserId(userId) : null;
+  if (profile) {
+    const saved = profile.latitude != null && profile.longitude != null
+      ? { lat: Number(profile.latitude), lng: Number(profile.longitude) }
+      : profile.user_input_data?.coordinates;
+    if (saved && Number.isFinite(Number(saved.lat)) && Number.isFinite(Number(saved.lng))) {
+      return { lat: Number(saved.lat), lng: Number(saved.lng), label: profile.full_address || 'Your business location', source: 'profile' };
+    }
+    if (profile.full_address) {
+      const result = await geocode(profile.full_address);
+      return { lat: result.lat, lng: result.lng, label: result.formattedAddress, source: 'profile' };
+    }
+  }
+
+  throw new LocationNotFoundError('Enter a location to search, or add your business address to your profile');
+}
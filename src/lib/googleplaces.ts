@@ -1,4 +1,6 @@
 import { Business } from "@/types/business";
+import { geocode } from "@/lib/geocoding";
+import { getPlaceDetails } from "@/tools/googlePlaces";
 
 /**
  * Client for the Google Places API
@@ -15,17 +17,8 @@ export class GooglePlacesClient {
    */
   async searchPlaces(query: string, location: string, radius: number = 25000): Promise<Business[]> {
     try {
-      // First geocode the location
-      const geocodeUrl = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(location)}&key=${this.apiKey}`;
-      const geocodeResponse = await fetch(geocodeUrl);
-      const geocodeData = await geocodeResponse.json();
-
-      if (geocodeData.status !== 'OK' || !geocodeData.results[0]) {
-        console.error('Geocode response error:', geocodeData);
-        throw new Error(`Failed to geocode location: ${geocodeData.status}`);
-      }
-
-      const { lat, lng } = geocodeData.results[0].geometry.location;
+      // First geocode the location, through the shared geocoding cache
+      const { lat, lng } = await geocode(location);
       return this.searchPlacesByCoordinates(query, lat, lng, radius);
     } catch (error) {
       console.error('Error in searchPlaces:', error);
@@ -100,20 +93,11 @@ export class GooglePlacesClient {
   }
 
   /**
-   * Get detailed information for a place by its ID
+   * Get detailed information for a place by its ID, from the cache when it was loaded recently
    */
   async getPlaceDetails(placeId: string): Promise<any> {
     try {
-      const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=name,website,formatted_phone_number,international_phone_number&key=${this.apiKey}`;
-      const response = await fetch(detailsUrl);
-      const data = await response.json();
-
-      if (data.status !== 'OK') {
-        console.error('Place details API error:', data);
-        return {}; // Return empty object if details request fails
-      }
-
-      return data.result || {};
+      return await getPlaceDetails(placeId, { apiKey: this.apiKey });
     } catch (error) {
       console.error(`Error fetching details for place ${placeId}:`, error);
       return {}; // Return empty object if details request fails
@@ -0,0 +1,213 @@
+import { createHash } from 'crypto';
+import { QueueItem } from '@/lib/db';
+import { mapWithConcurrency } from '@/lib/utils';
+import { getRetryAfterMs, isRateLimitError } from './providers';
+import { createInMemoryQueueStore, getQueueStore, JobQueueStore } from './store';
+
+/**
+ * Job queue for batch enrichment
+ *
+ * Runs a batch of tasks a few at a time, retries failures with exponential backoff
+ * and dead-letters tasks that keep failing. Progress is stored per task, so running
+ * the same batch again after a crash skips the tasks that already finished. Finished
+ * tasks are removed once a batch has run, so later runs of the same work start fresh;
+ * dead-lettered tasks are kept for inspection and retried when the batch runs again.
+ */
+
+export { withProvider, configureProvider, isRateLimitError, PROVIDER_LIMITS } from './providers';
+export type { Provider, ProviderLimits } from './providers';
+export { createInMemoryQueueStore, getQueueStore, setQueueStore } from './store';
+export type { JobQueueStore } from './store';
+
+export interface QueueTask<T> {
+  key: string; // Unique within the batch, e.g. a lead id
+  payload: T;
+}
+
+export interface JobQueueOptions {
+  queue: string; // e.g. lead-enrichment
+  batchId: string; // Same id on a rerun resumes a batch that did not finish
+  concurrency?: number; // Tasks in flight at once
+  maxAttempts?: number; // Attempts before a task is dead-lettered
+  baseDelayMs?: number; // First retry delay; doubles with each attempt
+  maxDelayMs?: number;
+  onProgress?: (progress: JobQueueProgress) => void;
+}
+
+export interface JobQueueProgress {
+  total: number;
+  done: number;
+  deadLettered: number;
+}
+
+export interface DeadLetter {
+  key: string;
+  error: string;
+  attempts: number;
+}
+
+export interface JobQueueResult<R> {
+  results: Map<string, R>; // Results of finished tasks by key
+  deadLettered: DeadLetter[];
+  resumed: number; // Tasks already finished by an earlier, interrupted run of the batch
+}
+
+const DEFAULT_CONCURRENCY = 5;
+const DEFAULT_MAX_ATTEMPTS = 4;
+const DEFAULT_BASE_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Stable batch id for a set of inputs, so rerunning the same work resumes it
+ */
+export function batchIdFor(...parts: string[]): string {
+  return createHash('sha256').update(parts.join('\n')).digest('hex').slice(0, 32);
+}
+
+/**
+ * Delay before the next attempt: exponential with jitter, and never shorter than a 429's Retry-After
+ */
+export function getRetryDelayMs(attempt: number, error: unknown, baseDelayMs: number, maxDelayMs: number): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const delay = exponential / 2 + Math.random() * (exponential / 2);
+  const retryAfter = isRateLimitError(error) ? getRetryAfterMs(error) : null;
+  return Math.max(delay, retryAfter ?? 0);
+}
+
+/**
+ * Load a batch's stored items, adding any tasks not seen before
+ * Falls back to an in-memory store when the database is unavailable, so the batch still runs
+ */
+async function loadBatch<T>(
+  tasks: QueueTask<T>[],
+  options: JobQueueOptions
+): Promise<{ store: JobQueueStore; items: Map<string, QueueItem> }> {
+  let store = getQueueStore();
+
+  const load = async (): Promise<Map<string, QueueItem>> => {
+    const existing = await store.getBatch(options.queue, options.batchId);
+    const known = new Set(existing.map(item => item.item_key));
+    const added = await store.add(
+      tasks
+        .filter(task => !known.has(task.key))
+        .map(task => ({ queue: options.queue, batch_id: options.batchId, item_key: task.key }))
+    );
+    return new Map([...existing, ...added].map(item => [item.item_key, item]));
+  };
+
+  try {
+    return { store, items: await load() };
+  } catch (error) {
+    console.error(`[QUEUE] Could not load ${options.queue} batch ${options.batchId}; progress will not be saved:`, error);
+    store = createInMemoryQueueStore();
+    return { store, items: await load() };
+  }
+}
+
+/**
+ * Run a batch of tasks through the queue
+ * @param tasks Tasks with a key that is unique within the batch
+ * @param handler Does the work for one task; throw to retry. Results must be JSON-serializable
+ * @param options Queue name, batch id and limits
+ */
+export async function runJobQueue<T, R>(
+  tasks: QueueTask<T>[],
+  handler: (payload: T, attempt: number) => Promise<R>,
+  options: JobQueueOptions
+): Promise<JobQueueResult<R>> {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  const { store, items } = await loadBatch(tasks, options);
+  const results = new Map<string, R>();
+  const deadLettered: DeadLetter[] = [];
+  let resumed = 0;
+
+  const reportProgress = () => options.onProgress?.({
+    total: tasks.length,
+    done: results.size,
+    deadLettered: deadLettered.length,
+  });
+
+  // Saving progress must not stop the batch; the worst case is redoing a task after a crash
+  const save = async (item: QueueItem, updates: Partial<QueueItem>) => {
+    try {
+      await store.update(item.id, updates);
+    } catch (error) {
+      console.error(`[QUEUE] Failed to save ${options.queue} item ${item.item_key}:`, error);
+    }
+  };
+
+  const pending: Array<{ task: QueueTask<T>; item: QueueItem }> = [];
+  for (const task of tasks) {
+    const item = items.get(task.key)!;
+    if (item.status === 'done') {
+      results.set(task.key, item.result as R);
+      resumed++;
+    } else if (item.status === 'dead') {
+      // Dead-lettered by an earlier run; running the batch again gives it fresh attempts
+      pending.push({ task, item: { ...item, attempts: 0, next_attempt_at: null } });
+    } else {
+      pending.push({ task, item });
+    }
+  }
+
+  if (resumed > 0) {
+    console.log(`[QUEUE] Resuming ${options.queue} batch ${options.batchId}: ${resumed} of ${tasks.length} tasks already done`);
+  }
+  reportProgress();
+
+  await mapWithConcurrency(pending, concurrency, async ({ task, item }) => {
+    let attempts = item.attempts;
+    let lastError = item.last_error || 'Unknown error';
+
+    // A retry scheduled before a crash still waits out its delay
+    const scheduledWait = item.next_attempt_at ? new Date(item.next_attempt_at).getTime() - Date.now() : 0;
+    if (scheduledWait > 0) {
+      await sleep(Math.min(scheduledWait, maxDelayMs));
+    }
+
+    while (attempts < maxAttempts) {
+      attempts++;
+      await save(item, { status: 'running', attempts, next_attempt_at: null });
+
+      try {
+        const result = await handler(task.payload, attempts);
+        await save(item, { status: 'done', result, last_error: null });
+        results.set(task.key, result);
+        reportProgress();
+        return;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error);
+        if (attempts >= maxAttempts) break;
+
+        const delay = getRetryDelayMs(attempts, error, baseDelayMs, maxDelayMs);
+        console.warn(`[QUEUE] ${options.queue} ${task.key} failed (attempt ${attempts}/${maxAttempts}), retrying in ${Math.round(delay)}ms: ${lastError}`);
+        await save(item, {
+          status: 'pending',
+          last_error: lastError,
+          next_attempt_at: new Date(Date.now() + delay).toISOString(),
+        });
+        await sleep(delay);
+      }
+    }
+
+    console.error(`[QUEUE] ${options.queue} ${task.key} dead-lettered after ${attempts} attempts: ${lastError}`);
+    await save(item, { status: 'dead', attempts, last_error: lastError });
+    deadLettered.push({ key: task.key, error: lastError, attempts });
+    reportProgress();
+  });
+
+  // Only an interrupted batch should resume, so finished results are not kept for the next run
+  try {
+    await store.deleteFinished(options.queue, options.batchId);
+  } catch (error) {
+    console.error(`[QUEUE] Failed to clear finished ${options.queue} batch ${options.batchId}:`, error);
+  }
+
+  return { results, deadLettered, resumed };
+}
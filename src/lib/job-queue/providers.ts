@@ -0,0 +1,122 @@
+/**
+ * Per-provider concurrency and rate limits
+ *
+ * Every call to a rate-limited API goes through withProvider, so concurrent batches
+ * in the same process share one budget per provider. A 429 pauses the provider
+ * for everyone until its Retry-After has passed.
+ */
+
+export type Provider = 'firecrawl' | 'openai' | 'google_places';
+
+export interface ProviderLimits {
+  concurrency: number; // Calls in flight at once
+  requestsPerMinute: number;
+}
+
+export const PROVIDER_LIMITS: Record<Provider, ProviderLimits> = {
+  firecrawl: { concurrency: 2, requestsPerMinute: 20 },
+  openai: { concurrency: 4, requestsPerMinute: 60 },
+  google_places: { concurrency: 5, requestsPerMinute: 300 },
+};
+
+// Pause after a 429 that does not say how long to wait
+const DEFAULT_COOLDOWN_MS = 10 * 1000;
+const WINDOW_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Whether an error is a provider telling us to slow down
+ * Providers surface 429s as axios errors, fetch errors or plain messages, so all three are checked
+ */
+export function isRateLimitError(error: any): boolean {
+  const status = error?.status ?? error?.response?.status;
+  if (status === 429) return true;
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /\b429\b|rate.?limit|too many requests/i.test(message);
+}
+
+/**
+ * Wait requested by a 429's Retry-After header, if it has one
+ */
+export function getRetryAfterMs(error: any): number | null {
+  const header = error?.response?.headers?.['retry-after'] ?? error?.headers?.['retry-after'];
+  if (header === undefined || header === null) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+class ProviderLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private startTimes: number[] = [];
+  private pausedUntil = 0;
+
+  constructor(private limits: ProviderLimits) {}
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + (getRetryAfterMs(error) ?? DEFAULT_COOLDOWN_MS));
+      }
+      throw error;
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private async acquire() {
+    while (true) {
+      const now = Date.now();
+      this.startTimes = this.startTimes.filter(time => now - time < WINDOW_MS);
+
+      if (this.active >= this.limits.concurrency) {
+        await new Promise<void>(resolve => this.waiting.push(resolve));
+        continue;
+      }
+
+      const rateWait = this.startTimes.length >= this.limits.requestsPerMinute
+        ? this.startTimes[0] + WINDOW_MS - now
+        : 0;
+      const wait = Math.max(rateWait, this.pausedUntil - now);
+      if (wait > 0) {
+        await sleep(wait);
+        continue;
+      }
+
+      this.active++;
+      this.startTimes.push(now);
+      return;
+    }
+  }
+}
+
+const limiters = new Map<Provider, ProviderLimiter>();
+
+/**
+ * Run a call to a provider within its concurrency and rate limits
+ */
+export function withProvider<T>(provider: Provider, fn: () => Promise<T>): Promise<T> {
+  let limiter = limiters.get(provider);
+  if (!limiter) {
+    limiter = new ProviderLimiter(PROVIDER_LIMITS[provider]);
+    limiters.set(provider, limiter);
+  }
+  return limiter.run(fn);
+}
+
+/**
+ * Override a provider's limits, e.g. for a higher API plan or in tests
+ */
+export function configureProvider(provider: Provider, limits: ProviderLimits) {
+  PROVIDER_LIMITS[provider] = limits;
+  limiters.delete(provider);
+}
@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db, QueueItem } from '@/lib/db';
+
+/**
+ * Storage for job queue items
+ *
+ * Items live in the job_queue_items table so a batch can resume after a crash.
+ * Tests swap in the in-memory store with setQueueStore.
+ */
+
+export type NewQueueItem = Partial<QueueItem> & { queue: string; batch_id: string; item_key: string };
+
+export interface JobQueueStore {
+  getBatch(queue: string, batchId: string): Promise<QueueItem[]>;
+  add(items: NewQueueItem[]): Promise<QueueItem[]>;
+  update(id: string, updates: Partial<QueueItem>): Promise<unknown>;
+  deleteFinished(queue: string, batchId: string): Promise<unknown>;
+  getDeadLettered(queue: string, limit?: number): Promise<QueueItem[]>;
+}
+
+export const supabaseQueueStore: JobQueueStore = {
+  getBatch: (queue, batchId) => db.queueItems.getBatch(queue, batchId),
+  add: items => db.queueItems.add(items),
+  update: (id, updates) => db.queueItems.update(id, updates),
+  deleteFinished: (queue, batchId) => db.queueItems.deleteFinished(queue, batchId),
+  getDeadLettered: (queue, limit) => db.queueItems.getDeadLettered(queue, limit),
+};
+
+/**
+ * Store that keeps queue items in process memory, for tests and local scripts
+ */
+export function createInMemoryQueueStore(): JobQueueStore {
+  const items = new Map<string, QueueItem>();
+
+  return {
+    async getBatch(queue, batchId) {
+      return Array.from(items.values())
+        .filter(item => item.queue === queue && item.batch_id === batchId)
+        .map(item => ({ ...item }));
+    },
+
+    async add(newItems) {
+      const added: QueueItem[] = [];
+      for (const newItem of newItems) {
+        const exists = Array.from(items.values()).some(item =>
+          item.queue === newItem.queue && item.batch_id === newItem.batch_id && item.item_key === newItem.item_key
+        );
+        if (exists) continue;
+
+        const now = new Date().toISOString();
+        const item: QueueItem = {
+          id: uuidv4(),
+          status: 'pending',
+          attempts: 0,
+          last_error: null,
+          result: null,
+          next_attempt_at: null,
+          created_at: now,
+          updated_at: now,
+          ...newItem,
+        };
+        items.set(item.id, item);
+        added.push({ ...item });
+      }
+      return added;
+    },
+
+    async update(id, updates) {
+      const item = items.get(id);
+      if (item) {
+        items.set(id, { ...item, ...updates, updated_at: new Date().toISOString() });
+      }
+      return true;
+    },
+
+    async deleteFinished(queue, batchId) {
+      for (const [id, item] of items) {
+        if (item.queue === queue && item.batch_id === batchId && item.status === 'done') items.delete(id);
+      }
+      return true;
+    },
+
+    async getDeadLettered(queue, limit = 100) {
+      return Array.from(items.values())
+        .filter(item => item.queue === queue && item.status === 'dead')
+        .slice(0, limit)
+        .map(item => ({ ...item }));
+    },
+  };
+}
+
+let queueStore: JobQueueStore = supabaseQueueStore;
+
+export function getQueueStore(): JobQueueStore {
+  return queueStore;
+}
+
+export function setQueueStore(store: JobQueueStore) {
+  queueStore = store;
+}
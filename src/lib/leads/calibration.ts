@@ -0,0 +1,191 @@
+import { db, LeadOutcome } from '@/lib/db';
+import { calculateLeadScore, matchScoringCriteria, PENALTY_WEIGHTS } from '@/agents/enrichment/scoring';
+import type { ScoringProfile, ScoringWeights } from '@/agents/enrichment/types';
+import { getLeadsByIds } from './repository';
+import { getScoringProfile } from './scoring-profiles';
+
+/**
+ * Lead score calibration from recorded outcomes
+ *
+ * Scores every lead with a recorded outcome using the user's current scoring profile, then
+ * compares score buckets with how often those leads booked or engaged (booked or replied).
+ * Criteria whose leads engage more or less often than the rest get a suggested weight.
+ * Everything is computed from the user's own leads; nothing leaves the app.
+ */
+
+export const LEAD_OUTCOMES: LeadOutcome[] = ['booked', 'replied', 'no_response', 'rejected'];
+
+// Score ranges the report groups leads into
+const SCORE_BUCKETS = [
+  { label: '0-19', min: 0, max: 19 },
+  { label: '20-39', min: 20, max: 39 },
+  { label: '40-59', min: 40, max: 59 },
+  { label: '60-79', min: 60, max: 79 },
+  { label: '80-100', min: 80, max: 100 },
+];
+
+// Fewest leads on each side of a criterion before a weight is suggested
+const MIN_SAMPLES = 5;
+// Points a weight moves per unit of engagement lift (rate with the criterion minus rate without)
+const SENSITIVITY = 40;
+// Smallest change worth suggesting
+const MIN_CHANGE = 2;
+
+export interface CalibrationSample {
+  leadId: string;
+  outcome: LeadOutcome;
+  enrichmentData: any;
+  lead?: any;
+}
+
+export interface OutcomeRates {
+  leads: number;
+  booked: number;
+  engaged: number; // Booked or replied
+  bookedRate: number | null;
+  engagedRate: number | null;
+}
+
+export interface CalibrationBucket extends OutcomeRates {
+  label: string;
+  min: number;
+  max: number;
+}
+
+export interface WeightSuggestion {
+  weight: keyof ScoringWeights;
+  current: number;
+  suggested: number;
+  withCriterion: OutcomeRates;
+  withoutCriterion: OutcomeRates;
+  reason: string;
+}
+
+export interface CalibrationReport {
+  totalOutcomes: number;
+  outcomes: Record<LeadOutcome, number>;
+  overall: OutcomeRates;
+  buckets: CalibrationBucket[];
+  potentials: Record<'high' | 'medium' | 'low', OutcomeRates>;
+  monotonic: boolean; // Whether higher buckets engage at least as often as lower ones
+  suggestions: WeightSuggestion[];
+  generatedAt: string;
+}
+
+const isEngaged = (outcome: LeadOutcome) => outcome === 'booked' || outcome === 'replied';
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function rates(outcomes: LeadOutcome[]): OutcomeRates {
+  const booked = outcomes.filter(outcome => outcome === 'booked').length;
+  const engaged = outcomes.filter(isEngaged).length;
+  return {
+    leads: outcomes.length,
+    booked,
+    engaged,
+    bookedRate: outcomes.length ? round(booked / outcomes.length) : null,
+    engagedRate: outcomes.length ? round(engaged / outcomes.length) : null,
+  };
+}
+
+// Engagement rate pulled toward one half, so a handful of leads cannot swing a weight far
+const smoothedRate = (group: OutcomeRates) => (group.engaged + 1) / (group.leads + 2);
+
+/**
+ * Compare the scores a profile gives leads with their recorded outcomes
+ */
+export function buildCalibrationReport(samples: CalibrationSample[], profile: ScoringProfile): CalibrationReport {
+  const scored = samples.map(sample => ({
+    ...sample,
+    score: calculateLeadScore(sample.enrichmentData, profile, sample.lead),
+    criteria: new Set(matchScoringCriteria(sample.enrichmentData, profile, sample.lead).map(criterion => criterion.weight)),
+  }));
+
+  const buckets = SCORE_BUCKETS.map(bucket => ({
+    ...bucket,
+    ...rates(scored.filter(sample => sample.score.score >= bucket.min && sample.score.score <= bucket.max).map(sample => sample.outcome)),
+  }));
+
+  const filled = buckets.filter(bucket => bucket.engagedRate !== null);
+  const monotonic = filled.every((bucket, index) => index === 0 || bucket.engagedRate! >= filled[index - 1].engagedRate!);
+
+  const suggestions: WeightSuggestion[] = [];
+  for (const weight of Object.keys(profile.weights) as Array<keyof ScoringWeights>) {
+    const withCriterion = rates(scored.filter(sample => sample.criteria.has(weight)).map(sample => sample.outcome));
+    const withoutCriterion = rates(scored.filter(sample => !sample.criteria.has(weight)).map(sample => sample.outcome));
+    if (withCriterion.leads < MIN_SAMPLES || withoutCriterion.leads < MIN_SAMPLES) continue;
+
+    // Penalties should grow when the criterion goes with fewer engagements
+    const lift = smoothedRate(withCriterion) - smoothedRate(withoutCriterion);
+    const current = profile.weights[weight];
+    const direction = PENALTY_WEIGHTS.includes(weight) ? -1 : 1;
+    const suggested = Math.max(0, Math.min(100, Math.round(current + direction * lift * SENSITIVITY)));
+    if (Math.abs(suggested - current) < MIN_CHANGE) continue;
+
+    const percent = (rate: number | null) => `${Math.round((rate || 0) * 100)}%`;
+    suggestions.push({
+      weight,
+      current,
+      suggested,
+      withCriterion,
+      withoutCriterion,
+      reason: `${percent(withCriterion.engagedRate)} of leads meeting this criterion engaged, ` +
+        `against ${percent(withoutCriterion.engagedRate)} of the rest`,
+    });
+  }
+  suggestions.sort((a, b) => Math.abs(b.suggested - b.current) - Math.abs(a.suggested - a.current));
+
+  return {
+    totalOutcomes: samples.length,
+    outcomes: Object.fromEntries(
+      LEAD_OUTCOMES.map(outcome => [outcome, samples.filter(sample => sample.outcome === outcome).length])
+    ) as Record<LeadOutcome, number>,
+    overall: rates(samples.map(sample => sample.outcome)),
+    buckets,
+    potentials: {
+      high: rates(scored.filter(sample => sample.score.potential === 'high').map(sample => sample.outcome)),
+      medium: rates(scored.filter(sample => sample.score.potential === 'medium').map(sample => sample.outcome)),
+      low: rates(scored.filter(sample => sample.score.potential === 'low').map(sample => sample.outcome)),
+    },
+    monotonic,
+    suggestions,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Record how outreach to one of a user's leads turned out
+ * Returns null if the lead is not found; throws if the outcome is not one of LEAD_OUTCOMES.
+ */
+export async function recordLeadOutcome(userId: string, leadId: string, outcome: LeadOutcome, campaignId?: string | null) {
+  if (!LEAD_OUTCOMES.includes(outcome)) {
+    throw new Error(`Outcome must be one of: ${LEAD_OUTCOMES.join(', ')}`);
+  }
+
+  const [lead] = await getLeadsByIds(userId, [leadId]);
+  if (!lead) return null;
+
+  return db.leadOutcomes.record({ user_id: userId, lead_id: leadId, outcome, campaign_id: campaignId ?? null });
+}
+
+/**
+ * Calibration report for a user's recorded outcomes and current scoring profile
+ * Leads that were deleted or never enriched are left out.
+ */
+export async function getCalibrationReport(userId: string): Promise<CalibrationReport> {
+  const [outcomes, profile] = await Promise.all([
+    db.leadOutcomes.getByUser(userId),
+    getScoringProfile(userId),
+  ]);
+  const leads = await getLeadsByIds(userId, outcomes.map(outcome => outcome.lead_id));
+  const leadsById = new Map(leads.map(lead => [lead.id, lead]));
+
+  const samples: CalibrationSample[] = [];
+  for (const outcome of outcomes) {
+    const lead = leadsById.get(outcome.lead_id);
+    if (!lead?.enrichment_data || typeof lead.enrichment_data !== 'object') continue;
+    samples.push({ leadId: lead.id, outcome: outcome.outcome, enrichmentData: lead.enrichment_data, lead });
+  }
+
+  return buildCalibrationReport(samples, profile);
+}
@@ -0,0 +1,156 @@
+import type { SavedLead } from '@/lib/db';
+import { catererKey, cleanCatererList, sameCaterer } from '@/agents/enrichment/caterers';
+import { getLeadsRepository, withOverrides } from './repository';
+import { getScoringProfile } from './scoring-profiles';
+
+/**
+ * Competitor report from venues' preferred caterers
+ *
+ * Venues list the caterers they work with. Across a user's saved leads, those lists show
+ * which caterers hold which venues and categories, which venues allow only one caterer, and
+ * which venues already list the user. Spellings of the same caterer are grouped with
+ * catererKey and shown under the most common one.
+ */
+
+// Competitors listed for each category, most venues first
+const TOP_COMPETITORS_PER_CATEGORY = 3;
+
+export interface CompetitorVenue {
+  id: string;
+  name: string;
+  category: string;
+  exclusive: boolean; // The venue allows only this caterer
+}
+
+export interface Competitor {
+  key: string; // From catererKey
+  name: string; // Most common spelling
+  aliases: string[]; // Other spellings seen
+  venues: CompetitorVenue[];
+  exclusiveVenues: number;
+  share: number; // Fraction of venues with a caterer list that list this caterer
+  categories: Array<{ category: string; venues: number }>;
+}
+
+export interface CategoryCompetition {
+  category: string;
+  venues: number;
+  venuesWithCaterers: number;
+  topCompetitors: Array<{ key: string; name: string; venues: number }>;
+}
+
+export interface CompetitorReport {
+  businessName: string | null;
+  totalVenues: number;
+  venuesWithCaterers: number;
+  exclusiveVenues: number; // Venues that allow only a competitor
+  competitors: Competitor[]; // Most venues first
+  categories: CategoryCompetition[];
+  venuesListingUs: CompetitorVenue[]; // Exclusive when the venue allows only the user
+}
+
+const leadCategory = (lead: SavedLead) => lead.category?.trim().toLowerCase() || 'uncategorized';
+
+// The spelling used most often, the first seen on a tie
+function mostCommon(spellings: string[]): string {
+  const counts = new Map<string, number>();
+  for (const spelling of spellings) counts.set(spelling, (counts.get(spelling) || 0) + 1);
+  return [...counts.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+}
+
+/**
+ * Group the preferred caterers of a user's leads into competitors
+ * @param businessName The user's business; caterers matching it are reported as venues listing the user
+ */
+export function buildCompetitorReport(leads: SavedLead[], businessName?: string | null): CompetitorReport {
+  const isUs = (caterer: string) => !!businessName && sameCaterer(caterer, businessName);
+  const groups = new Map<string, { spellings: string[]; venues: CompetitorVenue[] }>();
+  const categories = new Map<string, { venues: number; venuesWithCaterers: number }>();
+  const venuesListingUs: CompetitorVenue[] = [];
+  let venuesWithCaterers = 0;
+  let exclusiveVenues = 0;
+
+  for (const lead of leads) {
+    const data = lead.enrichment_data || {};
+    const caterers = cleanCatererList(data.preferredCaterers);
+    const exclusive: string | undefined = typeof data.exclusiveCaterer === 'string' ? data.exclusiveCaterer : undefined;
+    const category = leadCategory(lead);
+    const venue = (caterer: string): CompetitorVenue => ({
+      id: lead.id,
+      name: lead.name,
+      category,
+      exclusive: !!exclusive && sameCaterer(caterer, exclusive),
+    });
+
+    const stats = categories.get(category) || { venues: 0, venuesWithCaterers: 0 };
+    stats.venues++;
+    categories.set(category, stats);
+    if (caterers.length === 0) continue;
+    stats.venuesWithCaterers++;
+    venuesWithCaterers++;
+
+    const ours = caterers.find(isUs);
+    if (ours) venuesListingUs.push(venue(ours));
+    if (exclusive && !isUs(exclusive)) exclusiveVenues++;
+
+    for (const caterer of caterers.filter(caterer => !isUs(caterer))) {
+      const key = catererKey(caterer);
+      const group = groups.get(key) || { spellings: [], venues: [] };
+      group.spellings.push(caterer);
+      if (!group.venues.some(other => other.id === lead.id)) group.venues.push(venue(caterer));
+      groups.set(key, group);
+    }
+  }
+
+  const competitors = [...groups.entries()].map(([key, group]): Competitor => {
+    const name = mostCommon(group.spellings);
+    const byCategory = new Map<string, number>();
+    for (const venue of group.venues) byCategory.set(venue.category, (byCategory.get(venue.category) || 0) + 1);
+
+    return {
+      key,
+      name,
+      aliases: [...new Set(group.spellings)].filter(spelling => spelling !== name),
+      venues: group.venues,
+      exclusiveVenues: group.venues.filter(venue => venue.exclusive).length,
+      share: group.venues.length / venuesWithCaterers,
+      categories: [...byCategory.entries()]
+        .map(([category, venues]) => ({ category, venues }))
+        .sort((a, b) => b.venues - a.venues || a.category.localeCompare(b.category)),
+    };
+  }).sort((a, b) => b.venues.length - a.venues.length || b.exclusiveVenues - a.exclusiveVenues || a.name.localeCompare(b.name));
+
+  return {
+    businessName: businessName || null,
+    totalVenues: leads.length,
+    venuesWithCaterers,
+    exclusiveVenues,
+    competitors,
+    categories: [...categories.entries()]
+      .map(([category, stats]): CategoryCompetition => ({
+        category,
+        ...stats,
+        topCompetitors: competitors
+          .map(competitor => ({
+            key: competitor.key,
+            name: competitor.name,
+            venues: competitor.categories.find(entry => entry.category === category)?.venues || 0,
+          }))
+          .filter(competitor => competitor.venues > 0)
+          .sort((a, b) => b.venues - a.venues)
+          .slice(0, TOP_COMPETITORS_PER_CATEGORY),
+      }))
+      .sort((a, b) => b.venues - a.venues || a.category.localeCompare(b.category)),
+    venuesListingUs,
+  };
+}
+
+/**
+ * Competitor report across all of a user's saved leads, with their corrections applied
+ * The user's business name comes from their scoring profile.
+ */
+export async function getCompetitorReport(userId: string): Promise<CompetitorReport> {
+  const leads = await withOverrides(userId, await getLeadsRepository().getAll(userId));
+  const { businessName } = await getScoringProfile(userId);
+  return buildCompetitorReport(leads, businessName);
+}
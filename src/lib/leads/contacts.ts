@@ -0,0 +1,72 @@
+import { mapToOutreachCategory } from '@/config/categoryMapping';
+import { CONTACT_ROLES, eventManagerContact, mergeContacts, normalizeContacts } from '@/agents/enrichment/contacts';
+import type { ContactRole, VenueContact } from '@/agents/enrichment/types';
+import { passesVerification } from '@/lib/email-verification/status';
+
+/**
+ * Choosing which of a venue's contacts outreach writes to
+ *
+ * Each outreach category prefers contacts with certain roles: wedding campaigns go to the
+ * events team, corporate campaigns to sales. Contact details the user corrected by hand
+ * always win, and addresses that failed verification are never used. The campaign
+ * audience, merge fields and the lead profile page all use it, so they agree on who a
+ * venue's emails go to.
+ */
+
+// Roles each outreach category writes to, best first
+export const CATEGORY_CONTACT_ROLES: Record<string, ContactRole[]> = {
+  wedding: ['events', 'catering', 'general', 'sales'],
+  corporate: ['sales', 'events', 'catering', 'general'],
+  education: ['catering', 'events', 'general', 'sales'],
+};
+
+/**
+ * All of a lead's contacts: the event manager, the contacts found during enrichment and
+ * the lead's own email and contact columns
+ */
+export function leadContacts(lead: Record<string, any>): VenueContact[] {
+  const data = lead.enrichment_data || {};
+  const locked = new Set<string>(lead.locked_fields || []);
+  const eventManager = eventManagerContact(data);
+  const leadContact = normalizeContacts([{
+    name: lead.contact_name,
+    email: lead.contact_email,
+    phone: lead.contact_phone,
+    source: locked.has('contact_email') ? 'manual' : 'lead',
+  }], 'lead');
+
+  const contacts = [
+    ...(eventManager ? [eventManager] : []),
+    ...normalizeContacts(data.contacts, 'llm'),
+    ...leadContact,
+    ...normalizeContacts([{ email: lead.email }], 'lead'),
+  ];
+
+  // Corrected details come first so their entry, and its manual source, is the one kept
+  return mergeContacts(
+    contacts.filter(contact => contact.source === 'manual'),
+    contacts.filter(contact => contact.source !== 'manual')
+  );
+}
+
+/**
+ * The contact a campaign in a category should write to, or undefined if none has a usable email
+ * Addresses that failed verification are skipped; with requireVerified, so are any not
+ * verified as valid. Addresses the user entered by hand are trusted.
+ * @param category Lead category or outreach category, e.g. "wedding venue" or "corporate"
+ */
+export function selectOutreachContact(
+  lead: Record<string, any>,
+  category: string = lead.category || '',
+  options: { requireVerified?: boolean } = {}
+): VenueContact | undefined {
+  const roles = CATEGORY_CONTACT_ROLES[mapToOutreachCategory(category)] || CONTACT_ROLES;
+  const rank = (contact: VenueContact) => contact.source === 'manual'
+    ? 0
+    : 10 + roles.indexOf(contact.role) * 4 + (contact.name ? 0 : 2) + (contact.verification?.status === 'valid' ? 0 : 1);
+
+  return leadContacts(lead)
+    .filter(contact => contact.email)
+    .filter(contact => contact.source === 'manual' || passesVerification(contact.verification, options.requireVerified))
+    .sort((a, b) => rank(a) - rank(b))[0];
+}
@@ -0,0 +1,292 @@
+import { mergeContacts } from '@/agents/enrichment/contacts';
+
+/**
+ * Duplicate lead detection and merging
+ *
+ * The same venue often turns up in several discovery searches. Two leads are treated as
+ * the same venue when they share a Google place id, a website domain or a phone number,
+ * or when their names and addresses are near matches. This module has no database access
+ * so saving, merging and the leads pages can share it.
+ */
+
+export type DuplicateReason = 'place_id' | 'website' | 'phone' | 'name_address';
+
+export interface DuplicateMatch<T> {
+  lead: T;
+  reason: DuplicateReason;
+}
+
+// Fields read when comparing leads; saved leads and discovery results both fit
+export interface DuplicateCandidate {
+  id?: string | null;
+  name?: string | null;
+  address?: string | null;
+  website_url?: string | null;
+  website?: string | null;
+  contact_phone?: string | null;
+  phone?: string | null;
+  place_id?: string | null;
+  original_id?: string | null;
+  contact?: { phone?: string | null; website?: string | null } | null;
+  enrichment_data?: any;
+  [key: string]: any;
+}
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  place_id: 'Same Google place',
+  website: 'Same website',
+  phone: 'Same phone number',
+  name_address: 'Similar name and address',
+};
+
+// Sites that host pages for many venues, so their domain alone does not identify one
+const SHARED_HOSTS = [
+  'facebook.com', 'instagram.com', 'linktr.ee', 'yelp.com', 'google.com', 'sites.google.com',
+  'business.site', 'wix.com', 'wixsite.com', 'squarespace.com', 'weebly.com', 'tripadvisor.com',
+  'theknot.com', 'weddingwire.com', 'eventbrite.com',
+];
+
+// Minimum similarity of names and of addresses for the fuzzy match
+const NAME_SIMILARITY = 0.8;
+const ADDRESS_SIMILARITY = 0.75;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Google place id of a lead or discovery result
+ * Discovery results carry it as their id; saved leads keep it in original_id.
+ */
+export function placeIdOf(lead: DuplicateCandidate): string | null {
+  const id = lead.place_id || lead.original_id || (lead.id && !UUID_PATTERN.test(lead.id) ? lead.id : null);
+  return id ? String(id) : null;
+}
+
+/**
+ * Website reduced to what identifies the venue: the host without www, plus the first
+ * path segment on shared hosts such as facebook.com
+ */
+export function normalizeWebsite(url: string | null | undefined): string | null {
+  if (!url || !url.trim()) return null;
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(url.trim()) ? url.trim() : `https://${url.trim()}`);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  if (!host.includes('.')) return null;
+  if (SHARED_HOSTS.some(shared => host === shared || host.endsWith(`.${shared}`))) {
+    const [segment] = parsed.pathname.split('/').filter(Boolean);
+    return segment ? `${host}/${segment.toLowerCase()}` : null;
+  }
+  return host;
+}
+
+/**
+ * Phone number reduced to its last ten digits, so country codes and formatting do not matter
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+const ADDRESS_WORDS: Record<string, string> = {
+  street: 'st', avenue: 'ave', road: 'rd', boulevard: 'blvd', drive: 'dr', lane: 'ln',
+  court: 'ct', place: 'pl', suite: 'ste', highway: 'hwy', parkway: 'pkwy', north: 'n',
+  south: 's', east: 'e', west: 'w', usa: '', 'united states': '',
+};
+
+function normalizeText(text: string | null | undefined): string {
+  return (text || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b(the|llc|inc)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function normalizeAddress(address: string | null | undefined): string {
+  return normalizeText(address)
+    .split(' ')
+    .map(word => ADDRESS_WORDS[word] ?? word)
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Similarity of two strings from 0 to 1, by the letter pairs they share
+ */
+export function textSimilarity(a: string, b: string): number {
+  const first = a.replace(/\s/g, '');
+  const second = b.replace(/\s/g, '');
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+  if (first.length < 2 || second.length < 2) return 0;
+
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < first.length - 1; i++) {
+    const pair = first.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < second.length - 1; i++) {
+    const pair = second.slice(i, i + 2);
+    const count = pairs.get(pair) || 0;
+    if (count > 0) {
+      pairs.set(pair, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (first.length + second.length - 2);
+}
+
+/**
+ * Why two leads are the same venue, or null if they are not
+ * Checks are in order of certainty: place id, website, phone, then name and address.
+ */
+export function duplicateReason(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateReason | null {
+  const placeA = placeIdOf(a);
+  if (placeA && placeA === placeIdOf(b)) return 'place_id';
+
+  const websiteA = normalizeWebsite(a.website_url || a.website || a.contact?.website || a.enrichment_data?.website);
+  if (websiteA && websiteA === normalizeWebsite(b.website_url || b.website || b.contact?.website || b.enrichment_data?.website)) {
+    return 'website';
+  }
+
+  const phoneA = normalizePhone(a.contact_phone || a.phone || a.contact?.phone);
+  if (phoneA && phoneA === normalizePhone(b.contact_phone || b.phone || b.contact?.phone)) return 'phone';
+
+  const addressA = normalizeAddress(a.address);
+  const addressB = normalizeAddress(b.address);
+  if (
+    addressA && addressB &&
+    textSimilarity(normalizeText(a.name), normalizeText(b.name)) >= NAME_SIMILARITY &&
+    textSimilarity(addressA, addressB) >= ADDRESS_SIMILARITY
+  ) {
+    return 'name_address';
+  }
+
+  return null;
+}
+
+/**
+ * First lead that is the same venue as the candidate
+ */
+export function findDuplicate<T extends DuplicateCandidate>(candidate: DuplicateCandidate, leads: T[]): DuplicateMatch<T> | null {
+  for (const lead of leads) {
+    if (candidate.id && lead.id === candidate.id) continue;
+    const reason = duplicateReason(candidate, lead);
+    if (reason) return { lead, reason };
+  }
+  return null;
+}
+
+/**
+ * Group leads that are the same venue; leads without a duplicate are left out
+ * Matches are transitive, so a lead sharing a phone with one lead and a website with
+ * another puts all three in one group. Groups keep the order the leads were given in.
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate & { id: string }>(
+  leads: T[]
+): Array<{ leads: T[]; reasons: DuplicateReason[] }> {
+  const parent = leads.map((_, index) => index);
+  const root = (index: number): number => parent[index] === index ? index : (parent[index] = root(parent[index]));
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  for (let i = 0; i < leads.length; i++) {
+    for (let j = i + 1; j < leads.length; j++) {
+      const reason = duplicateReason(leads[i], leads[j]);
+      if (!reason) continue;
+      const [a, b] = [root(i), root(j)].sort((x, y) => x - y);
+      const merged = new Set([...(reasons.get(a) || []), ...(reasons.get(b) || []), reason]);
+      parent[b] = a;
+      reasons.set(a, merged);
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  leads.forEach((lead, index) => {
+    const group = root(index);
+    groups.set(group, [...(groups.get(group) || []), lead]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([index, group]) => ({ leads: group, reasons: Array.from(reasons.get(index) || []) }));
+}
+
+// Pipeline statuses from least to most progressed; a merged lead keeps the furthest
+const STATUS_ORDER = ['new', 'saved', 'enriching', 'enriched', 'contacted', 'replied'];
+
+/**
+ * The status furthest along the lead lifecycle, e.g. "replied" over "enriched"
+ */
+export function furthestStatus(...statuses: Array<string | null | undefined>): string | undefined {
+  return statuses.reduce<string | undefined>((best, status) =>
+    status && (!best || STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(best)) ? status : best, undefined);
+}
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Combine enrichment data, keeping the primary lead's values
+ * Missing fields are filled from the duplicates, with their provenance; lists are combined,
+ * with contacts for the same address or person kept once.
+ */
+export function mergeEnrichmentData(primary: any, duplicates: any[]): any {
+  const sources = [primary, ...duplicates].filter(data => data && typeof data === 'object');
+  if (sources.length === 0) return primary ?? null;
+
+  const merged: Record<string, any> = { ...sources[0], provenance: { ...sources[0].provenance } };
+  for (const data of sources.slice(1)) {
+    for (const [key, value] of Object.entries(data)) {
+      if (key === 'provenance' || key === 'leadScore' || isEmpty(value)) continue;
+      if (key === 'contacts' && Array.isArray(value)) {
+        merged.contacts = mergeContacts(merged.contacts, value);
+      } else if (Array.isArray(value) && Array.isArray(merged[key])) {
+        merged[key] = Array.from(new Set([...merged[key], ...value]));
+      } else if (isEmpty(merged[key])) {
+        merged[key] = value;
+        if (data.provenance?.[key]) merged.provenance[key] = data.provenance[key];
+      }
+    }
+  }
+  if (Object.keys(merged.provenance).length === 0) delete merged.provenance;
+  return merged;
+}
+
+/**
+ * Updates that fold duplicate leads into the primary lead
+ * The primary lead's values win; empty columns are filled from the duplicates in order,
+ * notes are joined, and the status is the furthest along of any of them.
+ */
+export function mergeLeadRecords<T extends Record<string, any>>(primary: T, duplicates: T[]): Partial<T> {
+  const updates: Record<string, any> = {};
+  const skip = ['id', 'user_id', 'created_at', 'updated_at', 'enrichment_data', 'notes', 'status', 'locked_fields'];
+
+  for (const duplicate of duplicates) {
+    for (const [key, value] of Object.entries(duplicate)) {
+      if (skip.includes(key) || isEmpty(value)) continue;
+      if (isEmpty(primary[key]) && isEmpty(updates[key])) updates[key] = value;
+    }
+  }
+
+  const enrichmentSources = duplicates.map(duplicate => duplicate.enrichment_data).filter(Boolean);
+  if (enrichmentSources.length > 0) {
+    updates.enrichment_data = mergeEnrichmentData(primary.enrichment_data, enrichmentSources);
+  }
+
+  const notes = [primary, ...duplicates]
+    .map(lead => typeof lead.notes === 'string' ? lead.notes.trim() : '')
+    .filter((note, index, all) => note && all.indexOf(note) === index);
+  if (notes.length > 1) updates.notes = notes.join('\n\n');
+  else if (notes.length === 1 && !primary.notes) updates.notes = notes[0];
+
+  const furthest = furthestStatus(...[primary, ...duplicates].map(lead => lead.status));
+  if (furthest && furthest !== primary.status) updates.status = furthest;
+
+  return updates as Partial<T>;
+}
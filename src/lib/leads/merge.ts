@@ -0,0 +1,122 @@
+import { db, LeadOutcome, SavedLead } from '@/lib/db';
+import { DuplicateReason, findDuplicateGroups, mergeLeadRecords } from './duplicates';
+import { getLeadsRepository, withOverrides } from './repository';
+
+/**
+ * Merging duplicate leads
+ *
+ * Folds duplicates of a venue into one lead: enrichment data, notes and manual overrides are
+ * combined, and outreach history (queued emails, events, replies, suppressions, campaign
+ * rosters and outcomes) is moved to the lead that is kept before the duplicates are deleted.
+ * Where a campaign has queued a sequence for more than one of the leads, only one sequence
+ * is kept so the venue is not emailed twice.
+ */
+
+// The outcome kept when merged leads have different ones, most telling first
+const OUTCOME_ORDER: LeadOutcome[] = ['booked', 'replied', 'rejected', 'no_response'];
+
+export interface DuplicateGroup {
+  leads: SavedLead[];
+  reasons: DuplicateReason[];
+}
+
+export interface MergeResult {
+  lead: SavedLead;
+  merged: string[]; // Ids of the leads folded in and deleted
+}
+
+/**
+ * Groups of a user's leads that look like the same venue
+ */
+export async function getDuplicateGroups(userId: string): Promise<DuplicateGroup[]> {
+  const leads = await withOverrides(userId, await getLeadsRepository().getAll(userId));
+  return findDuplicateGroups(leads);
+}
+
+/**
+ * Merge duplicates into the lead a user keeps
+ * Returns null if any of the leads is not found; throws if no other lead is given.
+ */
+export async function mergeLeads(userId: string, primaryId: string, duplicateIds: string[]): Promise<MergeResult | null> {
+  const mergedIds = Array.from(new Set(duplicateIds.filter(id => id && id !== primaryId)));
+  if (!primaryId || mergedIds.length === 0) {
+    throw new Error('Choose a lead to keep and at least one other lead to merge into it');
+  }
+
+  const repository = getLeadsRepository();
+  const leads = await repository.getByIds(userId, [primaryId, ...mergedIds]);
+  const primary = leads.find(lead => lead.id === primaryId);
+  const duplicates = mergedIds.map(id => leads.find(lead => lead.id === id));
+  if (!primary || duplicates.some(lead => !lead)) return null;
+
+  // Outreach history follows the lead first, so nothing is lost if a later step fails
+  await cancelDuplicateSequences(userId, mergedIds, primaryId);
+  await db.leadHistory.reassign(userId, mergedIds, primaryId);
+  await mergeCampaignRosters(userId, mergedIds, primaryId);
+  await mergeOutcomes(userId, mergedIds, primaryId);
+
+  // Overrides on the kept lead win; the duplicates' fill in fields it has none for
+  const overrides = await repository.getOverrides(userId, [primaryId, ...mergedIds]);
+  const lockedFields = new Set(overrides.filter(override => override.lead_id === primaryId).map(override => override.field));
+  for (const override of overrides) {
+    if (override.lead_id === primaryId) continue;
+    if (!lockedFields.has(override.field)) {
+      await repository.setOverride(userId, primaryId, override.field, override.value);
+      lockedFields.add(override.field);
+    }
+    await repository.removeOverride(userId, override.lead_id, override.field);
+  }
+
+  const updates = mergeLeadRecords(primary, duplicates as SavedLead[]);
+  const updated = Object.keys(updates).length > 0 ? await repository.update(userId, primaryId, updates) : primary;
+  await repository.remove(userId, mergedIds);
+
+  const [lead] = await withOverrides(userId, [updated || primary]);
+  return { lead, merged: mergedIds };
+}
+
+// Keep one unsent sequence per campaign: the kept lead's if it has one, else the first duplicate's
+async function cancelDuplicateSequences(userId: string, mergedIds: string[], primaryId: string) {
+  const leadIds = [primaryId, ...mergedIds];
+  const open = await db.scheduledEmails.getOpenByLeadIds(userId, leadIds);
+  const campaignIds = Array.from(new Set(open.map(email => email.campaign_id)));
+
+  for (const campaignId of campaignIds) {
+    const queuedFor = leadIds.filter(leadId => open.some(email => email.campaign_id === campaignId && email.lead_id === leadId));
+    for (const leadId of queuedFor.slice(1)) {
+      await db.scheduledEmails.transition({ userId, leadId, campaignId }, ['pending', 'paused'], 'cancelled');
+    }
+  }
+}
+
+// Point campaign rosters at the kept lead, listing it once
+async function mergeCampaignRosters(userId: string, mergedIds: string[], primaryId: string) {
+  const campaigns = await db.campaigns.getByUserId(userId);
+  for (const campaign of campaigns) {
+    const roster = campaign.lead_roster || [];
+    if (!roster.some(entry => mergedIds.includes(entry.id))) continue;
+
+    const seen = new Set<string>();
+    const leadRoster = roster
+      .map(entry => mergedIds.includes(entry.id) ? { ...entry, id: primaryId } : entry)
+      .filter(entry => !seen.has(entry.id) && !!seen.add(entry.id));
+    await db.campaigns.update(campaign.id, { lead_roster: leadRoster });
+  }
+}
+
+// Keep the most telling outcome of the merged leads on the kept lead
+async function mergeOutcomes(userId: string, mergedIds: string[], primaryId: string) {
+  const outcomes = (await db.leadOutcomes.getByUser(userId))
+    .filter(outcome => outcome.lead_id === primaryId || mergedIds.includes(outcome.lead_id));
+  if (outcomes.length === 0) return;
+
+  const rank = (outcome: typeof outcomes[number]) =>
+    OUTCOME_ORDER.indexOf(outcome.outcome) * 2 + (outcome.lead_id === primaryId ? 0 : 1);
+  const [best] = [...outcomes].sort((a, b) => rank(a) - rank(b));
+  if (best.lead_id !== primaryId) {
+    await db.leadOutcomes.record({ user_id: userId, lead_id: primaryId, outcome: best.outcome, campaign_id: best.campaign_id });
+  }
+  for (const outcome of outcomes) {
+    if (outcome.lead_id !== primaryId) await db.leadOutcomes.remove(userId, outcome.lead_id);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Manual overrides of lead and enrichment fields
+ *
+ * Values a user corrects by hand are stored apart from the lead, in lead_field_overrides,
+ * and laid over the lead whenever it is read. Enrichment only ever writes the lead itself,
+ * so re-running it cannot undo a correction. This module has no database access so the
+ * lead profile page can use the same field list.
+ */
+
+export type OverrideFieldType = 'text' | 'email' | 'phone' | 'url' | 'number' | 'boolean' | 'list';
+
+export interface OverrideField {
+  key: string; // Stored in lead_field_overrides.field
+  label: string;
+  target: 'lead' | 'enrichment'; // Lead column or enrichment_data field
+  name: string; // Column or enrichment field name
+  type: OverrideFieldType;
+}
+
+// Fields a user can correct
+export const OVERRIDE_FIELDS: OverrideField[] = [
+  { key: 'name', label: 'Venue name', target: 'lead', name: 'name', type: 'text' },
+  { key: 'email', label: 'Outreach email', target: 'lead', name: 'email', type: 'email' },
+  { key: 'website_url', label: 'Website', target: 'lead', name: 'website_url', type: 'url' },
+  { key: 'address', label: 'Address', target: 'lead', name: 'address', type: 'text' },
+  { key: 'contact_name', label: 'Contact name', target: 'lead', name: 'contact_name', type: 'text' },
+  { key: 'contact_email', label: 'Contact email', target: 'lead', name: 'contact_email', type: 'email' },
+  { key: 'contact_phone', label: 'Contact phone', target: 'lead', name: 'contact_phone', type: 'phone' },
+  { key: 'enrichment.eventManagerName', label: 'Event manager', target: 'enrichment', name: 'eventManagerName', type: 'text' },
+  { key: 'enrichment.eventManagerEmail', label: 'Event manager email', target: 'enrichment', name: 'eventManagerEmail', type: 'email' },
+  { key: 'enrichment.eventManagerPhone', label: 'Event manager phone', target: 'enrichment', name: 'eventManagerPhone', type: 'phone' },
+  { key: 'enrichment.venueCapacity', label: 'Capacity', target: 'enrichment', name: 'venueCapacity', type: 'number' },
+  { key: 'enrichment.inHouseCatering', label: 'In-house catering', target: 'enrichment', name: 'inHouseCatering', type: 'boolean' },
+  { key: 'enrichment.commonEventTypes', label: 'Event types', target: 'enrichment', name: 'commonEventTypes', type: 'list' },
+  { key: 'enrichment.pricingInformation', label: 'Pricing', target: 'enrichment', name: 'pricingInformation', type: 'text' },
+  { key: 'enrichment.aiOverview', label: 'Overview', target: 'enrichment', name: 'aiOverview', type: 'text' },
+];
+
+// Row shape of the lead_field_overrides table
+export interface LeadFieldOverride {
+  id?: string;
+  user_id: string;
+  lead_id: string;
+  field: string;
+  value: any;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export function getOverrideField(key: string): OverrideField | undefined {
+  return OVERRIDE_FIELDS.find(field => field.key === key);
+}
+
+/**
+ * Validate and normalize a value entered for a field
+ * Booleans accept yes/no, lists accept comma-separated text; throws with a message fit for the user
+ */
+export function parseOverrideValue(key: string, raw: unknown): any {
+  const field = getOverrideField(key);
+  if (!field) throw new Error(`Field ${key} cannot be edited`);
+
+  const text = typeof raw === 'string' ? raw.trim() : raw;
+  if (text === '' || text === null || text === undefined) {
+    throw new Error(`${field.label} cannot be empty`);
+  }
+
+  switch (field.type) {
+    case 'email':
+      if (typeof text !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)) {
+        throw new Error(`${field.label} must be an email address`);
+      }
+      return text.toLowerCase();
+    case 'number': {
+      const value = typeof text === 'number' ? text : Number(String(text).replace(/,/g, ''));
+      if (!Number.isFinite(value) || value < 0) throw new Error(`${field.label} must be a positive number`);
+      return Math.round(value);
+    }
+    case 'boolean':
+      if (typeof text === 'boolean') return text;
+      if (/^(yes|true|y)$/i.test(String(text))) return true;
+      if (/^(no|false|n)$/i.test(String(text))) return false;
+      throw new Error(`${field.label} must be yes or no`);
+    case 'list': {
+      const items = (Array.isArray(text) ? text : String(text).split(','))
+        .map(item => String(item).trim())
+        .filter(Boolean);
+      if (items.length === 0) throw new Error(`${field.label} cannot be empty`);
+      return items;
+    }
+    case 'url':
+      return /^https?:\/\//i.test(String(text)) ? String(text) : `https://${text}`;
+    default:
+      return String(text);
+  }
+}
+
+/**
+ * Lay a lead's overrides over its stored values
+ * Overridden keys are listed in locked_fields; overridden enrichment fields are attributed
+ * to the user with full confidence.
+ */
+export function applyOverrides<T extends Record<string, any>>(
+  lead: T,
+  overrides: LeadFieldOverride[]
+): T & { locked_fields: string[] } {
+  const merged: Record<string, any> = { ...lead };
+  const locked: string[] = [];
+  const enrichment: Record<string, any> = { ...lead.enrichment_data, provenance: { ...lead.enrichment_data?.provenance } };
+  let enrichmentOverridden = false;
+
+  for (const override of overrides) {
+    if (override.lead_id !== lead.id) continue;
+    const field = getOverrideField(override.field);
+    if (!field) continue;
+
+    locked.push(field.key);
+    if (field.target === 'lead') {
+      merged[field.name] = override.value;
+      continue;
+    }
+
+    enrichmentOverridden = true;
+    enrichment[field.name] = override.value;
+    enrichment.provenance[field.name] = {
+      source: 'manual',
+      confidence: 1,
+      extractedAt: override.updated_at || override.created_at || new Date().toISOString(),
+    };
+  }
+
+  if (enrichmentOverridden) merged.enrichment_data = enrichment;
+  merged.locked_fields = locked;
+  return merged as T & { locked_fields: string[] };
+}
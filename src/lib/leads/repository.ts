@@ -0,0 +1,197 @@
+import { db, SavedLead } from '@/lib/db';
+import { calculateLeadScore } from '@/agents/enrichment/scoring';
+import type { ScoringProfile } from '@/agents/enrichment/types';
+import { furthestStatus } from './duplicates';
+import { applyOverrides, LeadFieldOverride, parseOverrideValue } from './overrides';
+
+/**
+ * Server-side access to saved leads
+ *
+ * Enrichment reads and writes leads through this repository instead of calling the
+ * leads API over HTTP. Tests swap in the in-memory repository with setLeadsRepository.
+ * Leads read through it have the user's manual overrides applied (see ./overrides).
+ */
+
+export interface LeadsRepository {
+  getAll(userId: string): Promise<SavedLead[]>;
+  getByIds(userId: string, leadIds: string[]): Promise<SavedLead[]>;
+  update(userId: string, leadId: string, updates: Partial<SavedLead>): Promise<SavedLead | null>;
+  remove(userId: string, leadIds: string[]): Promise<void>;
+  getOverrides(userId: string, leadIds: string[]): Promise<LeadFieldOverride[]>;
+  setOverride(userId: string, leadId: string, field: string, value: any): Promise<LeadFieldOverride>;
+  removeOverride(userId: string, leadId: string, field: string): Promise<void>;
+}
+
+export const supabaseLeadsRepository: LeadsRepository = {
+  getAll: userId => db.savedLeads.getByUser(userId),
+  getByIds: (userId, leadIds) => db.savedLeads.getByIds(userId, leadIds),
+  update: (userId, leadId, updates) => db.savedLeads.update(userId, leadId, updates),
+  remove: async (userId, leadIds) => {
+    await db.savedLeads.remove(userId, leadIds);
+  },
+  getOverrides: (userId, leadIds) => db.leadOverrides.getByLeadIds(userId, leadIds),
+  setOverride: (userId, leadId, field, value) => db.leadOverrides.upsert(userId, leadId, field, value),
+  removeOverride: async (userId, leadId, field) => {
+    await db.leadOverrides.remove(userId, leadId, field);
+  },
+};
+
+/**
+ * Repository that keeps leads in process memory, for tests and local scripts
+ */
+export function createInMemoryLeadsRepository(leads: SavedLead[] = []): LeadsRepository {
+  const rows = new Map(leads.map(lead => [lead.id, { ...lead }]));
+  const overrides = new Map<string, LeadFieldOverride>();
+  const overrideKey = (leadId: string, field: string) => `${leadId}:${field}`;
+
+  return {
+    async getAll(userId) {
+      return Array.from(rows.values())
+        .filter(lead => lead.user_id === userId)
+        .map(lead => ({ ...lead }));
+    },
+
+    async getByIds(userId, leadIds) {
+      return leadIds
+        .map(id => rows.get(id))
+        .filter((lead): lead is SavedLead => !!lead && lead.user_id === userId)
+        .map(lead => ({ ...lead }));
+    },
+
+    async update(userId, leadId, updates) {
+      const lead = rows.get(leadId);
+      if (!lead || lead.user_id !== userId) return null;
+      const updated = { ...lead, ...updates, updated_at: new Date().toISOString() };
+      rows.set(leadId, updated);
+      return { ...updated };
+    },
+
+    async remove(userId, leadIds) {
+      for (const leadId of leadIds) {
+        if (rows.get(leadId)?.user_id === userId) rows.delete(leadId);
+      }
+    },
+
+    async getOverrides(userId, leadIds) {
+      return Array.from(overrides.values())
+        .filter(override => override.user_id === userId && leadIds.includes(override.lead_id));
+    },
+
+    async setOverride(userId, leadId, field, value) {
+      const key = overrideKey(leadId, field);
+      const now = new Date().toISOString();
+      const override = {
+        user_id: userId,
+        lead_id: leadId,
+        field,
+        value,
+        created_at: overrides.get(key)?.created_at || now,
+        updated_at: now,
+      };
+      overrides.set(key, override);
+      return { ...override };
+    },
+
+    async removeOverride(userId, leadId, field) {
+      if (overrides.get(overrideKey(leadId, field))?.user_id === userId) {
+        overrides.delete(overrideKey(leadId, field));
+      }
+    },
+  };
+}
+
+let leadsRepository: LeadsRepository = supabaseLeadsRepository;
+
+export function getLeadsRepository(): LeadsRepository {
+  return leadsRepository;
+}
+
+export function setLeadsRepository(repository: LeadsRepository) {
+  leadsRepository = repository;
+}
+
+/**
+ * Load a user's leads, in the order of the ids given
+ * Ids that do not exist or belong to another user are skipped
+ */
+export async function getLeadsByIds(userId: string, leadIds: string[]): Promise<SavedLead[]> {
+  const uniqueIds = Array.from(new Set(leadIds.filter(Boolean)));
+  const leads: SavedLead[] = await withOverrides(userId, await leadsRepository.getByIds(userId, uniqueIds));
+  const byId = new Map(leads.map(lead => [lead.id, lead]));
+  return uniqueIds.map(id => byId.get(id)).filter((lead): lead is SavedLead => !!lead);
+}
+
+/**
+ * Apply a user's manual overrides to leads loaded elsewhere
+ */
+export async function withOverrides<T extends { id: string }>(userId: string, leads: T[]) {
+  if (leads.length === 0) return [];
+  const overrides = await leadsRepository.getOverrides(userId, leads.map(lead => lead.id));
+  return leads.map(lead => applyOverrides(lead, overrides));
+}
+
+/**
+ * Lock a field of a user's lead to a value they entered
+ * Returns the lead with overrides applied, or null if the lead is not found;
+ * throws if the field cannot be edited or the value is invalid.
+ */
+export async function setLeadOverride(userId: string, leadId: string, field: string, value: unknown) {
+  const parsed = parseOverrideValue(field, value);
+  const [lead] = await leadsRepository.getByIds(userId, [leadId]);
+  if (!lead) return null;
+
+  await leadsRepository.setOverride(userId, leadId, field, parsed);
+  const [updated] = await withOverrides(userId, [lead]);
+  return updated;
+}
+
+/**
+ * Unlock a field so enrichment controls it again
+ * Returns the lead with its remaining overrides applied, or null if the lead is not found
+ */
+export async function clearLeadOverride(userId: string, leadId: string, field: string) {
+  const [lead] = await leadsRepository.getByIds(userId, [leadId]);
+  if (!lead) return null;
+
+  await leadsRepository.removeOverride(userId, leadId, field);
+  const [updated] = await withOverrides(userId, [lead]);
+  return updated;
+}
+
+/**
+ * Store enrichment results on a lead and mark it enriched, unless it is already further along
+ * (contacted or replied). Contact details found during enrichment fill in any the stored row is missing. The row is
+ * read here rather than taken from the caller, so a manual override is never written back
+ * as if enrichment had found it. The lead is scored with the user's overrides applied, as
+ * rescoreLeads does, so the score agrees with their corrections.
+ */
+export async function saveLeadEnrichment(
+  userId: string,
+  leadId: string,
+  enrichmentData: any,
+  scoringProfile: ScoringProfile
+): Promise<SavedLead> {
+  const [lead] = await leadsRepository.getByIds(userId, [leadId]);
+  if (!lead) {
+    throw new Error(`Lead ${leadId} not found`);
+  }
+
+  const [scored] = await withOverrides(userId, [{ ...lead, enrichment_data: enrichmentData }]);
+  const leadScore = calculateLeadScore(scored.enrichment_data, scoringProfile, scored);
+
+  const updated = await leadsRepository.update(userId, leadId, {
+    status: furthestStatus(lead.status, 'enriched'),
+    enrichment_data: { ...enrichmentData, leadScore },
+    lead_score: leadScore.score,
+    lead_score_label: leadScore.potential,
+    contact_name: lead.contact_name || enrichmentData.eventManagerName || null,
+    contact_email: lead.contact_email || enrichmentData.eventManagerEmail || null,
+    contact_phone: lead.contact_phone || enrichmentData.eventManagerPhone || null,
+    last_enriched_at: new Date().toISOString(),
+  });
+
+  if (!updated) {
+    throw new Error(`Lead ${leadId} not found`);
+  }
+  return updated;
+}
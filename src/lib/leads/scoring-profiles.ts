@@ -0,0 +1,156 @@
+import { db } from '@/lib/db';
+import { calculateLeadScore, normalizeScoringProfile } from '@/agents/enrichment/scoring';
+import type { ScoringProfile } from '@/agents/enrichment/types';
+import { resolveSearchLocation } from '@/lib/geocoding';
+import { getLeadsRepository, withOverrides } from './repository';
+
+/**
+ * Per-user lead scoring profiles
+ *
+ * Each user can adjust the scoring weights, potential cutoffs and rules in the scoring_profiles
+ * table; values they have not set fall back to DEFAULT_SCORING_PROFILE. The business name and
+ * location come from the user's business profile unless the user set a name here. Tests swap
+ * in the in-memory store with setScoringProfileStore.
+ */
+
+export type BusinessDefaults = Pick<ScoringProfile, 'businessName' | 'origin'>;
+
+export interface ScoringProfileStore {
+  get(userId: string): Promise<Partial<ScoringProfile> | null>;
+  save(userId: string, settings: Partial<ScoringProfile>): Promise<unknown>;
+  getBusinessDefaults(userId: string): Promise<BusinessDefaults>;
+}
+
+export const supabaseScoringProfileStore: ScoringProfileStore = {
+  get: userId => db.scoringProfiles.get(userId),
+  save: (userId, settings) => db.scoringProfiles.upsert(userId, settings),
+
+  // The origin is found the same way as a search without a location
+  async getBusinessDefaults(userId) {
+    const [businessProfile, origin] = await Promise.all([
+      db.userProfiles.getByUserId(userId),
+      resolveSearchLocation(null, userId).then(({ lat, lng }) => ({ lat, lng }), () => null),
+    ]);
+    return { businessName: businessProfile?.business_name || null, origin };
+  },
+};
+
+/**
+ * Store that keeps scoring profiles in process memory, for tests and local scripts
+ * @param businessDefaults Business name and location every user gets
+ */
+export function createInMemoryScoringProfileStore(
+  businessDefaults: BusinessDefaults = { businessName: null, origin: null }
+): ScoringProfileStore {
+  const profiles = new Map<string, Partial<ScoringProfile>>();
+
+  return {
+    async get(userId) {
+      return profiles.get(userId) || null;
+    },
+
+    async save(userId, settings) {
+      profiles.set(userId, settings);
+    },
+
+    async getBusinessDefaults() {
+      return businessDefaults;
+    },
+  };
+}
+
+let scoringProfileStore: ScoringProfileStore = supabaseScoringProfileStore;
+
+export function setScoringProfileStore(store: ScoringProfileStore) {
+  scoringProfileStore = store;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+// Saved settings without blank values, which older profiles stored for "not set"
+function setValues(settings: Partial<ScoringProfile> | null): Partial<ScoringProfile> {
+  return Object.fromEntries(Object.entries(settings || {}).filter(([, value]) => !isBlank(value)));
+}
+
+async function loadScoringProfile(userId: string): Promise<ScoringProfile> {
+  const [settings, businessDefaults] = await Promise.all([
+    scoringProfileStore.get(userId),
+    scoringProfileStore.getBusinessDefaults(userId),
+  ]);
+  return normalizeScoringProfile({ ...businessDefaults, ...setValues(settings) });
+}
+
+/**
+ * A user's scoring profile, with defaults filled in
+ * Falls back to the default profile if it cannot be loaded, so enrichment is never blocked on it
+ */
+export async function getScoringProfile(userId: string): Promise<ScoringProfile> {
+  try {
+    return await loadScoringProfile(userId);
+  } catch (error) {
+    console.error(`[SCORING] Could not load scoring profile for user ${userId}, using defaults:`, error);
+    return normalizeScoringProfile({});
+  }
+}
+
+/**
+ * Validate and save a user's scoring profile
+ * Only the values the user set are stored. The origin always comes from the business profile,
+ * and a business name equal to the profile's is left unset so later changes to it apply.
+ * Throws with a message fit for the user when a value is out of range
+ */
+export async function saveScoringProfile(userId: string, input: any): Promise<ScoringProfile> {
+  const profile = normalizeScoringProfile(input);
+  const { businessName } = await scoringProfileStore.getBusinessDefaults(userId);
+
+  // Weights and cutoffs left out keep following the defaults
+  const given = (values: object, entered: any) =>
+    Object.fromEntries(Object.entries(values).filter(([key]) => !isBlank(entered?.[key])));
+
+  const settings: Partial<ScoringProfile> = given({
+    minCapacity: profile.minCapacity,
+    targetEventTypes: profile.targetEventTypes,
+    maxDistanceMiles: profile.maxDistanceMiles,
+  }, input);
+  if (!isBlank(input?.weights)) settings.weights = given(profile.weights, input.weights) as ScoringProfile['weights'];
+  if (!isBlank(input?.thresholds)) settings.thresholds = given(profile.thresholds, input.thresholds) as ScoringProfile['thresholds'];
+  if (profile.businessName && profile.businessName !== businessName) {
+    settings.businessName = profile.businessName;
+  }
+
+  await scoringProfileStore.save(userId, settings);
+  return loadScoringProfile(userId);
+}
+
+export interface RescoreResult {
+  rescored: number; // Enriched leads scored again
+  changed: number; // Leads whose potential changed
+}
+
+/**
+ * Score all of a user's enriched leads again with their scoring profile
+ * Scores use the user's manual overrides; only the score fields of each lead are written.
+ */
+export async function rescoreLeads(userId: string, profile?: ScoringProfile): Promise<RescoreResult> {
+  const scoringProfile = profile || await getScoringProfile(userId);
+  const repository = getLeadsRepository();
+
+  const leads = (await repository.getAll(userId))
+    .filter(lead => lead.enrichment_data && typeof lead.enrichment_data === 'object');
+  const withUserValues = await withOverrides(userId, leads);
+
+  let changed = 0;
+  for (const [index, lead] of leads.entries()) {
+    const scored = withUserValues[index];
+    const leadScore = calculateLeadScore(scored.enrichment_data, scoringProfile, scored);
+    if (leadScore.potential !== lead.lead_score_label) changed++;
+
+    await repository.update(userId, lead.id, {
+      enrichment_data: { ...lead.enrichment_data, leadScore },
+      lead_score: leadScore.score,
+      lead_score_label: leadScore.potential,
+    });
+  }
+
+  return { rescored: leads.length, changed };
+}
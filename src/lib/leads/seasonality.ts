@@ -0,0 +1,114 @@
+import type { EventCalendar } from '@/agents/enrichment/types';
+
+/**
+ * When venues plan their events
+ *
+ * A venue books its busy season and its own events some time ahead, and outreach lands best
+ * as that planning starts. Campaigns can hold a venue's emails until then, and opening
+ * emails mention the season or event the venue is planning for. Dates are compared in UTC.
+ */
+
+// Assumed when a venue does not say how far ahead it is booked
+export const DEFAULT_LEAD_TIME_DAYS = 90;
+
+// Campaigns hold a venue's emails for at most this long
+export const MAX_ALIGNMENT_DELAY_DAYS = 56;
+
+// Venue events mentioned in outreach are at most this far off
+const UPCOMING_EVENT_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A busy season or event a venue plans for, and when it starts
+ */
+export interface PlanningTarget {
+  name: string;
+  kind: 'season' | 'event';
+  startsOn: Date;
+}
+
+const startOfDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/**
+ * Busy seasons and events still ahead of a date, soonest first
+ * A season already under way counts from its start next year.
+ */
+export function planningTargets(calendar: EventCalendar | undefined, date: Date = new Date()): PlanningTarget[] {
+  if (!calendar) return [];
+  const today = startOfDay(date);
+
+  const seasons = calendar.peakSeasons.map((season): PlanningTarget => {
+    const thisYear = Date.UTC(date.getUTCFullYear(), season.startMonth - 1, 1);
+    const start = thisYear > today ? thisYear : Date.UTC(date.getUTCFullYear() + 1, season.startMonth - 1, 1);
+    return { name: season.name, kind: 'season', startsOn: new Date(start) };
+  });
+  const events = calendar.upcomingEvents
+    .map((event): PlanningTarget => ({ name: event.name, kind: 'event', startsOn: new Date(`${event.date}T00:00:00Z`) }))
+    .filter(target => target.startsOn.getTime() >= today);
+
+  return [...seasons, ...events].sort((a, b) => a.startsOn.getTime() - b.startsOn.getTime());
+}
+
+/**
+ * When the venue starts planning its next busy season or event, and which one
+ * Planning starts the booking lead time before; a venue already planning gives the date itself.
+ */
+export function planningStart(
+  calendar: EventCalendar | undefined,
+  date: Date = new Date()
+): { target: PlanningTarget; startsOn: Date } | undefined {
+  const leadTimeMs = (calendar?.bookingLeadTimeDays || DEFAULT_LEAD_TIME_DAYS) * DAY_MS;
+  const today = startOfDay(date);
+
+  let best: { target: PlanningTarget; startsOn: Date } | undefined;
+  for (const target of planningTargets(calendar, date)) {
+    const startsOn = new Date(Math.max(target.startsOn.getTime() - leadTimeMs, today));
+    if (!best || startsOn < best.startsOn) best = { target, startsOn };
+  }
+  return best;
+}
+
+/**
+ * Days to hold a venue's emails so its campaign starts as the venue begins planning
+ * Zero when the venue is planning now or nothing is known about its calendar, and when
+ * planning starts more than maxDelayDays out; the later emails of the sequence reach it then.
+ */
+export function alignedStartOffsetDays(
+  calendar: EventCalendar | undefined,
+  date: Date = new Date(),
+  maxDelayDays: number = MAX_ALIGNMENT_DELAY_DAYS
+): number {
+  const planning = planningStart(calendar, date);
+  if (!planning) return 0;
+
+  const days = Math.round((planning.startsOn.getTime() - startOfDay(date)) / DAY_MS);
+  return days <= maxDelayDays ? days : 0;
+}
+
+/**
+ * The busy season or event a venue is planning on a date, if it is planning one
+ */
+export function planningFor(calendar: EventCalendar | undefined, date: Date = new Date()): PlanningTarget | undefined {
+  const planning = planningStart(calendar, date);
+  return planning && planning.startsOn.getTime() <= startOfDay(date) ? planning.target : undefined;
+}
+
+/**
+ * The venue's own events within the next few months of a date, as "name (YYYY-MM-DD)"
+ */
+export function upcomingVenueEvents(calendar: EventCalendar | undefined, date: Date = new Date()): string[] {
+  const until = startOfDay(date) + UPCOMING_EVENT_DAYS * DAY_MS;
+  return planningTargets(calendar, date)
+    .filter(target => target.kind === 'event' && target.startsOn.getTime() <= until)
+    .map(target => `${target.name} (${target.startsOn.toISOString().slice(0, 10)})`);
+}
+
+/**
+ * A booking lead time in words, e.g. "9 months" or "3 weeks"
+ */
+export function describeLeadTime(days: number): string {
+  if (days >= 60) return `${Math.round(days / 30)} months`;
+  if (days >= 14) return `${Math.round(days / 7)} weeks`;
+  return `${days} day${days === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,256 @@
+import type { EmailTemplate } from '@/types/email';
+import type { VenueContact } from '@/agents/enrichment/types';
+
+/**
+ * Merge-field engine for outreach emails
+ *
+ * Templates reference fields from the catalog below:
+ *   {{lead.name}}                                  value, or blank if missing
+ *   {{enrichment.event_manager_name | "there"}}    first non-empty option wins
+ *   {{#if enrichment.venue_capacity}}...{{else}}...{{/if}}
+ * Legacy bracket tokens such as [Business] or [Calendar Link] are mapped onto catalog fields.
+ */
+
+// Data a template is rendered against
+export interface MergeContext {
+  lead: Record<string, any>; // saved_leads row, including enrichment_data
+  contact: VenueContact | null; // Venue contact the email is sent to, from selectOutreachContact
+  sender: Record<string, any> | null; // user_profiles row of the caterer
+}
+
+export type MergeFieldSource = 'lead' | 'enrichment' | 'sender';
+
+export interface MergeField {
+  key: string;
+  label: string;
+  source: MergeFieldSource;
+  resolve: (context: MergeContext) => unknown;
+}
+
+// Placeholder that could not be filled for one or more leads
+export interface MergeIssue {
+  category: string;
+  stepIndex: number;
+  placeholder: string;
+  problem: 'missing' | 'unknown' | 'unresolved';
+  leads: string[];
+}
+
+export interface MergeResult {
+  output: string;
+  missing: string[]; // Catalog fields with no value and no fallback
+  unknown: string[]; // Field keys that are not in the catalog
+}
+
+const enrichment = (context: MergeContext) => context.lead.enrichment_data || {};
+const senderInput = (context: MergeContext) => context.sender?.user_input_data || {};
+
+// First comma-separated part of a free-text contact, e.g. "Sam Lee, Owner" -> "Sam Lee"
+const firstPart = (value: unknown) =>
+  typeof value === 'string' ? value.split(',')[0].trim() : undefined;
+
+const findEmail = (value: unknown) =>
+  typeof value === 'string' ? value.match(/[^\s,<>]+@[^\s,<>]+\.[a-z]{2,}/i)?.[0] : undefined;
+
+export const MERGE_FIELDS: MergeField[] = [
+  { key: 'lead.name', label: 'Venue name', source: 'lead', resolve: ({ lead }) => lead.name || lead.business_name },
+  { key: 'lead.category', label: 'Venue category', source: 'lead', resolve: ({ lead }) => lead.category },
+  { key: 'lead.address', label: 'Venue address', source: 'lead', resolve: ({ lead }) => lead.address },
+  { key: 'lead.website', label: 'Venue website', source: 'lead', resolve: ({ lead }) => lead.website_url || lead.website },
+  { key: 'lead.contact_name', label: 'Venue contact name', source: 'lead', resolve: ({ lead }) => lead.contact_name },
+
+  { key: 'enrichment.event_manager_name', label: 'Event manager name', source: 'enrichment', resolve: context => enrichment(context).eventManagerName },
+  { key: 'enrichment.contact_name', label: 'Name of the contact emailed', source: 'enrichment', resolve: ({ contact }) => contact?.name },
+  { key: 'enrichment.contact_title', label: 'Job title of the contact emailed', source: 'enrichment', resolve: ({ contact }) => contact?.title },
+  { key: 'enrichment.venue_capacity', label: 'Venue capacity', source: 'enrichment', resolve: context => enrichment(context).venueCapacity },
+  { key: 'enrichment.event_types', label: 'Common event types', source: 'enrichment', resolve: context => enrichment(context).commonEventTypes },
+  { key: 'enrichment.amenities', label: 'Venue amenities', source: 'enrichment', resolve: context => enrichment(context).amenities },
+  { key: 'enrichment.in_house_catering', label: 'Venue has in-house catering', source: 'enrichment', resolve: context => enrichment(context).inHouseCatering },
+
+  { key: 'sender.business_name', label: 'Your business name', source: 'sender', resolve: ({ sender }) => sender?.business_name },
+  { key: 'sender.contact_name', label: 'Your name', source: 'sender', resolve: context => firstPart(senderInput(context).ownerContact) || firstPart(senderInput(context).managerContact) },
+  { key: 'sender.phone', label: 'Your phone number', source: 'sender', resolve: ({ sender }) => sender?.contact_phone },
+  { key: 'sender.email', label: 'Your email', source: 'sender', resolve: context => senderInput(context).contactEmail || findEmail(senderInput(context).managerContact) || findEmail(senderInput(context).ownerContact) },
+  { key: 'sender.address', label: 'Your business address', source: 'sender', resolve: ({ sender }) => sender?.full_address },
+  { key: 'sender.website', label: 'Your website', source: 'sender', resolve: ({ sender }) => sender?.website_url },
+  { key: 'sender.menu_link', label: 'Your menu link', source: 'sender', resolve: context => senderInput(context).menuLink || context.sender?.website_url },
+  { key: 'sender.ordering_link', label: 'Your ordering link', source: 'sender', resolve: context => senderInput(context).orderingLink || context.sender?.website_url },
+  { key: 'sender.calendar_link', label: 'Your booking calendar link', source: 'sender', resolve: context => senderInput(context).calendarLink },
+  { key: 'sender.years_experience', label: 'Your years in business', source: 'sender', resolve: context => senderInput(context).yearsInOperation },
+];
+
+const FIELDS_BY_KEY = new Map(MERGE_FIELDS.map(field => [field.key, field]));
+
+// Bracket tokens used by older templates and prompts -> catalog field
+const LEGACY_TOKENS: Record<string, string> = {
+  'lead name': 'lead.name',
+  'name': 'lead.name',
+  'business': 'lead.name',
+  'venue name': 'lead.name',
+  'category': 'lead.category',
+  'event manager name': 'enrichment.event_manager_name',
+  'business name': 'sender.business_name',
+  'company name': 'sender.business_name',
+  'contact person name': 'sender.contact_name',
+  'your name': 'sender.contact_name',
+  'phone number': 'sender.phone',
+  'phone': 'sender.phone',
+  'email': 'sender.email',
+  'location': 'sender.address',
+  'menu link': 'sender.menu_link',
+  'ordering link': 'sender.ordering_link',
+  'calendar link': 'sender.calendar_link',
+  'website': 'sender.website',
+  'years experience': 'sender.years_experience',
+};
+
+// Bracketed placeholder text left in an email, e.g. "[Contact Person Title]"; markdown links are skipped
+const BRACKET_PLACEHOLDER = /\[([A-Za-z][A-Za-z'&]*(?: [A-Za-z'&]+){0,4})\](?!\()/g;
+const VARIABLE = /\{\{\s*([^{}#/][^{}]*?)\s*\}\}/g;
+const INNERMOST_CONDITIONAL = /\{\{#if\s+([\w.]+)\s*\}\}((?:(?!\{\{#if)[\s\S])*?)\{\{\/if\}\}/;
+
+/**
+ * Format a resolved value for an email; empty values become null
+ */
+function formatValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === false) return null;
+  if (value === true) return 'yes';
+  if (Array.isArray(value)) {
+    const items = value.map(item => String(item).trim()).filter(Boolean);
+    if (items.length === 0) return null;
+    return items.length === 1
+      ? items[0]
+      : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+  }
+  const text = String(value).trim();
+  return text ? text : null;
+}
+
+/**
+ * Resolve a catalog field for a context
+ * @returns The formatted value, or null if the field is empty or not in the catalog
+ */
+export function resolveMergeField(key: string, context: MergeContext): string | null {
+  const field = FIELDS_BY_KEY.get(key);
+  return field ? formatValue(field.resolve(context)) : null;
+}
+
+/**
+ * Rewrite known legacy bracket tokens as {{field}} references
+ */
+function normalizeLegacyTokens(template: string): string {
+  return template.replace(BRACKET_PLACEHOLDER, (token, name: string) => {
+    const key = LEGACY_TOKENS[name.toLowerCase()];
+    return key ? `{{${key}}}` : token;
+  });
+}
+
+/**
+ * Render a template string against a lead and sender
+ */
+export function renderMergeFields(template: string, context: MergeContext): MergeResult {
+  const missing = new Set<string>();
+  const unknown = new Set<string>();
+
+  const noteUnknown = (key: string) => {
+    if (!FIELDS_BY_KEY.has(key)) unknown.add(key);
+  };
+
+  let output = normalizeLegacyTokens(template);
+
+  // Resolve conditionals from the innermost out so they can be nested
+  let match: RegExpMatchArray | null;
+  while ((match = output.match(INNERMOST_CONDITIONAL))) {
+    const [block, key, body] = match;
+    noteUnknown(key);
+    const [whenTrue, whenFalse = ''] = body.split('{{else}}');
+    const branch = resolveMergeField(key, context) ? whenTrue : whenFalse;
+    output = output.replace(block, () => branch);
+  }
+
+  output = output.replace(VARIABLE, (_token, expression: string) => {
+    const options = expression.split('|').map(option => option.trim()).filter(Boolean);
+
+    for (const option of options) {
+      const literal = option.match(/^(["'])(.*)\1$/);
+      if (literal) return literal[2];
+
+      noteUnknown(option);
+      const value = resolveMergeField(option, context);
+      if (value) return value;
+    }
+
+    // Report the first field; the others were only fallbacks
+    if (options[0] && FIELDS_BY_KEY.has(options[0])) missing.add(options[0]);
+    return '';
+  });
+
+  return { output, missing: Array.from(missing), unknown: Array.from(unknown) };
+}
+
+/**
+ * Placeholders still present in rendered text, e.g. [Contact Person Title] or a stray {{...}}
+ */
+export function findUnresolvedPlaceholders(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of Array.from(text.matchAll(BRACKET_PLACEHOLDER))) found.add(match[0]);
+  for (const match of Array.from(text.matchAll(/\{\{[^{}]*\}\}/g))) found.add(match[0]);
+  return Array.from(found);
+}
+
+/**
+ * Render every template against every lead it will be sent to and report placeholders that would go out unfilled
+ * @param templatesByCategory Approved templates by lead category
+ * @param leadsByCategory saved_leads rows, with the contact each is sent to, by lowercase category
+ * @param sender The caterer's user_profiles row
+ */
+export function validateMergeFields(
+  templatesByCategory: Record<string, EmailTemplate[]>,
+  leadsByCategory: Record<string, Array<Pick<MergeContext, 'lead' | 'contact'>>>,
+  sender: Record<string, any> | null
+): MergeIssue[] {
+  const issues = new Map<string, MergeIssue>();
+
+  const addIssue = (category: string, stepIndex: number, placeholder: string, problem: MergeIssue['problem'], leadName: string) => {
+    const id = `${category}:${stepIndex}:${problem}:${placeholder}`;
+    const issue = issues.get(id) || { category, stepIndex, placeholder, problem, leads: [] };
+    if (!issue.leads.includes(leadName)) issue.leads.push(leadName);
+    issues.set(id, issue);
+  };
+
+  for (const [category, templates] of Object.entries(templatesByCategory)) {
+    const leads = leadsByCategory[category.toLowerCase()] || [];
+
+    for (const template of templates) {
+      for (const { lead, contact } of leads) {
+        const context = { lead, contact, sender };
+        const leadName = lead.name || lead.id;
+
+        for (const part of [template.subject, template.preheader, template.textBody]) {
+          const result = renderMergeFields(part, context);
+          result.missing.forEach(key => addIssue(category, template.stepIndex, key, 'missing', leadName));
+          result.unknown.forEach(key => addIssue(category, template.stepIndex, key, 'unknown', leadName));
+          findUnresolvedPlaceholders(result.output)
+            .forEach(token => addIssue(category, template.stepIndex, token, 'unresolved', leadName));
+        }
+      }
+    }
+  }
+
+  return Array.from(issues.values());
+}
+
+/**
+ * One-line description of a merge issue for error messages
+ */
+export function describeMergeIssue(issue: MergeIssue): string {
+  const problem = {
+    missing: 'has no value',
+    unknown: 'is not a known merge field',
+    unresolved: 'is an unfilled placeholder',
+  }[issue.problem];
+  const leads = issue.leads.length > 3
+    ? `${issue.leads.slice(0, 3).join(', ')} and ${issue.leads.length - 3} more`
+    : issue.leads.join(', ');
+  return `${issue.category} email #${issue.stepIndex + 1}: ${issue.placeholder} ${problem} (${leads})`;
+}
@@ -0,0 +1,102 @@
+import { db, Campaign, EmailEvent, EmailEventType, EmailReply, ScheduledEmail } from './db';
+
+// Email-level totals shown on the dashboard
+export interface EngagementTotals {
+  pending: number;
+  sent: number;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  bounced: number;
+  complained: number;
+}
+
+// Per-campaign row shown in the dashboard's drip list
+export interface CampaignEngagement {
+  id: string;
+  name: string;
+  subject: string;
+  status: Campaign['status'];
+  sentCount: number;
+  openRate: number;
+  clickRate: number;
+}
+
+export interface OutreachStats {
+  totals: EngagementTotals;
+  campaigns: CampaignEngagement[];
+}
+
+/**
+ * Count the distinct emails that received at least one event of a type
+ * Opens and clicks can fire many times per email, so events are deduplicated
+ */
+function countEmailsWithEvent(events: EmailEvent[], eventType: EmailEventType): number {
+  const emailIds = new Set<string>();
+  for (const event of events) {
+    if (event.event_type === eventType) {
+      emailIds.add(event.provider_message_id);
+    }
+  }
+  return emailIds.size;
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+/**
+ * Summarize queued emails, their webhook events and replies into dashboard numbers
+ * Replies are counted once per lead, however many messages the lead sent
+ */
+export function summarizeEngagement(
+  emails: ScheduledEmail[],
+  events: EmailEvent[],
+  campaigns: Campaign[],
+  replies: EmailReply[] = []
+): OutreachStats {
+  const totals: EngagementTotals = {
+    pending: emails.filter(email => email.status === 'pending' || email.status === 'paused').length,
+    sent: emails.filter(email => email.status === 'sent').length,
+    delivered: countEmailsWithEvent(events, 'delivered'),
+    opened: countEmailsWithEvent(events, 'opened'),
+    clicked: countEmailsWithEvent(events, 'clicked'),
+    replied: new Set(replies.map(reply => reply.lead_id)).size,
+    bounced: countEmailsWithEvent(events, 'bounced'),
+    complained: countEmailsWithEvent(events, 'complained'),
+  };
+
+  const campaignRows = campaigns.map(campaign => {
+    const campaignEmails = emails.filter(email => email.campaign_id === campaign.id);
+    const campaignEvents = events.filter(event => event.campaign_id === campaign.id);
+    const sentCount = campaignEmails.filter(email => email.status === 'sent').length;
+    const firstEmail = campaignEmails.find(email => email.step_index === 0);
+
+    return {
+      id: campaign.id,
+      name: campaign.name,
+      subject: firstEmail?.subject || '',
+      status: campaign.status,
+      sentCount,
+      openRate: rate(countEmailsWithEvent(campaignEvents, 'opened'), sentCount),
+      clickRate: rate(countEmailsWithEvent(campaignEvents, 'clicked'), sentCount),
+    };
+  });
+
+  return { totals, campaigns: campaignRows };
+}
+
+/**
+ * Load a user's outreach engagement stats
+ */
+export async function getOutreachStats(userId: string): Promise<OutreachStats> {
+  const [emails, events, campaigns, replies] = await Promise.all([
+    db.scheduledEmails.getByUserId(userId),
+    db.emailEvents.getByUserId(userId),
+    db.campaigns.getByUserId(userId),
+    db.emailReplies.getByUserId(userId),
+  ]);
+
+  return summarizeEngagement(emails, events, campaigns, replies);
+}
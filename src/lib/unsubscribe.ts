@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+
+// Identifies whose list an address is being removed from
+export interface UnsubscribeTarget {
+  userId: string;
+  email: string;
+}
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET;
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_SECRET is not set in environment variables');
+  }
+  return secret;
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Create a signed, non-expiring unsubscribe token for a recipient of a user's outreach
+ */
+export function createUnsubscribeToken(target: UnsubscribeTarget): string {
+  const payload = Buffer
+    .from(JSON.stringify({ u: target.userId, e: target.email.trim().toLowerCase() }))
+    .toString('base64url');
+  return `${payload}.${sign(payload, getUnsubscribeSecret())}`;
+}
+
+/**
+ * Verify an unsubscribe token
+ * @returns The user and address it was issued for, or null if it is invalid
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribeTarget | null {
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, getUnsubscribeSecret()));
+  const candidate = Buffer.from(signature);
+  if (candidate.length !== expected.length || !crypto.timingSafeEqual(candidate, expected)) {
+    return null;
+  }
+
+  try {
+    const { u, e } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof u !== 'string' || typeof e !== 'string') return null;
+    return { userId: u, email: e };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the public unsubscribe URL used in email footers and List-Unsubscribe headers
+ */
+export function buildUnsubscribeUrl(target: UnsubscribeTarget): string {
+  const baseUrl = (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '');
+  return `${baseUrl}/api/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(target))}`;
+}
@@ -86,6 +86,36 @@ export function truncate(str: string, length = 100): string {
   return str.length > length ? str.substring(0, length) + '...' : str;
 }
 
+/**
+ * Map over items with at most `limit` calls in flight at once
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async function applied to each item
+ * @returns Settled results in the same order as items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
 /**
  * Deep merge two objects together
  * @param target - Target object
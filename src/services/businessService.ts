@@ -110,14 +110,26 @@ export const businessService = {
         searchParams.append('location', locationString);
         console.log(`Using coordinates as location: ${locationString}`);
       } else {
-        console.error('No location or coordinates provided for business search');
-        throw new Error('Location is required for business search');
+        // The API falls back to the coordinates saved in the user's profile
+        console.log('No location provided, searching around the business location in the user profile');
       }
       
       if (request.radius) {
         searchParams.append('radius', request.radius.toString());
       }
       
+      if (request.coverage) {
+        searchParams.append('coverage', 'true');
+      }
+      
+      if (request.includeWithoutWebsite) {
+        searchParams.append('includeWithoutWebsite', 'true');
+      }
+      
+      if (request.forceRefresh) {
+        searchParams.append('refresh', 'true');
+      }
+      
       console.log(`Fast search API request: /api/leads/streaming?${searchParams.toString()}`);
       
       // Make the API request
@@ -141,7 +153,8 @@ export const businessService = {
       return {
         businesses: responseData.results || [],
         count: responseData.count || 0,
-        message: responseData.message || 'Search completed'
+        message: responseData.message || 'Search completed',
+        skipped: responseData.skipped
       };
     } catch (error) {
       console.error('Error in fast search:', error);
@@ -226,8 +239,13 @@ export const businessService = {
    * 3. Process each lead's website through our enrichment pipeline
    * 4. Save enrichment results to database
    * 5. Return enriched leads for display in the UI
+   * 
+   * Websites crawled recently are read from the API cache unless forceRefresh is set.
    */
-  async enrichBusinesses(businesses: Business[]): Promise<{ businesses?: Business[], error?: string }> {
+  async enrichBusinesses(
+    businesses: Business[],
+    options: { forceRefresh?: boolean } = {}
+  ): Promise<{ businesses?: Business[], error?: string }> {
     console.log("[ENRICHMENT] Starting streamlined business enrichment process");
 
     // Validate businesses input
@@ -294,7 +312,7 @@ export const businessService = {
         const apiResponse = await fetch('/api/leads/enrich', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ leads: essentialData })
+          body: JSON.stringify({ leads: essentialData, forceRefresh: !!options.forceRefresh })
         });
         
         if (!apiResponse.ok) {
@@ -324,6 +342,7 @@ export const businessService = {
       // Start the lead enrichment workflow
       const enrichmentResult = await workflowManager.startWorkflow('lead-enrichment', {
         leads: essentialData,
+        forceRefresh: !!options.forceRefresh,
         options: {
           extractWebsiteContent: true, // Get full website content
           generateAISummary: true,     // Generate AI summary of business
@@ -338,12 +357,12 @@ export const businessService = {
       if (!enrichmentResult.success) {
         return { 
           error: enrichmentResult.error || 'Unknown error in enrichment workflow',
-          businesses: enrichmentResult.results?.leads
+          businesses: enrichmentResult.enrichedBusinesses
         };
       }
       
       return { 
-        businesses: enrichmentResult.results?.leads || [] 
+        businesses: enrichmentResult.enrichedBusinesses || [] 
       };
     } catch (error) {
       console.error('[ENRICHMENT] Error in business enrichment process:', error);
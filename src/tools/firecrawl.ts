@@ -1,4 +1,5 @@
 import { Tool } from '@mastra/core/tools';
+import { cached, cacheKeyForUrl, hashCacheKey } from '@/lib/api-cache';
 
 /**
  * FireCrawl tool for web scraping and lead data enrichment
@@ -18,6 +19,7 @@ export interface FirecrawlOptions {
   formats?: string[];
   prompt?: string;
   schema?: any;
+  forceRefresh?: boolean; // Crawl again even when the site was extracted recently
 }
 
 export interface FirecrawlResult {
@@ -103,9 +105,26 @@ function extractEmailsFromContent(content: string): string[] {
 }
 
 /**
- * Extract data from a website using Firecrawl API
+ * Extract data from a website, reusing a recent extract of the same URLs
+ * Successful extracts are cached by normalized URL (and by prompt and schema when given);
+ * failures are not, so the next call tries the site again.
  */
 export async function extractWebsiteData(options: FirecrawlOptions): Promise<FirecrawlResult> {
+  const urls = (options.urls?.length ? options.urls : [options.url]).filter(Boolean) as string[];
+  if (urls.length === 0) return crawlWebsite(options);
+  
+  const custom = options.prompt || options.schema ? `#${hashCacheKey({ prompt: options.prompt, schema: options.schema })}` : '';
+  const cacheKey = urls.map(cacheKeyForUrl).join(' ') + custom;
+  return cached('firecrawl', cacheKey, () => crawlWebsite(options), {
+    forceRefresh: options.forceRefresh,
+    shouldCache: result => result.success,
+  });
+}
+
+/**
+ * Extract data from a website using Firecrawl API
+ */
+async function crawlWebsite(options: FirecrawlOptions): Promise<FirecrawlResult> {
   const { 
     url: rawUrl, 
     urls: rawUrls,
@@ -1,82 +1,186 @@
 import { z } from 'zod';
 import { Business } from '@/types/business';
+import { withProvider } from '@/lib/job-queue';
+import { resolveSearchLocation } from '@/lib/geocoding';
+import { cached } from '@/lib/api-cache';
 
 // Type definitions
 export interface GooglePlacesToolInput {
   query: string;
-  location: string;
+  location: string; // "lat,lng", an address, a city or a ZIP code
   radius?: number;
 }
 
+export interface PlacesSearchOptions {
+  coverage?: boolean; // Follow result pages and split large radii into overlapping tiles
+  includeWithoutWebsite?: boolean; // Keep places with a phone but no website as phone-only leads
+  tileRadiusMiles?: number; // Starting tile size in coverage mode; grown until maxTiles is enough
+  maxTiles?: number;
+  forceRefresh?: boolean; // Load place details from Google even when they are cached
+}
+
+// Places left out of the results, by reason
+export interface PlacesSkipReport {
+  noWebsite: number; // No website, and phone-only leads were not requested
+  noContact: number; // Neither a website nor a phone number
+  outsideRadius: number; // Found by a tile but farther than the search radius
+  duplicate: number; // Already found by another tile
+  detailsFailed: number; // Place details could not be loaded
+}
+
+export interface PlacesSearchResult {
+  businesses: any[];
+  skipped: PlacesSkipReport;
+  tiles: number; // Nearby searches run, one per tile
+  pages: number; // Result pages fetched across all tiles
+  saturatedTiles: number; // Tiles that hit the 60-result cap; a smaller tile size may find more
+}
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Nearby Search returns at most 20 results a page and 3 pages, within at most 50 km
+const MAX_PAGES = 3;
+const PAGE_SIZE = 20;
+const MAX_RADIUS_METERS = 50000;
+const METERS_PER_MILE = 1609;
+const MILES_PER_DEGREE = 69;
+
+// A next_page_token only works after a short delay; retried if it is not ready yet
+const PAGE_TOKEN_DELAY_MS = 2000;
+const PAGE_TOKEN_ATTEMPTS = 3;
+
+// One field list for every Place Details call, so cached details serve all callers
+export const PLACE_DETAILS_FIELDS = 'name,formatted_address,formatted_phone_number,international_phone_number,website,types';
+
+const DEFAULT_TILE_RADIUS_MILES = 5;
+const DEFAULT_MAX_TILES = 25;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function distanceInMiles(a: LatLng, b: LatLng): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Centers of overlapping circles that together cover a search circle
+ * Tiles sit on a square grid spaced so neighbouring circles overlap with no gaps. The tile
+ * radius grows until maxTiles tiles are enough; a radius within one tile is one search.
+ */
+export function coverageTiles(
+  center: LatLng,
+  radiusMiles: number,
+  tileRadiusMiles: number = DEFAULT_TILE_RADIUS_MILES,
+  maxTiles: number = DEFAULT_MAX_TILES
+): Array<{ center: LatLng; radiusMiles: number }> {
+  const maxTileRadius = MAX_RADIUS_METERS / METERS_PER_MILE;
+  let tileRadius = Math.min(Math.max(tileRadiusMiles, 0.5), maxTileRadius);
+  if (radiusMiles <= tileRadius) return [{ center, radiusMiles }];
+
+  for (;;) {
+    const spacing = tileRadius * Math.SQRT2;
+    const steps = Math.ceil((radiusMiles + tileRadius) / spacing);
+    const tiles: Array<{ center: LatLng; radiusMiles: number }> = [];
+    for (let x = -steps; x <= steps; x++) {
+      for (let y = -steps; y <= steps; y++) {
+        // Skip tiles whose square lies entirely outside the search circle
+        if (Math.hypot(x * spacing, y * spacing) > radiusMiles + tileRadius) continue;
+        tiles.push({
+          center: {
+            lat: center.lat + (y * spacing) / MILES_PER_DEGREE,
+            lng: center.lng + (x * spacing) / (MILES_PER_DEGREE * Math.cos(center.lat * Math.PI / 180)),
+          },
+          radiusMiles: tileRadius,
+        });
+      }
+    }
+    if (tiles.length <= maxTiles || tileRadius >= maxTileRadius) return tiles;
+    tileRadius = Math.min(tileRadius * 1.25, maxTileRadius);
+  }
+}
+
 // Google Places API Service class
 export class GooglePlacesService {
-  async searchPlaces(query: string, location: string, radius: number = 25): Promise<any[]> {
+  constructor(private pageTokenDelayMs: number = PAGE_TOKEN_DELAY_MS) {}
+
+  async searchPlaces(query: string, location: string, radius: number = 25, options: PlacesSearchOptions = {}): Promise<any[]> {
+    const result = await this.search(query, location, radius, options);
+    return result.businesses;
+  }
+
+  /**
+   * Search for places, with a report of what was left out and why
+   * The location is "lat,lng" or an address, city or ZIP code. By default this is one Nearby Search page of up to 20 places that have a website.
+   * Coverage mode follows result pages and tiles the radius, merging places found twice.
+   */
+  async search(query: string, location: string, radius: number = 25, options: PlacesSearchOptions = {}): Promise<PlacesSearchResult> {
     try {
-      // Convert miles to meters for Google API
-      const radiusInMeters = radius * 1609;
-      console.log(`Searching Google Places: "${query}" in ${location} (${radius} miles / ${radiusInMeters}m radius)`);
-      
-      // Check if location is in coordinate format
-      const coordinateRegex = /^(-?\d+(\.\d+)?),(-?\d+(\.\d+)?)$/;
-      const isCoordinates = coordinateRegex.test(location);
-      
-      let locationParam = location;
-      let lat: number;
-      let lng: number;
-      
-      if (isCoordinates) {
-        // Parse coordinates directly
-        console.log('Using coordinates directly for search');
-        const [latStr, lngStr] = location.split(',');
-        lat = parseFloat(latStr);
-        lng = parseFloat(lngStr);
-        locationParam = `${lat},${lng}`;
-      } else {
-        // For non-coordinate locations, we'll fail with helpful error message
-        console.error('Location must be in coordinate format (lat,lng)');
-        throw new Error('Location must be in coordinate format (lat,lng)');
-      }
-      
-      // Fast search approach - directly get businesses with all needed fields in a single request
+      console.log(`Searching Google Places: "${query}" in ${location} (${radius} miles${options.coverage ? ', coverage mode' : ''})`);
       
-      // Search for places using the location parameter directly
-      const searchUrl = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${locationParam}&radius=${radiusInMeters}&keyword=${encodeURIComponent(query)}&key=${process.env.GOOGLE_PLACES_API_KEY}`;
+      // Free-text addresses, cities and ZIP codes are geocoded; coordinates are used as given
+      const { lat, lng } = await resolveSearchLocation(location);
+      const center = { lat, lng };
       
-      console.log(`Making Google Places API request to: ${searchUrl.replace(process.env.GOOGLE_PLACES_API_KEY || '', 'API_KEY')}`);
+      const tiles = options.coverage
+        ? coverageTiles(center, radius, options.tileRadiusMiles, options.maxTiles)
+        : [{ center, radiusMiles: radius }];
       
-      const searchResponse = await fetch(searchUrl);
-      const searchData = await searchResponse.json();
+      const skipped: PlacesSkipReport = { noWebsite: 0, noContact: 0, outsideRadius: 0, duplicate: 0, detailsFailed: 0 };
+      const places = new Map<string, any>();
+      const seen = new Set<string>();
+      let pages = 0;
+      let saturatedTiles = 0;
       
-      if (searchData.status !== 'OK' && searchData.status !== 'ZERO_RESULTS') {
-        console.error('Google Places API error:', searchData);
-        throw new Error(`Places API error: ${searchData.status} - ${searchData.error_message || 'Unknown error'}`);
-      }
-      
-      if (searchData.status === 'ZERO_RESULTS' || !searchData.results || searchData.results.length === 0) {
-        console.log('No results found in Google Places API');
-        return [];
+      for (const tile of tiles) {
+        const tileResult = await this.nearbySearch(query, tile.center, tile.radiusMiles, options.coverage ? MAX_PAGES : 1);
+        pages += tileResult.pages;
+        if (tileResult.results.length >= MAX_PAGES * PAGE_SIZE) saturatedTiles++;
+        
+        for (const place of tileResult.results) {
+          if (seen.has(place.place_id)) {
+            skipped.duplicate++;
+            continue;
+          }
+          seen.add(place.place_id);
+          // Tiles reach past the search circle; places only they found are outside it
+          const position = place.geometry?.location;
+          if (tiles.length > 1 && position && distanceInMiles(center, position) > radius) {
+            skipped.outsideRadius++;
+            continue;
+          }
+          places.set(place.place_id, place);
+        }
       }
       
-      console.log(`Google Places API returned ${searchData.results?.length || 0} results`);
+      console.log(`Google Places API returned ${places.size} places from ${tiles.length} tiles and ${pages} pages`);
       
       // Convert Google Places results in a streamlined way
       const businesses: any[] = [];
       
-      // Process places in parallel for speed using Promise.all
+      // Details calls share the provider limit, so large coverage searches do not burst;
+      // places seen in earlier searches are answered from the cache
       await Promise.all(
-        searchData.results.map(async (place: any) => {
+        Array.from(places.values()).map(async (place: any) => {
           try {
             // Get place details for additional information - focused only on required fields
-            const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${place.place_id}&fields=name,formatted_address,formatted_phone_number,website,types&key=${process.env.GOOGLE_PLACES_API_KEY}`;
-            
-            const detailsResponse = await fetch(detailsUrl);
-            const detailsData = await detailsResponse.json();
+            const details = await getPlaceDetails(place.place_id, { forceRefresh: options.forceRefresh });
             
-            const details = detailsData.result || {};
+            if (!details.website && !details.formatted_phone_number) {
+              skipped.noContact++;
+              return;
+            }
             
-            // Skip places without a website since it's required
-            if (!details.website) {
+            // Skip places without a website unless phone-only leads were requested
+            if (!details.website && !options.includeWithoutWebsite) {
               console.log(`Skipping ${place.name} - No website available`);
+              skipped.noWebsite++;
               return;
             }
             
@@ -90,16 +194,14 @@ export class GooglePlacesService {
               formatted_phone_number: details.formatted_phone_number || '',
               phone: details.formatted_phone_number || '',
               website: details.website || '',
+              phoneOnly: !details.website,
               types: details.types || place.types || [],
               type: place.types?.[0] || 'business',
               contact: {
                 phone: details.formatted_phone_number || '',
                 website: details.website || ''
               },
-              location: {
-                lat,
-                lng
-              },
+              location: place.geometry?.location || center,
               hasEventSpace: place.types?.some((type: string) => 
                 ['event_venue', 'banquet_hall', 'conference_center', 'concert_hall', 'restaurant'].includes(type)
               ) || false
@@ -108,17 +210,80 @@ export class GooglePlacesService {
             businesses.push(business);
           } catch (error) {
             console.error(`Error fetching details for place ${place.name}:`, error);
+            skipped.detailsFailed++;
           }
         })
       );
       
-      console.log(`Successfully processed ${businesses.length} businesses with websites`);
-      return businesses;
+      console.log(`Successfully processed ${businesses.length} businesses; skipped:`, skipped);
+      return { businesses, skipped, tiles: tiles.length, pages, saturatedTiles };
     } catch (error) {
       console.error('Google Places search error:', error);
       throw error;
     }
   }
+
+  // Run one Nearby Search, following up to maxPages result pages
+  private async nearbySearch(query: string, center: LatLng, radiusMiles: number, maxPages: number) {
+    const radiusInMeters = Math.min(Math.round(radiusMiles * METERS_PER_MILE), MAX_RADIUS_METERS);
+    const baseUrl = `https://maps.googleapis.com/maps/api/place/nearbysearch/json?location=${center.lat},${center.lng}&radius=${radiusInMeters}&keyword=${encodeURIComponent(query)}&key=${process.env.GOOGLE_PLACES_API_KEY}`;
+    
+    const results: any[] = [];
+    let pages = 0;
+    let pageToken: string | undefined;
+    
+    while (pages < maxPages) {
+      const searchUrl = pageToken
+        ? `https://maps.googleapis.com/maps/api/place/nearbysearch/json?pagetoken=${pageToken}&key=${process.env.GOOGLE_PLACES_API_KEY}`
+        : baseUrl;
+      
+      let searchData: any;
+      for (let attempt = 1; attempt <= (pageToken ? PAGE_TOKEN_ATTEMPTS : 1); attempt++) {
+        if (pageToken) await sleep(this.pageTokenDelayMs);
+        console.log(`Making Google Places API request to: ${searchUrl.replace(process.env.GOOGLE_PLACES_API_KEY || '', 'API_KEY')}`);
+        searchData = await withProvider('google_places', async () => (await fetch(searchUrl)).json());
+        // A token used too soon is rejected as INVALID_REQUEST
+        if (!(pageToken && searchData.status === 'INVALID_REQUEST')) break;
+      }
+      
+      if (searchData.status !== 'OK' && searchData.status !== 'ZERO_RESULTS') {
+        // Later pages failing keeps what the earlier pages found
+        if (pages > 0) {
+          console.warn('Google Places API error on a later page, keeping earlier results:', searchData.status);
+          break;
+        }
+        console.error('Google Places API error:', searchData);
+        throw new Error(`Places API error: ${searchData.status} - ${searchData.error_message || 'Unknown error'}`);
+      }
+      
+      pages++;
+      results.push(...(searchData.results || []));
+      pageToken = searchData.next_page_token;
+      if (!pageToken) break;
+    }
+    
+    return { results, pages };
+  }
+}
+
+/**
+ * Place Details for a place id, cached by place id
+ * Throws when Google does not return the place; failed lookups are not cached.
+ */
+export async function getPlaceDetails(
+  placeId: string,
+  options: { forceRefresh?: boolean; apiKey?: string } = {}
+): Promise<any> {
+  const apiKey = options.apiKey || process.env.GOOGLE_PLACES_API_KEY;
+  return cached('places_details', placeId, async () => {
+    const detailsUrl = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&fields=${PLACE_DETAILS_FIELDS}&key=${apiKey}`;
+    const detailsData = await withProvider('google_places', async () => (await fetch(detailsUrl)).json());
+    
+    if (detailsData.status && detailsData.status !== 'OK') {
+      throw new Error(`Place details error: ${detailsData.status}`);
+    }
+    return detailsData.result || {};
+  }, { forceRefresh: options.forceRefresh });
 }
 
 // Legacy function - kept for backward compatibility
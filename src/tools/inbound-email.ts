@@ -0,0 +1,120 @@
+import { db, EmailReply, ScheduledEmail } from "@/lib/db";
+import { cancelScheduledEmails } from "./resend";
+
+// Inbound email as delivered by the inbound webhook or the local mailbox poller
+export interface InboundEmail {
+  messageId: string;
+  from: string;
+  fromName?: string;
+  to: string[];
+  subject?: string;
+  text?: string;
+  html?: string;
+  inReplyTo?: string;
+  receivedAt?: string;
+}
+
+// What happened to an inbound email
+export interface InboundReplyResult {
+  matched: boolean;
+  reply: EmailReply | null;
+  leadId?: string;
+  campaignId?: string;
+  cancelledEmails: number;
+}
+
+/**
+ * Pull the queued email id out of a reply+<id>@domain address set by buildReplyToAddress
+ */
+function parseReplyAddress(address: string): string | null {
+  const match = address.trim().toLowerCase().match(/reply\+([0-9a-f-]{36})@/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Strip a display name from an address: "Jane <jane@venue.com>" -> "jane@venue.com"
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim().toLowerCase();
+}
+
+/**
+ * Find the outreach email an inbound message answers
+ * Prefers the tagged reply address, then falls back to the latest email the mailbox owner
+ * sent to the sender. Without an owner there is no fallback, as the same address may have
+ * been emailed by several users.
+ * @param ownerUserId User whose mailbox received the message, if known
+ */
+async function matchReply(
+  message: InboundEmail,
+  ownerUserId?: string
+): Promise<{ scheduledEmail: ScheduledEmail; method: EmailReply['match_method'] } | null> {
+  for (const recipient of message.to) {
+    const scheduledEmailId = parseReplyAddress(extractAddress(recipient));
+    if (!scheduledEmailId) continue;
+
+    const scheduledEmail = await db.scheduledEmails.get(scheduledEmailId);
+    if (scheduledEmail && (!ownerUserId || scheduledEmail.user_id === ownerUserId)) {
+      return { scheduledEmail, method: "reply_address" };
+    }
+  }
+
+  if (!ownerUserId) return null;
+  const scheduledEmail = await db.scheduledEmails.getLatestSentTo(ownerUserId, extractAddress(message.from));
+  return scheduledEmail ? { scheduledEmail, method: "sender" } : null;
+}
+
+/**
+ * Record an inbound reply, mark its lead as replied and stop the rest of the lead's drip sequence
+ * @param ownerUserId User whose mailbox received the message; needed to match untagged replies
+ */
+export async function ingestInboundReply(message: InboundEmail, ownerUserId?: string): Promise<InboundReplyResult> {
+  const match = await matchReply(message, ownerUserId);
+
+  if (!match || !match.scheduledEmail.user_id) {
+    console.log(`No outreach email matches inbound message ${message.messageId} from ${message.from}`);
+    return { matched: false, reply: null, cancelledEmails: 0 };
+  }
+
+  const { scheduledEmail, method } = match;
+  const userId = scheduledEmail.user_id!;
+
+  const reply = await db.emailReplies.record({
+    user_id: userId,
+    campaign_id: scheduledEmail.campaign_id,
+    scheduled_email_id: scheduledEmail.id,
+    lead_id: scheduledEmail.lead_id,
+    message_id: message.messageId,
+    in_reply_to: message.inReplyTo || null,
+    from_email: extractAddress(message.from),
+    from_name: message.fromName || null,
+    subject: message.subject || null,
+    text_body: message.text || null,
+    html_body: message.html || null,
+    match_method: method,
+    received_at: message.receivedAt || new Date().toISOString()
+  });
+
+  // Stop every pending send to this lead, across all of the user's campaigns
+  const cancelled = await cancelScheduledEmails({ userId, leadId: scheduledEmail.lead_id });
+  await db.savedLeads.updateStatus(userId, scheduledEmail.lead_id, "replied");
+  // Count the reply toward score calibration, unless the user already recorded an outcome
+  await db.leadOutcomes.record(
+    { user_id: userId, lead_id: scheduledEmail.lead_id, campaign_id: scheduledEmail.campaign_id, outcome: "replied" },
+    { keepExisting: true }
+  );
+
+  console.log(
+    `Reply from ${message.from} matched lead ${scheduledEmail.lead_id} by ${method}; ` +
+    `cancelled ${cancelled.length} pending emails`
+  );
+
+  return {
+    matched: true,
+    reply,
+    leadId: scheduledEmail.lead_id,
+    campaignId: scheduledEmail.campaign_id,
+    cancelledEmails: cancelled.length
+  };
+}
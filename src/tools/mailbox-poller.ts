@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ingestInboundReply, InboundEmail, InboundReplyResult } from "./inbound-email";
+
+/**
+ * Local mailbox poller, a stand-in for the inbound email webhook during development
+ *
+ * Reads every *.json message (InboundEmail shape) from the mailbox directory,
+ * ingests it as a reply and moves it to a "processed" subdirectory so each
+ * message is only handled once.
+ * @param ownerUserId User the mailbox belongs to, so replies without a tagged address can
+ * be matched to that user's emails
+ */
+export async function pollLocalMailbox(
+  mailboxDir: string = process.env.LOCAL_MAILBOX_DIR || "",
+  ownerUserId: string | undefined = process.env.LOCAL_MAILBOX_USER_ID || undefined
+): Promise<InboundReplyResult[]> {
+  if (!mailboxDir || !fs.existsSync(mailboxDir)) {
+    throw new Error(`Local mailbox directory not found: ${mailboxDir || "(LOCAL_MAILBOX_DIR not set)"}`);
+  }
+
+  const processedDir = path.join(mailboxDir, "processed");
+  fs.mkdirSync(processedDir, { recursive: true });
+
+  const files = fs.readdirSync(mailboxDir)
+    .filter(file => file.endsWith(".json"))
+    .sort();
+
+  const results: InboundReplyResult[] = [];
+  for (const file of files) {
+    const filePath = path.join(mailboxDir, file);
+
+    try {
+      const message: InboundEmail = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      results.push(await ingestInboundReply(message, ownerUserId));
+      fs.renameSync(filePath, path.join(processedDir, file));
+    } catch (error) {
+      // Leave the file in place so the next poll retries it
+      console.error(`Error processing mailbox message ${file}:`, error);
+    }
+  }
+
+  console.log(`Processed ${results.length} of ${files.length} mailbox messages`);
+  return results;
+}
@@ -0,0 +1,191 @@
+import crypto from "crypto";
+import { db, EmailEvent, EmailEventType, ScheduledEmail, SuppressionReason } from "@/lib/db";
+
+// Resend signs webhooks with Svix; reject deliveries older than this
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Resend event type -> stored event type
+const EVENT_TYPES: Record<string, EmailEventType> = {
+  "email.sent": "sent",
+  "email.delivered": "delivered",
+  "email.delivery_delayed": "delivery_delayed",
+  "email.opened": "opened",
+  "email.clicked": "clicked",
+  "email.bounced": "bounced",
+  "email.complained": "complained",
+};
+
+// Svix headers sent with every Resend webhook
+export interface WebhookHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+// Body of a Resend webhook
+export interface ResendWebhookPayload {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    to?: string[];
+    subject?: string;
+    created_at?: string;
+    click?: { link?: string };
+    bounce?: { type?: string; message?: string };
+    [key: string]: any;
+  };
+}
+
+/**
+ * Verify a Resend (Svix) webhook signature
+ * @param rawBody Request body exactly as received
+ * @param headers svix-id, svix-timestamp and svix-signature header values
+ * @param secret Signing secret from the Resend dashboard ("whsec_...")
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  headers: WebhookHeaders,
+  secret: string,
+  now: Date = new Date()
+): boolean {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature || !secret) {
+    return false;
+  }
+
+  // Reject stale or future-dated deliveries to limit replay attacks
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isFinite(timestampSeconds)) {
+    return false;
+  }
+  if (Math.abs(now.getTime() / 1000 - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(rawBody, id, timestamp, secret));
+
+  // The header may carry several space-separated "v1,<signature>" entries
+  return signature.split(" ").some(entry => {
+    const [version, value] = entry.split(",");
+    if (version !== "v1" || !value) return false;
+
+    const candidate = Buffer.from(value);
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+  });
+}
+
+/**
+ * Compute the base64 Svix signature for a webhook body
+ * Also used by the local webhook replay harness to sign fixtures
+ */
+export function signWebhookPayload(
+  rawBody: string,
+  id: string,
+  timestamp: string,
+  secret: string
+): string {
+  const key = Buffer.from(secret.replace(/^whsec_/, ""), "base64");
+  return crypto
+    .createHmac("sha256", key)
+    .update(`${id}.${timestamp}.${rawBody}`)
+    .digest("base64");
+}
+
+/**
+ * Store a verified webhook event against the queued email it belongs to
+ * @returns The stored event, or null if the event type is not tracked or was already recorded
+ */
+export async function ingestWebhookEvent(
+  webhookId: string,
+  payload: ResendWebhookPayload
+): Promise<EmailEvent | null> {
+  const eventType = EVENT_TYPES[payload.type];
+  if (!eventType) {
+    console.log(`Ignoring untracked Resend event type: ${payload.type}`);
+    return null;
+  }
+
+  const providerMessageId = payload.data?.email_id;
+  if (!providerMessageId) {
+    throw new Error("Webhook payload is missing data.email_id");
+  }
+
+  // Emails sent outside the drip queue are still recorded, just without an owner. So are
+  // events that beat dispatch to saving the message id; linkEarlyEvents attaches those.
+  const scheduledEmail = await db.scheduledEmails.getByProviderMessageId(providerMessageId);
+  if (!scheduledEmail) {
+    console.warn(`No scheduled email found for Resend email ${providerMessageId}`);
+  }
+
+  const event = await db.emailEvents.record({
+    webhook_id: webhookId,
+    user_id: scheduledEmail?.user_id || null,
+    campaign_id: scheduledEmail?.campaign_id || null,
+    scheduled_email_id: scheduledEmail?.id || null,
+    lead_id: scheduledEmail?.lead_id || null,
+    provider_message_id: providerMessageId,
+    event_type: eventType,
+    recipient_email: payload.data.to?.[0] || scheduledEmail?.recipient_email || null,
+    link: payload.data.click?.link || null,
+    payload: payload as Record<string, any>,
+    occurred_at: payload.created_at || new Date().toISOString()
+  });
+
+  if (event && scheduledEmail) {
+    await suppressRecipient(event, scheduledEmail);
+  }
+
+  return event;
+}
+
+/**
+ * Attach events Resend delivered before the email was marked sent
+ * Called once dispatch saves the provider message id, so those events count towards the
+ * campaign and bounces still suppress the recipient.
+ * @returns The events that were linked
+ */
+export async function linkEarlyEvents(scheduledEmail: ScheduledEmail): Promise<EmailEvent[]> {
+  if (!scheduledEmail.provider_message_id) return [];
+
+  const events = await db.emailEvents.linkUnowned(scheduledEmail.provider_message_id, {
+    user_id: scheduledEmail.user_id,
+    campaign_id: scheduledEmail.campaign_id,
+    scheduled_email_id: scheduledEmail.id,
+    lead_id: scheduledEmail.lead_id
+  });
+  for (const event of events) {
+    await suppressRecipient(event, scheduledEmail);
+  }
+  return events;
+}
+
+// New hard bounces and spam complaints go straight onto the sender's suppression list
+async function suppressRecipient(event: EmailEvent, scheduledEmail: ScheduledEmail) {
+  const suppressionReason = getSuppressionReason(event.event_type, event.payload as ResendWebhookPayload);
+  const recipient = event.recipient_email || scheduledEmail.recipient_email;
+  if (suppressionReason && scheduledEmail.user_id && recipient) {
+    await db.suppressions.add({
+      user_id: scheduledEmail.user_id,
+      email: recipient,
+      reason: suppressionReason,
+      lead_id: scheduledEmail.lead_id
+    });
+  }
+}
+
+/**
+ * Decide whether an event should suppress the recipient
+ * Transient (soft) bounces are left alone so the address can be retried
+ */
+function getSuppressionReason(
+  eventType: EmailEventType,
+  payload: ResendWebhookPayload
+): SuppressionReason | null {
+  if (eventType === "complained") return "complaint";
+  if (eventType === "bounced") {
+    const bounceType = String(payload.data.bounce?.type || "").toLowerCase();
+    return bounceType === "transient" ? null : "hard_bounce";
+  }
+  return null;
+}
@@ -1,22 +1,103 @@
 import axios from "axios";
+import { db, Campaign, CampaignLead, ScheduledEmail, ScheduledEmailFilter } from "@/lib/db";
+import { buildUnsubscribeUrl } from "@/lib/unsubscribe";
+import { linkEarlyEvents } from "@/tools/resend-webhooks";
+import { selectOutreachContact } from "@/lib/leads/contacts";
+import { alignedStartOffsetDays } from "@/lib/leads/seasonality";
+import { escapeHtml, renderEmailHtml } from "@/lib/email-templates";
+import { MergeContext, MergeIssue, renderMergeFields, validateMergeFields } from "@/lib/merge-fields";
+import type { EmailTemplate } from "@/types/email";
+import type { VenueInsights } from "@/agents/outreach";
+import type { VenueContact } from "@/agents/enrichment/types";
 
 const RESEND_API_URL = "https://api.resend.com/emails";
 const RESEND_API_KEY = process.env.RESEND_API_KEY || "";
 
+// Dispatcher settings
+const DISPATCH_BATCH_SIZE = 50;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MINUTES = 15;
+// Emails still marked sending after this long were claimed by a run that crashed
+const SENDING_TIMEOUT_MINUTES = 15;
+
 // Interface for leads with category
 interface Lead {
   id: string;
   name: string;
   email: string;
   category: string;
+  contact: VenueContact | null; // Venue contact the lead's emails go to
+  record: Record<string, any>; // Full saved_leads row, used for merge fields
+}
+
+// Optional behaviour when queueing a campaign
+export interface ScheduleDripOptions {
+  personalizeOpeners?: boolean; // Rewrite the opening email for each high-potential lead
+  requireVerifiedEmails?: boolean; // Only email addresses verified as valid; invalid ones are always skipped
+  alignToVenueCalendar?: boolean; // Hold each venue's sequence until it starts booking its next busy season or event
+}
+
+/**
+ * Load the leads a user's campaign can target, grouped by category, and the sender profile
+ * Anyone on the user's suppression list is left out, as are leads that already replied and
+ * leads without an address that passes verification
+ */
+async function loadCampaignAudience(userId: string, options: ScheduleDripOptions = {}) {
+  const suppressions = await db.suppressions.getByUserId(userId);
+  const suppressedEmails = new Set(suppressions.map(suppression => suppression.email));
+  const allLeads = await getAllLeads(userId, options.requireVerifiedEmails);
+  const unverifiedLeads = allLeads.filter(lead => !lead.email).length;
+  const leads = allLeads
+    .filter(lead => lead.email && !suppressedEmails.has(lead.email.trim().toLowerCase()))
+    // A reply stops the lead's sequence; later campaigns must not start a new one
+    .filter(lead => lead.record.status !== 'replied');
+  
+  const leadsGrouped: Record<string, Lead[]> = {};
+  for (const lead of leads) {
+    if (!leadsGrouped[lead.category]) {
+      leadsGrouped[lead.category] = [];
+    }
+    leadsGrouped[lead.category].push(lead);
+  }
+  
+  const sender = await db.userProfiles.getByUserId(userId);
+  return { leads, leadsGrouped, sender, unverifiedLeads };
+}
+
+/**
+ * Check that every merge field in the approved templates resolves for every lead they will reach
+ * @returns Placeholders that would be sent unfilled; empty when the campaign can launch
+ */
+export async function validateDripCampaign(
+  approvedEmailsByCategory: Record<string, EmailTemplate[]>,
+  userId: string,
+  options: ScheduleDripOptions = {}
+): Promise<MergeIssue[]> {
+  const { leadsGrouped, sender } = await loadCampaignAudience(userId, options);
+  
+  const recordsByCategory: Record<string, Array<Pick<MergeContext, 'lead' | 'contact'>>> = {};
+  for (const [category, leads] of Object.entries(leadsGrouped)) {
+    recordsByCategory[category] = leads.map(lead => ({ lead: lead.record, contact: lead.contact }));
+  }
+  
+  return validateMergeFields(approvedEmailsByCategory, recordsByCategory, sender);
 }
 
 /**
  * Schedule a drip campaign over 12 weeks for each lead category
+ * Emails are written to the scheduled_emails queue and sent by dispatchDueEmails
  * @param approvedEmailsByCategory Record of approved email templates by category
+ * @param userId Owner of the campaign; only this user's leads are targeted
+ * @param campaignId Campaign record the queued emails belong to
+ * @param options Set personalizeOpeners to rewrite the first email for high-potential leads,
+ * requireVerifiedEmails to skip leads whose address was not verified as valid, and
+ * alignToVenueCalendar to start each venue's sequence when it begins planning
  */
 export async function scheduleDripCampaign(
-  approvedEmailsByCategory: Record<string, string[]>
+  approvedEmailsByCategory: Record<string, EmailTemplate[]>,
+  userId: string,
+  campaignId: string,
+  options: ScheduleDripOptions = {}
 ) {
   try {
     // Verify API key is present
@@ -24,25 +105,26 @@ export async function scheduleDripCampaign(
       throw new Error("Resend API key not configured");
     }
     
-    // Get all leads from database
-    const leads = await getAllLeads();
+    // Get the user's leads from database, minus anyone on their suppression list
+    const { leads, leadsGrouped, sender, unverifiedLeads } = await loadCampaignAudience(userId, options);
     console.log(`Found ${leads.length} leads to target with drip campaigns`);
-    
-    // Group leads by category
-    const leadsGrouped: Record<string, Lead[]> = {};
-    for (const lead of leads) {
-      if (!leadsGrouped[lead.category]) {
-        leadsGrouped[lead.category] = [];
-      }
-      leadsGrouped[lead.category].push(lead);
+    if (unverifiedLeads > 0) {
+      console.log(`Skipped ${unverifiedLeads} leads without a verified email address`);
     }
     
+    // Leads that actually received queued emails
+    const leadRoster: CampaignLead[] = [];
+    
     // Track statistics for reporting
     const stats = {
+      campaignId,
       categories: 0,
       totalLeads: 0,
       totalEmails: 0,
-      scheduledEmails: 0
+      scheduledEmails: 0,
+      personalizedEmails: 0,
+      alignedLeads: 0,
+      unverifiedLeads
     };
     
     // For each category that has approved emails
@@ -57,34 +139,50 @@ export async function scheduleDripCampaign(
       stats.categories++;
       stats.totalLeads += categoryLeads.length;
       
+      const queuedEmails: Array<Partial<ScheduledEmail>> = [];
+      
+      // Days each lead's sequence is held so it arrives as the venue starts planning
+      const startOffsets = new Map(categoryLeads.map(lead => [
+        lead.id,
+        options.alignToVenueCalendar ? alignedStartOffsetDays(lead.record.enrichment_data?.eventCalendar) : 0
+      ]));
+      stats.alignedLeads += [...startOffsets.values()].filter(days => days > 0).length;
+      
+      const personalizedOpeners = options.personalizeOpeners
+        ? await personalizeOpeners(category, emails, categoryLeads, sender, startOffsets)
+        : new Map<string, EmailTemplate>();
+      stats.personalizedEmails += personalizedOpeners.size;
+      
       // Process each lead in this category
       for (const lead of categoryLeads) {
-        // Schedule each approved email template
-        for (const [index, emailTemplate] of emails.entries()) {
-          // Basic scheduling approach: spread over 12 weeks
-          // Each email is 1-2 weeks apart depending on total emails
-          const spreadFactor = emails.length <= 6 ? 2 : 1.5;
-          const weekOffset = Math.floor(index * spreadFactor);
-          const sendDate = computeFutureDate(weekOffset);
+        leadRoster.push({ id: lead.id, name: lead.name, email: lead.email, category: lead.category });
+        
+        // Schedule each approved email template at its send offset
+        for (const emailTemplate of emails) {
+          const sendDate = computeFutureDate(emailTemplate.sendOffsetDays + (startOffsets.get(lead.id) || 0));
+          const template = (emailTemplate.stepIndex === 0 && personalizedOpeners.get(lead.id)) || emailTemplate;
           
           try {
-            // Personalize the email for this specific lead
-            const personalizedContent = personalizeEmail(emailTemplate, lead);
-            
-            // Schedule the email
-            await scheduleEmail(lead.email, personalizedContent, sendDate);
+            queuedEmails.push(
+              buildScheduledEmail(campaignId, userId, { lead: lead.record, contact: lead.contact, sender }, lead, template, sendDate)
+            );
             
             stats.totalEmails++;
-            stats.scheduledEmails++;
           } catch (error) {
             console.error(`Error scheduling email for ${lead.email}:`, error);
           }
         }
       }
+      
+      // Queue the whole category in one insert
+      if (queuedEmails.length > 0) {
+        await db.scheduledEmails.enqueue(queuedEmails);
+        stats.scheduledEmails += queuedEmails.length;
+      }
     }
     
     console.log(`Campaign scheduling complete. Stats:`, stats);
-    return stats;
+    return { ...stats, leadRoster };
   } catch (error) {
     console.error("Error in scheduleDripCampaign:", error);
     throw error;
@@ -92,72 +190,148 @@ export async function scheduleDripCampaign(
 }
 
 /**
- * Calculate a future date X weeks from now
+ * Whether a lead's score marks it as worth a personalized opening email
+ */
+function isHighPotentialLead(record: Record<string, any>): boolean {
+  return record.enrichment_data?.leadScore?.potential === 'high' || record.lead_score_label === 'high';
+}
+
+/**
+ * Rewrite a category's opening email for each of its high-potential leads from their enrichment data
+ * Leads whose rewrite failed or broke a merge field are left out and get the category template
+ * @param startOffsets Days each lead's sequence is held, so openers are written for their send date
+ * @returns Personalized opening templates by lead id
+ */
+async function personalizeOpeners(
+  category: string,
+  templates: EmailTemplate[],
+  leads: Lead[],
+  sender: Record<string, any> | null,
+  startOffsets: Map<string, number> = new Map()
+): Promise<Map<string, EmailTemplate>> {
+  const opener = templates.find(template => template.stepIndex === 0);
+  const highPotentialLeads = leads.filter(lead => isHighPotentialLead(lead.record));
+  if (!opener || highPotentialLeads.length === 0) {
+    return new Map();
+  }
+  
+  const venues = highPotentialLeads.map(lead => {
+    const enrichment = lead.record.enrichment_data || {};
+    const venue: VenueInsights = {
+      name: lead.name,
+      category,
+      aiOverview: enrichment.aiOverview,
+      commonEventTypes: enrichment.commonEventTypes,
+      preferredCaterers: enrichment.preferredCaterers,
+      exclusiveCaterer: enrichment.exclusiveCaterer,
+      inHouseCatering: enrichment.inHouseCatering,
+      eventManagerName: enrichment.eventManagerName,
+      eventCalendar: enrichment.eventCalendar,
+      sendDate: computeFutureDate(opener.sendOffsetDays + (startOffsets.get(lead.id) || 0)).toISOString().slice(0, 10)
+    };
+    return { leadId: lead.id, venue };
+  });
+  
+  // Loaded on demand so sending email does not require OpenAI configuration
+  const { default: outreachAgent } = await import("@/agents/outreach");
+  const personalized = await outreachAgent.personalizeOpeningEmails(opener, venues);
+  
+  for (const lead of highPotentialLeads) {
+    const template = personalized.get(lead.id);
+    if (!template) continue;
+    
+    const key = category.toLowerCase();
+    const issues = validateMergeFields({ [key]: [template] }, { [key]: [{ lead: lead.record, contact: lead.contact }] }, sender);
+    if (issues.length > 0) {
+      console.warn(`Personalized opener for ${lead.name} has unresolved merge fields; using the category template`);
+      personalized.delete(lead.id);
+    }
+  }
+  
+  console.log(`Personalized ${personalized.size} of ${highPotentialLeads.length} opening emails for ${category}`);
+  return personalized;
+}
+
+/**
+ * Calculate a future date X days from now
  */
-function computeFutureDate(weeksFromNow: number): Date {
+function computeFutureDate(daysFromNow: number): Date {
   const now = new Date();
-  now.setDate(now.getDate() + weeksFromNow * 7);
+  now.setDate(now.getDate() + daysFromNow);
   return now;
 }
 
 /**
- * Replace placeholders in email template with lead data
+ * Build the queue row for a template personalized for one lead
+ * The HTML body is re-rendered from the merged text so merged values are escaped
  */
-function personalizeEmail(emailTemplate: string, lead: Lead): string {
-  // Replace common placeholders
-  return emailTemplate
-    .replace(/\[Lead Name\]/g, lead.name)
-    .replace(/\[lead name\]/g, lead.name)
-    .replace(/\[NAME\]/g, lead.name)
-    .replace(/\[name\]/g, lead.name)
-    .replace(/\[Business\]/g, lead.name)
-    .replace(/\[business\]/g, lead.name)
-    .replace(/\[Category\]/g, lead.category)
-    .replace(/\[category\]/g, lead.category);
+function buildScheduledEmail(
+  campaignId: string,
+  userId: string,
+  mergeContext: MergeContext,
+  lead: Lead,
+  template: EmailTemplate,
+  sendDate: Date
+): Partial<ScheduledEmail> {
+  const subject = renderMergeFields(template.subject, mergeContext).output;
+  const preheader = renderMergeFields(template.preheader, mergeContext).output;
+  const textBody = renderMergeFields(template.textBody, mergeContext).output;
+  
+  return {
+    user_id: userId,
+    campaign_id: campaignId,
+    lead_id: lead.id,
+    recipient_email: lead.email.trim().toLowerCase(),
+    subject,
+    preheader,
+    html_body: renderEmailHtml(textBody, preheader),
+    text_body: textBody,
+    theme: template.theme,
+    cta_type: template.ctaType,
+    step_index: template.stepIndex,
+    send_at: sendDate.toISOString(),
+    status: 'pending'
+  };
 }
 
 /**
- * Schedule an email to be sent on a specific date
+ * Send a single email through the Resend API right away
+ * @returns The Resend message id
  */
-async function scheduleEmail(
+export async function sendEmail(
   recipientEmail: string,
-  emailContent: string,
-  sendDate: Date
-): Promise<void> {
-  // Extract subject line
-  const subject = extractSubjectLine(emailContent) || "Your Custom Campaign";
-  
-  // Remove subject line from the content if present
-  const cleanContent = emailContent.replace(/^Subject:.*$/mi, '').trim();
+  subject: string,
+  htmlBody: string,
+  options: { text?: string; headers?: Record<string, string>; replyTo?: string; idempotencyKey?: string } = {}
+): Promise<string | null> {
+  if (!RESEND_API_KEY) {
+    throw new Error("Resend API key not configured");
+  }
   
   const headers = {
     Authorization: `Bearer ${RESEND_API_KEY}`,
     "Content-Type": "application/json",
+    // Resend sends a request repeated with the same key only once
+    ...(options.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : {}),
   };
 
-  // Convert HTML content if needed
-  const htmlBody = cleanContent.includes('<html') 
-    ? cleanContent 
-    : `<html><body>${cleanContent.replace(/\n/g, '<br>')}</body></html>`;
-
   // Prepare the payload
   const payload = {
     from: process.env.EMAIL_FROM || "outreach@yourcateringcompany.com",
     to: recipientEmail,
     subject: subject,
     html: htmlBody,
-    // If Resend supports it, we could add:
-    // scheduled_for: sendDate.toISOString(),
+    ...(options.text ? { text: options.text } : {}),
+    ...(options.headers ? { headers: options.headers } : {}),
+    ...(options.replyTo ? { reply_to: options.replyTo } : {}),
   };
 
   try {
-    // Send the email through Resend API
     const resp = await axios.post(RESEND_API_URL, payload, { headers });
-    console.log(`Email scheduled for ${recipientEmail} on ${sendDate.toLocaleDateString()}`);
-    return;
+    return resp.data?.id || null;
   } catch (error: any) {
     console.error(
-      `Failed to schedule email to ${recipientEmail}:`, 
+      `Failed to send email to ${recipientEmail}:`, 
       error.response?.data || error.message
     );
     throw error;
@@ -165,43 +339,290 @@ async function scheduleEmail(
 }
 
 /**
- * Extract the subject line from an email template
+ * Send every queued email whose send date has arrived
+ * Called periodically by the /api/outreach/dispatch cron route
+ * Emails left in sending by a crashed run are queued again. Each send carries an idempotency
+ * key for the email and attempt, so one that went out before the crash is not sent twice.
  */
-function extractSubjectLine(emailContent: string): string | null {
-  // Try to find a Subject: line
-  const match = emailContent.match(/^Subject:\s*(.*)$/mi);
+export async function dispatchDueEmails(now: Date = new Date()) {
+  const stats = {
+    processed: 0,
+    sent: 0,
+    suppressed: 0,
+    retried: 0,
+    failed: 0,
+    reclaimed: 0,
+    unrecorded: 0
+  };
+  
+  // Sender footers by user, looked up once per run
+  const footers = new Map<string, string>();
+  
+  const reclaimed = await db.scheduledEmails.reclaimStale(new Date(now.getTime() - SENDING_TIMEOUT_MINUTES * 60 * 1000));
+  stats.reclaimed = reclaimed.length;
+  
+  const dueEmails = await db.scheduledEmails.getDue(now, DISPATCH_BATCH_SIZE);
+  console.log(`Found ${dueEmails.length} scheduled emails due for sending`);
+  
+  // Campaigns with activity in this run, refreshed once at the end
+  const touchedCampaignIds = new Set<string>();
   
-  if (match) {
-    return match[1].trim();
+  for (const dueEmail of dueEmails) {
+    // Skip emails another worker has already picked up
+    const email = await db.scheduledEmails.claim(dueEmail.id);
+    if (!email) continue;
+    
+    stats.processed++;
+    touchedCampaignIds.add(email.campaign_id);
+    const attempts = email.attempts + 1;
+    let messageId: string | null;
+    
+    try {
+      // Never send to an address that opted out or bounced after the email was queued
+      if (email.user_id && await db.suppressions.isSuppressed(email.user_id, email.recipient_email)) {
+        await db.scheduledEmails.update(email.id, {
+          status: 'cancelled',
+          last_error: 'Recipient is on the suppression list'
+        });
+        stats.suppressed++;
+        continue;
+      }
+      
+      let htmlBody = email.html_body;
+      let textBody = email.text_body || undefined;
+      let emailHeaders: Record<string, string> | undefined;
+      
+      if (email.user_id) {
+        if (!footers.has(email.user_id)) {
+          footers.set(email.user_id, await buildSenderFooter(email.user_id));
+        }
+        
+        const unsubscribeUrl = buildUnsubscribeUrl({ userId: email.user_id, email: email.recipient_email });
+        htmlBody = appendComplianceFooter(email.html_body, footers.get(email.user_id)!, unsubscribeUrl);
+        if (textBody) {
+          textBody = appendTextComplianceFooter(textBody, footers.get(email.user_id)!, unsubscribeUrl);
+        }
+        emailHeaders = {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click"
+        };
+      }
+      
+      messageId = await sendEmail(email.recipient_email, email.subject, htmlBody, {
+        text: textBody,
+        headers: emailHeaders,
+        replyTo: buildReplyToAddress(email.id),
+        idempotencyKey: `scheduled-email-${email.id}-${attempts}`
+      });
+    } catch (error: any) {
+      const lastError = error.response?.data?.message || error.message || String(error);
+      
+      if (attempts < MAX_SEND_ATTEMPTS) {
+        // Put the email back in the queue a little later
+        const retryAt = new Date(now.getTime() + RETRY_DELAY_MINUTES * 60 * 1000);
+        await db.scheduledEmails.update(email.id, {
+          status: 'pending',
+          attempts,
+          send_at: retryAt.toISOString(),
+          last_error: lastError
+        });
+        stats.retried++;
+      } else {
+        await db.scheduledEmails.update(email.id, {
+          status: 'failed',
+          attempts,
+          last_error: lastError
+        });
+        stats.failed++;
+      }
+      continue;
+    }
+    
+    // The email has gone out, so a failure from here on must not queue it again. An email
+    // that cannot be marked sent stays in sending; once reclaimed, its resend reuses the
+    // idempotency key and Resend does not deliver it twice.
+    try {
+      await db.scheduledEmails.update(email.id, {
+        status: 'sent',
+        attempts,
+        provider_message_id: messageId,
+        sent_at: new Date().toISOString(),
+        last_error: null
+      });
+      stats.sent++;
+    } catch (error) {
+      console.error(`Sent scheduled email ${email.id} but could not record it:`, error);
+      stats.unrecorded++;
+      continue;
+    }
+    
+    try {
+      await linkEarlyEvents({ ...email, provider_message_id: messageId });
+    } catch (error) {
+      console.error(`Could not link earlier webhook events to scheduled email ${email.id}:`, error);
+    }
   }
   
-  // Try to find the first line as subject
-  const lines = emailContent.trim().split('\n');
-  if (lines.length > 0) {
-    return lines[0].trim().substring(0, 60); // Limit to 60 chars
+  for (const campaignId of touchedCampaignIds) {
+    try {
+      await refreshCampaignStatus(campaignId);
+    } catch (error) {
+      console.error(`Error updating status for campaign ${campaignId}:`, error);
+    }
+  }
+  
+  console.log(`Dispatch complete. Stats:`, stats);
+  return stats;
+}
+
+/**
+ * Build the Reply-To address for a queued email, if inbound replies are configured
+ * Tagging the address with the queued email id lets replies be matched exactly
+ */
+export function buildReplyToAddress(scheduledEmailId: string): string | undefined {
+  const domain = process.env.INBOUND_REPLY_DOMAIN;
+  return domain ? `reply+${scheduledEmailId}@${domain}` : undefined;
+}
+
+/**
+ * Sender identification for the email footer: business name and postal address
+ */
+async function buildSenderFooter(userId: string): Promise<string> {
+  try {
+    const profile = await db.userProfiles.getByUserId(userId);
+    return [profile?.business_name, profile?.full_address].filter(Boolean).join(' · ');
+  } catch (error) {
+    console.error(`Error loading sender profile for user ${userId}:`, error);
+    return '';
   }
+}
+
+/**
+ * Add the sender address and unsubscribe link required for commercial email
+ */
+function appendComplianceFooter(htmlBody: string, senderFooter: string, unsubscribeUrl: string): string {
+  const footer = `<p style="margin-top:32px;font-size:12px;color:#888">`
+    + (senderFooter ? `${escapeHtml(senderFooter)}<br>` : '')
+    + `Don't want to hear from us? <a href="${unsubscribeUrl}">Unsubscribe</a></p>`;
   
-  return null;
+  return htmlBody.includes('</body>')
+    ? htmlBody.replace('</body>', `${footer}</body>`)
+    : `${htmlBody}${footer}`;
+}
+
+/**
+ * Plain-text version of the compliance footer
+ */
+function appendTextComplianceFooter(textBody: string, senderFooter: string, unsubscribeUrl: string): string {
+  const footer = [senderFooter, `Unsubscribe: ${unsubscribeUrl}`].filter(Boolean).join('\n');
+  return `${textBody}\n\n--\n${footer}`;
 }
 
 /**
- * Get all leads from the database
- * This is a stub that would be replaced with your real database access
+ * Mark a campaign running while it has emails left to send, completed once it has none
  */
-async function getAllLeads(): Promise<Lead[]> {
-  // In a real implementation, you would query your database
-  // For example using Supabase:
-  // const { data, error } = await supabase
-  //   .from('saved_leads')
-  //   .select('id, name, email, category')
-  //   .not('email', 'is', null);
+async function refreshCampaignStatus(campaignId: string) {
+  const openEmails = await db.scheduledEmails.countOpen(campaignId);
+  
+  if (openEmails > 0) {
+    await db.campaigns.update(campaignId, { status: 'running' });
+  } else {
+    await db.campaigns.update(campaignId, {
+      status: 'completed',
+      completed_at: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Pause pending sends for a lead or campaign
+ */
+export async function pauseScheduledEmails(filter: ScheduledEmailFilter) {
+  assertScopedFilter(filter);
+  const updated = await db.scheduledEmails.transition(filter, ['pending'], 'paused');
+  
+  if (filter.campaignId && !filter.leadId) {
+    await updateOwnedCampaign(filter, { status: 'paused' });
+  }
   
-  // For demonstration purposes, return dummy data
-  return [
-    { id: "1", name: "Jane's Wedding Venue", email: "jane@example.com", category: "wedding" },
-    { id: "2", name: "ABC School District", email: "john@example.com", category: "education" },
-    { id: "3", name: "XYZ Corporation", email: "sara@example.com", category: "corporate" },
-    { id: "4", name: "Smith Wedding Planning", email: "smith@example.com", category: "wedding" },
-    { id: "5", name: "Johnson University", email: "johnson@example.com", category: "education" },
-  ];
-}
\ No newline at end of file
+  return updated;
+}
+
+/**
+ * Resume paused sends for a lead or campaign
+ * Emails whose send date passed while paused go out on the next dispatch
+ */
+export async function resumeScheduledEmails(filter: ScheduledEmailFilter) {
+  assertScopedFilter(filter);
+  const updated = await db.scheduledEmails.transition(filter, ['paused'], 'pending');
+  
+  if (filter.campaignId && !filter.leadId) {
+    const campaignEmails = await db.scheduledEmails.getByCampaignId(filter.campaignId);
+    const hasSent = campaignEmails.some(email => email.status === 'sent');
+    await updateOwnedCampaign(filter, { status: hasSent ? 'running' : 'scheduled' });
+  }
+  
+  return updated;
+}
+
+/**
+ * Cancel pending and paused sends for a lead or campaign
+ */
+export async function cancelScheduledEmails(filter: ScheduledEmailFilter) {
+  assertScopedFilter(filter);
+  const updated = await db.scheduledEmails.transition(filter, ['pending', 'paused'], 'cancelled');
+  
+  if (filter.campaignId && !filter.leadId) {
+    await updateOwnedCampaign(filter, {
+      status: 'completed',
+      completed_at: new Date().toISOString()
+    });
+  }
+  
+  return updated;
+}
+
+/**
+ * Update a campaign's status, checking ownership when the filter names a user
+ */
+async function updateOwnedCampaign(filter: ScheduledEmailFilter, updates: Partial<Campaign>) {
+  if (!filter.campaignId) return;
+  
+  if (filter.userId) {
+    const campaign = await db.campaigns.get(filter.campaignId, filter.userId);
+    if (!campaign) return;
+  }
+  
+  await db.campaigns.update(filter.campaignId, updates);
+}
+
+/**
+ * Guard against a pause/resume/cancel call that would match the whole queue
+ */
+function assertScopedFilter(filter: ScheduledEmailFilter) {
+  if (!filter.leadId && !filter.campaignId) {
+    throw new Error("A leadId or campaignId is required");
+  }
+}
+
+/**
+ * Get all of a user's leads that can receive outreach
+ * A lead with no address that passes verification gets an empty email
+ */
+async function getAllLeads(userId: string, requireVerified: boolean = false): Promise<Lead[]> {
+  const leads = await db.savedLeads.getOutreachLeads(userId);
+  
+  return leads.map((lead: any) => {
+    const category = lead.category.toLowerCase().trim();
+    // Write to the venue contact that handles this kind of event, e.g. sales for corporate
+    const contact = selectOutreachContact(lead, category, { requireVerified }) || null;
+    return {
+      id: lead.id,
+      name: lead.name || lead.business_name || 'Business',
+      email: contact?.email || '',
+      category,
+      contact,
+      record: lead
+    };
+  });
+}
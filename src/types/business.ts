@@ -1,4 +1,5 @@
 // Business types for the application
+import type { PlacesSkipReport } from '@/tools/googlePlaces';
 
 // Business entity
 export interface Business {
@@ -23,6 +24,7 @@ export interface Business {
   type?: string;
   description?: string;
   hasEventSpace?: boolean;
+  phoneOnly?: boolean; // Found without a website; reachable by phone only
 }
 
 // Input for enrichment
@@ -57,15 +59,19 @@ export interface BusinessSearchResponse {
   error?: string;
   message?: string;
   workflowRunId?: string; // ID from workflow execution
+  skipped?: PlacesSkipReport; // Places left out of the results, by reason
 }
 
 // Request for business search
 export interface BusinessSearchRequest {
   query: string;
-  location?: string;
+  location?: string; // "lat,lng", an address, a city or a ZIP code; defaults to the user's business location
   radius?: number; // in miles
   coordinates?: {
     lat: number;
     lng: number;
   };
+  coverage?: boolean; // Follow result pages and tile the radius for more than 20 results
+  includeWithoutWebsite?: boolean; // Keep places with only a phone number
+  forceRefresh?: boolean; // Load place details from Google even when they are cached
 } 
\ No newline at end of file
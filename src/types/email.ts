@@ -0,0 +1,27 @@
+// Email template types shared by generation, review and dispatch
+
+// What each email in the drip sequence is about
+export type EmailTheme =
+  | 'introduction'
+  | 'services'
+  | 'testimonials'
+  | 'promotion'
+  | 'seasonal'
+  | 'concerns'
+  | 'last_call'
+  | 'follow_up';
+
+// The call to action an email closes with
+export type CallToActionType = 'call' | 'reply' | 'tasting';
+
+// One email in a drip sequence
+export interface EmailTemplate {
+  stepIndex: number;
+  sendOffsetDays: number; // Days after launch the email goes out
+  subject: string;
+  preheader: string; // Inbox preview text shown after the subject
+  textBody: string;
+  htmlBody: string;
+  theme: EmailTheme;
+  ctaType: CallToActionType;
+}
@@ -3,6 +3,41 @@ import { searchBusinessesWithGooglePlaces } from '@/tools/googlePlaces';
 import { businessAgent, enhanceBusinessBatch } from '@/agents/businessAgent';
 import { BusinessSearchInput, BusinessSearchResult, EnhancedBusinessResult } from './schemas';
 import { stringify, extractJsonFromLlmResponse } from '@/lib/utils';
+import { batchIdFor, JobQueueProgress, runJobQueue, withProvider } from '@/lib/job-queue';
+
+// Businesses sent to the model per enhancement call
+const ENHANCE_BATCH_SIZE = 5;
+
+/**
+ * Enhance businesses in batches through the job queue
+ * Batches that keep failing are dead-lettered and keep their original details
+ */
+async function enhanceBusinessesInQueue(
+  businesses: any[],
+  onProgress?: (progress: JobQueueProgress) => void
+): Promise<any[]> {
+  const batches: any[][] = [];
+  for (let i = 0; i < businesses.length; i += ENHANCE_BATCH_SIZE) {
+    batches.push(businesses.slice(i, i + ENHANCE_BATCH_SIZE));
+  }
+  
+  console.log(`Split businesses into ${batches.length} batches for parallel processing`);
+  
+  const queueResult = await runJobQueue(
+    batches.map((batch, index) => ({ key: `batch-${index}`, payload: { batch, index } })),
+    ({ batch, index }) => withProvider('openai', () => enhanceBusinessBatch(batch, index)),
+    {
+      queue: 'business-enhancement',
+      batchId: batchIdFor('business-enhancement', JSON.stringify(businesses)),
+      onProgress
+    }
+  );
+  
+  return batches.flatMap((batch, index) => {
+    const enhanced = queueResult.results.get(`batch-${index}`);
+    return Array.isArray(enhanced) ? enhanced : batch;
+  });
+}
 
 /**
  * Step to search for businesses using Google Places API
@@ -91,46 +126,18 @@ export const enhanceBusinessesStep = new Step({
     }
     
     try {
-      // Split businesses into smaller batches for parallel processing
-      // We use 5 businesses per batch as a reasonable size
-      const BATCH_SIZE = 5;
-      const batches: any[][] = [];
-      
-      for (let i = 0; i < businesses.length; i += BATCH_SIZE) {
-        batches.push(businesses.slice(i, i + BATCH_SIZE));
-      }
-      
-      console.log(`Split businesses into ${batches.length} batches for parallel processing`);
-      
-      // Process batches in parallel
-      const batchPromises = batches.map((batch, index) => 
-        enhanceBusinessBatch(batch, index)
-      );
-      
-      // Regular progress updates if context has progressEmitter
-      if (progressEmitter) {
-        let processedCount = 0;
-        const totalCount = businesses.length;
-        const updateInterval = setInterval(() => {
-          progressEmitter.emit('progress', {
-            step: 'enhance-businesses',
-            status: 'processing',
-            count: processedCount,
-            total: totalCount,
-            message: `Processed ${processedCount} of ${totalCount} businesses...`
-          });
-        }, 2000); // Update every 2 seconds
-        
-        // Clean up interval when done
-        const cleanup = () => clearInterval(updateInterval);
-        Promise.all(batchPromises).then(cleanup, cleanup);
-      }
-      
-      // Wait for all batches to complete
-      const enhancedBatches = await Promise.all(batchPromises);
-      
-      // Combine all batches into one array
-      const enhancedBusinesses = enhancedBatches.flat();
+      // Progress is reported as each batch finishes
+      const enhancedBusinesses = await enhanceBusinessesInQueue(businesses, progress => {
+        if (!progressEmitter) return;
+        const processedCount = Math.min(businesses.length, (progress.done + progress.deadLettered) * ENHANCE_BATCH_SIZE);
+        progressEmitter.emit('progress', {
+          step: 'enhance-businesses',
+          status: 'processing',
+          count: processedCount,
+          total: businesses.length,
+          message: `Processed ${processedCount} of ${businesses.length} businesses...`
+        });
+      });
       
       console.log(`Successfully enhanced ${enhancedBusinesses.length} businesses in parallel`);
       
@@ -209,11 +216,11 @@ export const enhanceBusinessesStreamingStep = new Step({
     }
     
     try {
-      // Since enhanceBusinessesWithStreaming is not available, use enhanceBusinessBatch instead
+      // Since enhanceBusinessesWithStreaming is not available, use batch enhancement instead
       console.log(`Using batch enhancement instead of streaming for ${businesses.length} businesses`);
       
-      // Process businesses with enhanceBusinessBatch
-      const enhancedBusinesses = await enhanceBusinessBatch(businesses, 0);
+      // Process businesses through the enhancement queue
+      const enhancedBusinesses = await enhanceBusinessesInQueue(businesses);
       
       // Update progress
       if (progressEmitter) {
@@ -28,16 +28,18 @@ export default leadEnrichmentWorkflow;
 
 /**
  * Extract and enhance leads' website data
+ * @param userId Owner of the leads
  * @param leadIds Array of lead IDs to enrich
+ * @param forceRefresh Crawl websites again instead of using cached extracts
  */
-export async function enrichLeadsFromWorkflow(leadIds: string[]) {
+export async function enrichLeadsFromWorkflow(userId: string, leadIds: string[], forceRefresh: boolean = false) {
   try {
     // Start the workflow execution
     const { runId, start } = leadEnrichmentWorkflow.createRun();
     
     // Execute the workflow
     const result = await start({
-      triggerData: { leadIds }
+      triggerData: { userId, leadIds, forceRefresh }
     });
     
     // Get the results from the extract-website-data step
@@ -4,7 +4,9 @@ import { z } from 'zod';
  * Input schema for the lead enrichment workflow
  */
 export const leadEnrichmentInputSchema = z.object({
-  leadIds: z.array(z.string()).describe('IDs of leads to enrich')
+  userId: z.string().describe('Owner of the leads'),
+  leadIds: z.array(z.string()).describe('IDs of leads to enrich'),
+  forceRefresh: z.boolean().optional().describe('Crawl websites again instead of using cached extracts')
 });
 
 /**
@@ -13,10 +15,10 @@ export const leadEnrichmentInputSchema = z.object({
 export interface LeadData {
   id: string;
   name?: string;
-  website_url?: string;
+  website_url?: string | null;
   enrichment_data?: any;
-  lead_score?: number;
-  category?: string;
+  lead_score?: number | null;
+  category?: string | null;
   [key: string]: any;
 }
 
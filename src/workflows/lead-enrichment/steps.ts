@@ -1,7 +1,9 @@
 import { Step } from '@mastra/core/workflows';
-import { createClient } from '@/utils/supabase/client-compat';
-import { enrichLeadData } from '@/agents/enrichmentAgent';
-import { LeadData } from './schemas';
+import { enrichLeadFromWebsite } from '@/agents/enrichment';
+import { batchIdFor, runJobQueue } from '@/lib/job-queue';
+import { getLeadsByIds, saveLeadEnrichment } from '@/lib/leads/repository';
+import { getScoringProfile } from '@/lib/leads/scoring-profiles';
+import { LeadData, LeadExtractionResult } from './schemas';
 
 /**
  * Helper function to normalize and validate URLs
@@ -35,7 +37,11 @@ export const fetchLeadsStep = new Step({
   description: 'Fetch leads from the database',
   execute: async (context) => {
     // Access triggerData safely
-    const leadIds = (context as any).triggerData?.leadIds || [];
+    const { userId, leadIds = [] } = (context as any).triggerData || {};
+    
+    if (!userId) {
+      throw new Error('userId is required to fetch leads');
+    }
     
     if (leadIds.length === 0) {
       throw new Error('No lead IDs provided');
@@ -43,21 +49,14 @@ export const fetchLeadsStep = new Step({
     
     console.log(`Fetching ${leadIds.length} leads from the database`);
     
-    const supabase = await createClient();
-    const { data, error } = await supabase
-      .from('saved_leads')
-      .select('*')
-      .in('id', leadIds);
-
-    if (error) {
-      throw new Error(`Error fetching leads: ${error.message}`);
-    }
+    // Only the user's own leads, with their manual corrections applied
+    const leads = await getLeadsByIds(userId, leadIds);
 
-    if (!data || data.length === 0) {
+    if (leads.length === 0) {
       throw new Error('No leads found with the provided IDs');
     }
     
-    return { leads: data };
+    return { leads };
   }
 });
 
@@ -75,83 +74,53 @@ export const extractWebsiteDataStep = new Step({
       throw new Error('No leads provided to extract-website-data step');
     }
     
-    // Process leads in parallel with a reasonable batch size
-    const batchSize = 5;
-    const results = [];
+    // Enrich through the job queue; rerunning the same leads resumes where a crashed run stopped
+    const leadIds = leads.map((lead: LeadData) => lead.id);
+    const { userId, forceRefresh = false } = (context as any).triggerData || {};
+    const batchId = (context as any).triggerData?.batchId ||
+      batchIdFor('lead-enrichment', userId, ...[...leadIds].sort(), ...(forceRefresh ? [`refresh-${Date.now()}`] : []));
     
-    for (let i = 0; i < leads.length; i += batchSize) {
-      const batch = leads.slice(i, i + batchSize);
-      
-      // Use Promise.all to process batch in parallel
-      const batchResults = await Promise.all(
-        batch.map(async (lead: LeadData) => {
-          try {
-            // Normalize website URL
-            const websiteUrl = normalizeUrl(lead.website_url || lead.enrichment_data?.website);
-            
-            // Skip leads without website URLs
-            if (!websiteUrl) {
-              return {
-                leadId: lead.id,
-                success: false,
-                error: 'No valid website URL',
-                lead
-              };
-            }
-            
-            // Enrich lead data using the enrichment agent
-            const enrichmentData = await enrichLeadData(lead, websiteUrl);
-            
-            // Extract lead score safely
-            let leadScore = 0;
-            if (enrichmentData && typeof enrichmentData === 'object') {
-              // Try different possible property paths
-              if ('leadScore' in enrichmentData && 
-                  typeof enrichmentData.leadScore === 'object' && 
-                  enrichmentData.leadScore !== null && 
-                  'score' in enrichmentData.leadScore) {
-                leadScore = Number(enrichmentData.leadScore.score) || 0;
-              } else if ('lead_score' in enrichmentData) {
-                leadScore = Number(enrichmentData.lead_score) || 0;
-              }
-            }
-            
-            // Update lead in database
-            const supabase = await createClient();
-            await supabase
-              .from('saved_leads')
-              .update({
-                enrichment_data: enrichmentData,
-                lead_score: leadScore,
-                last_enriched_at: new Date().toISOString()
-              })
-              .eq('id', lead.id);
-            
-            // Return successful result
-            return {
-              leadId: lead.id,
-              success: true,
-              lead: {
-                ...lead,
-                enrichment_data: enrichmentData,
-                lead_score: leadScore
-              }
-            };
-          } catch (error) {
-            console.error(`Error enriching lead ${lead.id}:`, error);
-            
-            return {
-              leadId: lead.id,
-              success: false,
-              error: error instanceof Error ? error.message : String(error),
-              lead
-            };
-          }
-        })
-      );
-      
-      results.push(...batchResults);
-    }
+    const queueResult = await runJobQueue(
+      leads.map((lead: LeadData) => ({ key: lead.id, payload: lead })),
+      async (lead: LeadData): Promise<LeadExtractionResult> => {
+        // Normalize website URL
+        const websiteUrl = normalizeUrl(lead.website_url || lead.enrichment_data?.website);
+        
+        // Skip leads without website URLs
+        if (!websiteUrl) {
+          return {
+            leadId: lead.id,
+            success: false,
+            error: 'No valid website URL',
+            lead
+          };
+        }
+        
+        // Enrich lead data using the enrichment agent, scored with the owner's scoring profile
+        const scoringProfile = await getScoringProfile(userId);
+        const enrichmentData = await enrichLeadFromWebsite(lead, websiteUrl, scoringProfile, { forceRefresh });
+        
+        // Save the results on the lead, the same way enrichLeads does
+        const saved = await saveLeadEnrichment(userId, lead.id, enrichmentData, scoringProfile);
+        
+        // Return successful result
+        return {
+          leadId: lead.id,
+          success: true,
+          lead: saved
+        };
+      },
+      { queue: 'lead-enrichment', batchId }
+    );
+    
+    // Dead-lettered leads are reported as failures with their last error
+    const deadLetters = new Map(queueResult.deadLettered.map(letter => [letter.key, letter]));
+    const results: LeadExtractionResult[] = leads.map((lead: LeadData) => queueResult.results.get(lead.id) || {
+      leadId: lead.id,
+      success: false,
+      error: deadLetters.get(lead.id)?.error || 'Enrichment did not finish',
+      lead
+    });
     
     // Calculate success metrics
     const successful = results.filter(r => r.success);
@@ -42,12 +42,14 @@ outreachCampaignWorkflow.commit();
  * Execute the Outreach Campaign workflow
  * 
  * @param categories Array of business categories to target
+ * @param userId Authenticated user whose leads and profile are used
  * @param userEmail User's email for notifications
  * @param progressCallback Optional callback for progress updates
  * @returns Results of the outreach campaign workflow
  */
 export async function executeOutreachCampaign(
   categories: string[],
+  userId: string,
   userEmail?: string,
   progressCallback?: (event: { step: string; status: string; message?: string }) => void
 ) {
@@ -80,6 +82,7 @@ export async function executeOutreachCampaign(
     const results = await start({
       triggerData: { 
         categories, 
+        userId,
         userEmail,
         useAI: true,
         templateCount: 8 
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { EventEmitter } from 'events';
+import { emailTemplateSchema } from '@/lib/email-templates';
 
 /**
  * Input schema for outreach campaign workflow
@@ -48,7 +49,7 @@ export const fetchLeadsResultSchema = z.object({
  * Output schema for generate emails step
  */
 export const generateEmailsResultSchema = z.object({
-  emailTemplates: z.record(z.string(), z.array(z.string())),
+  emailTemplates: z.record(z.string(), z.array(emailTemplateSchema)),
   categoryCounts: z.array(z.string())
 });
 
@@ -81,7 +82,7 @@ export const outreachCampaignResultSchema = z.object({
       category: z.string()
     })
   )).optional(),
-  emailTemplates: z.record(z.string(), z.array(z.string())).optional(),
+  emailTemplates: z.record(z.string(), z.array(emailTemplateSchema)).optional(),
   campaignStats: z.array(
     z.object({
       category: z.string(),
@@ -1,15 +1,11 @@
-import { createClient } from '@supabase/supabase-js';
 import { generateDripCampaign } from '../../agents/outreachAgent';
-import { scheduleDripCampaign } from '../../tools/resend';
+import { scheduleDripCampaign, ScheduleDripOptions, validateDripCampaign } from '../../tools/resend';
+import { describeMergeIssue } from '../../lib/merge-fields';
+import { db } from '../../lib/db';
+import { selectOutreachContact } from '../../lib/leads/contacts';
+import type { EmailTemplate } from '../../types/email';
 import { Step } from '@mastra/core/workflows';
 
-// Initialize Supabase client
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-
-// Create Supabase client instance once
-const supabase = createClient(supabaseUrl, supabaseKey);
-
 interface Lead {
   id: string;
   name: string;
@@ -25,23 +21,26 @@ interface StepContext {
 }
 
 /**
- * Step to fetch leads from saved_leads DB and categorize them
+ * Step to fetch the user's leads from saved_leads DB and categorize them
  */
 export const fetchLeadsStep = new Step({
   id: 'fetch-leads',
   description: 'Fetch leads from saved_leads database and group by category',
   execute: async (context: StepContext) => {
-    console.log('Fetching leads from saved_leads database');
+    const { userId } = context.triggerData || {};
+    
+    if (!userId) {
+      throw new Error('userId is required to fetch leads');
+    }
+    
+    console.log(`Fetching leads from saved_leads database for user: ${userId}`);
     
     try {
-      // Get all leads that have a category and email (required for outreach)
-      const { data: leads, error } = await supabase
-        .from('saved_leads')
-        .select('*')
-        .not('category', 'is', null)
-        .not('email', 'is', null);
-      
-      if (error) {
+      // Get the user's leads that have a category and email (required for outreach)
+      let leads: any[];
+      try {
+        leads = await db.savedLeads.getOutreachLeads(userId);
+      } catch (error: any) {
         console.error('Error fetching leads:', error);
         throw new Error(`Failed to fetch leads: ${error.message}`);
       }
@@ -71,7 +70,7 @@ export const fetchLeadsStep = new Step({
         categorizedLeads[category].push({
           id: lead.id,
           name: lead.name || lead.business_name || 'Business',
-          email: lead.email,
+          email: selectOutreachContact(lead, category)?.email || lead.email,
           category
         });
       });
@@ -115,23 +114,17 @@ export const generateEmailsStep = new Step({
     console.log(`Generating email templates for ${categories.length} categories`);
     
     // Generate 8 emails for each category using the AI agent
-    const emailTemplates: Record<string, string[]> = {};
+    const emailTemplates: Record<string, EmailTemplate[]> = {};
     
-    // Get user profile for personalized emails
+    // Get the user's own profile for personalized emails
     try {
-      // Fetch the first user profile as a fallback
-      const { data: profileData, error: profileError } = await supabase
-        .from('user_profiles')
-        .select('*')
-        .limit(1)
-        .single();
+      const { userId } = context.triggerData || {};
+      const userProfile = await db.userProfiles.getByUserId(userId);
       
-      if (profileError) {
-        console.warn('Could not fetch user profile for personalization:', profileError.message);
+      if (!userProfile) {
+        console.warn(`No user profile found for user ${userId}, generating without personalization`);
       }
       
-      const userProfile = profileData || null;
-      
       for (const category of categories) {
         console.log(`Generating email templates for category: ${category}`);
         try {
@@ -169,15 +162,32 @@ export const generateEmailsStep = new Step({
   }
 });
 
+/**
+ * Remove a campaign whose launch failed, cancelling any emails already queued for it
+ */
+async function discardCampaign(campaignId: string, userId: string) {
+  try {
+    await db.scheduledEmails.transition({ userId, campaignId }, ['pending'], 'cancelled');
+    await db.campaigns.delete(campaignId);
+  } catch (error) {
+    console.error(`Error discarding campaign ${campaignId}:`, error);
+  }
+}
+
 /**
  * Launch the approved email campaign
+ * The campaign record is removed again if nothing could be scheduled
  */
 export const launchCampaignStep = new Step({
   id: 'launch-campaign',
   description: 'Schedule and send the approved email campaign',
   execute: async (context: StepContext) => {
     // Get approved templates
-    const { approvedTemplates, userEmail } = context.triggerData || {};
+    const { approvedTemplates, userId, userEmail, campaignName, personalizeOpeners, requireVerifiedEmails, alignToVenueCalendar } = context.triggerData || {};
+    
+    if (!userId) {
+      throw new Error('userId is required to launch a campaign');
+    }
     
     if (!approvedTemplates || Object.keys(approvedTemplates).length === 0) {
       throw new Error('No approved templates provided');
@@ -188,8 +198,44 @@ export const launchCampaignStep = new Step({
       const fetchResults = context.getStepResult('fetch-leads');
       const { categorizedLeads } = fetchResults || { categorizedLeads: {} };
       
-      console.log('Scheduling email campaigns with Resend');
-      await scheduleDripCampaign(approvedTemplates);
+      // Refuse to launch while any email would go out with an unfilled placeholder
+      const mergeIssues = await validateDripCampaign(approvedTemplates, userId, { requireVerifiedEmails });
+      if (mergeIssues.length > 0) {
+        throw new Error(`Campaign has unresolved merge fields: ${mergeIssues.map(describeMergeIssue).join('; ')}`);
+      }
+      
+      // Record the campaign before queueing so every send can reference it
+      const categories = Object.keys(approvedTemplates);
+      const campaign = await db.campaigns.create({
+        user_id: userId,
+        name: campaignName || `${categories.join(', ')} campaign - ${new Date().toLocaleDateString()}`,
+        categories,
+        approved_templates: approvedTemplates,
+        status: 'draft',
+        scheduled_by: userEmail || null
+      });
+      
+      console.log(`Scheduling email campaign ${campaign.id} with Resend`);
+      try {
+        const scheduleResult = await scheduleDripCampaign(approvedTemplates, userId, campaign.id, { personalizeOpeners, requireVerifiedEmails, alignToVenueCalendar });
+        
+        if (scheduleResult.scheduledEmails === 0) {
+          const skipped = scheduleResult.unverifiedLeads > 0
+            ? ` (${scheduleResult.unverifiedLeads} skipped without a verified email address)`
+            : '';
+          throw new Error(`No leads are eligible for this campaign${skipped}`);
+        }
+        
+        // A campaign left in draft would be launched again, so a failure here discards it too
+        await db.campaigns.update(campaign.id, {
+          lead_roster: scheduleResult.leadRoster,
+          status: 'scheduled',
+          launched_at: new Date().toISOString()
+        });
+      } catch (error) {
+        await discardCampaign(campaign.id, userId);
+        throw error;
+      }
       
       // Calculate campaign stats for reporting
       const categoryCounts = Object.keys(categorizedLeads).map(category => ({
@@ -204,6 +250,7 @@ export const launchCampaignStep = new Step({
       
       return {
         success: true,
+        campaignId: campaign.id,
         campaignStats: {
           categories: categoryCounts,
           totalLeads,
@@ -222,14 +269,15 @@ export const launchCampaignStep = new Step({
 /**
  * Main workflow function to start the email campaign process
  * This gets called by the API route
+ * @param userId Authenticated user whose leads and profile are used
  */
-export async function startEmailCampaignWorkflow() {
+export async function startEmailCampaignWorkflow(userId: string) {
   try {
-    console.log('Starting email campaign workflow');
+    console.log(`Starting email campaign workflow for user: ${userId}`);
     
     // Create proper context objects
     const fetchContext: StepContext = {
-      triggerData: {},
+      triggerData: { userId },
       getStepResult: () => ({})
     };
     
@@ -250,7 +298,7 @@ export async function startEmailCampaignWorkflow() {
     
     // Execute the generate emails step with proper context
     const generateContext: StepContext = {
-      triggerData: {},
+      triggerData: { userId },
       getStepResult: (stepId: string) => {
         if (stepId === 'fetch-leads') return fetchResult;
         return null;
@@ -285,17 +333,25 @@ export async function startEmailCampaignWorkflow() {
 /**
  * Function to launch the approved campaigns
  * Called after user approves the emails in the UI
+ * @param approvedEmails Approved email templates by category
+ * @param userId Authenticated user whose leads are targeted
+ * @param userEmail Email of the user launching the campaign, for reporting
+ * @param options Optional display name for the campaign record, and how its emails are queued (see ScheduleDripOptions)
  */
 export async function launchApprovedCampaigns(
-  approvedEmails: Record<string, string[]>,
-  userEmail: string
+  approvedEmails: Record<string, EmailTemplate[]>,
+  userId: string,
+  userEmail: string,
+  options: ScheduleDripOptions & { campaignName?: string } = {}
 ) {
+  const { campaignName, personalizeOpeners = false, requireVerifiedEmails = false, alignToVenueCalendar = false } = options;
+  
   try {
-    console.log('Launching approved campaigns');
+    console.log(`Launching approved campaigns for user: ${userId}`);
     
     // Execute the fetch leads step with proper context
     const fetchContext: StepContext = {
-      triggerData: {},
+      triggerData: { userId },
       getStepResult: () => ({})
     };
     
@@ -303,7 +359,7 @@ export async function launchApprovedCampaigns(
     
     // Execute the launch campaign step with proper context
     const launchContext: StepContext = {
-      triggerData: { approvedEmails, userEmail },
+      triggerData: { approvedTemplates: approvedEmails, userId, userEmail, campaignName, personalizeOpeners, requireVerifiedEmails, alignToVenueCalendar },
       getStepResult: (stepId: string) => {
         if (stepId === 'fetch-leads') return fetchResult;
         return null;
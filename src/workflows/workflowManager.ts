@@ -7,6 +7,7 @@ import { executeOutreachCampaign } from '@/workflows/outreach-campaign';
 import EventEmitter from 'events';
 import { WorkflowOptions } from '@mastra/core/workflows';
 import { createTraceableFunction } from '@/lib/langsmith-client';
+import { auth } from '@/auth';
 
 type ContextSetupFn = (context: any) => void;
 
@@ -84,8 +85,20 @@ export class WorkflowManager {
 
   /**
    * Execute the lead enrichment workflow
+   * Leads are loaded for data.userId, or for the signed-in user when it is not given.
+   * data.forceRefresh crawls websites again instead of using cached extracts.
    */
   private async executeLeadEnrichmentWorkflow(data: any) {
+    const userId = data.userId || (await auth()).user?.id;
+    
+    if (!userId) {
+      return {
+        success: false,
+        enrichedBusinesses: [],
+        error: "Authentication required to enrich leads"
+      };
+    }
+    
     // For direct enrichment with lead objects
     if (data.leads && Array.isArray(data.leads)) {
       const leadIds = data.leads.map((lead: any) => lead.id).filter(Boolean);
@@ -98,18 +111,22 @@ export class WorkflowManager {
         };
       }
       
-      return enrichLeads(leadIds);
+      return enrichLeads(leadIds, userId, { forceRefresh: !!data.forceRefresh });
     }
     
     // Standard enrichment with leadIds
-    return enrichLeads(data.leadIds || []);
+    return enrichLeads(data.leadIds || [], userId, { forceRefresh: !!data.forceRefresh });
   }
 
   /**
    * Execute the outreach campaign workflow
    */
   private async executeOutreachCampaignWorkflow(data: OutreachCampaignInput) {
-    const { categories, userEmail } = data;
+    const { categories, userId, userEmail } = data;
+    
+    if (!userId) {
+      throw new Error('userId is required for the outreach campaign workflow');
+    }
     
     // Create a progress callback function if needed
     const progressCallback = data.progressEmitter ? 
@@ -117,7 +134,7 @@ export class WorkflowManager {
         data.progressEmitter?.emit('progress', event);
       } : undefined;
     
-    return executeOutreachCampaign(categories || [], userEmail, progressCallback);
+    return executeOutreachCampaign(categories || [], userId, userEmail, progressCallback);
   }
 }
 
@@ -0,0 +1,55 @@
+-- Create scheduled_emails table (persistent send queue for drip campaigns)
+CREATE TABLE IF NOT EXISTS scheduled_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL,  -- Groups every send created by one campaign launch
+  lead_id TEXT NOT NULL,      -- saved_leads id of the recipient
+  recipient_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  step_index INTEGER NOT NULL DEFAULT 0,  -- Position of the email in the drip sequence
+  send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'paused', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  provider_message_id TEXT,  -- Id returned by Resend once dispatched
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create indexes for the dispatcher and for pause/resume/cancel lookups
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_due ON scheduled_emails(status, send_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_user_id ON scheduled_emails(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_campaign_id ON scheduled_emails(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_lead_id ON scheduled_emails(lead_id);
+
+-- Add Row Level Security
+ALTER TABLE scheduled_emails ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own scheduled emails
+CREATE POLICY "Users can view their own scheduled emails"
+  ON scheduled_emails FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can update their own scheduled emails (pause, resume, cancel)
+CREATE POLICY "Users can update their own scheduled emails"
+  ON scheduled_emails FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_scheduled_emails_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_scheduled_emails_updated_at
+  BEFORE UPDATE ON scheduled_emails
+  FOR EACH ROW
+  EXECUTE FUNCTION update_scheduled_emails_updated_at();
@@ -0,0 +1,59 @@
+-- Create campaigns table (one row per launched outreach campaign)
+CREATE TABLE IF NOT EXISTS campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  categories TEXT[] DEFAULT '{}',
+  approved_templates JSONB DEFAULT '{}'::jsonb,  -- Snapshot of the approved emails by category
+  lead_roster JSONB DEFAULT '[]'::jsonb,          -- Leads targeted at launch: id, name, email, category
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'running', 'paused', 'completed')),
+  scheduled_by TEXT,  -- Email of the user who launched the campaign
+  launched_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_campaigns_user_id ON campaigns(user_id);
+CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status);
+
+-- Link queued emails to their campaign
+ALTER TABLE scheduled_emails
+  ADD CONSTRAINT scheduled_emails_campaign_id_fkey
+  FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE;
+
+-- Add Row Level Security
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own campaigns
+CREATE POLICY "Users can view their own campaigns"
+  ON campaigns FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can insert their own campaigns
+CREATE POLICY "Users can insert their own campaigns"
+  ON campaigns FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own campaigns
+CREATE POLICY "Users can update their own campaigns"
+  ON campaigns FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_campaigns_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_campaigns_updated_at();
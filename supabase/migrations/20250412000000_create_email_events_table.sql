@@ -0,0 +1,33 @@
+-- Create email_events table (engagement events reported by Resend webhooks)
+CREATE TABLE IF NOT EXISTS email_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id TEXT NOT NULL,  -- svix-id header, used to ignore redelivered webhooks
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE CASCADE,
+  scheduled_email_id UUID REFERENCES scheduled_emails(id) ON DELETE CASCADE,
+  lead_id TEXT,
+  provider_message_id TEXT NOT NULL,  -- Resend email id
+  event_type TEXT NOT NULL
+    CHECK (event_type IN ('sent', 'delivered', 'delivery_delayed', 'opened', 'clicked', 'bounced', 'complained')),
+  recipient_email TEXT,
+  link TEXT,  -- Clicked URL for click events
+  payload JSONB DEFAULT '{}'::jsonb,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT email_events_webhook_id_key UNIQUE (webhook_id)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_email_events_user_id ON email_events(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_events_campaign_id ON email_events(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_email_events_lead_id ON email_events(lead_id);
+CREATE INDEX IF NOT EXISTS idx_email_events_provider_message_id ON email_events(provider_message_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_provider_message_id ON scheduled_emails(provider_message_id);
+
+-- Add Row Level Security
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can view events for their own emails
+CREATE POLICY "Users can view their own email events"
+  ON email_events FOR SELECT
+  USING (auth.uid() = user_id);
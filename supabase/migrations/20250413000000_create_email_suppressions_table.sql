@@ -0,0 +1,33 @@
+-- Create email_suppressions table (addresses a user must never email again)
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL,  -- Stored lowercased
+  reason TEXT NOT NULL
+    CHECK (reason IN ('unsubscribed', 'hard_bounce', 'complaint', 'manual')),
+  lead_id TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT email_suppressions_user_id_email_key UNIQUE (user_id, email)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_user_id ON email_suppressions(user_id);
+
+-- Add Row Level Security
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own suppression list
+CREATE POLICY "Users can view their own suppressions"
+  ON email_suppressions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Users can add to their own suppression list
+CREATE POLICY "Users can insert their own suppressions"
+  ON email_suppressions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Users can remove manual blocks from their own suppression list
+CREATE POLICY "Users can delete their own manual suppressions"
+  ON email_suppressions FOR DELETE
+  USING (auth.uid() = user_id AND reason = 'manual');
@@ -0,0 +1,33 @@
+-- Create email_replies table (inbound replies to outreach emails)
+CREATE TABLE IF NOT EXISTS email_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+  scheduled_email_id UUID REFERENCES scheduled_emails(id) ON DELETE SET NULL,
+  lead_id TEXT NOT NULL,
+  message_id TEXT NOT NULL,  -- Message-ID header of the reply, used to ignore duplicates
+  in_reply_to TEXT,
+  from_email TEXT NOT NULL,
+  from_name TEXT,
+  subject TEXT,
+  text_body TEXT,
+  html_body TEXT,
+  match_method TEXT NOT NULL  -- How the reply was tied to the lead: reply_address or sender
+    CHECK (match_method IN ('reply_address', 'sender')),
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT email_replies_message_id_key UNIQUE (message_id)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_email_replies_user_id ON email_replies(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_replies_lead_id ON email_replies(lead_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_recipient_email ON scheduled_emails(recipient_email);
+
+-- Add Row Level Security
+ALTER TABLE email_replies ENABLE ROW LEVEL SECURITY;
+
+-- Users can view replies from their own leads
+CREATE POLICY "Users can view their own email replies"
+  ON email_replies FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,6 @@
+-- Store the plain-text part and template metadata with each queued email
+ALTER TABLE scheduled_emails
+  ADD COLUMN IF NOT EXISTS text_body TEXT,
+  ADD COLUMN IF NOT EXISTS preheader TEXT,
+  ADD COLUMN IF NOT EXISTS theme TEXT,     -- EmailTemplate theme of the drip step
+  ADD COLUMN IF NOT EXISTS cta_type TEXT;  -- call, reply or tasting
@@ -0,0 +1,29 @@
+-- Create enrichment_jobs table (URL enrichment progress and results)
+CREATE TABLE IF NOT EXISTS enrichment_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,  -- NULL for jobs started without a session
+  url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'complete', 'error')),
+  step TEXT,  -- Stage a running job is in: validating, extracting, processing or generating
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  result JSONB,
+  error TEXT,
+  message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_user_id ON enrichment_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_enrichment_jobs_status_updated_at ON enrichment_jobs(status, updated_at);
+
+-- Add Row Level Security
+ALTER TABLE enrichment_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own enrichment jobs
+CREATE POLICY "Users can view their own enrichment jobs"
+  ON enrichment_jobs FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Create job_queue_items table (progress of batch enrichment jobs, used to resume after a crash)
+CREATE TABLE IF NOT EXISTS job_queue_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue TEXT NOT NULL,  -- e.g. lead-enrichment, business-enhancement
+  batch_id TEXT NOT NULL,
+  item_key TEXT NOT NULL,  -- Lead id, batch index, etc.
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'done', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  result JSONB,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT job_queue_items_batch_item_key UNIQUE (queue, batch_id, item_key)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_job_queue_items_dead ON job_queue_items(queue, updated_at) WHERE status = 'dead';
+
+-- Only the service role reads and writes queue items
+ALTER TABLE job_queue_items ENABLE ROW LEVEL SECURITY;
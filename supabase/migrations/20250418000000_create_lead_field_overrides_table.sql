@@ -0,0 +1,22 @@
+-- Create lead_field_overrides table (values a user corrected by hand; enrichment never writes here)
+CREATE TABLE IF NOT EXISTS lead_field_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_id TEXT NOT NULL,  -- saved_leads id
+  field TEXT NOT NULL,  -- Lead column, or enrichment.<field> for enrichment data
+  value JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT lead_field_overrides_lead_field_key UNIQUE (lead_id, field)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_lead_field_overrides_user_id ON lead_field_overrides(user_id);
+
+-- Add Row Level Security
+ALTER TABLE lead_field_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the corrections they made
+CREATE POLICY "Users can view their own lead field overrides"
+  ON lead_field_overrides FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+-- Create scoring_profiles table (each user's lead scoring weights, cutoffs and rules)
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,  -- Partial ScoringProfile; missing values use the defaults
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Add Row Level Security
+ALTER TABLE scoring_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own scoring profile
+CREATE POLICY "Users can view their own scoring profile"
+  ON scoring_profiles FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Create lead_outcomes table (how outreach to each lead turned out, used to calibrate lead scores)
+CREATE TABLE IF NOT EXISTS lead_outcomes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  lead_id TEXT NOT NULL,  -- saved_leads id
+  campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL,
+  outcome TEXT NOT NULL
+    CHECK (outcome IN ('booked', 'replied', 'no_response', 'rejected')),
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CONSTRAINT lead_outcomes_user_lead_key UNIQUE (user_id, lead_id)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_lead_outcomes_user_id ON lead_outcomes(user_id);
+
+-- Add Row Level Security
+ALTER TABLE lead_outcomes ENABLE ROW LEVEL SECURITY;
+
+-- Users can view the outcomes of their own leads
+CREATE POLICY "Users can view their own lead outcomes"
+  ON lead_outcomes FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,52 @@
+-- Create api_cache table (responses from paid APIs such as Google Place Details and Firecrawl, reused until they expire)
+CREATE TABLE IF NOT EXISTS api_cache (
+  namespace TEXT NOT NULL,  -- e.g. places_details, firecrawl
+  cache_key TEXT NOT NULL,  -- Place id, normalized URL, etc.
+  value JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (namespace, cache_key)
+);
+
+-- Create indexes for faster queries
+CREATE INDEX IF NOT EXISTS idx_api_cache_expires_at ON api_cache(expires_at);
+
+-- Only the service role reads and writes cached responses
+ALTER TABLE api_cache ENABLE ROW LEVEL SECURITY;
+
+-- Create api_cache_stats table (hit and miss counts per namespace, shared by every server instance)
+CREATE TABLE IF NOT EXISTS api_cache_stats (
+  namespace TEXT PRIMARY KEY,
+  hits BIGINT NOT NULL DEFAULT 0,
+  misses BIGINT NOT NULL DEFAULT 0,     -- Not cached, or expired
+  refreshes BIGINT NOT NULL DEFAULT 0,  -- Cached copy skipped by forceRefresh
+  writes BIGINT NOT NULL DEFAULT 0,
+  errors BIGINT NOT NULL DEFAULT 0,     -- Cache reads or writes that failed
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE api_cache_stats ENABLE ROW LEVEL SECURITY;
+
+-- Add to a namespace's counts in one statement, so concurrent lookups are not lost
+CREATE OR REPLACE FUNCTION increment_api_cache_stats(
+  p_namespace TEXT,
+  p_hits BIGINT,
+  p_misses BIGINT,
+  p_refreshes BIGINT,
+  p_writes BIGINT,
+  p_errors BIGINT
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO api_cache_stats (namespace, hits, misses, refreshes, writes, errors)
+  VALUES (p_namespace, p_hits, p_misses, p_refreshes, p_writes, p_errors)
+  ON CONFLICT (namespace) DO UPDATE SET
+    hits = api_cache_stats.hits + EXCLUDED.hits,
+    misses = api_cache_stats.misses + EXCLUDED.misses,
+    refreshes = api_cache_stats.refreshes + EXCLUDED.refreshes,
+    writes = api_cache_stats.writes + EXCLUDED.writes,
+    errors = api_cache_stats.errors + EXCLUDED.errors,
+    updated_at = now();
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,104 @@
+/**
+ * Tests for search location geocoding
+ *
+ * Resolves coordinates, addresses, cities and ZIP codes through the fixture geocoder in
+ * ./fixtures/geocoding.json, checks the cache and the profile fallback, and runs the Google
+ * adapter against a fake fetch.
+ *
+ * Run with: pnpm test:geocoding
+ */
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import '../helpers/setup';
+
+process.env.GOOGLE_PLACES_API_KEY = 'test-places-key';
+
+const USER_ID: string = '11111111-1111-4111-8111-111111111111';
+const fixtures = JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'geocoding.json'), 'utf8'));
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const geocoding = await import('../../src/lib/geocoding');
+  const { GooglePlacesService } = await import('../../src/tools/googlePlaces');
+
+  // Count the calls that reach the adapter, to see the cache at work
+  const fixture = geocoding.createFixtureGeocoder(fixtures);
+  const queries: string[] = [];
+  geocoding.setGeocoder({ name: 'counting', geocode: query => { queries.push(query); return fixture.geocode(query); } });
+
+  assert.deepEqual(geocoding.parseCoordinates('35.7796, -78.6382'), { lat: 35.7796, lng: -78.6382 });
+  assert.equal(geocoding.parseCoordinates('27616'), null);
+  assert.equal(geocoding.parseCoordinates('135,20'), null);
+  console.log('✓ coordinates are recognized');
+
+  // Cities, ZIP codes and addresses are geocoded once, then answered from the cache
+  let location = await geocoding.resolveSearchLocation('Raleigh, NC');
+  assert.deepEqual(location, { lat: 35.7796, lng: -78.6382, label: 'Raleigh, NC, USA', source: 'geocoded' });
+  location = await geocoding.resolveSearchLocation('  raleigh ,NC. ');
+  assert.equal(location.lat, 35.7796);
+  assert.equal((await geocoding.resolveSearchLocation('27616')).label, 'Raleigh, NC 27616, USA');
+  assert.equal((await geocoding.resolveSearchLocation('5249 Capital Blvd, Raleigh, NC 27616')).lng, -78.5806);
+  assert.deepEqual(queries, ['Raleigh, NC', '27616', '5249 Capital Blvd, Raleigh, NC 27616']);
+  assert.deepEqual(await geocoding.resolveSearchLocation('35.1,-80.2'), { lat: 35.1, lng: -80.2, label: '35.1,-80.2', source: 'coordinates' });
+  await assert.rejects(geocoding.resolveSearchLocation('Atlantis'), /Could not find a location for "Atlantis"/);
+  console.log('✓ text locations are geocoded and cached');
+
+  // Without a location, the user's saved business location is the center
+  let profile: any = { latitude: 35.9, longitude: -78.9, full_address: '1 Main St, Durham, NC' };
+  db.userProfiles.getByUserId = async userId => userId === USER_ID ? profile : null;
+  assert.deepEqual(await geocoding.resolveSearchLocation('', USER_ID), { lat: 35.9, lng: -78.9, label: '1 Main St, Durham, NC', source: 'profile' });
+  profile = { latitude: null, longitude: null, full_address: 'Raleigh, NC', user_input_data: { coordinates: { lat: '35.7', lng: '-78.6' } } };
+  assert.deepEqual(await geocoding.resolveSearchLocation(null, USER_ID), { lat: 35.7, lng: -78.6, label: 'Raleigh, NC', source: 'profile' });
+  profile = { full_address: '27616' };
+  assert.equal((await geocoding.resolveSearchLocation(undefined, USER_ID)).lat, 35.8676);
+  await assert.rejects(geocoding.resolveSearchLocation('', 'someone-else'), /add your business address/);
+  await assert.rejects(geocoding.resolveSearchLocation('', 'someone-else'), geocoding.LocationNotFoundError);
+  console.log('✓ the profile location is the default');
+
+  // Searches accept text locations
+  const searched: URL[] = [];
+  globalThis.fetch = (async (input: any) => {
+    const url = new URL(String(input));
+    searched.push(url);
+    return new Response(JSON.stringify({ status: 'ZERO_RESULTS', results: [] }));
+  }) as typeof fetch;
+  const result = await new GooglePlacesService(0).search('wedding venue', 'Raleigh, NC', 10);
+  assert.equal(result.businesses.length, 0);
+  assert.equal(searched[0].searchParams.get('location'), '35.7796,-78.6382');
+  console.log('✓ Places searches take addresses and cities');
+
+  // The Google adapter reads the first result and reports API errors
+  const responses: any[] = [
+    { status: 'OK', results: [{ formatted_address: 'Durham, NC, USA', geometry: { location: { lat: 35.99, lng: -78.9 } } }] },
+    { status: 'ZERO_RESULTS', results: [] },
+    { status: 'REQUEST_DENIED', error_message: 'Bad key' },
+    { status: 'OVER_QUERY_LIMIT', error_message: 'Quota exceeded' },
+  ];
+  globalThis.fetch = (async (input: any) => {
+    const url = new URL(String(input));
+    assert.equal(url.pathname, '/maps/api/geocode/json');
+    assert.equal(url.searchParams.get('key'), 'test-places-key');
+    return new Response(JSON.stringify(responses.shift()));
+  }) as typeof fetch;
+  const google = geocoding.createGoogleGeocoder();
+  assert.deepEqual(await google.geocode('Durham, NC'), { lat: 35.99, lng: -78.9, formattedAddress: 'Durham, NC, USA' });
+  assert.equal(await google.geocode('Atlantis'), null);
+  await assert.rejects(google.geocode('Durham'), /REQUEST_DENIED - Bad key/);
+  await assert.rejects(geocoding.createGoogleGeocoder('').geocode('Durham'), /GOOGLE_PLACES_API_KEY/);
+  console.log('✓ the Google adapter calls the Geocoding API');
+
+  // A failing geocoder is not mistaken for a location that matches nothing
+  await assert.rejects(geocoding.resolveSearchLocation('Atlantis'), geocoding.LocationNotFoundError);
+  geocoding.setGeocoder(google);
+  await assert.rejects(geocoding.resolveSearchLocation('Durham'), error =>
+    !(error instanceof geocoding.LocationNotFoundError) && /OVER_QUERY_LIMIT/.test((error as Error).message));
+  console.log('✓ geocoder failures are told apart from unknown locations');
+}
+
+run()
+  .then(() => console.log('\nAll geocoding tests passed'))
+  .catch(error => {
+    console.error('Geocoding tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,135 @@
+/**
+ * Tests for Google Places coverage search
+ *
+ * Answers Nearby Search and Place Details requests from a fake fetch, checking pagination,
+ * radius tiling, de-duplication across tiles, phone-only leads and the skip report.
+ *
+ * Run with: pnpm test:places-coverage
+ */
+import assert from 'node:assert/strict';
+
+// The job queue loads the db module, which creates its Supabase client on import
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key';
+process.env.GOOGLE_PLACES_API_KEY = 'test-places-key';
+
+const CENTER = { lat: 40.7128, lng: -74.006 };
+
+function milesBetween(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const h = Math.sin(toRadians(b.lat - a.lat) / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(toRadians(b.lng - a.lng) / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Place n: every third has no website, every seventh has neither website nor phone
+const place = (n: number, location = CENTER) => ({ place_id: `place-${n}`, name: `Venue ${n}`, vicinity: `${n} Main St`, types: ['event_venue'], geometry: { location } });
+function details(n: number) {
+  if (n % 7 === 0) return { name: `Venue ${n}` };
+  return {
+    name: `Venue ${n}`,
+    formatted_address: `${n} Main St, New York, NY`,
+    formatted_phone_number: `(555) 000-${String(n).padStart(4, '0')}`,
+    website: n % 3 === 0 ? undefined : `https://venue${n}.example`,
+  };
+}
+
+type Handler = (url: URL) => any;
+const requests: URL[] = [];
+let resetCache = () => {};
+function fakeFetch(nearby: Handler) {
+  requests.length = 0;
+  resetCache();
+  globalThis.fetch = (async (input: any) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    assert.equal(url.searchParams.get('key'), 'test-places-key');
+    const body = url.pathname.endsWith('/details/json')
+      ? { status: 'OK', result: details(Number(url.searchParams.get('place_id')!.split('-')[1])) }
+      : nearby(url);
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+}
+
+async function run() {
+  const queue = await import('../../src/lib/job-queue');
+  const geocoding = await import('../../src/lib/geocoding');
+  const apiCache = await import('../../src/lib/api-cache');
+  const { coverageTiles, GooglePlacesService } = await import('../../src/tools/googlePlaces');
+  queue.configureProvider('google_places', { concurrency: 10, requestsPerMinute: 10000 });
+  // Each case starts with no cached place details
+  resetCache = () => apiCache.setCacheStore(apiCache.createInMemoryCacheStore());
+  const service = new GooglePlacesService(0);
+
+  // Small radii are one search; large ones are tiled with no gaps and a bounded tile count
+  assert.deepEqual(coverageTiles(CENTER, 3), [{ center: CENTER, radiusMiles: 3 }]);
+  const tiles = coverageTiles(CENTER, 25);
+  assert.ok(tiles.length > 1 && tiles.length <= 25, `${tiles.length} tiles`);
+  for (let dx = -25; dx <= 25; dx += 2.5) {
+    for (let dy = -25; dy <= 25; dy += 2.5) {
+      if (Math.hypot(dx, dy) > 25) continue;
+      const point = { lat: CENTER.lat + dy / 69, lng: CENTER.lng + dx / (69 * Math.cos(CENTER.lat * Math.PI / 180)) };
+      assert.ok(tiles.some(tile => milesBetween(tile.center, point) <= tile.radiusMiles * 1.01), `gap at ${dx},${dy}`);
+    }
+  }
+  console.log('✓ large radii are split into overlapping tiles');
+
+  // The default search reads one page and only keeps places with a website
+  fakeFetch(() => ({ status: 'OK', results: Array.from({ length: 20 }, (_, i) => place(i + 1)), next_page_token: 'page-2' }));
+  let result = await service.search('wedding venue', `${CENTER.lat},${CENTER.lng}`, 10);
+  assert.equal(requests.filter(url => url.pathname.endsWith('/nearbysearch/json')).length, 1);
+  assert.equal(result.businesses.length, 12);
+  assert.deepEqual(result.skipped, { noWebsite: 6, noContact: 2, outsideRadius: 0, duplicate: 0, detailsFailed: 0 });
+  assert.deepEqual([result.tiles, result.pages, result.saturatedTiles], [1, 1, 0]);
+  assert.ok(result.businesses.every(business => business.website && !business.phoneOnly));
+  console.log('✓ the default search keeps its single page and reports skipped places');
+
+  // Coverage mode follows next_page_token, retrying a token that is not ready yet
+  let tokenAttempts = 0;
+  fakeFetch(url => {
+    const token = url.searchParams.get('pagetoken');
+    if (!token) return { status: 'OK', results: Array.from({ length: 20 }, (_, i) => place(i + 1)), next_page_token: 'page-2' };
+    if (token === 'page-2' && tokenAttempts++ === 0) return { status: 'INVALID_REQUEST' };
+    const offset = token === 'page-2' ? 20 : 40;
+    return {
+      status: 'OK',
+      results: Array.from({ length: 20 }, (_, i) => place(offset + i + 1)),
+      next_page_token: token === 'page-2' ? 'page-3' : 'page-4',
+    };
+  });
+  result = await service.search('wedding venue', `${CENTER.lat},${CENTER.lng}`, 3, { coverage: true, includeWithoutWebsite: true });
+  assert.equal(requests.filter(url => url.searchParams.get('pagetoken')).length, 3);
+  assert.deepEqual([result.tiles, result.pages, result.saturatedTiles], [1, 3, 1]);
+  assert.equal(result.businesses.length, 52);
+  assert.equal(result.skipped.noContact, 8);
+  assert.equal(result.skipped.noWebsite, 0);
+  const phoneOnly = result.businesses.find(business => business.place_id === 'place-3');
+  assert.equal(phoneOnly?.phoneOnly, true);
+  assert.equal(phoneOnly?.phone, '(555) 000-0003');
+  console.log('✓ coverage mode follows pagination and keeps phone-only places when asked');
+
+  // Places found by several tiles are merged; tile overlap past the radius is dropped
+  const far = { lat: CENTER.lat + 14 / 69, lng: CENTER.lng };
+  fakeFetch(() => ({ status: 'OK', results: [place(1), place(2), place(4, far)] }));
+  result = await service.search('wedding venue', `${CENTER.lat},${CENTER.lng}`, 12, { coverage: true, tileRadiusMiles: 5 });
+  assert.ok(result.tiles > 1);
+  assert.deepEqual(result.businesses.map(business => business.place_id).sort(), ['place-1', 'place-2']);
+  assert.equal(result.skipped.duplicate, (result.tiles - 1) * 3);
+  assert.equal(result.skipped.outsideRadius, 1);
+  assert.equal(requests.filter(url => url.pathname.endsWith('/details/json')).length, 2);
+  console.log('✓ tiles are merged and de-duplicated');
+
+  // API errors on the first page are raised; locations that do not geocode are rejected
+  fakeFetch(() => ({ status: 'REQUEST_DENIED', error_message: 'Bad key' }));
+  await assert.rejects(service.search('wedding venue', `${CENTER.lat},${CENTER.lng}`, 3), /REQUEST_DENIED - Bad key/);
+  geocoding.setGeocoder(geocoding.createFixtureGeocoder({}));
+  await assert.rejects(service.search('wedding venue', 'Atlantis', 3), /Could not find a location/);
+  console.log('✓ errors are reported');
+}
+
+run()
+  .then(() => console.log('\nAll Places coverage tests passed'))
+  .catch(error => {
+    console.error('Places coverage tests failed:', error);
+    process.exit(1);
+  });
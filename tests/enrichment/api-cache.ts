@@ -0,0 +1,144 @@
+/**
+ * Tests for the Places details and Firecrawl response cache
+ *
+ * Runs against the in-memory cache store with Google and Firecrawl answered by a fake
+ * fetch, checking cache keys, expiry, forced refreshes, hit counts and that failures
+ * are never cached.
+ *
+ * Run with: pnpm test:api-cache
+ */
+import assert from 'node:assert/strict';
+import '../helpers/setup';
+
+process.env.GOOGLE_PLACES_API_KEY = 'test-places-key';
+process.env.FIRECRAWL_API_KEY = 'test-firecrawl-key';
+
+const json = (body: any, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+async function run() {
+  const apiCache = await import('../../src/lib/api-cache');
+  const queue = await import('../../src/lib/job-queue');
+  const { getPlaceDetails, GooglePlacesService } = await import('../../src/tools/googlePlaces');
+  const { extractWebsiteData } = await import('../../src/tools/firecrawl');
+  queue.configureProvider('google_places', { concurrency: 10, requestsPerMinute: 10000 });
+
+  const store = apiCache.createInMemoryCacheStore();
+  apiCache.setCacheStore(store);
+
+  // The same page written differently shares one key
+  const { cacheKeyForUrl } = apiCache;
+  assert.equal(cacheKeyForUrl('https://www.SummitHall.example/'), 'summithall.example');
+  assert.equal(cacheKeyForUrl('summithall.example'), 'summithall.example');
+  assert.equal(cacheKeyForUrl('http://summithall.example/weddings/?utm_source=x&b=2&a=1#tour'), 'summithall.example/weddings?a=1&b=2');
+  assert.notEqual(cacheKeyForUrl('summithall.example/weddings'), cacheKeyForUrl('summithall.example/events'));
+  console.log('✓ URLs are normalized into cache keys');
+
+  // Responses are reused until they expire, skipped on a forced refresh, and counted
+  let calls = 0;
+  const fetcher = async () => ({ call: ++calls });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-1', fetcher), { call: 1 });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-1', fetcher), { call: 1 });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-1', fetcher, { forceRefresh: true }), { call: 2 });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-1', fetcher), { call: 2 });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-2', fetcher, { ttlMs: -1 }), { call: 3 });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-2', fetcher), { call: 4 });
+  assert.deepEqual(await apiCache.cached('firecrawl', 'place-1', fetcher), { call: 5 });
+  assert.equal(await store.deleteExpiredBefore(new Date()), 0);
+
+  let stats = await apiCache.getCacheStats();
+  assert.deepEqual(stats.places_details, { hits: 2, misses: 3, refreshes: 1, writes: 4, errors: 0, hitRate: 2 / 6 });
+  assert.equal(stats.firecrawl.misses, 1);
+  console.log('✓ cached responses are reused until they expire or are refreshed');
+
+  // A broken cache falls back to the API
+  apiCache.setCacheStore({
+    ...store,
+    get: async () => { throw new Error('cache offline'); },
+    set: async () => { throw new Error('cache offline'); },
+  });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-1', fetcher), { call: 6 });
+  assert.equal((await apiCache.getCacheStats()).places_details.errors, 2);
+  apiCache.setCacheStore({
+    ...store,
+    incrementStats: async () => { throw new Error('stats offline'); },
+  });
+  assert.deepEqual(await apiCache.cached('places_details', 'place-1', fetcher), { call: 2 });
+  assert.equal((await store.getStats()).find(row => row.namespace === 'places_details')?.hits, 2);
+  console.log('✓ cache failures fall back to the API');
+
+  // Counts live in the store, so a fresh store starts from zero
+  apiCache.setCacheStore(apiCache.createInMemoryCacheStore());
+  assert.deepEqual((await apiCache.getCacheStats()).places_details, { hits: 0, misses: 0, refreshes: 0, writes: 0, errors: 0, hitRate: 0 });
+
+  // Place details are fetched once per place; failed lookups are tried again
+  const requests: URL[] = [];
+  let detailsStatus = 'OK';
+  globalThis.fetch = (async (input: any) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    if (url.pathname.endsWith('/details/json')) {
+      const placeId = url.searchParams.get('place_id')!;
+      return json(detailsStatus === 'OK'
+        ? { status: 'OK', result: { name: `Venue ${placeId}`, website: `https://${placeId}.example`, formatted_phone_number: '555-0100' } }
+        : { status: detailsStatus });
+    }
+    return json({ status: 'OK', results: ['a', 'b'].map(id => ({ place_id: id, name: `Venue ${id}`, geometry: { location: { lat: 40.7, lng: -74 } } })) });
+  }) as typeof fetch;
+  const details = () => requests.filter(url => url.pathname.endsWith('/details/json')).length;
+
+  detailsStatus = 'UNKNOWN_ERROR';
+  await assert.rejects(getPlaceDetails('a'), /UNKNOWN_ERROR/);
+  detailsStatus = 'OK';
+  assert.equal((await getPlaceDetails('a')).name, 'Venue a');
+  assert.equal(details(), 2);
+
+  const service = new GooglePlacesService(0);
+  let result = await service.search('wedding venue', '40.7,-74', 5);
+  assert.equal(result.businesses.length, 2);
+  assert.equal(details(), 3);
+  result = await service.search('wedding venue', '40.7,-74', 5);
+  assert.equal(result.businesses.length, 2);
+  assert.equal(details(), 3);
+  result = await service.search('wedding venue', '40.7,-74', 5, { forceRefresh: true });
+  assert.equal(details(), 5);
+  stats = await apiCache.getCacheStats();
+  assert.deepEqual([stats.places_details.hits, stats.places_details.refreshes], [3, 2]);
+  console.log('✓ repeat searches reuse place details');
+
+  // Website extracts are cached by normalized URL; failed crawls are not
+  let crawls = 0;
+  let crawlFails = true;
+  globalThis.fetch = (async (input: any, init?: any) => {
+    assert.equal(String(input), 'https://api.firecrawl.dev/v1/extract');
+    crawls++;
+    if (crawlFails) return new Response('Service unavailable', { status: 503 });
+    const { urls } = JSON.parse(init.body);
+    return json({ success: true, data: { venueName: 'Summit Hall', website: urls[0], crawl: crawls } });
+  }) as typeof fetch;
+
+  let extract = await extractWebsiteData({ urls: ['https://www.summithall.example/'] });
+  assert.equal(extract.success, false);
+  crawlFails = false;
+  extract = await extractWebsiteData({ urls: ['https://www.summithall.example/'] });
+  assert.deepEqual([extract.success, extract.data.crawl], [true, 2]);
+  extract = await extractWebsiteData({ url: 'summithall.example' });
+  assert.equal(extract.data.crawl, 2);
+  extract = await extractWebsiteData({ url: 'summithall.example', prompt: 'Find the catering policy' });
+  assert.equal(extract.data.crawl, 3);
+  extract = await extractWebsiteData({ url: 'summithall.example', forceRefresh: true });
+  assert.equal(extract.data.crawl, 4);
+  extract = await extractWebsiteData({ url: 'https://summithall.example' });
+  assert.equal(extract.data.crawl, 4);
+  assert.equal(crawls, 4);
+  stats = await apiCache.getCacheStats();
+  assert.deepEqual([stats.firecrawl.hits, stats.firecrawl.misses, stats.firecrawl.refreshes, stats.firecrawl.writes], [2, 3, 1, 3]);
+  console.log('✓ website extracts are reused and failures retried');
+}
+
+run()
+  .then(() => console.log('\nAll API cache tests passed'))
+  .catch(error => {
+    console.error('API cache tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,121 @@
+/**
+ * Tests for outcome-driven score calibration
+ *
+ * Builds calibration reports from sample outcomes, then records outcomes for leads held in
+ * the in-memory leads repository with the lead_outcomes table stubbed out.
+ *
+ * Run with: pnpm test:score-calibration
+ */
+import assert from 'node:assert/strict';
+import type { LeadOutcome, LeadOutcomeRecord, SavedLead } from '../../src/lib/db';
+import '../helpers/setup';
+
+const USER_ID: string = '11111111-1111-4111-8111-111111111111';
+
+// Venues with a phone number scored 60; venues with a preferred caterer list and no phone 50
+const WARM = { eventManagerEmail: 'events@warm.example', eventManagerPhone: '(555) 123-4567', inHouseCatering: false };
+const COLD = { eventManagerEmail: 'events@cold.example', inHouseCatering: false, preferredCaterers: ['Gourmet Co'] };
+
+function samples(warmOutcomes: LeadOutcome[], coldOutcomes: LeadOutcome[]) {
+  return [
+    ...warmOutcomes.map((outcome, index) => ({ leadId: `warm-${index}`, outcome, enrichmentData: WARM })),
+    ...coldOutcomes.map((outcome, index) => ({ leadId: `cold-${index}`, outcome, enrichmentData: COLD })),
+  ];
+}
+
+async function run() {
+  const { DEFAULT_SCORING_PROFILE } = await import('../../src/agents/enrichment/scoring');
+  const { db } = await import('../../src/lib/db');
+  const leads = await import('../../src/lib/leads/repository');
+  const scoring = await import('../../src/lib/leads/scoring-profiles');
+  const calibration = await import('../../src/lib/leads/calibration');
+
+  // Scores that predict engagement: every warm venue engaged, no cold venue did
+  let report = calibration.buildCalibrationReport(
+    samples(
+      ['booked', 'booked', 'booked', 'replied', 'replied', 'replied'],
+      ['no_response', 'no_response', 'no_response', 'no_response', 'rejected', 'rejected']
+    ),
+    DEFAULT_SCORING_PROFILE
+  );
+  assert.equal(report.totalOutcomes, 12);
+  assert.deepEqual(report.outcomes, { booked: 3, replied: 3, no_response: 4, rejected: 2 });
+  assert.deepEqual(report.overall, { leads: 12, booked: 3, engaged: 6, bookedRate: 0.25, engagedRate: 0.5 });
+  const [, , middle, upper] = report.buckets;
+  assert.deepEqual([middle.label, middle.leads, middle.engagedRate], ['40-59', 6, 0]);
+  assert.deepEqual([upper.label, upper.leads, upper.bookedRate, upper.engagedRate], ['60-79', 6, 0.5, 1]);
+  assert.equal(report.potentials.medium.leads, 12);
+  assert.equal(report.monotonic, true);
+  console.log('✓ outcomes are grouped by score bucket and potential');
+
+  // The phone number separates the groups, so its weight goes up; the caterer list is a
+  // penalty, so its weight goes up too. Criteria every lead shares get no suggestion.
+  const phone = report.suggestions.find(suggestion => suggestion.weight === 'phone');
+  assert.deepEqual([phone?.current, phone?.suggested], [10, 40]);
+  assert.match(phone!.reason, /100% of leads meeting this criterion engaged, against 0% of the rest/);
+  const caterers = report.suggestions.find(suggestion => suggestion.weight === 'preferredCaterers');
+  assert.deepEqual([caterers?.current, caterers?.suggested], [0, 30]);
+  assert.equal(report.suggestions.length, 2);
+  console.log('✓ weights are suggested from how each criterion engaged');
+
+  // Scores that run against the outcomes are flagged and the phone weight is lowered
+  report = calibration.buildCalibrationReport(
+    samples(
+      ['no_response', 'no_response', 'no_response', 'no_response', 'rejected', 'replied'],
+      ['booked', 'booked', 'replied', 'replied', 'replied', 'no_response']
+    ),
+    DEFAULT_SCORING_PROFILE
+  );
+  assert.equal(report.monotonic, false);
+  assert.equal(report.suggestions.find(suggestion => suggestion.weight === 'phone')?.suggested, 0);
+  console.log('✓ scores that do not predict outcomes are flagged');
+
+  // Too few outcomes on either side of a criterion suggests nothing
+  report = calibration.buildCalibrationReport(samples(['booked', 'replied'], ['rejected']), DEFAULT_SCORING_PROFILE);
+  assert.deepEqual(report.suggestions, []);
+  console.log('✓ small samples do not move weights');
+
+  // Outcomes are recorded for the user's own leads and fed into their report
+  const savedLeads: SavedLead[] = [
+    ...['a', 'b', 'c', 'd', 'e'].map(key => ({ id: `warm-${key}`, user_id: USER_ID, name: `Warm ${key}`, status: 'enriched', enrichment_data: { ...WARM } })),
+    ...['a', 'b', 'c', 'd', 'e'].map(key => ({ id: `cold-${key}`, user_id: USER_ID, name: `Cold ${key}`, status: 'enriched', enrichment_data: { ...COLD } })),
+    { id: 'new-lead', user_id: USER_ID, name: 'Corner Cafe', status: 'new' },
+  ];
+  leads.setLeadsRepository(leads.createInMemoryLeadsRepository(savedLeads));
+  scoring.setScoringProfileStore(scoring.createInMemoryScoringProfileStore());
+
+  const recorded: LeadOutcomeRecord[] = [];
+  db.leadOutcomes.record = async outcome => {
+    const existing = recorded.findIndex(row => row.user_id === outcome.user_id && row.lead_id === outcome.lead_id);
+    const row = { ...outcome, recorded_at: new Date().toISOString() } as LeadOutcomeRecord;
+    if (existing >= 0) recorded[existing] = row; else recorded.push(row);
+    return row;
+  };
+  db.leadOutcomes.getByUser = async userId => recorded.filter(row => row.user_id === userId);
+
+  await assert.rejects(calibration.recordLeadOutcome(USER_ID, 'warm-a', 'won' as LeadOutcome), /Outcome must be one of/);
+  assert.equal(await calibration.recordLeadOutcome(USER_ID, 'missing', 'booked'), null);
+  assert.equal(recorded.length, 0);
+
+  for (const key of ['a', 'b', 'c', 'd', 'e']) {
+    await calibration.recordLeadOutcome(USER_ID, `warm-${key}`, 'no_response');
+    await calibration.recordLeadOutcome(USER_ID, `cold-${key}`, 'rejected');
+  }
+  await calibration.recordLeadOutcome(USER_ID, 'warm-a', 'booked', 'campaign-spring');
+  await calibration.recordLeadOutcome(USER_ID, 'new-lead', 'replied');
+  assert.equal(recorded.length, 11);
+  assert.equal(recorded.find(row => row.lead_id === 'warm-a')?.campaign_id, 'campaign-spring');
+
+  report = await calibration.getCalibrationReport(USER_ID);
+  assert.equal(report.totalOutcomes, 10);
+  assert.deepEqual(report.outcomes, { booked: 1, replied: 0, no_response: 4, rejected: 5 });
+  assert.equal(report.buckets[3].engaged, 1);
+  console.log('✓ recorded outcomes feed the user\'s report; unenriched leads are left out');
+}
+
+run()
+  .then(() => console.log('\nAll score calibration tests passed'))
+  .catch(error => {
+    console.error('Score calibration tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,113 @@
+/**
+ * Tests for competitor intelligence from venues' preferred caterers
+ *
+ * Normalizes caterer names, finds venues that allow a single caterer, checks the scoring
+ * penalty for an exclusive competitor, and builds the competitor report from a user's
+ * leads held in the in-memory leads repository.
+ *
+ * Run with: pnpm test:competitors
+ */
+import assert from 'node:assert/strict';
+import type { SavedLead } from '../../src/lib/db';
+import '../helpers/setup';
+
+const USER_ID = '44444444-4444-4444-8444-444444444444';
+
+const lead = (id: string, category: string, enrichment_data: Record<string, any>): SavedLead => ({
+  id, user_id: USER_ID, name: `Venue ${id}`, category, status: 'enriched', enrichment_data,
+} as SavedLead);
+
+async function run() {
+  const { catererKey, cleanCatererList, collectCaterers, findExclusiveCaterer, sameCaterer } = await import('../../src/agents/enrichment/caterers');
+  const { calculateLeadScore, DEFAULT_SCORING_PROFILE } = await import('../../src/agents/enrichment/scoring');
+  const leads = await import('../../src/lib/leads/repository');
+  const scoring = await import('../../src/lib/leads/scoring-profiles');
+  const { buildCompetitorReport, getCompetitorReport } = await import('../../src/lib/leads/competitors');
+
+  // Spellings of the same caterer reduce to one key
+  assert.equal(catererKey('The Fork & Feast Catering Co.'), 'fork and feast');
+  assert.equal(catererKey('Fork and Feast, LLC'), 'fork and feast');
+  assert.equal(catererKey('Café Rouge Caterers'), 'cafe rouge');
+  assert.equal(catererKey('Catering Co'), 'catering co');
+  assert.equal(sameCaterer('Fork & Feast', 'Fork & Feast Events'), true);
+  assert.equal(sameCaterer('Fork & Feast', 'Forklift Feasts'), false);
+  assert.equal(sameCaterer('Ace', 'Ace Hardware Catering'), false);
+  console.log('✓ caterer names are normalized');
+
+  assert.deepEqual(
+    cleanCatererList(['Fork & Feast', ' fork and feast catering ', 'list', 'N/A', '', null, 'Savory Spoon']),
+    ['Fork & Feast', 'Savory Spoon']
+  );
+  console.log('✓ preferred caterer lists drop placeholders and repeats');
+
+  // The model names the exclusive caterer, or the page says catering is exclusive
+  assert.equal(findExclusiveCaterer({ preferredCaterers: ['Savory Spoon Catering'], exclusiveCaterer: 'Savory Spoon' }, ''), 'Savory Spoon Catering');
+  assert.equal(findExclusiveCaterer({ preferredCaterers: ['Savory Spoon'] }, 'Savory Spoon is our exclusive caterer.'), 'Savory Spoon');
+  assert.equal(findExclusiveCaterer({ preferredCaterers: ['Savory Spoon', 'Fork & Feast'] }, 'Exclusive catering packages available.'), undefined);
+  assert.equal(findExclusiveCaterer({ preferredCaterers: ['Savory Spoon'] }, 'Ask us about our preferred vendors.'), undefined);
+  assert.deepEqual(collectCaterers({ preferredCaterers: ['Fork & Feast'], exclusiveCaterer: 'Blue Plate' }, ''), {
+    preferredCaterers: ['Blue Plate', 'Fork & Feast'],
+    exclusiveCaterer: 'Blue Plate',
+  });
+  console.log('✓ exclusive caterers are found and kept on the preferred list');
+
+  // An exclusive competitor costs more than a preferred list; being the exclusive caterer costs nothing
+  const profile = { ...DEFAULT_SCORING_PROFILE, businessName: 'Fresh Plates' };
+  const venue = { eventManagerEmail: 'events@hall.example', inHouseCatering: false };
+  const base = calculateLeadScore(venue, profile).score;
+  const exclusive = calculateLeadScore({ ...venue, preferredCaterers: ['Blue Plate'], exclusiveCaterer: 'Blue Plate' }, profile);
+  assert.equal(exclusive.score, base - DEFAULT_SCORING_PROFILE.weights.exclusiveCaterer);
+  assert.ok(exclusive.reasons.some(reason => reason.includes('Exclusive caterer: Blue Plate')));
+  assert.equal(calculateLeadScore({ ...venue, preferredCaterers: ['Fresh Plates Catering'], exclusiveCaterer: 'Fresh Plates Catering' }, profile).score, base);
+  const weighted = { ...profile, weights: { ...profile.weights, preferredCaterers: 10 } };
+  assert.equal(calculateLeadScore({ ...venue, preferredCaterers: ['Blue Plate'] }, weighted).score, base - 10);
+  assert.equal(calculateLeadScore({ ...venue, preferredCaterers: ['Blue Plate', 'Fresh Plates'] }, weighted).score, base);
+  console.log('✓ scoring penalizes venues with an exclusive competitor');
+
+  // The report groups spellings and shows who holds which venues and categories
+  const saved = [
+    lead('a', 'Wedding Venue', { preferredCaterers: ['Fork & Feast', 'Savory Spoon'] }),
+    lead('b', 'wedding venue', { preferredCaterers: ['Fork and Feast Catering', 'Fresh Plates'] }),
+    lead('c', 'Wedding Venue', { preferredCaterers: ['Fork & Feast'], exclusiveCaterer: 'Fork & Feast' }),
+    lead('d', 'Conference Center', { preferredCaterers: ['Savory Spoon Caterers', 'Blue Plate'] }),
+    lead('e', 'Conference Center', { preferredCaterers: ['Fresh Plates Catering'], exclusiveCaterer: 'Fresh Plates Catering' }),
+    lead('f', '', {}),
+  ];
+  const report = buildCompetitorReport(saved, 'Fresh Plates');
+  assert.deepEqual([report.totalVenues, report.venuesWithCaterers, report.exclusiveVenues], [6, 5, 1]);
+  assert.deepEqual(report.competitors.map(competitor => [competitor.name, competitor.venues.length, competitor.exclusiveVenues]), [
+    ['Fork & Feast', 3, 1],
+    ['Savory Spoon', 2, 0],
+    ['Blue Plate', 1, 0],
+  ]);
+  const forkAndFeast = report.competitors[0];
+  assert.deepEqual(forkAndFeast.aliases, ['Fork and Feast Catering']);
+  assert.equal(forkAndFeast.share, 3 / 5);
+  assert.deepEqual(forkAndFeast.categories, [{ category: 'wedding venue', venues: 3 }]);
+  assert.deepEqual(report.categories.map(category => [category.category, category.venues, category.topCompetitors.map(top => top.name)]), [
+    ['wedding venue', 3, ['Fork & Feast', 'Savory Spoon']],
+    ['conference center', 2, ['Savory Spoon', 'Blue Plate']],
+    ['uncategorized', 1, []],
+  ]);
+  assert.deepEqual(report.venuesListingUs.map(venue => [venue.id, venue.exclusive]), [['b', false], ['e', true]]);
+  assert.deepEqual(buildCompetitorReport(saved).venuesListingUs, []);
+  console.log('✓ the report groups competitors by venue and category');
+
+  // The report covers every saved lead, with the user's corrections and business name
+  leads.setLeadsRepository(leads.createInMemoryLeadsRepository(saved));
+  scoring.setScoringProfileStore(scoring.createInMemoryScoringProfileStore());
+  await scoring.saveScoringProfile(USER_ID, { businessName: 'Fresh Plates' });
+  await leads.setLeadOverride(USER_ID, 'e', 'name', 'Lakeside Hall');
+  const loaded = await getCompetitorReport(USER_ID);
+  assert.equal(loaded.businessName, 'Fresh Plates');
+  assert.deepEqual(loaded.venuesListingUs.map(venue => venue.name), ['Venue b', 'Lakeside Hall']);
+  assert.equal(loaded.competitors.length, 3);
+  console.log('✓ the report loads the user\'s saved leads');
+}
+
+run()
+  .then(() => console.log('\nAll competitor tests passed'))
+  .catch(error => {
+    console.error('Competitor tests failed:', error);
+    process.exit(1);
+  });
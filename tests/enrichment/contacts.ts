@@ -0,0 +1,176 @@
+/**
+ * Tests for venue contacts
+ *
+ * Extracts contacts from a sample crawled site, combines them with the model's answer,
+ * and checks which contact outreach writes to for each campaign category, including
+ * contacts corrected by hand and duplicate leads being merged.
+ *
+ * Run with: pnpm test:lead-contacts
+ */
+import assert from 'node:assert/strict';
+import type { EmailTemplate } from '../../src/types/email';
+import { stubCampaignLaunch } from '../helpers/db';
+import '../helpers/setup';
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const SITE = 'https://www.grandhotel.example';
+
+// Two pages of a content bundle, as the crawler writes it
+const BUNDLE = [
+  `### Contact page: ${SITE}/contact (Contact Us)`,
+  'Contact Us',
+  'Jordan Park, Wedding Coordinator',
+  'jordan.park@grandhotel.example · (555) 201-3000',
+  'Alex Rivera',
+  'Director of Sales',
+  'Email Alex (arivera@grandhotel.example)',
+  'Catering office: catering@grandhotel.example',
+  'General enquiries: info@grandhotel.example',
+  'Grand Hotel · 1 Park Avenue · (555) 201-2000',
+  '',
+  `### Weddings page: ${SITE}/weddings (Weddings)`,
+  'Planning a wedding? Email weddings@grandhotel.example',
+  'Casey Lee, Executive Chef — (555) 201-3010',
+].join('\n');
+
+// What the model lists; the placeholder and the entry without details are dropped
+const MODEL_ANSWER = {
+  venueName: 'Grand Hotel',
+  eventManagerName: 'Jordan Park',
+  eventManagerEmail: 'jordan.park@grandhotel.example',
+  contacts: [
+    { name: 'Alex Rivera', title: 'Director of Sales', role: 'sales', email: 'ARivera@grandhotel.example' },
+    { name: 'Sam Ortiz', title: 'Private Events Manager', role: 'catering', email: 'sam.ortiz@grandhotel.example' },
+    { name: 'Front Desk', role: 'general', email: 'your@email.com' },
+    { name: 'No Details', role: 'events' },
+  ],
+};
+
+const approvedEmails: Record<string, EmailTemplate[]> = {
+  wedding: [{
+    stepIndex: 0, sendOffsetDays: 0, subject: 'Catering for {{lead.name}}', preheader: '', theme: 'introduction', ctaType: 'reply',
+    textBody: 'Hi {{enrichment.contact_name | "there"}},\n\nWe would love to cater at {{lead.name}}.',
+    htmlBody: '',
+  }],
+  corporate: [{
+    stepIndex: 0, sendOffsetDays: 0, subject: 'Catering for {{lead.name}}', preheader: '', theme: 'introduction', ctaType: 'reply',
+    textBody: 'Hi {{enrichment.contact_name | "there"}},\n\nYour meetings deserve better lunches.',
+    htmlBody: '',
+  }],
+};
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const { createFixtureResolver, setMxResolver } = await import('../../src/lib/email-verification');
+  const { classifyContactRole, extractContacts } = await import('../../src/agents/enrichment');
+  const { enrichLeadData } = await import('../../src/agents/enrichment');
+  const { selectOutreachContact } = await import('../../src/lib/leads/contacts');
+  const { applyOverrides } = await import('../../src/lib/leads/overrides');
+  const { mergeEnrichmentData } = await import('../../src/lib/leads/duplicates');
+  const { resolveMergeField } = await import('../../src/lib/merge-fields');
+  const { launchApprovedCampaigns } = await import('../../src/workflows/outreach-campaign/steps');
+
+  // Roles come from the job title, then the mailbox name, then the surrounding text
+  assert.equal(classifyContactRole({ title: 'Catering Sales Manager', email: 'events@venue.com' }), 'catering');
+  assert.equal(classifyContactRole({ email: 'groupsales@venue.com' }), 'sales');
+  assert.equal(classifyContactRole({ email: 'info@venue.com', context: 'For private dining enquiries' }), 'events');
+  assert.equal(classifyContactRole({ email: 'hello@venue.com' }), 'general');
+  console.log('✓ contacts are classified by role');
+
+  // Every address on the site is kept, with names and titles from staff listings
+  const found = extractContacts(BUNDLE);
+  const byEmail = (email: string) => found.find(contact => contact.email === email);
+  assert.deepEqual(byEmail('jordan.park@grandhotel.example'), {
+    name: 'Jordan Park',
+    title: 'Wedding Coordinator',
+    role: 'events',
+    email: 'jordan.park@grandhotel.example',
+    phone: '(555) 201-3000',
+    source: 'regex',
+    sourceUrl: `${SITE}/contact`,
+  });
+  assert.deepEqual([byEmail('arivera@grandhotel.example')?.name, byEmail('arivera@grandhotel.example')?.role], ['Alex Rivera', 'sales']);
+  assert.equal(byEmail('catering@grandhotel.example')?.role, 'catering');
+  assert.deepEqual([byEmail('info@grandhotel.example')?.role, byEmail('info@grandhotel.example')?.name], ['general', undefined]);
+  assert.equal(byEmail('weddings@grandhotel.example')?.sourceUrl, `${SITE}/weddings`);
+
+  // A named person with a phone counts; the switchboard number does not
+  const chef = found.find(contact => contact.name === 'Casey Lee');
+  assert.deepEqual([chef?.title, chef?.role, chef?.phone, chef?.email], ['Executive Chef', 'catering', '(555) 201-3010', undefined]);
+  assert.equal(found.length, 6);
+  console.log('✓ contacts are extracted from page text');
+
+  // Enrichment combines the event manager, the model's contacts and the page text, and
+  // verifies the emails against the fixture mail servers
+  setMxResolver(createFixtureResolver({ 'grandhotel.example': ['mx.grandhotel.example'] }));
+  globalThis.fetch = (async () => new Response(JSON.stringify({
+    choices: [{ message: { content: JSON.stringify(MODEL_ANSWER) } }],
+  }))) as typeof fetch;
+  const response = await enrichLeadData({ id: 'lead-1', name: 'Grand Hotel', website_url: SITE }, { content: BUNDLE, website: SITE });
+  assert.equal(response.success, true);
+  const contacts = response.enrichmentData!.contacts!;
+  assert.deepEqual(contacts.map(contact => contact.email), [
+    'jordan.park@grandhotel.example',
+    'arivera@grandhotel.example',
+    'sam.ortiz@grandhotel.example',
+    'catering@grandhotel.example',
+    'info@grandhotel.example',
+    'weddings@grandhotel.example',
+    undefined,
+  ]);
+  assert.deepEqual([contacts[0].role, contacts[0].title, contacts[0].phone, contacts[0].source], ['events', 'Wedding Coordinator', '(555) 201-3000', 'llm']);
+  assert.equal(contacts[2].role, 'events'); // The title outranks the model's guess
+  assert.deepEqual([contacts[0].verification?.status, contacts[4].verification?.roleBased], ['valid', true]);
+  console.log('✓ enrichment keeps every contact with its role');
+
+  // Each campaign category writes to the contact whose role fits it
+  const lead = { id: 'lead-1', user_id: USER_ID, name: 'Grand Hotel', email: 'info@grandhotel.example', enrichment_data: response.enrichmentData };
+  assert.equal(selectOutreachContact({ ...lead, category: 'Wedding venue' })?.email, 'jordan.park@grandhotel.example');
+  assert.equal(selectOutreachContact({ ...lead, category: 'Hotel' })?.email, 'arivera@grandhotel.example');
+  assert.equal(selectOutreachContact(lead, 'education')?.email, 'catering@grandhotel.example');
+  assert.equal(selectOutreachContact({ id: 'lead-2', category: 'wedding', enrichment_data: {} }), undefined);
+  const corporateContact = selectOutreachContact(lead, 'corporate') || null;
+  assert.equal(
+    resolveMergeField('enrichment.contact_title', { lead, contact: corporateContact, sender: null }),
+    'Director of Sales'
+  );
+  console.log('✓ outreach picks the best contact for the category');
+
+  // An email the user corrected by hand always wins
+  const corrected = applyOverrides({ ...lead, category: 'corporate' }, [
+    { user_id: USER_ID, lead_id: 'lead-1', field: 'enrichment.eventManagerEmail', value: 'owner@grandhotel.example' },
+  ]);
+  assert.equal(selectOutreachContact(corrected)?.email, 'owner@grandhotel.example');
+  console.log('✓ corrected contacts take precedence');
+
+  // Merging duplicate leads keeps one entry per contact
+  const merged = mergeEnrichmentData(
+    { contacts: [{ name: 'Jordan Park', role: 'events', email: 'jordan.park@grandhotel.example', source: 'llm' }] },
+    [{ contacts: [{ name: 'Jordan Park', role: 'events', phone: '555-201-3000', source: 'regex' }, { role: 'general', email: 'info@grandhotel.example', source: 'lead' }] }]
+  );
+  assert.deepEqual(merged.contacts.map((contact: any) => [contact.email, contact.phone]), [
+    ['jordan.park@grandhotel.example', '555-201-3000'],
+    ['info@grandhotel.example', undefined],
+  ]);
+  console.log('✓ duplicate leads merge their contacts');
+
+  // Campaigns queue each lead's email to the contact chosen for its category
+  const queue = stubCampaignLaunch(db, () => [
+    { ...lead, id: 'lead-wedding', category: 'wedding' },
+    { ...lead, id: 'lead-corporate', category: 'corporate' },
+  ], ['jordan.park@grandhotel.example']);
+
+  const launch = await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example');
+  assert.equal(launch.success, true, `launch failed: ${launch.error}`);
+  // The wedding contact unsubscribed, so only the corporate lead is emailed
+  assert.deepEqual(queue.map(email => [email.lead_id, email.recipient_email]), [['lead-corporate', 'arivera@grandhotel.example']]);
+  assert.ok(queue[0].text_body.startsWith('Hi Alex Rivera,'));
+  console.log('✓ campaigns email the chosen contact');
+}
+
+run()
+  .then(() => console.log('\nAll lead contact tests passed'))
+  .catch(error => {
+    console.error('Lead contact tests failed:', error);
+    process.exit(1);
+  });
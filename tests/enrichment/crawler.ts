@@ -0,0 +1,146 @@
+/**
+ * Tests for the venue website crawler
+ *
+ * Serves the sample site in ./fixtures/venue-site from a fake fetch, checking robots.txt,
+ * page discovery and ranking, boilerplate stripping, the content bundle, and falling back
+ * from Firecrawl to the built-in crawler during enrichment.
+ *
+ * Run with: pnpm test:crawler
+ */
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import '../helpers/setup';
+
+const SITE = 'https://www.summithall.example';
+const SITE_DIR = path.join(__dirname, 'fixtures', 'venue-site');
+
+// Answer requests for the sample site; anything else is a 404
+const fetched: string[] = [];
+let openAiPrompt = '';
+function serveSite(input: any, init?: any): Response {
+  const url = new URL(String(input));
+  if (url.hostname === 'api.openai.com') {
+    openAiPrompt = JSON.parse(init.body).messages[1].content;
+    const content = JSON.stringify({ venueName: 'Summit Hall', eventManagerName: 'Jordan Park', eventManagerEmail: 'events@summithall.example', venueCapacity: 300 });
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }));
+  }
+
+  fetched.push(url.pathname);
+  assert.match(new Headers(init?.headers).get('User-Agent') || '', /CaterlyAIBot/);
+  const file = url.pathname === '/' ? 'index.html' : url.pathname === '/robots.txt' ? 'robots.txt' : `${url.pathname.slice(1)}.html`;
+  const filePath = path.join(SITE_DIR, file);
+  if (url.hostname !== 'www.summithall.example' || !existsSync(filePath)) return new Response('Not found', { status: 404 });
+  const contentType = file.endsWith('.html') ? 'text/html; charset=utf-8' : 'text/plain';
+  return new Response(readFileSync(filePath, 'utf8'), { headers: { 'Content-Type': contentType } });
+}
+
+async function run() {
+  const { firecrawlTool } = await import('../../src/tools/firecrawl');
+  const apiCache = await import('../../src/lib/api-cache');
+  const crawler = await import('../../src/lib/crawler');
+  const { enrichLeadFromWebsite } = await import('../../src/agents/enrichment');
+  apiCache.setCacheStore(apiCache.createInMemoryCacheStore());
+  globalThis.fetch = (async (input: any, init?: any) => serveSite(input, init)) as typeof fetch;
+
+  // robots.txt: our group if there is one, else "*"; the longest match wins
+  const robots = crawler.parseRobots(readFileSync(path.join(SITE_DIR, 'robots.txt'), 'utf8'), 'CaterlyAIBot');
+  assert.equal(crawler.isAllowed(robots, `${SITE}/events`), true);
+  assert.equal(crawler.isAllowed(robots, `${SITE}/events/archive/2019`), false);
+  const specific = crawler.parseRobots('User-agent: *\nDisallow: /\n\nUser-agent: caterlyaibot\nDisallow: /private\nAllow: /private/dining$\n', 'CaterlyAIBot');
+  assert.equal(crawler.isAllowed(specific, `${SITE}/weddings`), true);
+  assert.equal(crawler.isAllowed(specific, `${SITE}/private/rooms`), false);
+  assert.equal(crawler.isAllowed(specific, `${SITE}/private/dining`), true);
+  assert.equal(crawler.isAllowed(specific, `${SITE}/private/dining/menu`), false);
+  console.log('✓ robots.txt rules are applied');
+
+  // Page text keeps the content and mailto addresses, without scripts, menus or cookie banners
+  const contactText = crawler.htmlToText(readFileSync(path.join(SITE_DIR, 'contact.html'), 'utf8'));
+  assert.match(contactText, /Email our events team \(events@summithall\.example\)/);
+  assert.match(contactText, /\(555\) 123-4567 \(\+15551234567\)/);
+  assert.match(contactText, /Summit Hall · 123 Main Street/);
+  assert.doesNotMatch(contactText, /dataLayer|cookies|color:#333|Private Dining|Corporate/);
+  assert.equal(crawler.classifyPage(`${SITE}/private-events`), 'private_dining');
+  assert.equal(crawler.classifyPage(`${SITE}/p/12`, 'Get in touch'), 'contact');
+  assert.equal(crawler.classifyPage(`${SITE}/index.html`), 'home');
+  console.log('✓ pages are reduced to readable text and classified');
+
+  // The HTTP crawler follows the best links, skipping blocked, external and non-HTML ones
+  const http = crawler.createHttpCrawler();
+  let result = await http.crawl(`${SITE}/`);
+  assert.equal(result.success, true);
+  assert.equal(result.crawler, 'http');
+  assert.deepEqual(result.pages.map(page => page.kind), ['home', 'contact', 'private_dining', 'weddings', 'events', 'catering']);
+  assert.deepEqual(fetched, ['/robots.txt', '/', '/contact', '/private-dining', '/weddings', '/events', '/menus']);
+
+  // The footer appears once, on the home page
+  const footerPages = result.pages.filter(page => page.text.includes('123 Main Street'));
+  assert.deepEqual(footerPages.map(page => page.kind), ['home']);
+  console.log('✓ the crawler finds contact and event pages and drops repeated boilerplate');
+
+  // A second crawl of the site is cached; a forced refresh fetches it again
+  fetched.length = 0;
+  await http.crawl(`${SITE}`);
+  assert.equal(fetched.length, 0);
+  await http.crawl(`${SITE}/`, { forceRefresh: true, maxPages: 2 });
+  assert.deepEqual(fetched, ['/robots.txt', '/', '/contact']);
+  console.log('✓ crawls are cached');
+
+  // Contact and event pages lead the bundle, and a long home page cannot crowd them out
+  const longHome = { ...result.pages[0], text: 'Welcome to Summit Hall. '.repeat(2000) };
+  const bundle = crawler.buildContentBundle([longHome, ...result.pages.slice(1)], 3000);
+  assert.ok(bundle.text.length <= 3000, `${bundle.text.length} characters`);
+  assert.ok(bundle.truncated);
+  assert.deepEqual(bundle.pages.map(page => page.kind), ['contact', 'private_dining', 'weddings', 'events', 'catering', 'home']);
+  assert.ok(bundle.text.startsWith(`### Contact page: ${SITE}/contact (Contact | Summit Hall)`));
+  assert.match(bundle.text, /events@summithall\.example/);
+  console.log('✓ the content bundle ranks pages within the character budget');
+
+  // Sites that refuse crawling are reported, not crawled
+  globalThis.fetch = (async (input: any, init?: any) => String(input).endsWith('/robots.txt')
+    ? new Response('User-agent: *\nDisallow: /\n')
+    : serveSite(input, init)) as typeof fetch;
+  result = await crawler.createHttpCrawler({ cache: false }).crawl(`${SITE}/`);
+  assert.deepEqual([result.success, result.error], [false, 'Blocked by robots.txt']);
+  globalThis.fetch = (async (input: any, init?: any) => serveSite(input, init)) as typeof fetch;
+  console.log('✓ robots.txt can block the whole site');
+
+  // Enrichment falls back to the built-in crawler when Firecrawl is out of quota
+  let firecrawlCalls = 0;
+  firecrawlTool.extract = async options => {
+    firecrawlCalls++;
+    return { success: false, url: options.urls![0], error: 'Firecrawl API error: 402 Payment Required - insufficient credits' };
+  };
+  fetched.length = 0;
+  const enrichment = await enrichLeadFromWebsite({ id: 'lead-1', name: 'Summit Hall', website_url: SITE }, SITE, undefined, { forceRefresh: true });
+  assert.equal(firecrawlCalls, 1);
+  assert.ok(fetched.includes('/contact'));
+  assert.equal(enrichment.eventManagerEmail, 'events@summithall.example');
+  assert.match(openAiPrompt, /### Contact page: .*\/contact[\s\S]*### Home page/);
+  assert.match(openAiPrompt, /Library Room seats 40/);
+  console.log('✓ enrichment crawls the site itself when Firecrawl fails');
+
+  // Firecrawl remains the first choice when it works
+  firecrawlTool.extract = async options => ({
+    success: true,
+    url: options.urls![0],
+    data: { venueName: 'Summit Hall', eventManagerEmail: 'events@summithall.example', commonEventTypes: ['Weddings', 'Galas'] },
+  });
+  result = await crawler.crawlSite(SITE);
+  assert.equal(result.crawler, 'firecrawl');
+  assert.equal(result.pages[0].text, 'Venue name: Summit Hall\nEvent types: Weddings, Galas\nEmail: events@summithall.example');
+  assert.equal(result.structuredData.venueName, 'Summit Hall');
+
+  // Rate limits everywhere are retried later rather than enriched blind
+  firecrawlTool.extract = async options => ({ success: false, url: options.urls![0], error: 'Firecrawl API error: 429 Too Many Requests' });
+  crawler.setCrawler(crawler.createFallbackCrawler([crawler.createFirecrawlCrawler()]));
+  await assert.rejects(enrichLeadFromWebsite({ id: 'lead-1', name: 'Summit Hall' }, SITE), /429/);
+  console.log('✓ Firecrawl is one adapter behind the crawler interface');
+}
+
+run()
+  .then(() => console.log('\nAll crawler tests passed'))
+  .catch(error => {
+    console.error('Crawler tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,187 @@
+/**
+ * Tests for duplicate lead detection and merging
+ *
+ * Matches sample leads on place id, website, phone and fuzzy name and address, then merges
+ * leads held in the in-memory leads repository with the history tables stubbed out.
+ *
+ * Run with: pnpm test:lead-duplicates
+ */
+import assert from 'node:assert/strict';
+import type { Campaign, LeadOutcomeRecord, SavedLead } from '../../src/lib/db';
+import '../helpers/setup';
+
+const USER_ID: string = '11111111-1111-4111-8111-111111111111';
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const duplicates = await import('../../src/lib/leads/duplicates');
+  const leads = await import('../../src/lib/leads/repository');
+  const { getDuplicateGroups, mergeLeads } = await import('../../src/lib/leads/merge');
+
+  // Each signal on its own is enough
+  const { duplicateReason } = duplicates;
+  assert.equal(duplicateReason({ id: 'ChIJabc', name: 'A' }, { original_id: 'ChIJabc', name: 'B' }), 'place_id');
+  assert.equal(
+    duplicateReason({ website_url: 'https://www.summithall.com/weddings' }, { website: 'summithall.com' }),
+    'website'
+  );
+  assert.equal(
+    duplicateReason({ contact_phone: '+1 (555) 123-4567' }, { contact: { phone: '555.123.4567' } }),
+    'phone'
+  );
+  assert.equal(
+    duplicateReason(
+      { name: 'The Summit Hall', address: '123 Main Street, Springfield, IL 62701' },
+      { name: 'Summit Hall LLC', address: '123 Main St., Springfield, IL 62701, USA' }
+    ),
+    'name_address'
+  );
+  console.log('✓ place id, website, phone and name with address each match');
+
+  // Shared hosts, different venues in one building and missing data do not match
+  assert.equal(
+    duplicateReason({ website_url: 'https://facebook.com/summithall' }, { website_url: 'https://www.facebook.com/gardenloft' }),
+    null
+  );
+  assert.equal(
+    duplicateReason({ website_url: 'https://facebook.com/summithall' }, { website_url: 'facebook.com/SummitHall/about' }),
+    'website'
+  );
+  assert.equal(
+    duplicateReason(
+      { name: 'Summit Hall', address: '123 Main Street, Springfield' },
+      { name: 'Rooftop Lounge', address: '123 Main Street, Springfield' }
+    ),
+    null
+  );
+  assert.equal(duplicateReason({ name: 'Summit Hall' }, { name: 'Summit Hall' }), null);
+  assert.equal(duplicateReason({ id: '22222222-2222-4222-8222-222222222222' }, { original_id: '22222222-2222-4222-8222-222222222222' }), null);
+  console.log('✓ shared hosts, neighbors and missing data are not duplicates');
+
+  // Groups are transitive: one lead shares a phone with a second and a website with a third
+  const groups = duplicates.findDuplicateGroups([
+    { id: '1', name: 'Summit Hall', contact_phone: '555-123-4567' },
+    { id: '2', name: 'Garden Loft', website_url: 'https://gardenloft.example' },
+    { id: '3', name: 'Summit Hall Events', contact_phone: '(555) 123 4567', website_url: 'summithall.example' },
+    { id: '4', name: 'Summit', website_url: 'http://www.summithall.example/contact' },
+  ]);
+  assert.equal(groups.length, 1);
+  assert.deepEqual(groups[0].leads.map(lead => lead.id), ['1', '3', '4']);
+  assert.deepEqual(groups[0].reasons.sort(), ['phone', 'website']);
+  console.log('✓ duplicates are grouped');
+
+  // The kept lead's values win; gaps are filled, lists combined and notes joined
+  const updates = duplicates.mergeLeadRecords<Record<string, any>>(
+    {
+      id: 'keep', name: 'Summit Hall', status: 'saved', contact_email: null, notes: 'Called once',
+      enrichment_data: { eventManagerName: 'Jordan Park', commonEventTypes: ['Weddings'], provenance: { eventManagerName: { source: 'firecrawl' } } },
+    },
+    [{
+      id: 'other', name: 'Summit Hall Events', status: 'enriched', contact_email: 'events@summithall.example', notes: 'Prefers email',
+      enrichment_data: { eventManagerName: 'J. Park', venueCapacity: 300, commonEventTypes: ['Weddings', 'Galas'], provenance: { venueCapacity: { source: 'ai' } } },
+    }]
+  );
+  assert.equal(updates.name, undefined);
+  assert.equal(updates.contact_email, 'events@summithall.example');
+  assert.equal(updates.status, 'enriched');
+  assert.equal(updates.notes, 'Called once\n\nPrefers email');
+  assert.equal(updates.enrichment_data.eventManagerName, 'Jordan Park');
+  assert.equal(updates.enrichment_data.venueCapacity, 300);
+  assert.deepEqual(updates.enrichment_data.commonEventTypes, ['Weddings', 'Galas']);
+  assert.deepEqual(Object.keys(updates.enrichment_data.provenance), ['eventManagerName', 'venueCapacity']);
+  console.log('✓ lead data is consolidated into the kept lead');
+
+  // Merging moves history, outcomes, campaign rosters and overrides, then deletes the copies
+  const savedLeads: SavedLead[] = [
+    { id: 'lead-1', user_id: USER_ID, name: 'Summit Hall', status: 'enriched', contact_phone: '555-123-4567', enrichment_data: { venueCapacity: 300 } },
+    { id: 'lead-2', user_id: USER_ID, name: 'Summit Hall Events', status: 'saved', contact_phone: '(555) 123-4567', contact_email: 'events@summithall.example' },
+    { id: 'lead-3', user_id: USER_ID, name: 'Garden Loft', status: 'saved', contact_phone: '555-987-6543' },
+    { id: 'lead-4', user_id: 'someone-else', name: 'Summit Hall', contact_phone: '555-123-4567' },
+  ];
+  const repository = leads.createInMemoryLeadsRepository(savedLeads);
+  leads.setLeadsRepository(repository);
+  await repository.setOverride(USER_ID, 'lead-2', 'contact_name', 'Jordan Park');
+
+  const reassigned: Array<{ from: string[]; to: string }> = [];
+  db.leadHistory.reassign = async (userId, fromLeadIds, toLeadId) => {
+    assert.equal(userId, USER_ID);
+    reassigned.push({ from: fromLeadIds, to: toLeadId });
+    return true;
+  };
+  // Both copies are queued in campaign-1; only the duplicate is queued in campaign-2
+  const queued = [
+    { id: 'se-1', lead_id: 'lead-1', campaign_id: 'campaign-1', status: 'pending' },
+    { id: 'se-2', lead_id: 'lead-2', campaign_id: 'campaign-1', status: 'pending' },
+    { id: 'se-3', lead_id: 'lead-2', campaign_id: 'campaign-1', status: 'paused' },
+    { id: 'se-4', lead_id: 'lead-2', campaign_id: 'campaign-2', status: 'pending' },
+    { id: 'se-5', lead_id: 'lead-2', campaign_id: 'campaign-1', status: 'sent' },
+  ];
+  db.scheduledEmails.getOpenByLeadIds = async (userId, leadIds) =>
+    queued.filter(email => leadIds.includes(email.lead_id) && ['pending', 'paused'].includes(email.status)) as any;
+  db.scheduledEmails.transition = async (filter, fromStatuses, toStatus) => {
+    assert.equal(filter.userId, USER_ID);
+    const matched = queued.filter(email =>
+      email.lead_id === filter.leadId && email.campaign_id === filter.campaignId && fromStatuses.includes(email.status as any));
+    matched.forEach(email => { email.status = toStatus; });
+    return matched as any;
+  };
+  const campaigns = [
+    { id: 'campaign-1', user_id: USER_ID, lead_roster: [
+      { id: 'lead-1', name: 'Summit Hall', email: 'a@summithall.example', category: 'venue' },
+      { id: 'lead-2', name: 'Summit Hall Events', email: 'events@summithall.example', category: 'venue' },
+    ] },
+    { id: 'campaign-2', user_id: USER_ID, lead_roster: [
+      { id: 'lead-2', name: 'Summit Hall Events', email: 'events@summithall.example', category: 'venue' },
+    ] },
+  ] as Campaign[];
+  db.campaigns.getByUserId = async () => campaigns;
+  db.campaigns.update = async (id, changes) => {
+    const campaign = campaigns.find(candidate => candidate.id === id)!;
+    Object.assign(campaign, changes);
+    return campaign;
+  };
+  let outcomes: LeadOutcomeRecord[] = [
+    { id: 'o1', user_id: USER_ID, lead_id: 'lead-1', campaign_id: null, outcome: 'no_response', recorded_at: '' },
+    { id: 'o2', user_id: USER_ID, lead_id: 'lead-2', campaign_id: 'campaign-2', outcome: 'replied', recorded_at: '' },
+  ];
+  db.leadOutcomes.getByUser = async () => outcomes;
+  db.leadOutcomes.record = async outcome => {
+    const row = { id: 'o3', recorded_at: '', ...outcome } as LeadOutcomeRecord;
+    outcomes = [...outcomes.filter(existing => existing.lead_id !== outcome.lead_id), row];
+    return row;
+  };
+  db.leadOutcomes.remove = async (userId, leadId) => {
+    outcomes = outcomes.filter(existing => existing.lead_id !== leadId);
+    return true;
+  };
+
+  const found = await getDuplicateGroups(USER_ID);
+  assert.deepEqual(found.map(group => group.leads.map(lead => lead.id)), [['lead-1', 'lead-2']]);
+
+  await assert.rejects(mergeLeads(USER_ID, 'lead-1', ['lead-1']), /at least one other lead/);
+  assert.equal(await mergeLeads(USER_ID, 'lead-1', ['lead-4']), null);
+
+  const result = await mergeLeads(USER_ID, 'lead-1', ['lead-2']);
+  assert.ok(result);
+  assert.deepEqual(result.merged, ['lead-2']);
+  assert.equal(result.lead.name, 'Summit Hall');
+  assert.equal(result.lead.contact_email, 'events@summithall.example');
+  assert.equal(result.lead.contact_name, 'Jordan Park');
+  assert.deepEqual(result.lead.locked_fields, ['contact_name']);
+  assert.deepEqual(reassigned, [{ from: ['lead-2'], to: 'lead-1' }]);
+  assert.deepEqual(queued.map(email => email.status), ['pending', 'cancelled', 'cancelled', 'pending', 'sent']);
+  assert.deepEqual(campaigns[0].lead_roster.map(entry => entry.id), ['lead-1']);
+  assert.deepEqual(campaigns[1].lead_roster.map(entry => entry.id), ['lead-1']);
+  assert.deepEqual(outcomes.map(outcome => [outcome.lead_id, outcome.outcome, outcome.campaign_id]), [['lead-1', 'replied', 'campaign-2']]);
+  assert.deepEqual((await repository.getAll(USER_ID)).map(lead => lead.id), ['lead-1', 'lead-3']);
+  assert.deepEqual(await repository.getOverrides(USER_ID, ['lead-2']), []);
+  console.log('✓ merging keeps one lead with the history of both');
+  console.log('✓ a venue queued twice in a campaign keeps one sequence');
+}
+
+run()
+  .then(() => console.log('\nAll lead duplicate tests passed'))
+  .catch(error => {
+    console.error('Lead duplicate tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,192 @@
+/**
+ * Tests for email verification
+ *
+ * Checks addresses offline against the rules, looks up mail servers through the fixture
+ * resolver, and checks that campaigns never email an address that failed verification and,
+ * when asked, only email verified ones.
+ *
+ * Run with: pnpm test:email-verification
+ */
+import assert from 'node:assert/strict';
+import type { EmailTemplate } from '../../src/types/email';
+import { stubCampaignLaunch } from '../helpers/db';
+import '../helpers/setup';
+
+const USER_ID = '22222222-2222-4222-8222-222222222222';
+
+const approvedEmails: Record<string, EmailTemplate[]> = {
+  corporate: [{
+    stepIndex: 0, sendOffsetDays: 0, subject: 'Catering for {{lead.name}}', preheader: '', theme: 'introduction', ctaType: 'reply',
+    textBody: 'Hello {{lead.name}},\n\nYour meetings deserve better lunches.',
+    htmlBody: '',
+  }],
+};
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const {
+    clearMxCache, createFixtureResolver, isDisposableDomain, isRoleMailbox, parseAddress,
+    passesVerification, setMxResolver, suggestDomain, verifyContacts, verifyEmail,
+  } = await import('../../src/lib/email-verification');
+  const { selectOutreachContact } = await import('../../src/lib/leads/contacts');
+  const { launchApprovedCampaigns } = await import('../../src/workflows/outreach-campaign/steps');
+
+  // Offline rules
+  assert.deepEqual(parseAddress(' Events.Team@Venue.Example '), { mailbox: 'Events.Team', domain: 'venue.example' });
+  for (const bad of ['no-at-sign.example', '@venue.example', 'a..b@venue.example', 'info@venue', 'info@-venue.example', 'info@venue.c0m']) {
+    assert.equal(parseAddress(bad), null, bad);
+  }
+  assert.equal(isDisposableDomain('mailinator.com'), true);
+  assert.equal(isDisposableDomain('inbox.yopmail.com'), true);
+  assert.equal(isDisposableDomain('grandhotel.example'), false);
+  assert.equal(isRoleMailbox('Private.Dining'), true);
+  assert.equal(isRoleMailbox('jordan.park'), false);
+  assert.equal(suggestDomain('gmial.com'), 'gmail.com');
+  assert.equal(suggestDomain('hotmal.com'), 'hotmail.com');
+  assert.equal(suggestDomain('venue.con'), 'venue.com');
+  assert.equal(suggestDomain('gmail.com'), undefined);
+  assert.equal(suggestDomain('grandhotel.example'), undefined);
+  console.log('✓ syntax, disposable, role and typo checks work offline');
+
+  // Mail server lookups go through the configured resolver and are cached
+  const lookups: string[] = [];
+  const fixtures = createFixtureResolver({
+    'grandhotel.example': ['mx1.grandhotel.example'],
+    'gmial.com': ['mx.gmial.com'],
+    'flaky.example': new Error('DNS timeout'),
+  });
+  setMxResolver({
+    name: 'counting',
+    resolveMx: async domain => {
+      lookups.push(domain);
+      return fixtures.resolveMx(domain);
+    },
+  });
+
+  const valid = await verifyEmail('events@grandhotel.example');
+  assert.deepEqual([valid.status, valid.roleBased, valid.hasMx], ['valid', true, true]);
+  await verifyEmail('jordan.park@grandhotel.example');
+  assert.deepEqual(lookups, ['grandhotel.example']);
+  clearMxCache();
+  await verifyEmail('jordan.park@grandhotel.example');
+  assert.equal(lookups.length, 2);
+
+  const typo = await verifyEmail('owner@gmial.com');
+  assert.deepEqual([typo.status, typo.suggestion], ['risky', 'owner@gmail.com']);
+  const noMail = await verifyEmail('sales@closed-venue.example');
+  assert.deepEqual([noMail.status, noMail.hasMx], ['invalid', false]);
+  const typoTld = await verifyEmail('info@grandhotel.con');
+  assert.equal(typoTld.status, 'invalid');
+  assert.match(typoTld.reason!, /did you mean info@grandhotel\.com/);
+  const disposable = await verifyEmail('planner@mailinator.com');
+  assert.deepEqual([disposable.status, disposable.disposable, disposable.hasMx], ['invalid', true, null]);
+  assert.ok(!lookups.includes('mailinator.com'));
+  const failed = await verifyEmail('info@flaky.example');
+  assert.deepEqual([failed.status, failed.hasMx], ['unknown', null]);
+  assert.equal((await verifyEmail('not an email')).status, 'invalid');
+  console.log('✓ mail server lookups decide deliverability');
+
+  assert.equal(passesVerification(undefined), true);
+  assert.equal(passesVerification(undefined, true), false);
+  assert.equal(passesVerification(typo), true);
+  assert.equal(passesVerification(typo, true), false);
+  assert.equal(passesVerification(valid, true), true);
+  assert.equal(passesVerification(noMail), false);
+  console.log('✓ only invalid addresses are always rejected');
+
+  // Each distinct address is checked once and its result stored on every matching contact
+  lookups.length = 0;
+  clearMxCache();
+  const contacts = await verifyContacts([
+    { name: 'Alex Rivera', email: 'arivera@grandhotel.example' },
+    { name: 'Alex R.', email: 'ARivera@grandhotel.example' },
+    { name: 'Casey Lee', phone: '(555) 201-3010' },
+  ]);
+  assert.equal(lookups.length, 1);
+  assert.deepEqual(contacts.map(contact => contact.verification?.status), ['valid', 'valid', undefined]);
+  console.log('✓ contacts carry their verification');
+
+  // Outreach skips contacts that failed verification, and unverified ones when required
+  const checkedAt = new Date().toISOString();
+  const lead = {
+    id: 'lead-1',
+    user_id: USER_ID,
+    name: 'Harbor Conference Center',
+    category: 'corporate',
+    enrichment_data: {
+      contacts: [
+        { name: 'Pat Quinn', role: 'sales', email: 'pat@harbor-closed.example', source: 'llm', verification: { status: 'invalid', disposable: false, roleBased: false, hasMx: false, checkedAt } },
+        { name: 'Robin Hale', role: 'sales', email: 'robin@gmial.com', source: 'llm', verification: { status: 'risky', disposable: false, roleBased: false, hasMx: true, suggestion: 'robin@gmail.com', checkedAt } },
+        { role: 'general', email: 'info@harbor.example', source: 'regex', verification: { status: 'valid', disposable: false, roleBased: true, hasMx: true, checkedAt } },
+      ],
+    },
+  };
+  assert.equal(selectOutreachContact(lead)?.email, 'robin@gmial.com');
+  assert.equal(selectOutreachContact(lead, 'corporate', { requireVerified: true })?.email, 'info@harbor.example');
+
+  // An address the user entered by hand is used as given
+  const corrected = { ...lead, contact_email: 'pat@harbor-closed.example', locked_fields: ['contact_email'] };
+  assert.equal(selectOutreachContact(corrected, 'corporate', { requireVerified: true })?.email, 'pat@harbor-closed.example');
+  console.log('✓ outreach contacts respect verification');
+
+  // Campaigns leave out leads with no usable address
+  const invalidOnly = {
+    ...lead,
+    id: 'lead-invalid',
+    enrichment_data: { contacts: [lead.enrichment_data.contacts[0]] },
+  };
+  const riskyOnly = {
+    ...lead,
+    id: 'lead-risky',
+    enrichment_data: { contacts: [lead.enrichment_data.contacts[1]] },
+  };
+  const verified = {
+    ...lead,
+    id: 'lead-verified',
+    enrichment_data: { contacts: [lead.enrichment_data.contacts[2]] },
+  };
+  const queue = stubCampaignLaunch(db, () => [invalidOnly, riskyOnly, verified]);
+
+  const launch = await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example');
+  assert.equal(launch.success, true, `launch failed: ${launch.error}`);
+  assert.deepEqual(queue.map(email => [email.lead_id, email.recipient_email]), [
+    ['lead-risky', 'robin@gmial.com'],
+    ['lead-verified', 'info@harbor.example'],
+  ]);
+
+  queue.length = 0;
+  const strict = await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example', { requireVerifiedEmails: true });
+  assert.equal(strict.success, true, `launch failed: ${strict.error}`);
+  assert.deepEqual(queue.map(email => email.lead_id), ['lead-verified']);
+  console.log('✓ campaigns skip invalid and, when required, unverified addresses');
+
+  // The greeting names the contact the email goes to, which changes when verification is required
+  const greeting: Record<string, EmailTemplate[]> = {
+    corporate: [{ ...approvedEmails.corporate[0], textBody: 'Hi {{enrichment.contact_name | "there"}},\n\nYour meetings deserve better lunches.' }],
+  };
+  db.savedLeads.getOutreachLeads = async () => [{
+    ...lead,
+    id: 'lead-mixed',
+    enrichment_data: {
+      contacts: [
+        lead.enrichment_data.contacts[1],
+        { name: 'Sam Ortiz', role: 'general', email: 'sam@harbor.example', source: 'regex', verification: { status: 'valid', disposable: false, roleBased: false, hasMx: true, checkedAt } },
+      ],
+    },
+  }];
+  queue.length = 0;
+  await launchApprovedCampaigns(greeting, USER_ID, 'owner@caterer.example');
+  await launchApprovedCampaigns(greeting, USER_ID, 'owner@caterer.example', { requireVerifiedEmails: true });
+  assert.deepEqual(queue.map(email => [email.recipient_email, email.text_body.split(',')[0]]), [
+    ['robin@gmial.com', 'Hi Robin Hale'],
+    ['sam@harbor.example', 'Hi Sam Ortiz'],
+  ]);
+  console.log('✓ contact merge fields follow the verified recipient');
+}
+
+run()
+  .then(() => console.log('\nAll email verification tests passed'))
+  .catch(error => {
+    console.error('Email verification tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,173 @@
+/**
+ * Tests for venue event calendars
+ *
+ * Extracts busy seasons and booking lead times from sample page text, cleans up the
+ * model's list of dated events, and checks when each venue is planning: the seasonal
+ * context for its opening email and how long a campaign holds its emails.
+ *
+ * Run with: pnpm test:event-calendar
+ */
+import assert from 'node:assert/strict';
+import type { EmailTemplate } from '../../src/types/email';
+import type { EventCalendar } from '../../src/agents/enrichment';
+import { stubCampaignLaunch } from '../helpers/db';
+import '../helpers/setup';
+
+const USER_ID = '33333333-3333-4333-8333-333333333333';
+const SITE = 'https://www.lakeside.example';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BUNDLE = [
+  `### Weddings page: ${SITE}/weddings (Weddings)`,
+  'Our wedding season runs May through October.',
+  'We recommend booking 9-12 months in advance to secure your date.',
+  `### Events page: ${SITE}/events (Events)`,
+  'Holiday party season: our busiest months are November and December.',
+  'Founded 25 years ago by the Miller family.',
+].join('\n');
+
+const approvedEmails: Record<string, EmailTemplate[]> = {
+  wedding: [{
+    stepIndex: 0, sendOffsetDays: 0, subject: 'Catering for {{lead.name}}', preheader: '', theme: 'introduction', ctaType: 'reply',
+    textBody: 'Hi!\n\nWe would love to cater at {{lead.name}}.',
+    htmlBody: '',
+  }],
+};
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const daysFromToday = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString().slice(0, 10);
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const { createFixtureResolver, setMxResolver } = await import('../../src/lib/email-verification');
+  const { collectEventCalendar, enrichLeadData, extractBookingLeadTime, extractPeakSeasons, normalizeEventCalendar, parseLeadTime } = await import('../../src/agents/enrichment');
+  const { alignedStartOffsetDays, planningFor, planningStart, upcomingVenueEvents } = await import('../../src/lib/leads/seasonality');
+  const { OutreachService } = await import('../../src/agents/outreach/service');
+  const { launchApprovedCampaigns } = await import('../../src/workflows/outreach-campaign/steps');
+
+  // Lead times from the model's wording or from page text
+  assert.equal(parseLeadTime('six weeks'), 42);
+  assert.equal(parseLeadTime('about a year'), 365);
+  assert.equal(parseLeadTime('12-18 months'), 360);
+  assert.equal(parseLeadTime(45), 45);
+  assert.equal(parseLeadTime('as soon as possible'), undefined);
+  assert.equal(parseLeadTime(5000), undefined);
+  assert.equal(extractBookingLeadTime(BUNDLE), 270);
+  assert.equal(extractBookingLeadTime('Founded 25 years ago. Closed 2 weeks before Christmas.'), undefined);
+  console.log('✓ booking lead times are read from text');
+
+  assert.deepEqual(extractPeakSeasons(BUNDLE), [
+    { name: 'wedding season', startMonth: 5, endMonth: 10 },
+    { name: 'holiday season', startMonth: 11, endMonth: 12 },
+  ]);
+  console.log('✓ busy seasons are read from page text');
+
+  // The model's events are checked, deduplicated and sorted; past ones are dropped
+  const now = day('2025-03-01');
+  const calendar = normalizeEventCalendar({
+    upcomingEvents: [
+      { name: 'Bridal Showcase', date: '2025-04-12', endDate: '2025-04-13' },
+      { name: 'Spring Open House', date: '2025-03-22', type: 'open house' },
+      { name: 'Winter Gala', date: '2025-01-10' },
+      { name: 'spring open house', date: '2025-03-22' },
+      { name: 'Summer Concert', date: 'June 2025' },
+      { name: 'Leap Day Tasting', date: '2025-02-29' },
+      { date: '2025-05-01' },
+    ],
+    peakSeasons: [{ name: 'Wedding Season', startMonth: 'May', endMonth: 10 }, { name: 'Bad', startMonth: 13, endMonth: 2 }],
+    bookingLeadTime: '6 months',
+  }, now, SITE);
+  assert.deepEqual(calendar, {
+    upcomingEvents: [
+      { name: 'Spring Open House', date: '2025-03-22', eventType: 'open house', sourceUrl: SITE },
+      { name: 'Bridal Showcase', date: '2025-04-12', endDate: '2025-04-13', sourceUrl: SITE },
+    ],
+    peakSeasons: [{ name: 'wedding season', startMonth: 5, endMonth: 10 }],
+    bookingLeadTimeDays: 180,
+  });
+
+  // Page text fills in what the model left out; the model's lead time wins
+  const combined = collectEventCalendar({ eventCalendar: { bookingLeadTime: '6 months' } as any }, BUNDLE, SITE, now)!;
+  assert.deepEqual([combined.peakSeasons.length, combined.bookingLeadTimeDays], [2, 180]);
+  assert.equal(collectEventCalendar({}, 'Welcome to our venue.', SITE, now), undefined);
+  console.log('✓ calendars combine the model answer and the page text');
+
+  // Enrichment stores the calendar on the lead
+  setMxResolver(createFixtureResolver({}));
+  const nextYear = new Date().getUTCFullYear() + 1;
+  globalThis.fetch = (async () => new Response(JSON.stringify({
+    choices: [{
+      message: {
+        content: JSON.stringify({
+          venueName: 'Lakeside Pavilion',
+          eventCalendar: {
+            upcomingEvents: [
+              { name: 'Wedding Open House', date: `${nextYear}-01-18`, eventType: 'open house' },
+              { name: 'Old Gala', date: `${nextYear - 2}-06-14` },
+            ],
+            bookingLeadTime: '9 months',
+          },
+        }),
+      },
+    }],
+  }))) as typeof fetch;
+  const response = await enrichLeadData({ id: 'lead-1', name: 'Lakeside Pavilion', website_url: SITE }, { content: BUNDLE, website: SITE });
+  assert.equal(response.success, true);
+  const stored = response.enrichmentData!.eventCalendar!;
+  assert.deepEqual(stored.upcomingEvents.map(event => event.name), ['Wedding Open House']);
+  assert.deepEqual([stored.peakSeasons.map(season => season.name), stored.bookingLeadTimeDays], [['wedding season', 'holiday season'], 270]);
+  console.log('✓ enrichment stores the event calendar');
+
+  // Planning starts the lead time before the next season or event
+  const weddings: EventCalendar = { upcomingEvents: [], peakSeasons: [{ name: 'wedding season', startMonth: 5, endMonth: 10 }], bookingLeadTimeDays: 60 };
+  assert.equal(planningStart(weddings, day('2025-01-15'))!.startsOn.toISOString().slice(0, 10), '2025-03-02');
+  assert.equal(alignedStartOffsetDays(weddings, day('2025-01-15')), 46);
+  assert.equal(planningFor(weddings, day('2025-01-15')), undefined);
+  assert.equal(planningFor(weddings, day('2025-03-02'))?.name, 'wedding season');
+  // Too far off to wait for, and a season under way counts from next year
+  assert.equal(alignedStartOffsetDays({ ...weddings, bookingLeadTimeDays: 30 }, day('2025-01-15')), 0);
+  assert.equal(alignedStartOffsetDays(weddings, day('2025-07-01')), 0);
+  assert.equal(planningFor(weddings, day('2025-07-01')), undefined);
+  // Seasons over the new year, and the default lead time
+  const holidays: EventCalendar = { upcomingEvents: [], peakSeasons: [{ name: 'holiday season', startMonth: 11, endMonth: 1 }] };
+  assert.equal(alignedStartOffsetDays(holidays, day('2025-08-01')), 2);
+  assert.equal(alignedStartOffsetDays(undefined), 0);
+  console.log('✓ planning windows follow seasons, events and lead times');
+
+  // Opening emails hear about the venue's own plans
+  const service = new OutreachService();
+  const seasonal = service.getSeasonalContext(new Date('2025-03-01T12:00:00Z'), calendar);
+  assert.equal(seasonal.season, 'spring');
+  assert.equal(seasonal.venuePlanningFor, 'Spring Open House');
+  assert.deepEqual(seasonal.venueEvents, ['Spring Open House (2025-03-22)', 'Bridal Showcase (2025-04-12)']);
+  assert.deepEqual(upcomingVenueEvents(calendar, day('2025-03-23')), ['Bridal Showcase (2025-04-12)']);
+  assert.equal('venuePlanningFor' in service.getSeasonalContext(new Date('2025-03-01T12:00:00Z')), false);
+  console.log('✓ seasonal context includes what the venue is planning');
+
+  // Campaigns can hold each venue's emails until it starts planning
+  const lead = (id: string, eventCalendar?: EventCalendar) => ({
+    id, user_id: USER_ID, name: `Venue ${id}`, email: `events@${id}.example`, category: 'wedding', enrichment_data: { eventCalendar },
+  });
+  const soon: EventCalendar = { upcomingEvents: [{ name: 'Open House', date: daysFromToday(40) }], peakSeasons: [], bookingLeadTimeDays: 14 };
+  const distant: EventCalendar = { upcomingEvents: [{ name: 'Gala', date: daysFromToday(200) }], peakSeasons: [], bookingLeadTimeDays: 14 };
+  const queue = stubCampaignLaunch(db, () => [lead('soon', soon), lead('distant', distant), lead('unknown')]);
+  const launchedAt = Date.now();
+  const heldDays = () => Object.fromEntries(queue.map(email => [email.lead_id, Math.round((Date.parse(email.send_at) - launchedAt) / DAY_MS)]));
+
+  const plain = await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example');
+  assert.equal(plain.success, true, `launch failed: ${plain.error}`);
+  assert.deepEqual(heldDays(), { soon: 0, distant: 0, unknown: 0 });
+
+  queue.length = 0;
+  const aligned = await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example', { alignToVenueCalendar: true });
+  assert.equal(aligned.success, true, `launch failed: ${aligned.error}`);
+  assert.deepEqual(heldDays(), { soon: 26, distant: 0, unknown: 0 });
+  console.log('✓ campaigns start each venue as it begins planning');
+}
+
+run()
+  .then(() => console.log('\nAll event calendar tests passed'))
+  .catch(error => {
+    console.error('Event calendar tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,160 @@
+/**
+ * Tests for the batch enrichment job queue
+ *
+ * Runs batches against the in-memory queue store with short delays, checking
+ * provider limits, retries with backoff, dead-lettering, resuming an interrupted batch
+ * and starting a finished batch afresh.
+ *
+ * Run with: pnpm test:job-queue
+ */
+import assert from 'node:assert/strict';
+import '../helpers/setup';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Error shaped like an axios 429 response
+const rateLimited = (retryAfterSeconds: number) =>
+  Object.assign(new Error('Request failed with status code 429'), {
+    response: { status: 429, headers: { 'retry-after': String(retryAfterSeconds) } },
+  });
+
+async function run() {
+  const queue = await import('../../src/lib/job-queue');
+
+  const store = queue.createInMemoryQueueStore();
+  queue.setQueueStore(store);
+
+  const fast = { baseDelayMs: 5, maxDelayMs: 50 };
+  const tasks = (keys: string[]) => keys.map(key => ({ key, payload: key }));
+
+  // Calls share the provider's concurrency limit even when the queue allows more
+  queue.configureProvider('openai', { concurrency: 2, requestsPerMinute: 1000 });
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const limited = await queue.runJobQueue(
+    tasks(['a', 'b', 'c', 'd', 'e', 'f']),
+    key => queue.withProvider('openai', async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(10);
+      inFlight--;
+      return key.toUpperCase();
+    }),
+    { queue: 'test', batchId: 'limits', concurrency: 5, ...fast }
+  );
+  assert.equal(maxInFlight, 2);
+  assert.deepEqual(Array.from(limited.results.values()).sort(), ['A', 'B', 'C', 'D', 'E', 'F']);
+  console.log('✓ provider concurrency is limited');
+
+  // A 429 pauses the provider for its Retry-After, then the task is retried
+  queue.configureProvider('firecrawl', { concurrency: 5, requestsPerMinute: 1000 });
+  const callTimes: number[] = [];
+  const throttled = await queue.runJobQueue(
+    tasks(['site']),
+    () => queue.withProvider('firecrawl', async () => {
+      callTimes.push(Date.now());
+      if (callTimes.length === 1) throw rateLimited(0.2);
+      return 'crawled';
+    }),
+    { queue: 'test', batchId: 'rate-limit', ...fast }
+  );
+  assert.equal(throttled.results.get('site'), 'crawled');
+  assert.ok(callTimes[1] - callTimes[0] >= 190, `retried after ${callTimes[1] - callTimes[0]}ms`);
+  console.log('✓ rate-limited calls wait out Retry-After');
+
+  // Failures are retried until they succeed, and progress is reported as tasks finish
+  const attempts: Record<string, number> = {};
+  const progress: number[] = [];
+  const retried = await queue.runJobQueue(
+    tasks(['flaky', 'steady']),
+    async (key, attempt) => {
+      attempts[key] = attempt;
+      if (key === 'flaky' && attempt < 3) throw new Error('timeout');
+      return key;
+    },
+    { queue: 'test', batchId: 'retries', ...fast, onProgress: p => progress.push(p.done) }
+  );
+  assert.equal(attempts.flaky, 3);
+  assert.equal(attempts.steady, 1);
+  assert.equal(retried.results.size, 2);
+  assert.deepEqual(progress, [0, 1, 2]);
+  console.log('✓ failed tasks are retried with backoff');
+
+  // Tasks that keep failing are dead-lettered with their last error
+  let brokenCalls = 0;
+  const dead = await queue.runJobQueue(
+    tasks(['broken', 'fine']),
+    async key => {
+      if (key === 'broken') {
+        brokenCalls++;
+        throw new Error(`parse error ${brokenCalls}`);
+      }
+      return key;
+    },
+    { queue: 'test', batchId: 'dead', maxAttempts: 3, ...fast }
+  );
+  assert.equal(brokenCalls, 3);
+  assert.deepEqual(dead.deadLettered, [{ key: 'broken', error: 'parse error 3', attempts: 3 }]);
+  assert.equal(dead.results.get('fine'), 'fine');
+  assert.deepEqual((await store.getDeadLettered('test')).map(item => item.item_key), ['broken']);
+  console.log('✓ repeatedly failing tasks are dead-lettered');
+
+  // After a crash, rerunning the batch skips finished tasks and picks up the rest
+  await store.add([
+    { queue: 'test', batch_id: 'crash', item_key: 'finished', status: 'done', attempts: 1, result: 'saved' },
+    { queue: 'test', batch_id: 'crash', item_key: 'interrupted', status: 'running', attempts: 1 },
+  ]);
+  const handled: string[] = [];
+  const resumed = await queue.runJobQueue(
+    tasks(['finished', 'interrupted', 'new']),
+    async key => {
+      handled.push(key);
+      return `${key}-result`;
+    },
+    { queue: 'test', batchId: 'crash', ...fast }
+  );
+  assert.deepEqual(handled.sort(), ['interrupted', 'new']);
+  assert.equal(resumed.resumed, 1);
+  assert.equal(resumed.results.get('finished'), 'saved');
+  assert.equal(resumed.results.get('interrupted'), 'interrupted-result');
+  console.log('✓ rerunning an interrupted batch resumes it');
+
+  // Once a batch has run its finished tasks are cleared, so the same work runs again
+  assert.deepEqual(await store.getBatch('test', 'crash'), []);
+  handled.length = 0;
+  const again = await queue.runJobQueue(
+    tasks(['finished', 'interrupted']),
+    async key => {
+      handled.push(key);
+      return `${key}-fresh`;
+    },
+    { queue: 'test', batchId: 'crash', ...fast }
+  );
+  assert.deepEqual(handled.sort(), ['finished', 'interrupted']);
+  assert.deepEqual([again.resumed, again.results.get('finished')], [0, 'finished-fresh']);
+  console.log('✓ a finished batch starts fresh and does not return stored results');
+
+  // Dead-lettered tasks are kept until the batch runs again, then retried
+  assert.deepEqual((await store.getBatch('test', 'dead')).map(item => [item.item_key, item.status]), [['broken', 'dead']]);
+  brokenCalls = 0;
+  const rerun = await queue.runJobQueue(
+    tasks(['broken', 'fine']),
+    async () => { brokenCalls++; return 'again'; },
+    { queue: 'test', batchId: 'dead', ...fast }
+  );
+  assert.equal(brokenCalls, 2);
+  assert.deepEqual([rerun.deadLettered.length, rerun.results.get('broken')], [0, 'again']);
+  assert.deepEqual(await store.getDeadLettered('test'), []);
+  console.log('✓ dead-lettered tasks are retried when the batch runs again');
+
+  // Batch ids are stable for the same inputs
+  assert.equal(queue.batchIdFor('lead-enrichment', 'a', 'b'), queue.batchIdFor('lead-enrichment', 'a', 'b'));
+  assert.notEqual(queue.batchIdFor('lead-enrichment', 'a', 'b'), queue.batchIdFor('lead-enrichment', 'a', 'c'));
+}
+
+run()
+  .then(() => console.log('\nAll job queue tests passed'))
+  .catch(error => {
+    console.error('Job queue tests failed:', error);
+    process.exit(1);
+  });
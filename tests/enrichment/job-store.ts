@@ -0,0 +1,99 @@
+/**
+ * Tests for the enrichment job store and the job status endpoint
+ *
+ * Swaps the Supabase-backed store for the in-memory one, then drives jobs
+ * through their steps and polls them the way the enrichment UI does.
+ *
+ * Run with: pnpm test:enrichment-jobs
+ */
+import assert from 'node:assert/strict';
+import '../helpers/setup';
+
+const OTHER_USER: string = '22222222-2222-4222-8222-222222222222';
+const HOUR = 60 * 60 * 1000;
+
+async function run() {
+  const jobs = await import('../../src/lib/enrichment/job-store');
+  const { GET } = await import('../../src/app/api/enrichment/status/[jobId]/route');
+
+  const store = jobs.createInMemoryJobStore();
+  jobs.setJobStore(store);
+
+  // Requests here have no session, so they poll as an anonymous user
+  const poll = async (jobId: string) => {
+    const response = await GET(new Request(`http://localhost/api/enrichment/status/${jobId}`), {
+      params: Promise.resolve({ jobId }),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  // A running job reports its current step, progress and attempts
+  const job = await jobs.createJob('https://summithall.example', null);
+  assert.equal(job.status, 'pending');
+  await jobs.beginJob(job.id);
+  await jobs.setJobStep(job.id, 'extracting');
+
+  let polled = await poll(job.id);
+  assert.equal(polled.status, 200);
+  assert.equal(polled.body.status, 'extracting');
+  assert.equal(polled.body.progress, jobs.STEP_PROGRESS.extracting);
+  assert.equal(polled.body.attempts, 1);
+  assert.equal(polled.body.result, undefined);
+  console.log('✓ running jobs report their step and progress');
+
+  // A finished job returns its result
+  await jobs.completeJob(job.id, { venueName: 'Summit Hall' });
+  polled = await poll(job.id);
+  assert.equal(polled.body.status, 'complete');
+  assert.equal(polled.body.progress, 100);
+  assert.deepEqual(polled.body.result, { venueName: 'Summit Hall' });
+  console.log('✓ complete jobs return their result');
+
+  // A failed job returns its error and a message
+  const failing = await jobs.createJob('https://broken.example', null);
+  await jobs.beginJob(failing.id);
+  await jobs.failJob(failing.id, 'Failed to extract data from URL: timeout');
+  polled = await poll(failing.id);
+  assert.equal(polled.body.status, 'error');
+  assert.equal(polled.body.error, 'Failed to extract data from URL: timeout');
+  assert.ok(polled.body.message);
+  console.log('✓ failed jobs return their error');
+
+  // Unknown jobs and other users' jobs are not found
+  assert.equal((await poll('00000000-0000-4000-8000-000000000000')).status, 404);
+  const private_ = await jobs.createJob('https://private.example', OTHER_USER);
+  assert.equal((await poll(private_.id)).status, 404);
+  assert.ok(await jobs.getJob(private_.id, OTHER_USER));
+  console.log("✓ other users' jobs are not visible");
+
+  // A running job whose worker went away is failed instead of polling forever
+  const stale = await store.create({
+    url: 'https://stale.example',
+    status: 'running',
+    step: 'extracting',
+    progress: 20,
+    updated_at: new Date(Date.now() - HOUR).toISOString(),
+  });
+  polled = await poll(stale.id);
+  assert.equal(polled.body.status, 'error');
+  assert.equal((await store.get(stale.id))!.status, 'error');
+  console.log('✓ stale running jobs are failed');
+
+  // Finished jobs past the retention window are cleaned up when new jobs start
+  const old = await store.create({
+    url: 'https://old.example',
+    status: 'complete',
+    updated_at: new Date(Date.now() - 48 * HOUR).toISOString(),
+  });
+  await jobs.createJob('https://new.example', null);
+  assert.equal(await store.get(old.id), null);
+  assert.ok(await store.get(job.id), 'recent finished jobs are kept');
+  console.log('✓ old finished jobs are cleaned up');
+}
+
+run()
+  .then(() => console.log('\nAll enrichment job tests passed'))
+  .catch(error => {
+    console.error('Enrichment job tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,147 @@
+/**
+ * Tests for manual field overrides on leads
+ *
+ * Locks fields of a lead held in the in-memory repository, re-runs the lead enrichment
+ * workflow over it with Firecrawl stubbed and OpenAI answered by a fake fetch, and checks
+ * the corrections survive and are merged into the lead on read.
+ *
+ * Run with: pnpm test:lead-overrides
+ */
+import assert from 'node:assert/strict';
+import type { SavedLead } from '../../src/lib/db';
+import '../helpers/setup';
+
+const USER_ID: string = '11111111-1111-4111-8111-111111111111';
+const OTHER_USER: string = '22222222-2222-4222-8222-222222222222';
+
+const savedLeads: SavedLead[] = [
+  { id: 'lead-1', user_id: USER_ID, name: 'Summit Hall', category: 'wedding', website_url: 'https://summithall.example', status: 'new' },
+  { id: 'lead-2', user_id: USER_ID, name: 'Lakeside Loft', category: 'wedding', website_url: 'https://lakesideloft.example', status: 'new' },
+];
+
+async function run() {
+  // Load the modules being stubbed before the workflow manager, so both share one instance
+  const leads = await import('../../src/lib/leads/repository');
+  const queue = await import('../../src/lib/job-queue');
+  const scoring = await import('../../src/lib/leads/scoring-profiles');
+  const { firecrawlTool } = await import('../../src/tools/firecrawl');
+  const { parseOverrideValue } = await import('../../src/lib/leads/overrides');
+  const { workflowManager } = await import('../../src/workflows/workflowManager');
+  const { PUT } = await import('../../src/app/api/leads/[id]/overrides/route');
+
+  const repository = leads.createInMemoryLeadsRepository(savedLeads);
+  leads.setLeadsRepository(repository);
+  scoring.setScoringProfileStore(scoring.createInMemoryScoringProfileStore());
+  const profile = await scoring.getScoringProfile(USER_ID);
+
+  firecrawlTool.extract = async options => ({
+    success: true,
+    url: options.urls![0],
+    data: { text: 'Summit Hall hosts weddings. Contact events@venue.example. Capacity 250 guests.' },
+  });
+
+  globalThis.fetch = (async () => {
+    const content = JSON.stringify({
+      venueName: 'Summit Hall',
+      eventManagerName: 'Jordan Park',
+      eventManagerEmail: 'events@venue.example',
+      venueCapacity: 250,
+      inHouseCatering: false,
+    });
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+  }) as typeof fetch;
+
+  const enrich = async () => {
+    queue.setQueueStore(queue.createInMemoryQueueStore());
+    const result = await workflowManager.executeWorkflow('lead-enrichment', { leadIds: ['lead-1'], userId: USER_ID });
+    assert.equal(result.success, true, `workflow failed: ${result.error}`);
+  };
+
+  // Values are validated and normalized before they are stored
+  assert.equal(parseOverrideValue('enrichment.venueCapacity', '1,200'), 1200);
+  assert.equal(parseOverrideValue('enrichment.inHouseCatering', 'yes'), true);
+  assert.deepEqual(parseOverrideValue('enrichment.commonEventTypes', 'weddings, galas'), ['weddings', 'galas']);
+  assert.equal(parseOverrideValue('contact_email', ' Maria@Summit.example '), 'maria@summit.example');
+  assert.throws(() => parseOverrideValue('contact_email', 'not an email'), /must be an email/);
+  assert.throws(() => parseOverrideValue('lead_score', 99), /cannot be edited/);
+  console.log('✓ override values are validated');
+
+  await enrich();
+
+  // Lock a contact and two enrichment fields
+  await leads.setLeadOverride(USER_ID, 'lead-1', 'contact_name', 'Maria Lopez');
+  await leads.setLeadOverride(USER_ID, 'lead-1', 'enrichment.eventManagerEmail', 'maria@summit.example');
+  const locked = await leads.setLeadOverride(USER_ID, 'lead-1', 'enrichment.venueCapacity', 400);
+  assert.equal(locked!.contact_name, 'Maria Lopez');
+  assert.equal(locked!.enrichment_data.venueCapacity, 400);
+  assert.equal(locked!.enrichment_data.provenance.venueCapacity.source, 'manual');
+  assert.equal(locked!.enrichment_data.provenance.venueCapacity.confidence, 1);
+  assert.deepEqual(locked!.locked_fields.sort(), ['contact_name', 'enrichment.eventManagerEmail', 'enrichment.venueCapacity']);
+  console.log('✓ overrides are merged into the lead and marked locked');
+
+  // Re-enrichment rewrites the stored lead, but the locked fields keep the user's values
+  await enrich();
+  const [stored] = await repository.getByIds(USER_ID, ['lead-1']);
+  assert.equal(stored.enrichment_data.venueCapacity, 250);
+  const [reread] = await leads.getLeadsByIds(USER_ID, ['lead-1']);
+  assert.equal(reread.contact_name, 'Maria Lopez');
+  assert.equal(reread.enrichment_data.eventManagerEmail, 'maria@summit.example');
+  assert.equal(reread.enrichment_data.venueCapacity, 400);
+  assert.equal(reread.enrichment_data.eventManagerName, 'Jordan Park');
+  console.log('✓ re-enrichment does not clobber overrides');
+
+  // Re-enrichment scores the lead with the user's corrections, as a rescore would
+  await leads.setLeadOverride(USER_ID, 'lead-1', 'enrichment.inHouseCatering', true);
+  await enrich();
+  const [rescored] = await repository.getByIds(USER_ID, ['lead-1']);
+  assert.equal(rescored.enrichment_data.inHouseCatering, false);
+  assert.ok(rescored.enrichment_data.leadScore.reasons.includes('Has in-house catering'));
+  const scoreAfterEnrichment = rescored.lead_score;
+  await scoring.rescoreLeads(USER_ID, profile);
+  assert.equal((await repository.getByIds(USER_ID, ['lead-1']))[0].lead_score, scoreAfterEnrichment);
+  await leads.clearLeadOverride(USER_ID, 'lead-1', 'enrichment.inHouseCatering');
+  console.log('✓ re-enrichment scores the lead with its overrides');
+
+  // Enrichment fills contact gaps in the stored row, never copying an override into it
+  const corrected = await leads.setLeadOverride(USER_ID, 'lead-2', 'contact_email', 'maria@lakeside.example');
+  await leads.saveLeadEnrichment(USER_ID, 'lead-2', { ...corrected!.enrichment_data, eventManagerEmail: 'events@lakeside.example' }, profile);
+  const [storedLoft] = await repository.getByIds(USER_ID, ['lead-2']);
+  assert.equal(storedLoft.contact_email, 'events@lakeside.example');
+  assert.equal((await leads.getLeadsByIds(USER_ID, ['lead-2']))[0].contact_email, 'maria@lakeside.example');
+  await leads.clearLeadOverride(USER_ID, 'lead-2', 'contact_email');
+  assert.equal((await leads.getLeadsByIds(USER_ID, ['lead-2']))[0].contact_email, 'events@lakeside.example');
+  console.log('✓ enrichment fills contact gaps from the stored lead, not its overrides');
+
+  // Enrichment marks a lead enriched, but never moves it back from contacted or replied
+  assert.equal(storedLoft.status, 'enriched');
+  await repository.update(USER_ID, 'lead-2', { status: 'replied' });
+  assert.equal((await leads.saveLeadEnrichment(USER_ID, 'lead-2', storedLoft.enrichment_data, profile)).status, 'replied');
+  console.log('✓ re-enrichment keeps a lead that replied marked as replied');
+
+  // Unlocking hands the field back to enrichment
+  const unlocked = await leads.clearLeadOverride(USER_ID, 'lead-1', 'enrichment.venueCapacity');
+  assert.equal(unlocked!.enrichment_data.venueCapacity, 250);
+  assert.notEqual(unlocked!.enrichment_data.provenance.venueCapacity.source, 'manual');
+  assert.ok(!unlocked!.locked_fields.includes('enrichment.venueCapacity'));
+  console.log('✓ unlocked fields show enriched values again');
+
+  // Other users cannot override the lead, and the endpoint requires a session
+  assert.equal(await leads.setLeadOverride(OTHER_USER, 'lead-1', 'contact_name', 'Mallory'), null);
+  assert.equal((await leads.getLeadsByIds(USER_ID, ['lead-1']))[0].contact_name, 'Maria Lopez');
+  const response = await PUT(
+    new Request('http://localhost/api/leads/lead-1/overrides', {
+      method: 'PUT',
+      body: JSON.stringify({ field: 'contact_name', value: 'Mallory' }),
+    }) as any,
+    { params: Promise.resolve({ id: 'lead-1' }) }
+  );
+  assert.equal(response.status, 401);
+  console.log("✓ overrides are scoped to the lead's owner");
+}
+
+run()
+  .then(() => console.log('\nAll lead override tests passed'))
+  .catch(error => {
+    console.error('Lead override tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,95 @@
+/**
+ * Tests for per-field provenance on enrichment data
+ *
+ * Answers the model call with a fake fetch and enriches leads from sample page text,
+ * checking each field records its source, snippet, confidence and extraction time.
+ *
+ * Run with: pnpm test:enrichment-provenance
+ */
+import assert from 'node:assert/strict';
+import '../helpers/setup';
+
+const PAGE = `Welcome to Summit Hall, a hilltop venue for weddings and corporate retreats.
+Our ballroom can accommodate up to 300 guests. For bookings contact Jordan Park at
+events@summithall.example or call (555) 123-4567. We work with preferred caterers only.`;
+
+// Fake OpenAI response with the given fields
+function answerWith(fields: Record<string, unknown> | null) {
+  globalThis.fetch = (async () => fields
+    ? new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(fields) } }] }), { status: 200 })
+    : new Response('model unavailable', { status: 500 })) as typeof fetch;
+}
+
+async function run() {
+  const { enrichLeadData } = await import('../../src/agents/enrichment/enrichment-functions');
+
+  const lead = { name: 'Summit Hall', website_url: 'https://summithall.example', contact_phone: '(555) 999-0000' };
+
+  // Values the model copied from the page are attributed to it, with the surrounding text
+  answerWith({
+    venueName: 'Summit Hall',
+    eventManagerName: 'Jordan Park',
+    eventManagerEmail: 'events@summithall.example',
+    venueCapacity: 300,
+    inHouseCatering: false,
+  });
+  let result = await enrichLeadData(lead, { content: PAGE, website: lead.website_url });
+  let data = result.enrichmentData!;
+  const email = data.provenance!.eventManagerEmail;
+  assert.equal(email.source, 'llm');
+  assert.equal(email.sourceUrl, 'https://summithall.example');
+  assert.ok(email.snippet!.includes('events@summithall.example'));
+  assert.ok(!Number.isNaN(Date.parse(email.extractedAt)));
+  console.log('✓ fields record their source, snippet and extraction time');
+
+  // The regex match of the same email corroborates it; page-backed values outrank unbacked ones
+  assert.equal(email.confidence, 0.8);
+  assert.equal(data.provenance!.venueCapacity.confidence, 0.8);
+  assert.equal(data.provenance!.inHouseCatering.confidence, 0.5);
+  console.log('✓ values found on the page and by pattern matching are trusted more');
+
+  // Values copied from the lead keep the lead as their source
+  assert.equal(data.eventManagerPhone, '(555) 999-0000');
+  assert.equal(data.provenance!.eventManagerPhone.source, 'lead');
+  console.log('✓ values from the lead are attributed to the lead');
+
+  // An email the model made up is replaced by the one actually on the page
+  answerWith({ venueName: 'Summit Hall', eventManagerEmail: 'jordan@summit-events.example' });
+  result = await enrichLeadData(lead, { content: PAGE, website: lead.website_url });
+  data = result.enrichmentData!;
+  assert.equal(data.eventManagerEmail, 'events@summithall.example');
+  assert.equal(data.provenance!.eventManagerEmail.source, 'regex');
+  assert.equal(data.provenance!.eventManagerEmail.confidence, 0.7);
+  console.log('✓ emails not on the page lose to ones that are');
+
+  // Firecrawl's structured extract fills the gaps the model left
+  answerWith({ venueName: 'Summit Hall', aiOverview: 'A hilltop venue.' });
+  result = await enrichLeadData(lead, {
+    content: '',
+    website: lead.website_url,
+    structuredData: { eventManagerEmail: 'bookings@summithall.example', venueName: 'Summit Hall', amenities: ['Ballroom'] },
+  });
+  data = result.enrichmentData!;
+  assert.equal(data.eventManagerEmail, 'bookings@summithall.example');
+  assert.equal(data.provenance!.eventManagerEmail.source, 'firecrawl');
+  assert.equal(data.provenance!.eventManagerEmail.sourceUrl, 'https://summithall.example');
+  assert.deepEqual(data.amenities, ['Ballroom']);
+  assert.equal(data.provenance!.aiOverview.source, 'llm');
+  console.log('✓ Firecrawl extracts are merged with their own provenance');
+
+  // When the model fails, placeholder values are marked as such
+  answerWith(null);
+  result = await enrichLeadData(lead, { content: PAGE, website: lead.website_url });
+  data = result.enrichmentData!;
+  assert.equal(data.provenance!.commonEventTypes.source, 'fallback');
+  assert.equal(data.provenance!.commonEventTypes.confidence, 0.2);
+  assert.equal(data.provenance!.venueName.source, 'lead');
+  console.log('✓ fallback data is marked as low confidence');
+}
+
+run()
+  .then(() => console.log('\nAll enrichment provenance tests passed'))
+  .catch(error => {
+    console.error('Enrichment provenance tests failed:', error);
+    process.exit(1);
+  });
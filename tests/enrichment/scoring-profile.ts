@@ -0,0 +1,130 @@
+/**
+ * Tests for configurable lead scoring profiles
+ *
+ * Scores sample enrichment data with the default and custom profiles, then saves a profile
+ * for a user and rescores their leads held in the in-memory leads repository.
+ *
+ * Run with: pnpm test:scoring-profile
+ */
+import assert from 'node:assert/strict';
+import type { SavedLead } from '../../src/lib/db';
+import '../helpers/setup';
+
+const USER_ID: string = '11111111-1111-4111-8111-111111111111';
+
+const VENUE = {
+  eventManagerEmail: 'events@summithall.example',
+  eventManagerPhone: '(555) 123-4567',
+  eventManagerName: 'Jordan Park',
+  venueCapacity: 300,
+  commonEventTypes: ['Weddings', 'Corporate retreats'],
+  inHouseCatering: false,
+  website: 'https://summithall.example',
+};
+
+async function run() {
+  const { calculateLeadScore, DEFAULT_SCORING_PROFILE, normalizeScoringProfile } = await import('../../src/agents/enrichment/scoring');
+  const leads = await import('../../src/lib/leads/repository');
+  const scoring = await import('../../src/lib/leads/scoring-profiles');
+
+  // Without an exclusive caterer, the default profile keeps the original weights and cutoffs
+  let result = calculateLeadScore(VENUE);
+  assert.equal(result.score, 95);
+  assert.equal(result.potential, 'high');
+  assert.equal(calculateLeadScore({ eventManagerEmail: 'a@b.example', venueCapacity: 60 }).potential, 'medium');
+  assert.equal(calculateLeadScore({ venueCapacity: 50 }).score, 0);
+  console.log('✓ the default profile matches the original scoring');
+
+  // Weights and cutoffs are adjustable
+  const catering = normalizeScoringProfile({
+    weights: { noInHouseCatering: 0, email: 40 },
+    thresholds: { high: 98, medium: 60 },
+  });
+  result = calculateLeadScore(VENUE, catering);
+  assert.equal(result.score, 85);
+  assert.equal(result.potential, 'medium');
+  assert.ok(!result.reasons.some(reason => reason.includes('in-house catering')));
+  console.log('✓ weights and cutoffs come from the profile');
+
+  // Target event types earn a bonus; a preferred caterer list costs points unless the user is on it
+  const weddings = normalizeScoringProfile({
+    targetEventTypes: ['wedding'],
+    weights: { preferredCaterers: 15 },
+    businessName: 'Fork & Feast',
+  });
+  result = calculateLeadScore({ ...VENUE, inHouseCatering: undefined }, weddings);
+  assert.equal(result.score, 80);
+  assert.ok(result.reasons.includes('Hosts target events: Weddings'));
+  result = calculateLeadScore({ ...VENUE, inHouseCatering: undefined, preferredCaterers: ['Gourmet Co'] }, weddings);
+  assert.equal(result.score, 65);
+  result = calculateLeadScore({ ...VENUE, inHouseCatering: undefined, preferredCaterers: ['Fork & Feast Catering'] }, weddings);
+  assert.equal(result.score, 80);
+  console.log('✓ custom rules add and subtract points');
+
+  // Venues beyond the maximum distance are penalized; venues without a location are not
+  const local = normalizeScoringProfile({ maxDistanceMiles: 25, origin: { lat: 40.7128, lng: -74.006 } });
+  result = calculateLeadScore(VENUE, local, { latitude: 42.3601, longitude: -71.0589 });
+  assert.equal(result.score, 75);
+  assert.match(result.reasons.at(-1)!, /Outside service area \(\d+ miles away\)/);
+  assert.equal(calculateLeadScore(VENUE, local, { latitude: 40.73, longitude: -73.99 }).score, 95);
+  assert.equal(calculateLeadScore(VENUE, local, {}).score, 95);
+  console.log('✓ distance is scored when the venue location is known');
+
+  // Out-of-range values are rejected with a readable message
+  assert.throws(() => normalizeScoringProfile({ weights: { email: -5 } }), /Weight email/);
+  assert.throws(() => normalizeScoringProfile({ thresholds: { high: 30, medium: 40 } }), /Thresholds/);
+  assert.deepEqual(normalizeScoringProfile({}), DEFAULT_SCORING_PROFILE);
+  console.log('✓ invalid profiles are rejected');
+
+  // Saving a profile and rescoring updates the score fields of every enriched lead
+  const savedLeads: SavedLead[] = [
+    { id: 'lead-1', user_id: USER_ID, name: 'Summit Hall', status: 'enriched', enrichment_data: { ...VENUE }, lead_score: 95, lead_score_label: 'high' },
+    { id: 'lead-2', user_id: USER_ID, name: 'Garden Loft', status: 'enriched', enrichment_data: { eventManagerEmail: 'hi@loft.example', inHouseCatering: true }, lead_score: 30, lead_score_label: 'low' },
+    { id: 'lead-3', user_id: USER_ID, name: 'Corner Cafe', status: 'new' },
+  ];
+  const repository = leads.createInMemoryLeadsRepository(savedLeads);
+  leads.setLeadsRepository(repository);
+  scoring.setScoringProfileStore(scoring.createInMemoryScoringProfileStore());
+
+  // The user corrected Garden Loft: it does not cater in-house after all
+  await leads.setLeadOverride(USER_ID, 'lead-2', 'enrichment.inHouseCatering', false);
+
+  await scoring.saveScoringProfile(USER_ID, { thresholds: { high: 90, medium: 50 } });
+  const profile = await scoring.getScoringProfile(USER_ID);
+  assert.equal(profile.thresholds.high, 90);
+  assert.equal(profile.weights.email, 25);
+
+  const rescore = await scoring.rescoreLeads(USER_ID);
+  assert.deepEqual(rescore, { rescored: 2, changed: 1 });
+  const [summit, loft, cafe] = await repository.getByIds(USER_ID, ['lead-1', 'lead-2', 'lead-3']);
+  assert.equal(summit.lead_score_label, 'high');
+  assert.equal(loft.lead_score, 50);
+  assert.equal(loft.lead_score_label, 'medium');
+  assert.equal(loft.enrichment_data.leadScore.score, 50);
+  assert.equal(loft.enrichment_data.inHouseCatering, true);
+  assert.equal(cafe.lead_score, undefined);
+  console.log('✓ rescoring uses the saved profile and the user\'s overrides');
+
+  // Only values the user set are saved, so the business profile's name and location still apply
+  const business = { businessName: 'Fork & Feast', origin: { lat: 40.7128, lng: -74.006 } };
+  const store = scoring.createInMemoryScoringProfileStore(business);
+  scoring.setScoringProfileStore(store);
+  let saved = await scoring.saveScoringProfile(USER_ID, { weights: { email: 30 }, businessName: '  ', origin: null });
+  assert.deepEqual(await store.get(USER_ID), { weights: { email: 30 } });
+  assert.deepEqual([saved.businessName, saved.origin, saved.weights.phone], [business.businessName, business.origin, 10]);
+  saved = await scoring.saveScoringProfile(USER_ID, saved);
+  assert.equal((await store.get(USER_ID))!.businessName, undefined);
+  assert.equal((await store.get(USER_ID))!.origin, undefined);
+  await scoring.saveScoringProfile(USER_ID, { businessName: 'Fork and Feast Events' });
+  assert.equal((await scoring.getScoringProfile(USER_ID)).businessName, 'Fork and Feast Events');
+  await store.save(USER_ID, { businessName: null, origin: null });
+  assert.deepEqual(await scoring.getScoringProfile(USER_ID), normalizeScoringProfile(business));
+  console.log('✓ unset values fall back to the business profile');
+}
+
+run()
+  .then(() => console.log('\nAll scoring profile tests passed'))
+  .catch(error => {
+    console.error('Scoring profile tests failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,49 @@
+import type { db as Database } from '../../src/lib/db';
+
+/**
+ * In-memory stand-ins for db calls several tests share
+ *
+ * Tests replace the db methods they use with fakes; these cover a campaign launch and
+ * queued email status changes. Pass the db object the test imported.
+ */
+
+type Db = typeof Database;
+
+/**
+ * Answer the db calls a campaign launch makes
+ * @param getLeads A user's outreach leads
+ * @param suppressed Addresses on every user's suppression list
+ * @returns The emails the launch queues, each given an id
+ */
+export function stubCampaignLaunch(db: Db, getLeads: (userId: string) => any[], suppressed: string[] = []): any[] {
+  const queue: any[] = [];
+
+  db.savedLeads.getOutreachLeads = async (userId: string) => getLeads(userId);
+  db.userProfiles.getByUserId = async (userId: string) => ({ user_id: userId, business_name: 'Fresh Plates' } as any);
+  db.suppressions.getByUserId = async () => suppressed.map(email => ({ email } as any));
+  db.campaigns.create = async (campaign: any) => ({ id: `campaign-${campaign.user_id}`, ...campaign });
+  db.campaigns.update = async (id: string, updates: any) => ({ id, ...updates });
+  db.scheduledEmails.enqueue = async (emails: any[]) => {
+    const rows = emails.map((email, index) => ({ id: `queued-${queue.length + index}`, ...email }));
+    queue.push(...rows);
+    return rows;
+  };
+
+  return queue;
+}
+
+/**
+ * Move queued emails between statuses the way scheduledEmails.transition does
+ */
+export function stubTransition(db: Db, emails: any[]) {
+  db.scheduledEmails.transition = async (filter, fromStatuses, toStatus) => {
+    const matched = emails.filter(email =>
+      fromStatuses.includes(email.status) &&
+      (!filter.userId || email.user_id === filter.userId) &&
+      (!filter.leadId || email.lead_id === filter.leadId) &&
+      (!filter.campaignId || email.campaign_id === filter.campaignId)
+    );
+    matched.forEach(email => { email.status = toStatus; });
+    return matched;
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Placeholder config for the test scripts
+ *
+ * The db module creates its Supabase client on import, and the Resend and OpenAI clients
+ * need keys, so every test imports this module before loading anything from src. The
+ * OpenAI key is always the placeholder, so no test can reach the real API.
+ */
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'test-service-role-key';
+process.env.RESEND_API_KEY ||= 'test-resend-key';
+process.env.OPENAI_API_KEY = 'test-openai-key';
+
+export {};
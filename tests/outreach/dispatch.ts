@@ -0,0 +1,149 @@
+/**
+ * Tests for the scheduled email dispatcher
+ *
+ * Runs dispatchDueEmails over an in-memory scheduled_emails queue with Resend stubbed out.
+ * Checks that emails are claimed once, failed sends are retried and then given up on,
+ * suppressed recipients are skipped, an email that was sent but could not be recorded is
+ * not queued for another send, and emails stuck in sending are reclaimed. Sent emails pick
+ * up webhook events that arrived before they were marked sent.
+ *
+ * Run with: pnpm test:dispatch
+ */
+import assert from 'node:assert/strict';
+import axios from 'axios';
+import '../helpers/setup';
+
+process.env.UNSUBSCRIBE_SECRET ||= 'test-unsubscribe-secret';
+
+const USER_ID = '55555555-5555-4555-8555-555555555555';
+const NOW = new Date('2025-05-01T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+const queued = (id: string, recipient: string, fields: Record<string, any> = {}) => ({
+  id,
+  user_id: USER_ID,
+  campaign_id: 'campaign-1',
+  lead_id: `lead-${id}`,
+  recipient_email: recipient,
+  subject: 'Catering for your venue',
+  html_body: '<p>Hello</p>',
+  text_body: 'Hello',
+  step_index: 0,
+  send_at: new Date(NOW.getTime() - MINUTE_MS).toISOString(),
+  status: 'pending',
+  attempts: 0,
+  updated_at: new Date(NOW.getTime() - MINUTE_MS).toISOString(),
+  ...fields,
+});
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const { dispatchDueEmails } = await import('../../src/tools/resend');
+
+  let queue: any[] = [];
+  const failingUpdates = new Set<string>();
+  const requests: Array<{ to: string; key: string }> = [];
+  const deliveredKeys = new Map<string, string>();
+  const failingRecipients = new Set<string>();
+
+  db.scheduledEmails.getDue = async (now: Date, limit: number) =>
+    queue.filter(email => email.status === 'pending' && email.send_at <= now.toISOString()).slice(0, limit);
+  db.scheduledEmails.claim = async (id: string) => {
+    const email = queue.find(item => item.id === id);
+    if (!email || email.status !== 'pending') return null;
+    Object.assign(email, { status: 'sending', updated_at: NOW.toISOString() });
+    return { ...email };
+  };
+  db.scheduledEmails.update = async (id: string, updates: any) => {
+    if (updates.status === 'sent' && failingUpdates.has(id)) throw new Error('connection reset');
+    const email = queue.find(item => item.id === id);
+    Object.assign(email, updates);
+    return email;
+  };
+  db.scheduledEmails.reclaimStale = async (claimedBefore: Date) => {
+    const stale = queue.filter(email => email.status === 'sending' && email.updated_at < claimedBefore.toISOString());
+    stale.forEach(email => { email.status = 'pending'; });
+    return stale;
+  };
+  db.scheduledEmails.countOpen = async () => queue.filter(email => ['pending', 'sending', 'paused'].includes(email.status)).length;
+  db.campaigns.update = async (id: string, updates: any) => ({ id, ...updates });
+  db.suppressions.isSuppressed = async (_userId: string, email: string) => email === 'optout@venue.example';
+  db.userProfiles.getByUserId = async () => ({ business_name: 'Fresh Plates', full_address: '1 Main St' });
+  const linked: string[][] = [];
+  db.emailEvents.linkUnowned = async (messageId: string, owner: any) => {
+    linked.push([messageId, owner.scheduled_email_id]);
+    return [];
+  };
+
+  // Resend delivers a request once per idempotency key
+  axios.post = (async (_url: string, payload: any, config: any) => {
+    const key = config.headers['Idempotency-Key'];
+    requests.push({ to: payload.to, key });
+    if (failingRecipients.has(payload.to)) {
+      throw Object.assign(new Error('Request failed'), { response: { data: { message: 'Service unavailable' } } });
+    }
+    if (!deliveredKeys.has(key)) deliveredKeys.set(key, `msg-${deliveredKeys.size + 1}`);
+    return { data: { id: deliveredKeys.get(key) } };
+  }) as any;
+
+  // Due emails are claimed and sent; suppressed recipients are cancelled
+  queue = [
+    queued('a', 'events@hall.example'),
+    queued('b', 'optout@venue.example'),
+    queued('c', 'later@venue.example', { send_at: new Date(NOW.getTime() + MINUTE_MS).toISOString() }),
+  ];
+  let stats = await dispatchDueEmails(NOW);
+  assert.deepEqual([stats.processed, stats.sent, stats.suppressed], [2, 1, 1]);
+  assert.deepEqual(queue.map(email => email.status), ['sent', 'cancelled', 'pending']);
+  assert.deepEqual([queue[0].attempts, queue[0].provider_message_id], [1, 'msg-1']);
+  assert.deepEqual(requests.map(request => request.to), ['events@hall.example']);
+  assert.deepEqual(linked, [['msg-1', 'a']]);
+  console.log('✓ due emails are sent and suppressed recipients skipped');
+
+  // An email claimed by another worker is left alone
+  queue = [queued('d', 'events@hall.example')];
+  const claim = db.scheduledEmails.claim;
+  db.scheduledEmails.claim = async () => null;
+  stats = await dispatchDueEmails(NOW);
+  db.scheduledEmails.claim = claim;
+  assert.deepEqual([stats.processed, queue[0].status], [0, 'pending']);
+  console.log('✓ emails another worker claimed are skipped');
+
+  // Failed sends are retried later, then given up on
+  requests.length = 0;
+  failingRecipients.add('down@venue.example');
+  queue = [queued('e', 'down@venue.example')];
+  stats = await dispatchDueEmails(NOW);
+  assert.deepEqual([stats.retried, queue[0].status, queue[0].attempts], [1, 'pending', 1]);
+  assert.equal(queue[0].send_at, new Date(NOW.getTime() + 15 * MINUTE_MS).toISOString());
+  await dispatchDueEmails(new Date(NOW.getTime() + 15 * MINUTE_MS));
+  stats = await dispatchDueEmails(new Date(NOW.getTime() + 30 * MINUTE_MS));
+  assert.deepEqual([stats.failed, queue[0].status, queue[0].attempts, queue[0].last_error], [1, 'failed', 3, 'Service unavailable']);
+  assert.equal(new Set(requests.map(request => request.key)).size, 3);
+  console.log('✓ failed sends are retried, then marked failed');
+
+  // A send that cannot be recorded stays in sending rather than being queued again
+  requests.length = 0;
+  failingUpdates.add('f');
+  queue = [queued('f', 'events@loft.example')];
+  stats = await dispatchDueEmails(NOW);
+  assert.deepEqual([stats.sent, stats.unrecorded, stats.retried, queue[0].status], [0, 1, 0, 'sending']);
+  stats = await dispatchDueEmails(new Date(NOW.getTime() + 5 * MINUTE_MS));
+  assert.deepEqual([stats.processed, requests.length], [0, 1]);
+  console.log('✓ a sent email that cannot be recorded is not retried');
+
+  // Once stale it is reclaimed, and the resend reuses its idempotency key
+  failingUpdates.clear();
+  stats = await dispatchDueEmails(new Date(NOW.getTime() + 20 * MINUTE_MS));
+  assert.deepEqual([stats.reclaimed, stats.sent, queue[0].status, queue[0].attempts], [1, 1, 'sent', 1]);
+  assert.equal(requests[1].key, requests[0].key);
+  assert.equal(deliveredKeys.get(requests[0].key), queue[0].provider_message_id);
+  console.log('✓ emails stuck in sending are reclaimed without a second delivery');
+}
+
+run()
+  .then(() => console.log('\nAll dispatch tests passed'))
+  .catch(error => {
+    console.error('Dispatch tests failed:', error);
+    process.exit(1);
+  });
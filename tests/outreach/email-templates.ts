@@ -0,0 +1,72 @@
+/**
+ * Email template parsing tests
+ *
+ * Checks that model output is turned into structured templates, and that output
+ * in the wrong format is rejected with a clear error instead of being dropped.
+ *
+ * Run with: pnpm test:email-templates
+ */
+import assert from 'node:assert/strict';
+import {
+  describeSendOffset,
+  parseGeneratedTemplates,
+  renderEmailHtml,
+  updateEmailTemplate,
+} from '../../src/lib/email-templates';
+
+const modelOutput = JSON.stringify({
+  emails: [
+    {
+      subject: 'Catering for your spring weddings',
+      preheader: 'Seasonal menus for up to 300 guests',
+      body: 'Hi!\n\nI hope you\'re doing well.\n\nBest,\nSam',
+      theme: 'introduction',
+      ctaType: 'call',
+    },
+    {
+      subject: 'Our most requested dishes',
+      body: 'Hi!\n\nHere is what <couples> love most & why.',
+      theme: 'services',
+      ctaType: 'reply',
+    },
+  ],
+});
+
+function run() {
+  // Well-formed output becomes ordered templates with send offsets and HTML
+  const templates = parseGeneratedTemplates(modelOutput);
+  assert.equal(templates.length, 2);
+  assert.deepEqual(templates.map(template => [template.stepIndex, template.sendOffsetDays]), [[0, 0], [1, 4]]);
+  assert.equal(templates[0].subject, 'Catering for your spring weddings');
+  assert.ok(templates[0].htmlBody.includes('Seasonal menus for up to 300 guests'));
+  assert.ok(templates[0].htmlBody.includes('<p>Best,<br>Sam</p>'));
+  assert.equal(templates[1].preheader, '');
+  assert.ok(templates[1].htmlBody.includes('&lt;couples&gt; love most &amp; why'));
+  console.log('✓ model output parsed into structured templates');
+
+  // Output that deviates from the format is rejected loudly
+  assert.throws(() => parseGeneratedTemplates('Subject Line 1: Hello\n\nHi!'), /invalid JSON/);
+  assert.throws(() => parseGeneratedTemplates(JSON.stringify({ emails: [] })), /unexpected format: emails/);
+  assert.throws(
+    () => parseGeneratedTemplates(JSON.stringify({ emails: [{ subject: 'Hi', body: 'Hi!', theme: 'welcome', ctaType: 'call' }] })),
+    /emails\.0\.theme/
+  );
+  console.log('✓ malformed output rejected with the reason');
+
+  // Editing the text re-renders the HTML; editing the subject leaves it alone
+  const edited = updateEmailTemplate(templates[0], { textBody: 'Hi!\n\nUpdated copy.' });
+  assert.equal(edited.htmlBody, renderEmailHtml('Hi!\n\nUpdated copy.', templates[0].preheader));
+  assert.equal(updateEmailTemplate(templates[0], { subject: 'New subject' }).htmlBody, templates[0].htmlBody);
+  console.log('✓ edits keep the HTML body in sync');
+
+  assert.deepEqual([0, 4, 7, 77].map(describeSendOffset), ['Day 1', 'Day 5', 'Week 2', 'Week 12']);
+  console.log('✓ send offsets described as in the sequence timing');
+}
+
+try {
+  run();
+  console.log('\nAll email template tests passed');
+} catch (error) {
+  console.error('Email template tests failed:', error);
+  process.exit(1);
+}
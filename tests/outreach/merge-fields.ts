@@ -0,0 +1,130 @@
+/**
+ * Merge-field engine tests
+ *
+ * Renders templates against sample leads and a caterer profile, and checks
+ * that the pre-launch validator reports placeholders that would go out unfilled.
+ *
+ * Run with: pnpm test:merge-fields
+ */
+import assert from 'node:assert/strict';
+import {
+  describeMergeIssue,
+  findUnresolvedPlaceholders,
+  renderMergeFields,
+  validateMergeFields,
+} from '../../src/lib/merge-fields';
+import type { EmailTemplate } from '../../src/types/email';
+
+const sender = {
+  business_name: 'Harvest Table Catering',
+  full_address: '12 Market St, Asheville, NC',
+  contact_phone: '(828) 555-0142',
+  website_url: 'https://harvesttable.example',
+  user_input_data: {
+    ownerContact: 'Sam Rivera, Owner',
+    managerContact: 'Jo Park, jo@harvesttable.example',
+    yearsInOperation: '12',
+  },
+};
+
+const barn = {
+  id: 'lead-barn',
+  name: 'Rosewood Barn',
+  category: 'wedding',
+  enrichment_data: {
+    eventManagerName: 'Dana Whitfield',
+    venueCapacity: 250,
+    commonEventTypes: ['weddings', 'rehearsal dinners', 'showers'],
+    inHouseCatering: false,
+  },
+};
+
+const hall = { id: 'lead-hall', name: 'Summit Hall', category: 'wedding', enrichment_data: {} };
+
+function template(textBody: string, subject = 'Catering at {{lead.name}}'): EmailTemplate {
+  return {
+    stepIndex: 0, sendOffsetDays: 0, subject, preheader: '', textBody, htmlBody: '',
+    theme: 'introduction', ctaType: 'reply',
+  };
+}
+
+function run() {
+  // Catalog fields from the lead, its enrichment data and the sender profile
+  const rendered = renderMergeFields(
+    'Hi {{enrichment.event_manager_name | "there"}}! {{lead.name}} hosts {{enrichment.event_types}}. ' +
+    'Call {{sender.contact_name}} at {{sender.phone}} or email {{sender.email}}.',
+    { lead: barn, contact: null, sender }
+  );
+  assert.equal(
+    rendered.output,
+    'Hi Dana Whitfield! Rosewood Barn hosts weddings, rehearsal dinners and showers. ' +
+    'Call Sam Rivera at (828) 555-0142 or email jo@harvesttable.example.'
+  );
+  assert.deepEqual([rendered.missing, rendered.unknown], [[], []]);
+  console.log('✓ lead, enrichment and sender fields resolved');
+
+  // Fallbacks, including other fields, apply when a value is missing
+  assert.equal(
+    renderMergeFields('Hi {{enrichment.event_manager_name | lead.contact_name | "there"}}!', { lead: hall, contact: null, sender }).output,
+    'Hi there!'
+  );
+  assert.equal(
+    renderMergeFields('Menu: {{sender.menu_link}}', { lead: hall, contact: null, sender }).output,
+    'Menu: https://harvesttable.example'
+  );
+  console.log('✓ fallbacks used for missing values');
+
+  // Conditionals, nested, with else branches
+  const conditional = '{{#if enrichment.venue_capacity}}For up to {{enrichment.venue_capacity}} guests{{#if enrichment.in_house_catering}} alongside your kitchen{{/if}}.{{else}}For any size.{{/if}}';
+  assert.equal(renderMergeFields(conditional, { lead: barn, contact: null, sender }).output, 'For up to 250 guests.');
+  assert.equal(renderMergeFields(conditional, { lead: hall, contact: null, sender }).output, 'For any size.');
+  const prices = '{{#if enrichment.venue_capacity}}Menus from $$40, $& up{{else}}Ask for $\' pricing{{/if}}';
+  assert.equal(renderMergeFields(prices, { lead: barn, contact: null, sender }).output, 'Menus from $$40, $& up');
+  assert.equal(renderMergeFields(prices, { lead: hall, contact: null, sender }).output, 'Ask for $\' pricing');
+  console.log('✓ conditionals resolved, including nested blocks and dollar signs');
+
+  // Legacy bracket tokens map onto the catalog
+  assert.equal(
+    renderMergeFields('[Business] x [Business Name], call [Phone Number]', { lead: barn, contact: null, sender }).output,
+    'Rosewood Barn x Harvest Table Catering, call (828) 555-0142'
+  );
+  assert.deepEqual(findUnresolvedPlaceholders('Hi [Contact Person Title], see [our menu](https://x.example) {{oops}}'), [
+    '[Contact Person Title]',
+    '{{oops}}',
+  ]);
+  console.log('✓ legacy tokens mapped, leftovers detected');
+
+  // The validator blocks missing values, unknown fields and leftover placeholders
+  const issues = validateMergeFields(
+    {
+      wedding: [
+        template('Hi {{enrichment.event_manager_name}}, book at {{sender.calendar_link}}. {{lead.vibe}} [Contact Person Title]'),
+        { ...template('Hi {{enrichment.event_manager_name | "there"}}, book at {{sender.calendar_link | "reply"}}.'), stepIndex: 1 },
+      ],
+    },
+    { wedding: [{ lead: barn, contact: null }, { lead: hall, contact: null }] },
+    sender
+  );
+  assert.deepEqual(
+    issues.map(issue => [issue.stepIndex, issue.problem, issue.placeholder, issue.leads]),
+    [
+      [0, 'missing', 'sender.calendar_link', ['Rosewood Barn', 'Summit Hall']],
+      [0, 'unknown', 'lead.vibe', ['Rosewood Barn', 'Summit Hall']],
+      [0, 'unresolved', '[Contact Person Title]', ['Rosewood Barn', 'Summit Hall']],
+      [0, 'missing', 'enrichment.event_manager_name', ['Summit Hall']],
+    ]
+  );
+  assert.equal(
+    describeMergeIssue(issues[3]),
+    'wedding email #1: enrichment.event_manager_name has no value (Summit Hall)'
+  );
+  console.log('✓ validator reports every placeholder that would go out unfilled');
+}
+
+try {
+  run();
+  console.log('\nAll merge-field tests passed');
+} catch (error) {
+  console.error('Merge-field tests failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,126 @@
+/**
+ * Tests for per-lead personalization of opening emails
+ *
+ * Replaces the model call with a fake and launches campaigns against in-memory leads,
+ * checking that only high-potential leads get a rewritten opener, that calls are
+ * concurrency-limited and cached, and that failures fall back to the category template.
+ *
+ * Run with: pnpm test:personalization
+ */
+import assert from 'node:assert/strict';
+import type { EmailTemplate } from '../../src/types/email';
+import type { VenueInsights } from '../../src/agents/outreach';
+import { stubCampaignLaunch } from '../helpers/db';
+import '../helpers/setup';
+
+const USER_ID: string = '11111111-1111-4111-8111-111111111111';
+
+const highPotential = (overview: string) => ({
+  aiOverview: overview,
+  commonEventTypes: ['weddings', 'rehearsal dinners'],
+  preferredCaterers: ['Local Bites'],
+  inHouseCatering: false,
+  eventManagerName: 'Jordan',
+  leadScore: { score: 85, reasons: [], potential: 'high', lastCalculated: '2025-04-01' },
+});
+
+const savedLeads = [
+  { id: 'lead-1', user_id: USER_ID, name: 'Summit Hall', email: 'events@summit.example', category: 'wedding', enrichment_data: highPotential('Hilltop hall') },
+  { id: 'lead-2', user_id: USER_ID, name: 'River Barn', email: 'hello@river.example', category: 'wedding', enrichment_data: highPotential('Riverside barn') },
+  { id: 'lead-3', user_id: USER_ID, name: 'Oak Garden', email: 'info@oak.example', category: 'wedding', enrichment_data: highPotential('Garden venue') },
+  { id: 'lead-4', user_id: USER_ID, name: 'Pine Lodge', email: 'info@pine.example', category: 'wedding', lead_score_label: 'high', enrichment_data: {} },
+  { id: 'lead-5', user_id: USER_ID, name: 'Lake House', email: 'info@lake.example', category: 'wedding', enrichment_data: highPotential('Lakeside house') },
+  { id: 'lead-6', user_id: USER_ID, name: 'Corner Cafe', email: 'info@corner.example', category: 'wedding', lead_score_label: 'medium', enrichment_data: {} },
+];
+
+const approvedEmails: Record<string, EmailTemplate[]> = {
+  wedding: [
+    {
+      stepIndex: 0, sendOffsetDays: 0, subject: 'Catering for {{lead.name}}', preheader: '', theme: 'introduction', ctaType: 'reply',
+      textBody: 'Hi!\n\nWe would love to cater at {{lead.name}}.',
+      htmlBody: '<html><body><p>Hi!</p><p>We would love to cater at {{lead.name}}.</p></body></html>',
+    },
+    {
+      stepIndex: 1, sendOffsetDays: 4, subject: 'Our services', preheader: '', theme: 'services', ctaType: 'call',
+      textBody: 'Hi!\n\nHere is what we offer.',
+      htmlBody: '<html><body><p>Hi!</p><p>Here is what we offer.</p></body></html>',
+    },
+  ],
+};
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const { OutreachService } = await import('../../src/agents/outreach/service');
+  const { updateEmailTemplate } = await import('../../src/lib/email-templates');
+  const { launchApprovedCampaigns } = await import('../../src/workflows/outreach-campaign/steps');
+
+  const queue = stubCampaignLaunch(db, () => savedLeads);
+
+  // Fake model: fails for River Barn, invents a merge field for Oak Garden
+  const calls: string[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  OutreachService.prototype.personalizeOpeningEmail = async (template: EmailTemplate, venue: VenueInsights) => {
+    calls.push(venue.name);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    inFlight--;
+
+    if (venue.name === 'River Barn') throw new Error('model timed out');
+    const extra = venue.name === 'Oak Garden' ? ' {{lead.owner_name}}' : '';
+    return updateEmailTemplate(template, {
+      subject: `${venue.eventManagerName || 'Hi'}, ${venue.commonEventTypes?.[0] || 'events'} at {{lead.name}}`,
+      textBody: `Hi!\n\n${venue.aiOverview || 'Your venue'} looks perfect for us.${extra}`,
+    });
+  };
+
+  const openerFor = (leadId: string) => queue.find(email => email.lead_id === leadId && email.step_index === 0);
+
+  // Without the option the model is never called
+  const plain = await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example');
+  assert.equal(plain.success, true, `launch failed: ${plain.error}`);
+  assert.equal(calls.length, 0);
+  assert.equal(openerFor('lead-1').subject, 'Catering for Summit Hall');
+  console.log('✓ personalization is off by default');
+
+  // With the option, high-potential leads get a rewritten opener from their enrichment data
+  queue.length = 0;
+  const personalized = await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example', { personalizeOpeners: true });
+  assert.equal(personalized.success, true, `launch failed: ${personalized.error}`);
+  assert.deepEqual([...calls].sort(), ['Lake House', 'Oak Garden', 'Pine Lodge', 'River Barn', 'Summit Hall']);
+  assert.equal(openerFor('lead-1').subject, 'Jordan, weddings at Summit Hall');
+  assert.equal(openerFor('lead-1').text_body, 'Hi!\n\nHilltop hall looks perfect for us.');
+  assert.ok(openerFor('lead-1').html_body.includes('Hilltop hall looks perfect for us.'));
+  assert.equal(openerFor('lead-5').subject, 'Jordan, weddings at Lake House');
+  console.log('✓ high-potential leads get a personalized opener');
+
+  // Only the opener is rewritten, and lower-potential leads keep the category template
+  assert.equal(queue.find(email => email.lead_id === 'lead-1' && email.step_index === 1).subject, 'Our services');
+  assert.equal(openerFor('lead-6').subject, 'Catering for Corner Cafe');
+  console.log('✓ follow-ups and other leads use the category template');
+
+  // A failed call or a broken merge field falls back to the category template
+  assert.equal(openerFor('lead-2').subject, 'Catering for River Barn');
+  assert.equal(openerFor('lead-3').subject, 'Catering for Oak Garden');
+  assert.ok(!openerFor('lead-3').text_body.includes('{{'));
+  console.log('✓ failures fall back to the category template');
+
+  assert.ok(maxInFlight > 1 && maxInFlight <= 3, `expected 2-3 calls in flight, saw ${maxInFlight}`);
+  console.log('✓ model calls are concurrency-limited');
+
+  // Relaunching with the same template and research reuses cached openers; the failed lead is retried
+  calls.length = 0;
+  queue.length = 0;
+  await launchApprovedCampaigns(approvedEmails, USER_ID, 'owner@caterer.example', { personalizeOpeners: true });
+  assert.deepEqual(calls, ['River Barn']);
+  assert.equal(openerFor('lead-1').subject, 'Jordan, weddings at Summit Hall');
+  console.log('✓ personalized openers are cached');
+}
+
+run()
+  .then(() => console.log('\nAll personalization tests passed'))
+  .catch(error => {
+    console.error('Personalization tests failed:', error);
+    process.exit(1);
+  });
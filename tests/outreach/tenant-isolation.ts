@@ -0,0 +1,136 @@
+/**
+ * Tenant isolation tests for the outreach campaign workflow
+ *
+ * Replaces the saved_leads, user_profiles, campaigns and scheduled_emails collections
+ * with in-memory fakes, then launches campaigns for two users and checks
+ * that neither launch reads, queues or controls the other user's leads. Also checks that a
+ * launch that cannot schedule anything leaves no campaign or queued emails behind.
+ *
+ * Run with: pnpm test:outreach-isolation
+ */
+import assert from 'node:assert/strict';
+import type { EmailTemplate } from '../../src/types/email';
+import { stubCampaignLaunch, stubTransition } from '../helpers/db';
+import '../helpers/setup';
+
+const USER_A: string = '11111111-1111-4111-8111-111111111111';
+const USER_B: string = '22222222-2222-4222-8222-222222222222';
+
+const savedLeads = [
+  { id: 'lead-a1', user_id: USER_A, name: 'A Wedding Barn', email: 'barn@a.example', category: 'wedding' },
+  { id: 'lead-a2', user_id: USER_A, name: 'A Corporate Loft', email: 'loft@a.example', category: 'corporate' },
+  { id: 'lead-b1', user_id: USER_B, name: 'B Wedding Garden', email: 'garden@b.example', category: 'wedding' },
+  { id: 'lead-b2', user_id: USER_B, name: 'B Corporate Hall', email: 'hall@b.example', category: 'Corporate' },
+];
+
+const approvedEmails: Record<string, EmailTemplate[]> = {
+  wedding: [{
+    stepIndex: 0, sendOffsetDays: 0, subject: 'Hello [Business]', preheader: '', theme: 'introduction', ctaType: 'reply',
+    textBody: 'We would love to cater at [Business].',
+    htmlBody: '<html><body><p>We would love to cater at [Business].</p></body></html>',
+  }],
+  corporate: [{
+    stepIndex: 0, sendOffsetDays: 0, subject: 'Lunch for [Business]', preheader: '', theme: 'introduction', ctaType: 'call',
+    textBody: 'Let us feed your team.',
+    htmlBody: '<html><body><p>Let us feed your team.</p></body></html>',
+  }],
+};
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const { launchApprovedCampaigns } = await import('../../src/workflows/outreach-campaign/steps');
+  const { pauseScheduledEmails } = await import('../../src/tools/resend');
+
+  const leadQueries: string[] = [];
+  const queue = stubCampaignLaunch(db, userId => {
+    leadQueries.push(userId);
+    return savedLeads.filter(lead => lead.user_id === userId);
+  });
+  stubTransition(db, queue);
+  const deletedCampaigns: string[] = [];
+  db.campaigns.delete = async (id: string) => {
+    deletedCampaigns.push(id);
+    return true;
+  };
+
+  const leadsOf = (userId: string) => savedLeads.filter(lead => lead.user_id === userId).map(lead => lead.id);
+
+  // User A's launch only reads and queues user A's leads
+  const resultA = await launchApprovedCampaigns(approvedEmails, USER_A, 'a@caterer.example');
+  assert.equal(resultA.success, true, `launch for user A failed: ${resultA.error}`);
+  assert.ok(leadQueries.length > 0 && leadQueries.every(userId => userId === USER_A));
+  assert.ok(queue.length > 0);
+  for (const email of queue) {
+    assert.equal(email.user_id, USER_A);
+    assert.equal(email.campaign_id, `campaign-${USER_A}`);
+    assert.ok(leadsOf(USER_A).includes(email.lead_id), `user A queued ${email.lead_id}`);
+    assert.ok(!email.subject.includes('[Business]') && email.text_body, 'queued email is personalized with a text part');
+  }
+  console.log('✓ user A launch only targets user A leads');
+
+  // User B's launch only reads and queues user B's leads
+  leadQueries.length = 0;
+  const queuedForA = queue.length;
+  const resultB = await launchApprovedCampaigns(approvedEmails, USER_B, 'b@caterer.example');
+  assert.equal(resultB.success, true, `launch for user B failed: ${resultB.error}`);
+  assert.ok(leadQueries.every(userId => userId === USER_B));
+  for (const email of queue.slice(queuedForA)) {
+    assert.equal(email.user_id, USER_B);
+    assert.ok(leadsOf(USER_B).includes(email.lead_id), `user B queued ${email.lead_id}`);
+  }
+  console.log('✓ user B launch only targets user B leads');
+
+  // User A cannot pause user B's sends, even with user B's lead id
+  const paused = await pauseScheduledEmails({ userId: USER_A, leadId: 'lead-b1' });
+  assert.equal(paused.length, 0);
+  assert.ok(queue.filter(email => email.user_id === USER_B).every(email => email.status === 'pending'));
+  console.log("✓ user A cannot pause user B's sends");
+
+  // A launch without a user never falls back to another user's leads
+  leadQueries.length = 0;
+  const anonymous = await launchApprovedCampaigns(approvedEmails, '', '');
+  assert.equal(anonymous.success, false);
+  assert.equal(leadQueries.length, 0);
+  console.log('✓ launch without a user is rejected');
+
+  // A user without eligible leads gets an error, not an empty scheduled campaign
+  const USER_C = '33333333-3333-4333-8333-333333333333';
+  const empty = await launchApprovedCampaigns(approvedEmails, USER_C, 'c@caterer.example');
+  assert.equal(empty.success, false);
+  assert.match(empty.error!, /No leads are eligible/);
+  assert.deepEqual(deletedCampaigns, [`campaign-${USER_C}`]);
+  console.log('✓ a launch that schedules nothing is discarded');
+
+  // A launch that fails part way cancels what it queued and removes its campaign
+  const enqueue = db.scheduledEmails.enqueue;
+  let inserts = 0;
+  db.scheduledEmails.enqueue = async (emails: any[]) => {
+    if (++inserts > 1) throw new Error('insert failed');
+    return enqueue(emails);
+  };
+  queue.length = 0;
+  const failed = await launchApprovedCampaigns(approvedEmails, USER_A, 'a@caterer.example');
+  db.scheduledEmails.enqueue = enqueue;
+  assert.equal(failed.success, false);
+  assert.ok(queue.length > 0 && queue.every(email => email.status === 'cancelled'));
+  assert.deepEqual(deletedCampaigns, [`campaign-${USER_C}`, `campaign-${USER_A}`]);
+  console.log('✓ a launch that fails part way is discarded');
+
+  // A launch whose campaign cannot be marked scheduled is discarded rather than left in draft
+  const update = db.campaigns.update;
+  db.campaigns.update = async () => { throw new Error('update failed'); };
+  queue.length = 0;
+  const unmarked = await launchApprovedCampaigns(approvedEmails, USER_B, 'b@caterer.example');
+  db.campaigns.update = update;
+  assert.equal(unmarked.success, false);
+  assert.ok(queue.length > 0 && queue.every(email => email.status === 'cancelled'));
+  assert.deepEqual(deletedCampaigns.slice(-1), [`campaign-${USER_B}`]);
+  console.log('✓ a launch that cannot be marked scheduled is discarded');
+}
+
+run()
+  .then(() => console.log('\nAll tenant isolation tests passed'))
+  .catch(error => {
+    console.error('Tenant isolation tests failed:', error);
+    process.exit(1);
+  });
@@ -2,6 +2,7 @@ import { config } from 'dotenv';
 config(); // Load environment variables
 
 import { generateDripCampaign } from '../../src/agents/outreachAgent';
+import type { EmailTemplate } from '../../src/types/email';
 import { createClient } from '@supabase/supabase-js';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -45,7 +46,7 @@ const MOCK_PROFILE = {
 };
 
 // Function to save templates to file
-function saveTemplateToFile(category: string, templates: string[]): string {
+function saveTemplateToFile(category: string, templates: EmailTemplate[]): string {
   const timestamp = new Date().toISOString().replace(/:/g, '-').split('.')[0];
   const filename = path.join(outputDir, `${category}-templates-${timestamp}.txt`);
   
@@ -53,7 +54,8 @@ function saveTemplateToFile(category: string, templates: string[]): string {
   content += `Generated: ${new Date().toLocaleString()}\n\n`;
   
   templates.forEach((template, index) => {
-    content += `## EMAIL ${index + 1}\n\n${template}\n\n`;
+    content += `## EMAIL ${index + 1} (${template.theme}, day ${template.sendOffsetDays + 1})\n\n`;
+    content += `Subject: ${template.subject}\nPreheader: ${template.preheader}\n\n${template.textBody}\n\n`;
   });
   
   fs.writeFileSync(filename, content);
@@ -116,7 +118,8 @@ async function runTest() {
         if (templates.length > 0) {
           console.log('\nSample template:');
           console.log('----------------');
-          console.log(templates[0].substring(0, 300) + '...');
+          console.log(`Subject: ${templates[0].subject}`);
+          console.log(templates[0].textBody.substring(0, 300) + '...');
           console.log('----------------\n');
         }
       } catch (error) {
@@ -0,0 +1,139 @@
+/**
+ * Reply detection tests
+ *
+ * Copies the sample messages in ./mailbox to a temporary directory and runs the
+ * local mailbox poller over them, with in-memory fakes of the scheduled_emails,
+ * email_replies, saved_leads and lead_outcomes collections. Checks that replies are matched
+ * to their lead, stop the lead's remaining drip emails and mark the lead replied, and that
+ * untagged replies only match emails sent by the mailbox's owner. A later campaign launch
+ * leaves out the leads that replied.
+ *
+ * Run with: pnpm test:replies
+ */
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { stubCampaignLaunch, stubTransition } from '../helpers/db';
+import '../helpers/setup';
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_USER_ID = '22222222-2222-4222-8222-222222222222';
+
+// Queued emails for two leads: step 0 sent, later steps still pending
+const queue: any[] = [
+  { id: '5b1f3c2e-8d4a-4f6b-9c7e-2a1d0e9f8b7c', user_id: USER_ID, campaign_id: 'campaign-spring', lead_id: 'lead-wedding', recipient_email: 'events@rosewoodbarn.example', step_index: 0, status: 'sent', sent_at: '2025-04-14T15:02:03.000Z' },
+  { id: 'se-wedding-1', user_id: USER_ID, campaign_id: 'campaign-spring', lead_id: 'lead-wedding', recipient_email: 'events@rosewoodbarn.example', step_index: 1, status: 'pending' },
+  { id: 'se-wedding-2', user_id: USER_ID, campaign_id: 'campaign-spring', lead_id: 'lead-wedding', recipient_email: 'events@rosewoodbarn.example', step_index: 2, status: 'paused' },
+  { id: 'se-corporate-0', user_id: USER_ID, campaign_id: 'campaign-spring', lead_id: 'lead-corporate', recipient_email: 'sales@harborlofts.example', step_index: 0, status: 'sent', sent_at: '2025-04-14T15:02:04.000Z' },
+  { id: 'se-corporate-1', user_id: USER_ID, campaign_id: 'campaign-spring', lead_id: 'lead-corporate', recipient_email: 'sales@harborlofts.example', step_index: 1, status: 'pending' },
+  // Another caterer emailed the same venue more recently
+  { id: 'se-rival-0', user_id: OTHER_USER_ID, campaign_id: 'campaign-rival', lead_id: 'lead-rival', recipient_email: 'sales@harborlofts.example', step_index: 0, status: 'sent', sent_at: '2025-04-15T10:00:00.000Z' },
+  { id: 'se-rival-1', user_id: OTHER_USER_ID, campaign_id: 'campaign-rival', lead_id: 'lead-rival', recipient_email: 'sales@harborlofts.example', step_index: 1, status: 'pending' },
+  { id: 'se-other-1', user_id: USER_ID, campaign_id: 'campaign-spring', lead_id: 'lead-other', recipient_email: 'hello@summitcenter.example', step_index: 1, status: 'pending' },
+];
+
+async function run() {
+  const { db } = await import('../../src/lib/db');
+  const { pollLocalMailbox } = await import('../../src/tools/mailbox-poller');
+  const { ingestInboundReply } = await import('../../src/tools/inbound-email');
+  const { launchApprovedCampaigns } = await import('../../src/workflows/outreach-campaign/steps');
+
+  const replies: any[] = [];
+  const leadStatuses: Record<string, string> = {};
+
+  db.scheduledEmails.get = async (id: string) => queue.find(email => email.id === id) || null;
+  db.scheduledEmails.getLatestSentTo = async (userId: string, recipient: string) =>
+    queue
+      .filter(email => email.user_id === userId && email.status === 'sent' && email.recipient_email === recipient.toLowerCase())
+      .sort((a, b) => b.sent_at.localeCompare(a.sent_at))[0] || null;
+  stubTransition(db, queue);
+  db.emailReplies.record = async (reply: any) => {
+    if (replies.some(existing => existing.message_id === reply.message_id)) return null;
+    replies.push(reply);
+    return reply;
+  };
+  db.savedLeads.updateStatus = async (userId: string, leadId: string, status: string) => {
+    leadStatuses[`${userId}:${leadId}`] = status;
+    return true;
+  };
+  const outcomes: any[] = [];
+  db.leadOutcomes.record = async (outcome: any) => {
+    outcomes.push(outcome);
+    return outcome;
+  };
+
+  const mailboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'caterly-mailbox-'));
+  for (const file of fs.readdirSync(path.join(__dirname, 'mailbox'))) {
+    fs.copyFileSync(path.join(__dirname, 'mailbox', file), path.join(mailboxDir, file));
+  }
+
+  try {
+    const results = await pollLocalMailbox(mailboxDir, USER_ID);
+    assert.equal(results.length, 3);
+
+    // Tagged Reply-To address matches the exact queued email
+    assert.equal(results[0].matched, true);
+    assert.equal(results[0].leadId, 'lead-wedding');
+    assert.equal(results[0].reply?.match_method, 'reply_address');
+    assert.equal(results[0].cancelledEmails, 2);
+    assert.equal(leadStatuses[`${USER_ID}:lead-wedding`], 'replied');
+    assert.deepEqual(outcomes[0], { user_id: USER_ID, lead_id: 'lead-wedding', campaign_id: 'campaign-spring', outcome: 'replied' });
+    console.log('✓ tagged reply matched and wedding drip stopped');
+
+    // Untagged reply falls back to the latest email the mailbox owner sent to the sender
+    assert.equal(results[1].matched, true);
+    assert.equal(results[1].leadId, 'lead-corporate');
+    assert.equal(results[1].reply?.match_method, 'sender');
+    assert.equal(results[1].cancelledEmails, 1);
+    assert.equal(queue.find(email => email.id === 'se-rival-1').status, 'pending');
+    assert.equal(leadStatuses[`${OTHER_USER_ID}:lead-rival`], undefined);
+    console.log('✓ sender reply matched and corporate drip stopped, other users untouched');
+
+    // Unrelated mail is ignored and other leads keep their schedule
+    assert.equal(results[2].matched, false);
+    assert.equal(queue.find(email => email.id === 'se-other-1').status, 'pending');
+    assert.equal(replies.length, 2);
+    console.log('✓ unrelated mail ignored, other leads untouched');
+
+    // Without a mailbox owner an untagged reply is not matched to anyone's emails
+    const unowned = await ingestInboundReply({
+      messageId: '<b7d1rival@harborlofts.example>',
+      from: 'Harbor Lofts <SALES@harborlofts.example>',
+      to: ['outreach@rivalcatering.example'],
+      subject: 'Re: Corporate catering',
+    });
+    assert.equal(unowned.matched, false);
+    assert.equal(queue.find(email => email.id === 'se-rival-1').status, 'pending');
+    console.log('✓ untagged replies without a mailbox owner are not matched');
+
+    // Processed messages are moved out of the mailbox
+    assert.deepEqual(fs.readdirSync(mailboxDir).filter(file => file.endsWith('.json')), []);
+    console.log('✓ processed messages moved out of the mailbox');
+
+    // A new campaign skips the leads that replied
+    const enqueued = stubCampaignLaunch(db, userId => [
+      { id: 'lead-wedding', user_id: userId, name: 'Rosewood Barn', category: 'wedding', email: 'events@rosewoodbarn.example' },
+      { id: 'lead-corporate', user_id: userId, name: 'Harbor Lofts', category: 'wedding', email: 'sales@harborlofts.example' },
+      { id: 'lead-other', user_id: userId, name: 'Summit Center', category: 'wedding', email: 'hello@summitcenter.example' },
+    ].map(lead => ({ ...lead, status: leadStatuses[`${userId}:${lead.id}`] || 'enriched' })));
+    const launch = await launchApprovedCampaigns({
+      wedding: [{
+        stepIndex: 0, sendOffsetDays: 0, subject: 'Summer menus for {{lead.name}}', preheader: '', theme: 'introduction', ctaType: 'reply',
+        textBody: 'Our summer menus are ready.', htmlBody: '',
+      }],
+    }, USER_ID, 'owner@caterer.example');
+    assert.equal(launch.success, true, `launch failed: ${launch.error}`);
+    assert.deepEqual(enqueued.map(email => email.lead_id), ['lead-other']);
+    console.log('✓ leads that replied are left out of later campaigns');
+  } finally {
+    fs.rmSync(mailboxDir, { recursive: true, force: true });
+  }
+}
+
+run()
+  .then(() => console.log('\nAll reply detection tests passed'))
+  .catch(error => {
+    console.error('Reply detection tests failed:', error);
+    process.exit(1);
+  });
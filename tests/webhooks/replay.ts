@@ -0,0 +1,149 @@
+/**
+ * Resend webhook replay harness
+ *
+ * Signs every payload in ./fixtures the way Resend (Svix) does and replays it.
+ *
+ * By default the fixtures run in-process against in-memory fakes of the
+ * scheduled_emails and email_events collections, and the resulting
+ * dashboard numbers are checked.
+ *
+ * Pass --url to post the signed fixtures to a running server instead:
+ *   pnpm test:webhooks -- --url http://localhost:3000/api/webhooks/resend
+ * The server and this script must share RESEND_WEBHOOK_SECRET.
+ */
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import '../helpers/setup';
+
+const SECRET = process.env.RESEND_WEBHOOK_SECRET || `whsec_${Buffer.from('local-webhook-test-secret').toString('base64')}`;
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const CAMPAIGN_ID = 'campaign-spring';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+function loadFixtures() {
+  return fs.readdirSync(fixturesDir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({ name: file, body: fs.readFileSync(path.join(fixturesDir, file), 'utf8') }));
+}
+
+async function signedHeaders(body: string, webhookId: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const { signWebhookPayload } = await import('../../src/tools/resend-webhooks');
+  const signature = signWebhookPayload(body, webhookId, String(timestamp), SECRET);
+  return { id: webhookId, timestamp: String(timestamp), signature: `v1,${signature}` };
+}
+
+// Queued emails the fixture events refer to
+const scheduledEmails: any[] = [
+  { id: 'se-1', user_id: USER_ID, campaign_id: CAMPAIGN_ID, lead_id: 'lead-1', step_index: 0, status: 'sent', subject: 'Catering for your spring weddings', recipient_email: 'events@rosewoodbarn.example', provider_message_id: 're_msg_wedding_step0' },
+  { id: 'se-2', user_id: USER_ID, campaign_id: CAMPAIGN_ID, lead_id: 'lead-2', step_index: 0, status: 'sent', subject: 'Team lunches at Harbor Lofts', recipient_email: 'nobody@harborlofts.example', provider_message_id: 're_msg_corporate_step0' },
+  { id: 'se-3', user_id: USER_ID, campaign_id: CAMPAIGN_ID, lead_id: 'lead-3', step_index: 1, status: 'sent', subject: 'Following up on catering options', recipient_email: 'office@summitcenter.example', provider_message_id: 're_msg_corporate_step1' },
+  { id: 'se-4', user_id: USER_ID, campaign_id: CAMPAIGN_ID, lead_id: 'lead-1', step_index: 1, status: 'pending', subject: 'A menu for your venue', recipient_email: 'events@rosewoodbarn.example', provider_message_id: null },
+];
+
+async function replayInProcess() {
+  const { db } = await import('../../src/lib/db');
+  const { verifyWebhookSignature, ingestWebhookEvent, linkEarlyEvents } = await import('../../src/tools/resend-webhooks');
+  const { summarizeEngagement } = await import('../../src/lib/outreach-stats');
+
+  const events: any[] = [];
+  db.scheduledEmails.getByProviderMessageId = async (messageId: string) =>
+    scheduledEmails.find(email => email.provider_message_id === messageId) || null;
+  const suppressions: any[] = [];
+  db.suppressions.add = async (suppression: any) => {
+    suppressions.push(suppression);
+    return true;
+  };
+  db.emailEvents.record = async (event: any) => {
+    if (events.some(existing => existing.webhook_id === event.webhook_id)) return null;
+    events.push(event);
+    return event;
+  };
+
+  const fixtures = loadFixtures();
+  for (const [index, fixture] of fixtures.entries()) {
+    const headers = await signedHeaders(fixture.body, `msg_fixture_${index}`);
+    assert.ok(verifyWebhookSignature(fixture.body, headers, SECRET), `${fixture.name} should verify`);
+
+    const recorded = await ingestWebhookEvent(headers.id, JSON.parse(fixture.body));
+    assert.ok(recorded, `${fixture.name} should be recorded`);
+    assert.equal(recorded?.user_id, USER_ID);
+    console.log(`✓ ${fixture.name} verified and recorded as ${recorded?.event_type}`);
+  }
+
+  // Redelivery of the same webhook id is ignored
+  const redelivered = await ingestWebhookEvent('msg_fixture_0', JSON.parse(fixtures[0].body));
+  assert.equal(redelivered, null);
+  console.log('✓ redelivered webhook ignored');
+
+  // Hard bounces and complaints suppress the recipient
+  assert.deepEqual(
+    suppressions.map(suppression => [suppression.email, suppression.reason]).sort(),
+    [['nobody@harborlofts.example', 'hard_bounce'], ['office@summitcenter.example', 'complaint']]
+  );
+  console.log('✓ bounced and complaining recipients suppressed');
+
+  // Tampered bodies and stale timestamps are rejected
+  const original = fixtures[0].body;
+  const headers = await signedHeaders(original, 'msg_tampered');
+  assert.equal(verifyWebhookSignature(`${original} `, headers, SECRET), false);
+  const staleHeaders = await signedHeaders(original, 'msg_stale', Math.floor(Date.now() / 1000) - 3600);
+  assert.equal(verifyWebhookSignature(original, staleHeaders, SECRET), false);
+  assert.equal(verifyWebhookSignature(original, { ...headers, signature: null }, SECRET), false);
+  console.log('✓ tampered, stale and unsigned webhooks rejected');
+
+  // The replayed events feed the dashboard numbers
+  const campaign: any = { id: CAMPAIGN_ID, name: 'Spring venues', status: 'running' };
+  const stats = summarizeEngagement(scheduledEmails, events, [campaign]);
+  assert.deepEqual(
+    { sent: stats.totals.sent, pending: stats.totals.pending, opened: stats.totals.opened, clicked: stats.totals.clicked, bounced: stats.totals.bounced, complained: stats.totals.complained },
+    { sent: 3, pending: 1, opened: 1, clicked: 1, bounced: 1, complained: 1 }
+  );
+  assert.equal(stats.campaigns[0].openRate, 33);
+  console.log('✓ dashboard stats reflect replayed events');
+
+  // An event that arrives before its email is marked sent is linked once it is
+  db.emailEvents.linkUnowned = async (messageId: string, owner: any) => {
+    const unowned = events.filter(event => event.provider_message_id === messageId && !event.scheduled_email_id);
+    unowned.forEach(event => Object.assign(event, owner));
+    return unowned;
+  };
+  const early = JSON.parse(fixtures.find(fixture => fixture.name === 'email.bounced.json')!.body);
+  early.data = { ...early.data, email_id: 're_msg_wedding_step1', to: ['events@rosewoodbarn.example'] };
+  assert.equal((await ingestWebhookEvent('msg_early', early))?.scheduled_email_id, null);
+  const linked = await linkEarlyEvents({ ...scheduledEmails[3], status: 'sent', provider_message_id: 're_msg_wedding_step1' });
+  assert.deepEqual(linked.map(event => [event.scheduled_email_id, event.user_id, event.event_type]), [['se-4', USER_ID, 'bounced']]);
+  assert.ok(suppressions.some(suppression => suppression.email === 'events@rosewoodbarn.example' && suppression.reason === 'hard_bounce'));
+  console.log('✓ events that arrive before the send is recorded are linked to it');
+}
+
+async function replayAgainstServer(url: string) {
+  for (const [index, fixture] of loadFixtures().entries()) {
+    const headers = await signedHeaders(fixture.body, `msg_replay_${Date.now()}_${index}`);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'svix-id': headers.id,
+        'svix-timestamp': headers.timestamp,
+        'svix-signature': headers.signature,
+      },
+      body: fixture.body,
+    });
+    console.log(`${fixture.name}: ${response.status} ${await response.text()}`);
+  }
+}
+
+const urlIndex = process.argv.indexOf('--url');
+const run = urlIndex > -1
+  ? replayAgainstServer(process.argv[urlIndex + 1])
+  : replayInProcess();
+
+run
+  .then(() => console.log('\nWebhook replay completed'))
+  .catch(error => {
+    console.error('Webhook replay failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,123 @@
+/**
+ * Integration test for the lead enrichment workflow
+ *
+ * Drives workflowManager.executeWorkflow('lead-enrichment', ...) end to end with the
+ * leads repository and queue store held in memory, Firecrawl stubbed and OpenAI
+ * answered by a fake fetch, then checks what was saved on each lead.
+ *
+ * Run with: pnpm test:lead-enrichment
+ */
+import assert from 'node:assert/strict';
+import type { SavedLead } from '../../src/lib/db';
+import '../helpers/setup';
+
+const USER_ID: string = '11111111-1111-4111-8111-111111111111';
+const OTHER_USER: string = '22222222-2222-4222-8222-222222222222';
+
+const savedLeads: SavedLead[] = [
+  { id: 'lead-1', user_id: USER_ID, name: 'Summit Hall', category: 'wedding', website_url: 'https://summithall.example', status: 'new' },
+  { id: 'lead-2', user_id: USER_ID, name: 'Corner Cafe', category: 'restaurant', website_url: null, status: 'new' },
+  { id: 'lead-3', user_id: USER_ID, name: 'River Barn', category: 'wedding', website_url: 'riverbarn.example', status: 'new', contact_name: 'Sam Lee' },
+  { id: 'lead-4', user_id: OTHER_USER, name: 'Private Venue', category: 'wedding', website_url: 'https://private.example', status: 'new' },
+];
+
+async function run() {
+  // Load the modules being stubbed before the workflow manager, so both share one instance
+  const leads = await import('../../src/lib/leads/repository');
+  const queue = await import('../../src/lib/job-queue');
+  const scoring = await import('../../src/lib/leads/scoring-profiles');
+  const { firecrawlTool } = await import('../../src/tools/firecrawl');
+  const { workflowManager } = await import('../../src/workflows/workflowManager');
+  const { POST } = await import('../../src/app/api/leads/batch/route');
+
+  const repository = leads.createInMemoryLeadsRepository(savedLeads);
+  leads.setLeadsRepository(repository);
+  scoring.setScoringProfileStore(scoring.createInMemoryScoringProfileStore());
+  queue.setQueueStore(queue.createInMemoryQueueStore());
+
+  // Stub Firecrawl: every site returns a short page about the venue
+  const crawled: string[] = [];
+  firecrawlTool.extract = async options => {
+    const url = options.urls![0];
+    crawled.push(url);
+    return { success: true, url, data: { text: `Weddings and corporate events at ${url}. Capacity 250 guests.` } };
+  };
+
+  // Fake OpenAI: answers with venue details for whichever venue the prompt is about
+  const openAiPrompts: string[] = [];
+  globalThis.fetch = (async (input: any, init?: any) => {
+    assert.ok(String(input).startsWith('https://api.openai.com/'), `unexpected fetch to ${input}`);
+    const prompt: string = JSON.parse(init.body).messages[1].content;
+    openAiPrompts.push(prompt);
+    const venueName = savedLeads.find(lead => prompt.includes(lead.name))?.name || 'Unknown';
+    const content = JSON.stringify({
+      venueName,
+      aiOverview: `${venueName} hosts weddings and corporate events.`,
+      eventManagerName: 'Jordan Park',
+      eventManagerEmail: 'events@venue.example',
+      commonEventTypes: ['weddings', 'corporate events'],
+      venueCapacity: 250,
+      inHouseCatering: false,
+    });
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+  }) as typeof fetch;
+
+  // The workflow loads the user's leads, enriches the ones with a website and saves the results
+  const result = await workflowManager.executeWorkflow('lead-enrichment', {
+    leadIds: ['lead-1', 'lead-2', 'lead-3', 'lead-4', 'missing-lead'],
+    userId: USER_ID,
+  });
+  assert.equal(result.success, true, `workflow failed: ${result.error}`);
+  assert.equal(result.results.total, 3);
+  assert.equal(result.results.successful, 2);
+  assert.equal(result.results.skipped, 1);
+  assert.equal(result.results.failed, 0);
+  console.log('✓ the workflow enriches the requested leads');
+
+  const [summit, corner, river] = await repository.getByIds(USER_ID, ['lead-1', 'lead-2', 'lead-3']);
+  assert.equal(summit.status, 'enriched');
+  assert.equal(summit.enrichment_data.aiOverview, 'Summit Hall hosts weddings and corporate events.');
+  assert.equal(summit.enrichment_data.venueCapacity, 250);
+  assert.equal(typeof summit.lead_score, 'number');
+  assert.equal(summit.lead_score_label, summit.enrichment_data.leadScore.potential);
+  assert.equal(summit.contact_name, 'Jordan Park');
+  assert.equal(summit.contact_email, 'events@venue.example');
+  assert.ok(summit.last_enriched_at);
+  console.log('✓ enrichment results are saved on the lead');
+
+  // Website content reaches the model, leads without a site are skipped, and existing contacts are kept
+  assert.deepEqual(crawled.sort(), ['https://riverbarn.example', 'https://summithall.example']);
+  assert.ok(openAiPrompts.some(prompt => prompt.includes('Capacity 250 guests')));
+  assert.equal(corner.status, 'new');
+  assert.equal(corner.enrichment_data, undefined);
+  assert.equal(river.contact_name, 'Sam Lee');
+  console.log('✓ leads without a website are skipped');
+
+  // Other users' leads are never loaded or changed
+  assert.ok(!openAiPrompts.some(prompt => prompt.includes('Private Venue')));
+  assert.equal((await repository.getByIds(OTHER_USER, ['lead-4']))[0].status, 'new');
+  console.log("✓ other users' leads are left alone");
+
+  // Without a user the workflow refuses to run
+  const anonymous = await workflowManager.executeWorkflow('lead-enrichment', { leadIds: ['lead-1'] });
+  assert.equal(anonymous.success, false);
+  assert.match(anonymous.error, /Authentication required/);
+  console.log('✓ enrichment requires a user');
+
+  // The batch endpoint requires a session, and the repository returns leads in the order asked
+  const response = await POST(new Request('http://localhost/api/leads/batch', {
+    method: 'POST',
+    body: JSON.stringify({ leadIds: ['lead-1'] }),
+  }) as any);
+  assert.equal(response.status, 401);
+  const ordered = await leads.getLeadsByIds(USER_ID, ['lead-3', 'lead-4', 'lead-1', 'lead-3']);
+  assert.deepEqual(ordered.map(lead => lead.id), ['lead-3', 'lead-1']);
+  console.log('✓ leads are fetched by id for their owner only');
+}
+
+run()
+  .then(() => console.log('\nAll lead enrichment workflow tests passed'))
+  .catch(error => {
+    console.error('Lead enrichment workflow tests failed:', error);
+    process.exit(1);
+  });